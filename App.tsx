@@ -1,257 +1,577 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Upload, Truck as TruckIcon, Printer, AlertTriangle, FileText, RefreshCw, Download, X, CheckCircle } from 'lucide-react';
-import { Truck, WeighingTicket, ParsingResult } from './types';
-import { parseInvoiceXml } from './services/xmlService';
-import { fetchTrucks, saveTicket } from './services/mockFirestore';
+import React, { useState, useEffect } from 'react';
+import { Truck as TruckIcon, Printer, AlertTriangle, FileText, RefreshCw, Download, X, CheckCircle, LogIn, LogOut, ShieldCheck, QrCode, Settings, AlertOctagon, ClipboardList, History, BarChart3, Lock } from 'lucide-react';
+import { Truck, WeighingTicket, ParsingResult, ScaleReading, ImportQueueItem, TareMeasurement, TicketLayoutId, SupervisorApproval, UserSession } from './types';
+import { parseInvoiceXml, extractXmlFiles } from './services/xmlService';
+import { describeSelectionReason, selectTruckForInvoice } from './services/vehicleSelection';
+import { fetchTrucks, saveTicket, fetchOpenTickets, fetchTareHistory, saveTareMeasurement, createTareMeasurementId, fetchActiveTicketsForDocument, releaseTicket } from './services/mockFirestore';
 import { TicketTemplate } from './components/TicketTemplate';
+import { ScalePanel } from './components/ScalePanel';
+import { YardQueue } from './components/YardQueue';
+import { AuditLogView } from './components/AuditLogView';
+import { VerifyTicketView } from './components/VerifyTicketView';
+import { FiscalDocumentSummary } from './components/FiscalDocumentSummary';
+import { ImportQueue } from './components/ImportQueue';
+import { WeightValidationPanel } from './components/WeightValidationPanel';
+import { AxleWeightsInput, parseAxleWeights } from './components/AxleWeightsInput';
+import { SettingsView } from './components/SettingsView';
+import { FleetRegistry } from './components/FleetRegistry';
+import { TicketHistory } from './components/TicketHistory';
+import { OperationsDashboard } from './components/OperationsDashboard';
+import { VehiclePicker } from './components/VehiclePicker';
+import { DocumentPlates } from './components/DocumentPlates';
+import { SupervisorApprovalForm } from './components/SupervisorApprovalForm';
+import { validateWeights, isTicketReleasable, loadValidationSettings } from './services/weightValidation';
+import { appendAuditEntry } from './services/auditService';
+import { signTicket } from './services/signatureService';
+import { getTareStatus, canUseStoredTare, keepsTareHistory, loadTareSettings } from './services/tareHistory';
+import { TareStatusBadge } from './components/TareHistoryPanel';
+import { SyncIndicator } from './components/SyncPanel';
+import { UnwrittenAuditIndicator } from './components/AuditLogView';
+import { startSyncEngine } from './services/syncService';
+import { getActiveSite } from './services/siteSettings';
+import { TicketLayout, resolveTicketLayout } from './services/ticketLayouts';
+import { TicketLayoutSelect } from './components/TicketLayoutSelect';
+import { EscPosDumpView } from './components/EscPosDumpView';
+import { encodeTicketEscPos } from './services/escPos';
+import { downloadBytes, loadPrinterSettings, sendEscPos, usesEscPos } from './services/printerService';
+import { buildTicketsPdf, ticketPdfFilename } from './services/ticketPdf';
+import { formatPlate, isValidPlate } from './services/plates';
+import { LoginScreen } from './components/LoginScreen';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n } from './components/I18nProvider';
+import { describeError } from './services/i18n';
+import { MessageKey } from './locales/pt-BR';
+import { ROLE_LABELS, loadAuthSettings } from './services/authService';
+import { endSession, getSession, getSessionUser, isSessionIdle, updateSession } from './services/session';
+
+type AppView = 'weighing' | 'dashboard' | 'history' | 'fleet' | 'verify' | 'audit' | 'settings';
+
+const NAV_ITEMS: { view: AppView; label: MessageKey; icon: React.FC<{ className?: string }> }[] = [
+  { view: 'weighing', label: 'nav.weighing', icon: TruckIcon },
+  { view: 'dashboard', label: 'nav.dashboard', icon: BarChart3 },
+  { view: 'history', label: 'nav.history', icon: History },
+  { view: 'fleet', label: 'nav.fleet', icon: ClipboardList },
+  { view: 'verify', label: 'nav.verify', icon: QrCode },
+  { view: 'audit', label: 'nav.audit', icon: ShieldCheck },
+  { view: 'settings', label: 'nav.settings', icon: Settings },
+];
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'wheel'] as const;
+const ACTIVITY_WRITE_INTERVAL_MS = 15000;
 
 const App: React.FC = () => {
+  const i18n = useI18n();
+  const { t, formatKg, formatDate } = i18n;
+
   // --- State Management ---
+  const [session, setSession] = useState<UserSession | null>(getSession);
+  const [activeView, setActiveView] = useState<AppView>('weighing');
   const [trucks, setTrucks] = useState<Truck[]>([]);
   const [loadingTrucks, setLoadingTrucks] = useState(true);
+  const [tareHistory, setTareHistory] = useState<TareMeasurement[]>([]);
   
   // Data Input State
   const [selectedTruckId, setSelectedTruckId] = useState<string>('');
+  const [axleWeights, setAxleWeights] = useState<string[]>([]);
   const [invoiceData, setInvoiceData] = useState<ParsingResult | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [capturedReading, setCapturedReading] = useState<ScaleReading | null>(null);
+  // Active tickets already issued for the loaded document; another one needs a supervisor
+  const [duplicateTickets, setDuplicateTickets] = useState<WeighingTicket[]>([]);
+  const [duplicateApproval, setDuplicateApproval] = useState<SupervisorApproval | null>(null);
+
+  // Import Queue State (documents waiting to be weighed)
+  const [importQueue, setImportQueue] = useState<ImportQueueItem[]>([]);
+  const [activeImportId, setActiveImportId] = useState<string | null>(null);
   
+  // Yard State (trucks between entry and exit weighing)
+  const [openTickets, setOpenTickets] = useState<WeighingTicket[]>([]);
+  const [exitTicketId, setExitTicketId] = useState<string | null>(null);
+
   // Process State
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastPrintedTicket, setLastPrintedTicket] = useState<WeighingTicket | null>(null);
   const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
-
-  // File Input Ref
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [reprintTicket, setReprintTicket] = useState<{ ticket: WeighingTicket; layoutId: TicketLayoutId } | null>(null);
+  const [layoutId, setLayoutId] = useState<TicketLayoutId | null>(null); // Chosen in the preview; null = site default
+  const [escPosDump, setEscPosDump] = useState<{ bytes: Uint8Array; filename: string } | null>(null);
+  const activeSite = getActiveSite();
 
   // --- Effects ---
   useEffect(() => {
     // Load truck configuration on mount
-    const loadData = async () => {
-      try {
-        const data = await fetchTrucks();
-        setTrucks(data);
-      } catch (err) {
-        console.error("Failed to load trucks", err);
-      } finally {
-        setLoadingTrucks(false);
-      }
-    };
-    loadData();
+    refreshTrucks().finally(() => setLoadingTrucks(false));
+    refreshTareHistory();
+    refreshOpenTickets();
   }, []);
 
+  // Axle weights belong to the vehicle on the scale
+  useEffect(() => setAxleWeights([]), [selectedTruckId]);
+
+  // Offline-first: local writes are queued and exchanged with the central server in the background
+  useEffect(() => startSyncEngine(entities => {
+    if (entities.includes('truck')) refreshTrucks();
+    if (entities.includes('tare')) refreshTareHistory();
+    if (entities.includes('ticket')) refreshOpenTickets();
+  }), []);
+
+  // Locks the session after inactivity; activity is written back at most every 15 s
+  useEffect(() => {
+    if (!session || session.locked) return;
+    let storedActivity = session.lastActivityAt;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - storedActivity < ACTIVITY_WRITE_INTERVAL_MS) return;
+      storedActivity = now;
+      updateSession({ lastActivityAt: now });
+    };
+    const checkIdle = () => {
+      const current = getSession();
+      if (current && isSessionIdle(current, loadAuthSettings().lockAfterMinutes)) setSession(updateSession({ locked: true }));
+    };
+    checkIdle();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const timer = window.setInterval(checkIdle, ACTIVITY_WRITE_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      window.clearInterval(timer);
+    };
+  }, [session]);
+
+  useEffect(() => {
+    setDuplicateApproval(null);
+    setDuplicateTickets([]);
+    if (!invoiceData?.invoiceId || invoiceData.errors) return;
+    let cancelled = false;
+    fetchActiveTicketsForDocument(invoiceData.invoiceId, invoiceData.document?.accessKey ?? undefined)
+      .then(tickets => { if (!cancelled) setDuplicateTickets(tickets); })
+      .catch(err => console.error("Failed to look up tickets for the document", err));
+    return () => { cancelled = true; };
+  }, [invoiceData]);
+
+  // A copy requested from the history screen is printed once the print template has rendered it
+  useEffect(() => {
+    if (!reprintTicket) return;
+    printTicket(reprintTicket.ticket, resolveTicketLayout(reprintTicket.ticket, reprintTicket.layoutId));
+    setReprintTicket(null);
+  }, [reprintTicket]);
+
+  // Thermal tickets go out as raw ESC/POS when a printer connection is configured;
+  // everything else uses the browser's print dialog on the hidden template
+  const printTicket = async (ticket: WeighingTicket, layout: TicketLayout) => {
+    const printerSettings = loadPrinterSettings();
+    if (!usesEscPos(layout, printerSettings)) {
+      window.print();
+      return;
+    }
+    const bytes = encodeTicketEscPos(ticket, printerSettings.columns);
+    if (printerSettings.connection === 'dump') {
+      setEscPosDump({ bytes, filename: `Ticket-${ticket.id || 'New'}.bin` });
+      return;
+    }
+    try {
+      await sendEscPos(bytes, printerSettings);
+    } catch (err) {
+      alert(t('app.printFailed', { error: describeError(i18n, err) }));
+    }
+  };
+
+  const refreshTareHistory = async () => {
+    try {
+      setTareHistory(await fetchTareHistory());
+    } catch (err) {
+      console.error("Failed to load tare history", err);
+    }
+  };
+
+  const refreshTrucks = async () => {
+    try {
+      setTrucks(await fetchTrucks());
+    } catch (err) {
+      console.error("Failed to load trucks", err);
+    }
+  };
+
+  const refreshOpenTickets = async () => {
+    try {
+      setOpenTickets(await fetchOpenTickets());
+    } catch (err) {
+      console.error("Failed to load open tickets", err);
+    }
+  };
+
   // --- Derived State (Calculations) ---
   const selectedTruck = trucks.find(t => t.truckId === selectedTruckId);
   
-  // Display theoretical gross weight (exact match) in the UI before printing
-  const grossWeight = (invoiceData?.netWeight || 0) + (selectedTruck?.tareWeight || 0);
+  const exitTicket = openTickets.find(t => t.id === exitTicketId) || null;
+  // The operator picked another vehicle than the plate match or classification rule did
+  const activeImportItem = importQueue.find(item => item.id === activeImportId);
+  const isManualSelection = !!activeImportItem && !!selectedTruckId && selectedTruckId !== (activeImportItem.matchedTruckId ?? '');
   
-  const canIssue = !!selectedTruck && !!invoiceData?.invoiceId && !invoiceData.error;
+  const canRegisterEntry = !exitTicket && !!selectedTruck && !!invoiceData?.invoiceId && !invoiceData.errors && !!capturedReading?.stable &&
+    (duplicateTickets.length === 0 || !!duplicateApproval);
+  // The exit (tare) weighing must be lighter than the entry (gross) weighing
+  const exitNetWeight = exitTicket && capturedReading ? exitTicket.grossWeightCalculated - capturedReading.weight : null;
+  const canRegisterExit = !!exitTicket && !!capturedReading?.stable && exitNetWeight !== null && exitNetWeight > 0;
+
+  // Weight limits for the entry weighing being prepared
+  const axleGroupWeights = parseAxleWeights(axleWeights);
+  const entryValidation = selectedTruck && capturedReading
+    ? validateWeights(capturedReading.weight, selectedTruck, undefined, axleGroupWeights)
+    : null;
+
+  // Stored tare of the selected truck; a valid one lets the ticket close without an exit weighing
+  const selectedTareStatus = selectedTruck && keepsTareHistory(selectedTruck) ? getTareStatus(tareHistory, selectedTruck.truckId) : null;
+  const storedTareNet = selectedTareStatus?.measurement && capturedReading ? capturedReading.weight - selectedTareStatus.measurement.weight : null;
+  const canCloseWithStoredTare = canRegisterEntry && !!selectedTareStatus && canUseStoredTare(selectedTareStatus) && storedTareNet !== null && storedTareNet > 0;
+  const isLastTicketBlocked = lastPrintedTicket?.ticketStatus === 'Over-Capacity';
+  // Preview, browser printing and PDF export all use the same layout
+  const printLayout = resolveTicketLayout(lastPrintedTicket, layoutId);
 
   // --- Handlers ---
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const updateImportItem = (itemId: string, patch: Partial<ImportQueueItem>) => {
+    setImportQueue(queue => queue.map(item => (item.id === itemId ? { ...item, ...patch } : item)));
+  };
 
+  const loadImportItem = (item: ImportQueueItem) => {
+    if (!item.result) return;
+    setInvoiceData(item.result);
+    setSelectedTruckId(item.matchedTruckId || '');
+    setActiveImportId(item.id);
+    setCapturedReading(null);
+    const reason = item.matchReason ? describeSelectionReason(i18n, item.matchReason) : null;
+    setFeedbackMessage(item.matchedTruckId ? t('weighing.autoSelected', { reason: reason ?? '' }) : reason);
+  };
+
+  const handleFilesAdded = async (files: File[]) => {
     setUploadError(null);
-    setInvoiceData(null); // Reset previous data
-    
-    // Simulate reading UI delay for better UX
     setIsProcessing(true);
-    
-    try {
-      const result = await parseInvoiceXml(file);
-      if (result.error) {
-        setUploadError(result.error);
-      } else {
-        setInvoiceData(result);
 
-        // --- Automatic Vehicle Selection Logic ---
-        if (result.netWeight !== null) {
-          let targetPlate = '';
-          
-          if (result.netWeight <= 15000) {
-            targetPlate = 'TRUCK'; // Should match plateNumber in constants
-          } else {
-            targetPlate = 'CARRETA'; // Should match plateNumber in constants
-          }
-
-          // Find the truck in the loaded list
-          const autoSelectedTruck = trucks.find(t => t.plateNumber === targetPlate);
-          
-          if (autoSelectedTruck) {
-            setSelectedTruckId(autoSelectedTruck.truckId);
-            setFeedbackMessage(`Veículo selecionado automaticamente: ${targetPlate} (Baseado no peso ${result.netWeight}kg)`);
-          } else {
-            // Fallback if specific truck not found
-            setFeedbackMessage(`Não foi possível selecionar automaticamente o veículo para a categoria de peso.`);
-          }
-        }
+    try {
+      const uploaded = await extractXmlFiles(files);
+      const batchId = Date.now();
+      const newItems: ImportQueueItem[] = uploaded.map((u, index) => ({
+        id: `${batchId}-${index}`,
+        fileName: u.fileName,
+        archiveName: u.archiveName,
+        status: u.error ? 'error' : 'pending',
+        result: u.error ? { invoiceId: null, netWeight: null, errors: [u.error] } : undefined,
+      }));
+      setImportQueue(queue => [...queue, ...newItems]);
+
+      // Parse one file at a time so the queue reflects progress
+      let firstReady: ImportQueueItem | null = null;
+      for (let i = 0; i < uploaded.length; i++) {
+        const file = uploaded[i].file;
+        if (!file) continue;
+
+        const result = await parseInvoiceXml(file);
+        const selection = result.errors ? null : selectTruckForInvoice(result, trucks);
+        const parsedItem: ImportQueueItem = {
+          ...newItems[i],
+          status: result.errors ? 'error' : 'ready',
+          result,
+          matchedTruckId: selection?.truck?.truckId ?? null,
+          matchReason: selection?.reason,
+        };
+        updateImportItem(parsedItem.id, parsedItem);
+        if (!firstReady && parsedItem.status === 'ready') firstReady = parsedItem;
       }
+
+      // Nothing in progress: start with the first document of this batch
+      if (firstReady && !activeImportId) loadImportItem(firstReady);
     } catch (err) {
-      setUploadError("Erro inesperado ao ler o arquivo.");
+      setUploadError(t('weighing.unexpectedReadError'));
     } finally {
       setIsProcessing(false);
-      // Reset file input so same file can be selected again if needed
-      if(fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
-  const handleIssueTicket = async () => {
-    if (!canIssue || !selectedTruck || !invoiceData?.invoiceId || invoiceData.netWeight === null) return;
+  const handleRemoveImportItem = (itemId: string) => {
+    setImportQueue(queue => queue.filter(item => item.id !== itemId));
+    if (itemId === activeImportId) {
+      setActiveImportId(null);
+      setInvoiceData(null);
+      setSelectedTruckId('');
+      setFeedbackMessage(null);
+    }
+  };
+
+  const handleRegisterEntry = async (closeWithStoredTare = false) => {
+    if (!canRegisterEntry || !selectedTruck || !invoiceData?.invoiceId || invoiceData.netWeight === null || !capturedReading) return;
+    const storedTare = selectedTareStatus?.measurement;
+    if (closeWithStoredTare && (!canCloseWithStoredTare || !storedTare)) return;
 
     setIsProcessing(true);
     setFeedbackMessage(null);
 
-    // --- Date & Time Calculation ---
-    // Rule 1: Use Date from Filename if available (Exact date).
-    // Rule 2: If no filename date, use XML Date + 1 Day.
-    
-    let ticketDate = new Date(); // Fallback to now if dates are missing
-
-    if (invoiceData.filenameDate) {
-        const fileDate = new Date(invoiceData.filenameDate);
-        if (!isNaN(fileDate.getTime())) {
-            ticketDate = fileDate;
-            // Add +1 day to filename date as requested
-            ticketDate.setDate(ticketDate.getDate() + 1);
-        }
-    } else if (invoiceData.invoiceDate) {
-      const xmlDate = new Date(invoiceData.invoiceDate);
-      if (!isNaN(xmlDate.getTime())) {
-        ticketDate = xmlDate;
-        // Add 1 day to the document date if derived from XML content
-        ticketDate.setDate(ticketDate.getDate() + 1);
-      }
-    }
-
-    // Calculate Random Time
-    // Start: 07:12:50
-    const startHour = 7;
-    const startMinute = 12;
-    const startSecond = 50;
-    const startTotalSeconds = startHour * 3600 + startMinute * 60 + startSecond; // 25970
-
-    // End: 15:45:50
-    const endHour = 15;
-    const endMinute = 45;
-    const endSecond = 50;
-    const endTotalSeconds = endHour * 3600 + endMinute * 60 + endSecond; // 56750
-
-    // Generate random seconds within range
-    const randomSeconds = Math.floor(Math.random() * (endTotalSeconds - startTotalSeconds + 1)) + startTotalSeconds;
-
-    // Convert back to HMS
-    const h = Math.floor(randomSeconds / 3600);
-    const m = Math.floor((randomSeconds % 3600) / 60);
-    const s = randomSeconds % 60;
-
-    // Set the random time on the ticket date object
-    ticketDate.setHours(h, m, s, 0);
-    
-    const issueTimestamp = ticketDate.getTime();
-
-    // --- Random Weight Variation Logic ---
-    // Rule: Apply +/- 0.2% variation to Net Weight, but capped at +/- 20kg.
-    
-    // 1. Calculate random percentage factor between 0.998 (-0.2%) and 1.002 (+0.2%)
-    const variationFactor = 0.998 + (Math.random() * 0.004);
-    
-    // 2. Calculate the potential delta based on percentage
-    const rawDelta = (invoiceData.netWeight * variationFactor) - invoiceData.netWeight;
-    
-    // 3. Clamp the delta to +/- 20kg
-    const clampedDelta = Math.max(-20, Math.min(20, rawDelta));
-
-    // 4. Calculate simulated measured net weight
-    const simulatedMeasuredNetWeight = invoiceData.netWeight + clampedDelta;
-    
-    // Calculate Final Gross Weight = Simulated Measured Net + Tare
-    // Round to nearest integer for realistic scale display
-    const randomizedGrossWeight = Math.round(simulatedMeasuredNetWeight + selectedTruck.tareWeight);
-
+    // First weighing: gross weight and timestamp come from the reading captured on the scale.
+    // The stored tare is kept as a reference until the truck is weighed again on exit.
     const newTicket: WeighingTicket = {
       invoiceId: invoiceData.invoiceId,
       netWeightInvoice: invoiceData.netWeight,
       truckId: selectedTruck.truckId,
-      // Prefer the plate extracted from XML, otherwise fallback to the generic truck plate
-      truckPlateNumber: invoiceData.extractedPlate || selectedTruck.plateNumber,
-      truckTareWeight: selectedTruck.tareWeight,
-      grossWeightCalculated: randomizedGrossWeight, 
-      issueTimestamp: issueTimestamp,
+      // A registered plate is used as is; generic fleet entries have no real plate, so the tractor
+      // plate read from the document identifies the vehicle, falling back to the entry's placeholder
+      truckPlateNumber: isValidPlate(selectedTruck.plateNumber)
+        ? formatPlate(selectedTruck.plateNumber)
+        : invoiceData.extractedPlate ? formatPlate(invoiceData.extractedPlate) : selectedTruck.plateNumber,
+      productName: invoiceData.document?.predominantProduct ?? undefined,
+      carrierName: selectedTruck.carrierName ?? '',
+      accessKey: invoiceData.document?.accessKey ?? undefined,
+      truckTareWeight: storedTare?.weight ?? selectedTruck.tareWeight,
+      tareMeasurementId: storedTare?.id,
+      grossWeightCalculated: capturedReading.weight,
+      issueTimestamp: capturedReading.capturedAt,
+      ticketStatus: 'AwaitingExit',
+      entryReading: capturedReading,
+      entryTimestamp: capturedReading.capturedAt,
+      weightValidation: validateWeights(capturedReading.weight, selectedTruck, undefined, axleGroupWeights),
+      axleGroupWeights,
+      issuedBy: getSessionUser() ?? undefined,
+    };
+    if (duplicateApproval) {
+      const { supervisorName, supervisorId, reason, timestamp } = duplicateApproval;
+      newTicket.duplicateOverride = { supervisorName, supervisorId, reason, timestamp };
+    }
+
+    // Single weighing: the stored tare closes the ticket right away
+    if (closeWithStoredTare && storedTareNet !== null) {
+      newTicket.netWeightMeasured = storedTareNet;
+      newTicket.ticketStatus = isTicketReleasable(newTicket) ? 'Printed' : 'Over-Capacity';
+    }
+
+    try {
+      // The signature covers the ticket number, so the service signs after numbering
+      const savedTicket = await saveTicket(newTicket, closeWithStoredTare ? signTicket : undefined);
+      setCapturedReading(null);
+      setInvoiceData(null);
+      setSelectedTruckId('');
+      setActiveImportId(null);
+      await refreshOpenTickets();
+
+      // Mark the queued document as done and move on to the next one
+      const nextItem = importQueue.find(item => item.status === 'ready' && item.id !== activeImportId);
+      if (activeImportId) updateImportItem(activeImportId, { status: 'processed', ticketId: savedTicket.id });
+      if (nextItem) loadImportItem(nextItem);
+
+      if (closeWithStoredTare) {
+        setLastPrintedTicket(savedTicket);
+        setShowPreviewModal(true);
+        setFeedbackMessage(savedTicket.ticketStatus === 'Over-Capacity'
+          ? t('weighing.ticketOverweight')
+          : t('weighing.ticketIssuedWithStoredTare', { id: savedTicket.id }));
+      } else {
+        setFeedbackMessage(t('weighing.entryRegistered', { plate: savedTicket.truckPlateNumber, id: savedTicket.id }));
+      }
+    } catch (err) {
+      console.error(err);
+      setFeedbackMessage(t('weighing.saveFailed', { error: describeError(i18n, err) }));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRegisterExit = async () => {
+    if (!canRegisterExit || !exitTicket || !capturedReading || exitNetWeight === null) return;
+
+    setIsProcessing(true);
+    setFeedbackMessage(null);
+
+    // Second weighing closes the ticket: the exit reading is the actual tare
+    const closedTicket: WeighingTicket = {
+      ...exitTicket,
+      truckTareWeight: capturedReading.weight,
+      netWeightMeasured: exitNetWeight,
+      exitReading: capturedReading,
+      exitTimestamp: capturedReading.capturedAt,
+      issueTimestamp: capturedReading.capturedAt,
       ticketStatus: 'Printed'
     };
+    // Weight violations hold the ticket back from printing unless the policy allows it
+    if (!isTicketReleasable(closedTicket)) {
+      closedTicket.ticketStatus = 'Over-Capacity';
+    }
 
     try {
-      const savedTicket = await saveTicket(newTicket);
+      // The exit weighing is a fresh tare measurement for the vehicle's history. The ticket is
+      // stored first, so a failed save leaves no measurement behind.
+      const exitTruck = trucks.find(truck => truck.truckId === exitTicket.truckId);
+      const tareMeasurementId = exitTruck && keepsTareHistory(exitTruck) ? createTareMeasurementId() : undefined;
+      if (tareMeasurementId) closedTicket.tareMeasurementId = tareMeasurementId;
+      const savedTicket = await saveTicket(closedTicket, signTicket);
       setLastPrintedTicket(savedTicket);
       setShowPreviewModal(true); // Open modal instead of printing directly
-      setFeedbackMessage("Ticket gerado com sucesso.");
+      setFeedbackMessage(savedTicket.ticketStatus === 'Over-Capacity'
+        ? t('weighing.ticketOverweight')
+        : t('weighing.ticketGenerated'));
+      setCapturedReading(null);
+      setExitTicketId(null);
+      if (tareMeasurementId) {
+        try {
+          await saveTareMeasurement({
+            id: tareMeasurementId,
+            truckId: exitTicket.truckId,
+            plateNumber: exitTicket.truckPlateNumber,
+            weight: capturedReading.weight,
+            measuredAt: capturedReading.capturedAt,
+            source: 'exit-weighing',
+            ticketId: exitTicket.id,
+            reading: capturedReading,
+          });
+        } catch (err) {
+          console.error(err);
+          setFeedbackMessage(t('weighing.tareSaveFailed', { id: savedTicket.id ?? '', error: describeError(i18n, err) }));
+        }
+      }
+      await Promise.all([refreshOpenTickets(), refreshTareHistory(), refreshTrucks()]);
     } catch (err) {
       console.error(err);
-      setFeedbackMessage("Erro ao salvar ticket no banco de dados.");
+      setFeedbackMessage(t('weighing.saveFailed', { error: describeError(i18n, err) }));
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const handlePrint = () => {
-    window.print();
+  const handleOverride = async ({ supervisorId, supervisorName, reason, timestamp }: SupervisorApproval) => {
+    if (!lastPrintedTicket?.id) return;
+
+    try {
+      const savedTicket = await releaseTicket(lastPrintedTicket.id, { supervisorName, supervisorId, reason, timestamp });
+      setLastPrintedTicket(savedTicket);
+      setFeedbackMessage(t('weighing.ticketReleased', { id: savedTicket.id, name: supervisorName }));
+    } catch (err) {
+      console.error(err);
+      setFeedbackMessage(t('weighing.saveFailed', { error: describeError(i18n, err) }));
+    }
   };
 
-  const handleDownloadPdf = () => {
-    const element = document.getElementById('ticket-preview');
-    if (!element) return;
-    
-    // @ts-ignore
-    if (window.html2pdf) {
-        const opt = {
-            margin: 0,
-            filename: `Ticket-${lastPrintedTicket?.id || 'New'}.pdf`,
-            image: { type: 'jpeg', quality: 0.98 },
-            html2canvas: { scale: 3, useCORS: true },
-            jsPDF: { unit: 'mm', format: [80, 160], orientation: 'portrait' }
-        };
-        // @ts-ignore
-        window.html2pdf().from(element).set(opt).save();
-    } else {
-        alert("Biblioteca de PDF não carregada. Tente imprimir e 'Salvar como PDF'.");
+  // A print or export that cannot be logged is not carried out
+  const handlePrint = async () => {
+    if (isLastTicketBlocked || !lastPrintedTicket) return;
+    try {
+      if (lastPrintedTicket.id) {
+        await appendAuditEntry('printed', lastPrintedTicket.id, 'Ticket impresso');
+      }
+    } catch (err) {
+      console.error(err);
+      alert(t('app.auditFailed', { error: describeError(i18n, err) }));
+      return;
+    }
+    printTicket(lastPrintedTicket, printLayout);
+  };
+
+  const handleDownloadPdf = async () => {
+    if (isLastTicketBlocked || !lastPrintedTicket) return;
+    try {
+      const pdf = await buildTicketsPdf([lastPrintedTicket], { layoutId: printLayout.id });
+      if (lastPrintedTicket.id) {
+        try {
+          await appendAuditEntry('printed', lastPrintedTicket.id, 'Ticket exportado em PDF');
+        } catch (err) {
+          console.error(err);
+          alert(t('app.auditFailed', { error: describeError(i18n, err) }));
+          return;
+        }
+      }
+      downloadBytes(pdf, ticketPdfFilename(lastPrintedTicket), 'application/pdf');
+    } catch (err) {
+      alert(t('app.pdfFailed', { error: describeError(i18n, err) }));
     }
   };
 
+  const handleLock = () => setSession(updateSession({ locked: true }));
+
+  const handleLogout = () => {
+    endSession();
+    setSession(null);
+    handleReset();
+  };
+
   const handleReset = () => {
     setInvoiceData(null);
     setSelectedTruckId('');
     setUploadError(null);
+    setCapturedReading(null);
+    setExitTicketId(null);
+    setImportQueue([]);
+    setActiveImportId(null);
     setFeedbackMessage(null);
     setLastPrintedTicket(null);
+    setLayoutId(null);
     setShowPreviewModal(false);
   };
 
+  if (!session || session.locked) {
+    return <LoginScreen session={session} onAuthenticated={setSession} />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 font-sans">
       {/* Hidden Print Template - Used when window.print() is called */}
-      <TicketTemplate data={lastPrintedTicket} isPreview={false} />
+      {reprintTicket ? (
+        <TicketTemplate data={reprintTicket.ticket} layout={resolveTicketLayout(reprintTicket.ticket, reprintTicket.layoutId)} isPreview={false} />
+      ) : (
+        <TicketTemplate data={isLastTicketBlocked ? null : lastPrintedTicket} layout={printLayout} isPreview={false} />
+      )}
 
       {/* Main Header */}
       <header className="bg-slate-900 text-white p-4 shadow-lg print:hidden">
         <div className="max-w-3xl mx-auto flex items-center justify-between">
           <div className="flex items-center space-x-3">
             <TruckIcon className="w-8 h-8 text-blue-400" />
-            <h1 className="text-2xl font-bold tracking-tight">ScaleTicket Pro</h1>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight">ScaleTicket Pro</h1>
+              <p className="text-xs text-slate-400">{activeSite.tradeName || activeSite.legalName} · {session.name} ({t(ROLE_LABELS[session.role])})</p>
+            </div>
           </div>
-          <button 
-            onClick={handleReset}
-            className="flex items-center space-x-2 text-sm bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded transition-colors"
-          >
-            <RefreshCw className="w-4 h-4" />
-            <span>Nova Sessão</span>
-          </button>
+          <nav className="flex items-center space-x-2">
+            <UnwrittenAuditIndicator />
+            <SyncIndicator onClick={() => setActiveView('settings')} />
+            {NAV_ITEMS.map(({ view, label, icon: Icon }) => (
+            <button 
+              key={view}
+              onClick={() => setActiveView(view)}
+              className={`flex items-center space-x-2 text-sm px-3 py-2 rounded transition-colors ${activeView === view ? 'bg-blue-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+            >
+              <Icon className="w-4 h-4" />
+              <span>{t(label)}</span>
+            </button>
+            ))}
+            <button 
+              onClick={handleReset}
+              className="flex items-center space-x-2 text-sm bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>{t('app.newSession')}</span>
+            </button>
+            <LanguageSwitcher />
+            <button onClick={handleLock} title={t('app.lock')} className="flex items-center text-sm bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded transition-colors">
+              <Lock className="w-4 h-4" />
+            </button>
+            <button onClick={handleLogout} title={t('app.logout')} className="flex items-center text-sm bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded transition-colors">
+              <LogOut className="w-4 h-4" />
+            </button>
+          </nav>
         </div>
       </header>
 
       <main className="flex-grow p-4 md:p-8 max-w-3xl mx-auto w-full print:hidden space-y-6">
-        
+        {activeView === 'settings' ? (
+          <SettingsView />
+        ) : activeView === 'dashboard' ? (
+          <OperationsDashboard trucks={trucks} />
+        ) : activeView === 'history' ? (
+          <TicketHistory trucks={trucks} onPrint={(ticket, layoutId) => setReprintTicket({ ticket, layoutId })} />
+        ) : activeView === 'fleet' ? (
+          <FleetRegistry trucks={trucks} onChange={() => { refreshTrucks(); refreshTareHistory(); }} />
+        ) : activeView === 'audit' ? (
+          <AuditLogView />
+        ) : activeView === 'verify' ? (
+          <VerifyTicketView />
+        ) : (
+        <>
         {/* DATA INPUT SECTION */}
         <div className="space-y-6">
           
@@ -259,24 +579,21 @@ const App: React.FC = () => {
           <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
             <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
               <FileText className="w-5 h-5 mr-2 text-blue-600" />
-              Dados da Nota Fiscal
+              {t('weighing.invoiceData')}
             </h2>
             
-            <div className="relative border-2 border-dashed border-slate-300 rounded-lg p-6 hover:bg-slate-50 transition-colors text-center group cursor-pointer"
-                 onClick={() => fileInputRef.current?.click()}>
-              <input 
-                type="file" 
-                ref={fileInputRef}
-                onChange={handleFileUpload} 
-                accept=".xml" 
-                className="hidden" 
-              />
-              <div className="flex flex-col items-center">
-                <Upload className="w-10 h-10 text-slate-400 group-hover:text-blue-500 mb-2 transition-colors" />
-                <span className="text-sm font-medium text-slate-600">Clique para Enviar XML</span>
-                <span className="text-xs text-slate-400 mt-1">Suporta formato padrão de NFe/CTe</span>
-              </div>
-            </div>
+            <ImportQueue
+              items={importQueue}
+              activeItemId={activeImportId}
+              trucks={trucks}
+              onFilesAdded={handleFilesAdded}
+              onLoad={itemId => {
+                const item = importQueue.find(i => i.id === itemId);
+                if (item) loadImportItem(item);
+              }}
+              onRemove={handleRemoveImportItem}
+              onClearProcessed={() => setImportQueue(queue => queue.filter(item => item.status !== 'processed'))}
+            />
 
             {/* Error Message */}
             {uploadError && (
@@ -290,46 +607,113 @@ const App: React.FC = () => {
             {invoiceData?.invoiceId && (
               <div className="mt-6 space-y-3 bg-blue-50 p-4 rounded-lg border border-blue-100">
                 <div className="flex justify-between text-sm">
-                  <span className="text-slate-500">Número da Nota/CTe</span>
+                  <span className="text-slate-500">{t('weighing.documentNumber')}</span>
                   <span className="font-mono font-bold text-slate-800">{invoiceData.invoiceId}</span>
                 </div>
                 <div className="flex justify-between text-sm">
-                  <span className="text-slate-500">Peso Líquido (Carga)</span>
-                  <span className="font-mono font-bold text-slate-800">{invoiceData.netWeight?.toLocaleString()} kg</span>
+                  <span className="text-slate-500">{t('weighing.cargoNetWeight')}</span>
+                  <span className="font-mono font-bold text-slate-800">{invoiceData.netWeight !== null ? formatKg(invoiceData.netWeight) : '—'}</span>
                 </div>
-                {/* Visual confirmation of extracted plate if available */}
-                {invoiceData.extractedPlate && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-slate-500">Placa Detectada (XML)</span>
-                    <span className="font-mono font-bold text-slate-800">{invoiceData.extractedPlate}</span>
-                  </div>
+                {/* Plates from the document, checked against the fleet and the vehicle on the scale */}
+                {invoiceData.documentPlates && (
+                  <DocumentPlates plates={invoiceData.documentPlates} trucks={trucks} selectedTruck={selectedTruck} />
                 )}
                 {/* Visual confirmation of filename date */}
                 {invoiceData.filenameDate && (
                   <div className="flex justify-between text-sm">
-                    <span className="text-slate-500">Data Detectada (Nome do Arquivo)</span>
-                    <span className="font-mono font-bold text-green-700">{new Date(invoiceData.filenameDate).toLocaleDateString()}</span>
+                    <span className="text-slate-500">{t('weighing.filenameDate')}</span>
+                    <span className="font-mono font-bold text-green-700">{formatDate(new Date(invoiceData.filenameDate).getTime())}</span>
                   </div>
                 )}
-                {/* Visual confirmation of auto-selected truck */}
+                {/* Visual confirmation of the selected truck and of the plate match or rule behind it */}
                 {selectedTruck && (
-                   <div className="flex justify-between text-sm border-t border-blue-100 pt-2 mt-2">
-                    <span className="text-slate-500">Veículo Detectado</span>
-                    <span className="font-mono font-bold text-slate-800">{selectedTruck.plateNumber} (Tara: {selectedTruck.tareWeight}kg)</span>
+                  <div className="text-sm border-t border-blue-100 pt-2 mt-2">
+                    <div className="flex justify-between">
+                      <span className="text-slate-500">{t(isManualSelection ? 'weighing.vehicleManual' : 'weighing.vehicleDetected')}</span>
+                      <span className="font-mono font-bold text-slate-800">{t('weighing.vehicleTare', { plate: formatPlate(selectedTruck.plateNumber), weight: formatKg(selectedTruck.tareWeight) })}</span>
+                    </div>
+                    {activeImportItem?.matchReason && (
+                      <p className={`text-xs text-right ${isManualSelection ? 'text-amber-700' : 'text-slate-500'}`}>
+                        {isManualSelection
+                          ? t('weighing.overridesAutomatic', { reason: describeSelectionReason(i18n, activeImportItem.matchReason) })
+                          : describeSelectionReason(i18n, activeImportItem.matchReason)}
+                      </p>
+                    )}
                   </div>
                 )}
+                {invoiceData.document && (
+                  <FiscalDocumentSummary document={invoiceData.document} issues={invoiceData.issues} />
+                )}
+                {duplicateTickets.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded p-3 text-sm space-y-2">
+                    <p className="flex items-start text-red-800 font-medium">
+                      <AlertOctagon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                      {t('weighing.duplicateDocument', { tickets: duplicateTickets.map(d => d.id).join(', ') })}
+                    </p>
+                    {duplicateApproval ? (
+                      <p className="flex items-start text-slate-700">
+                        <ShieldCheck className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+                        {t('weighing.duplicateApproved', { name: duplicateApproval.supervisorName })} {duplicateApproval.reason}
+                      </p>
+                    ) : (
+                      <SupervisorApprovalForm
+                        action="duplicate-document"
+                        details={`${invoiceData.invoiceId}: ${duplicateTickets.map(d => d.id).join(', ')}`}
+                        reasonPlaceholder={t('weighing.duplicateReasonPlaceholder')}
+                        confirmLabel={t('weighing.duplicateConfirm')}
+                        confirmClassName="bg-red-600 hover:bg-red-700"
+                        onApproved={setDuplicateApproval}
+                      />
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Manual vehicle selection (overrides the automatic choice) */}
+            {invoiceData?.invoiceId && (
+              <div className="mt-4">
+                <span className="block text-sm text-slate-500 mb-1">{t('weighing.changeVehicle')}</span>
+                <VehiclePicker trucks={trucks} selectedTruckId={selectedTruckId} onSelect={setSelectedTruckId} />
               </div>
             )}
           </div>
+
+          {/* 2. Scale Reading */}
+          <ScalePanel capturedReading={capturedReading} onCapture={setCapturedReading} />
+
+          {/* 3. Trucks inside the yard */}
+          <YardQueue tickets={openTickets} selectedTicketId={exitTicketId} onSelect={setExitTicketId} />
         </div>
 
         {/* ACTIONS SECTION */}
         <div className="space-y-4 pt-2">
+            {exitTicket ? (
+            <>
+            <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-slate-500">{t('weighing.exitOf')}</span>
+                  <span className="font-mono font-bold text-slate-800">{exitTicket.truckPlateNumber} ({exitTicket.id})</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-500">{t('weighing.entryGross')}</span>
+                  <span className="font-mono font-bold text-slate-800">{formatKg(exitTicket.grossWeightCalculated)}</span>
+                </div>
+                {capturedReading && exitNetWeight !== null && (
+                  <div className="flex justify-between">
+                    <span className="text-slate-500">{t('weighing.exitNet')}</span>
+                    <span className={`font-mono font-bold ${exitNetWeight > 0 ? 'text-slate-800' : 'text-red-600'}`}>{formatKg(exitNetWeight)}</span>
+                  </div>
+                )}
+            </div>
+            {exitTicket.weightValidation && (
+              <WeightValidationPanel validation={exitTicket.weightValidation} override={exitTicket.override} />
+            )}
             <button
-            onClick={handleIssueTicket}
-            disabled={!canIssue || isProcessing}
+            onClick={handleRegisterExit}
+            disabled={!canRegisterExit || isProcessing}
             className={`w-full py-4 px-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all transform active:scale-95 ${
-                canIssue && !isProcessing
+                canRegisterExit && !isProcessing
                 ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-blue-200' 
                 : 'bg-slate-200 text-slate-400 cursor-not-allowed shadow-none'
             }`}
@@ -337,13 +721,71 @@ const App: React.FC = () => {
             {isProcessing ? (
                 <RefreshCw className="w-6 h-6 animate-spin" />
             ) : (
-                <CheckCircle className="w-6 h-6" />
+                <LogOut className="w-6 h-6" />
             )}
-            <span className="font-bold text-lg">Emitir Ticket</span>
+            <span className="font-bold text-lg">{t('weighing.registerExit')}</span>
+            </button>
+            {!capturedReading && (
+            <p className="text-xs text-center text-slate-400">{t('weighing.awaitingExitWeight')}</p>
+            )}
+            {capturedReading && exitNetWeight !== null && exitNetWeight <= 0 && (
+            <p className="text-xs text-center text-red-600">{t('weighing.exitNotLighter')}</p>
+            )}
+            </>
+            ) : (
+            <>
+            <button
+            onClick={() => handleRegisterEntry()}
+            disabled={!canRegisterEntry || isProcessing}
+            className={`w-full py-4 px-6 rounded-lg shadow-md flex items-center justify-center space-x-2 transition-all transform active:scale-95 ${
+                canRegisterEntry && !isProcessing
+                ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-blue-200' 
+                : 'bg-slate-200 text-slate-400 cursor-not-allowed shadow-none'
+            }`}
+            >
+            {isProcessing ? (
+                <RefreshCw className="w-6 h-6 animate-spin" />
+            ) : (
+                <LogIn className="w-6 h-6" />
+            )}
+            <span className="font-bold text-lg">{t('weighing.registerEntry')}</span>
             </button>
             
             {!selectedTruck && (
-            <p className="text-xs text-center text-slate-400">Aguardando arquivo XML para seleção automática de veículo</p>
+            <p className="text-xs text-center text-slate-400">{t('weighing.awaitingXml')}</p>
+            )}
+            {selectedTruck && !capturedReading && (
+            <p className="text-xs text-center text-slate-400">{t('weighing.awaitingStableWeight')}</p>
+            )}
+            {selectedTruck && selectedTareStatus && (
+            <div className="bg-white p-3 rounded-lg border border-slate-200 text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-500">
+                    {t('weighing.storedTare')} {selectedTareStatus.measurement ? formatKg(selectedTareStatus.measurement.weight) : ''}
+                  </span>
+                  <TareStatusBadge status={selectedTareStatus} />
+                </div>
+                {selectedTareStatus.expired && (
+                  <p className="text-xs text-amber-700">
+                    {t(loadTareSettings().expiredAction === 'block' ? 'weighing.tareExpiredBlock' : 'weighing.tareExpiredWarn')}
+                  </p>
+                )}
+                <button
+                  onClick={() => handleRegisterEntry(true)}
+                  disabled={!canCloseWithStoredTare || isProcessing}
+                  className="w-full py-2 px-4 rounded bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center font-medium transition-colors"
+                >
+                  <History className="w-4 h-4 mr-2" />
+                  {t('weighing.closeWithStoredTare')}
+                  {storedTareNet !== null && storedTareNet > 0 && t('weighing.storedTareNet', { weight: formatKg(storedTareNet) })}
+                </button>
+            </div>
+            )}
+            {selectedTruck?.axleConfiguration && (
+            <AxleWeightsInput configuration={selectedTruck.axleConfiguration} values={axleWeights} onChange={setAxleWeights} />
+            )}
+            {entryValidation && <WeightValidationPanel validation={entryValidation} />}
+            </>
             )}
 
             {feedbackMessage && (
@@ -352,6 +794,8 @@ const App: React.FC = () => {
             </div>
             )}
         </div>
+        </>
+        )}
       </main>
 
       {/* TICKET PREVIEW MODAL */}
@@ -362,8 +806,12 @@ const App: React.FC = () => {
             {/* Modal Header */}
             <div className="bg-white p-4 border-b border-slate-200 flex justify-between items-center">
               <h3 className="text-lg font-bold text-slate-800 flex items-center">
-                <CheckCircle className="w-5 h-5 text-green-500 mr-2" />
-                Ticket Gerado
+                {isLastTicketBlocked ? (
+                  <AlertOctagon className="w-5 h-5 text-red-500 mr-2" />
+                ) : (
+                  <CheckCircle className="w-5 h-5 text-green-500 mr-2" />
+                )}
+                {t(isLastTicketBlocked ? 'preview.blockedTitle' : 'preview.title')}
               </h3>
               <button 
                 onClick={() => setShowPreviewModal(false)}
@@ -374,37 +822,55 @@ const App: React.FC = () => {
             </div>
 
             {/* Modal Body - Scrollable */}
-            <div className="flex-grow overflow-y-auto p-6 bg-slate-200 flex justify-center">
-               <TicketTemplate data={lastPrintedTicket} isPreview={true} />
+            <div className="flex-grow overflow-auto p-6 bg-slate-200 flex flex-col [align-items:safe_center] space-y-4">
+               {lastPrintedTicket.weightValidation && lastPrintedTicket.weightValidation.violations.length > 0 && (
+                 <div className="w-full max-w-xl">
+                   <WeightValidationPanel
+                     validation={lastPrintedTicket.weightValidation}
+                     override={lastPrintedTicket.override}
+                     ticketId={lastPrintedTicket.id}
+                     onOverride={isLastTicketBlocked && loadValidationSettings().enforcement === 'override' ? handleOverride : undefined}
+                     blockedMessage={isLastTicketBlocked ? t('preview.printBlocked') : undefined}
+                   />
+                 </div>
+               )}
+               <TicketTemplate data={lastPrintedTicket} layout={printLayout} isPreview={true} />
             </div>
 
             {/* Modal Footer */}
-            <div className="bg-white p-4 border-t border-slate-200 flex justify-end space-x-3">
+            <div className="bg-white p-4 border-t border-slate-200 flex justify-end items-center space-x-3">
+              <TicketLayoutSelect value={printLayout.id} onChange={setLayoutId} className="mr-auto" />
               <button 
                 onClick={() => setShowPreviewModal(false)}
                 className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded font-medium transition-colors"
               >
-                Fechar
+                {t('preview.close')}
               </button>
               <button 
                 onClick={handlePrint}
-                className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 rounded shadow flex items-center font-medium transition-colors"
+                disabled={isLastTicketBlocked}
+                className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed rounded shadow flex items-center font-medium transition-colors"
               >
                 <Printer className="w-4 h-4 mr-2" />
-                Imprimir
+                {t('preview.print')}
               </button>
               <button 
                 onClick={handleDownloadPdf}
-                className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+                disabled={isLastTicketBlocked}
+                className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed rounded shadow flex items-center font-medium transition-colors"
               >
                 <Download className="w-4 h-4 mr-2" />
-                Baixar PDF
+                {t('preview.downloadPdf')}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {escPosDump && (
+        <EscPosDumpView bytes={escPosDump.bytes} filename={escPosDump.filename} onClose={() => setEscPosDump(null)} />
+      )}
+
     </div>
   );
 };
@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+// Local print bridge: forwards raw ESC/POS streams from the browser to a thermal printer.
+//
+// Usage:
+//   node bridge/print-bridge.mjs --device /dev/usb/lp0 [--port 8766]
+//   node bridge/print-bridge.mjs --tcp 192.168.0.60:9100 [--port 8766]
+//   node bridge/print-bridge.mjs --dump /tmp/tickets [--port 8766]
+//
+// The browser POSTs the bytes built by services/escPos.ts to http://localhost:<port>/print.
+// --dump writes every job to a numbered .bin file instead of printing, for tests without a printer.
+
+import http from 'node:http';
+import net from 'node:net';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const port = Number(option('port', '8766'));
+const device = option('device');
+const tcpTarget = option('tcp');
+const dumpDir = option('dump');
+const MAX_JOB_BYTES = 1024 * 1024;
+const TCP_TIMEOUT_MS = 10000;
+
+if (!device && !tcpTarget && !dumpDir) {
+  console.error('Informe --device /dev/usb/lp0, --tcp host:9100 ou --dump pasta');
+  process.exit(1);
+}
+
+let jobs = 0;
+let lastError = null;
+
+const writeTcp = (bytes) =>
+  new Promise((resolve, reject) => {
+    const [host, tcpPort] = tcpTarget.split(':');
+    const socket = net.connect({ host, port: Number(tcpPort || 9100) });
+    socket.setTimeout(TCP_TIMEOUT_MS, () => socket.destroy(new Error('Tempo esgotado na impressora')));
+    socket.on('error', reject);
+    socket.on('connect', () => socket.end(bytes));
+    socket.on('close', (hadError) => { if (!hadError) resolve(); });
+  });
+
+const printJob = async (bytes) => {
+  if (dumpDir) {
+    fs.mkdirSync(dumpDir, { recursive: true });
+    const file = path.join(dumpDir, `job-${String(jobs + 1).padStart(4, '0')}.bin`);
+    fs.writeFileSync(file, bytes);
+    return file;
+  }
+  if (tcpTarget) {
+    await writeTcp(bytes);
+    return tcpTarget;
+  }
+  fs.writeFileSync(device, bytes);
+  return device;
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ target: dumpDir || tcpTarget || device, jobs, lastError }));
+    return;
+  }
+
+  if (req.url === '/print' && req.method === 'POST') {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size <= MAX_JOB_BYTES) chunks.push(chunk);
+    });
+    req.on('end', async () => {
+      if (size > MAX_JOB_BYTES) {
+        res.writeHead(413);
+        res.end('Trabalho de impressão muito grande');
+        return;
+      }
+      try {
+        const target = await printJob(Buffer.concat(chunks));
+        jobs++;
+        lastError = null;
+        console.log(`Trabalho ${jobs}: ${size} bytes para ${target}`);
+        res.writeHead(204);
+        res.end();
+      } catch (err) {
+        lastError = err.message;
+        console.error(`Erro de impressão: ${err.message}`);
+        res.writeHead(502);
+        res.end(err.message);
+      }
+    });
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+server.listen(port, () => {
+  console.log(`Ponte de impressão em http://localhost:${port}/print (destino: ${dumpDir || tcpTarget || device})`);
+});
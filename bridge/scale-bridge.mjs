@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+// Local scale bridge: relays the raw output of a weighbridge indicator to the browser.
+//
+// Usage:
+//   node bridge/scale-bridge.mjs --tcp 192.168.0.50:4001 [--port 8765]
+//   node bridge/scale-bridge.mjs --serial /dev/ttyUSB0 --baud 4800 [--port 8765]
+//
+// The browser subscribes to http://localhost:<port>/stream (server-sent events).
+// Every chunk read from the indicator is forwarded untouched as a base64 "data:" line;
+// frame decoding and stability detection happen in services/scaleService.ts.
+
+import http from 'node:http';
+import net from 'node:net';
+import fs from 'node:fs';
+import { execFileSync } from 'node:child_process';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const port = Number(option('port', '8765'));
+const tcpTarget = option('tcp');
+const serialDevice = option('serial');
+const baudRate = option('baud', '4800');
+const RECONNECT_DELAY_MS = 3000;
+
+if (!tcpTarget && !serialDevice) {
+  console.error('Informe --tcp host:porta ou --serial /dev/ttyUSB0');
+  process.exit(1);
+}
+
+const clients = new Set();
+let lastError = null;
+let connected = false;
+
+const broadcast = (chunk) => {
+  const payload = `data: ${chunk.toString('base64')}\n\n`;
+  for (const res of clients) res.write(payload);
+};
+
+const scheduleReconnect = (connect) => {
+  connected = false;
+  setTimeout(connect, RECONNECT_DELAY_MS);
+};
+
+const connectTcp = () => {
+  const [host, tcpPort] = tcpTarget.split(':');
+  const socket = net.connect({ host, port: Number(tcpPort) });
+  socket.on('connect', () => {
+    connected = true;
+    lastError = null;
+    console.log(`Conectado ao indicador ${tcpTarget}`);
+  });
+  socket.on('data', broadcast);
+  socket.on('error', (err) => {
+    lastError = err.message;
+    console.error(`Erro TCP: ${err.message}`);
+  });
+  socket.on('close', () => scheduleReconnect(connectTcp));
+};
+
+const connectSerial = () => {
+  try {
+    // Raw mode, no echo, 8N1 at the requested speed (Linux stty)
+    execFileSync('stty', ['-F', serialDevice, baudRate, 'cs8', '-cstopb', '-parenb', 'raw', '-echo']);
+  } catch (err) {
+    lastError = `stty: ${err.message}`;
+    console.error(lastError);
+    scheduleReconnect(connectSerial);
+    return;
+  }
+
+  const stream = fs.createReadStream(serialDevice);
+  stream.on('open', () => {
+    connected = true;
+    lastError = null;
+    console.log(`Lendo ${serialDevice} a ${baudRate} bps`);
+  });
+  stream.on('data', broadcast);
+  stream.on('error', (err) => {
+    lastError = err.message;
+    console.error(`Erro serial: ${err.message}`);
+  });
+  stream.on('close', () => scheduleReconnect(connectSerial));
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (req.url?.startsWith('/stream')) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': scale-bridge\n\n');
+    clients.add(res);
+    req.on('close', () => clients.delete(res));
+    return;
+  }
+
+  if (req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ connected, source: tcpTarget || serialDevice, clients: clients.size, lastError }));
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+server.listen(port, () => {
+  console.log(`Ponte da balança em http://localhost:${port}/stream`);
+  if (tcpTarget) connectTcp();
+  else connectSerial();
+});
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert, RefreshCw, Link2 } from 'lucide-react';
+import { AuditEntry, AuditEventType, AuditProblemCode, AuditVerificationResult } from '../types';
+import { fetchAuditLog, retryUnwrittenAuditEntries, subscribeUnwrittenAuditEntries, verifyAuditChain } from '../services/auditService';
+import { MessageKey } from '../locales/pt-BR';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+const EVENT_LABELS: Record<AuditEventType, MessageKey> = {
+  created: 'audit.event.created',
+  printed: 'audit.event.printed',
+  reprinted: 'audit.event.reprinted',
+  edited: 'audit.event.edited',
+  cancelled: 'audit.event.cancelled',
+  approved: 'audit.event.approved',
+};
+
+const PROBLEM_MESSAGES: Record<AuditProblemCode, MessageKey> = {
+  'sequence-gap': 'audit.problem.sequence-gap',
+  'chain-broken': 'audit.problem.chain-broken',
+  'content-altered': 'audit.problem.content-altered',
+  'tail-removed': 'audit.problem.tail-removed',
+  'head-missing': 'audit.problem.head-missing',
+};
+
+/**
+ * Header warning for saved changes whose audit entry could not be written yet; a click retries them.
+ */
+export const UnwrittenAuditIndicator: React.FC = () => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [count, setCount] = useState(0);
+  const [lastError, setLastError] = useState<string | null>(null);
+  useEffect(() => subscribeUnwrittenAuditEntries(setCount), []);
+  // Entries kept by an earlier session are written as soon as the app starts
+  useEffect(() => { retryUnwrittenAuditEntries().catch(err => console.error('Failed to write the audit log', err)); }, []);
+
+  if (count === 0) return null;
+
+  const handleRetry = async () => {
+    try {
+      await retryUnwrittenAuditEntries();
+      setLastError(null);
+    } catch (err) {
+      setLastError(describeError(i18n, err));
+    }
+  };
+
+  return (
+    <button
+      onClick={handleRetry}
+      title={lastError ?? t('audit.unwrittenHint')}
+      className="flex items-center space-x-1 text-sm bg-red-700 hover:bg-red-600 px-3 py-2 rounded transition-colors"
+    >
+      <ShieldAlert className="w-4 h-4" />
+      <span>{t('audit.unwritten', { count })}</span>
+    </button>
+  );
+};
+
+export const AuditLogView: React.FC = () => {
+  const { t, formatDateTime } = useI18n();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<AuditVerificationResult | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const runVerification = async () => {
+    setIsVerifying(true);
+    try {
+      const [log, result] = await Promise.all([fetchAuditLog(), verifyAuditChain()]);
+      setEntries(log.slice().reverse()); // Newest first
+      setVerification(result);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  useEffect(() => {
+    runVerification();
+  }, []);
+
+  const problemSequences = new Set(verification?.problems.map(p => p.sequence));
+
+  return (
+    <div className="space-y-6">
+      {/* Chain status */}
+      <div className={`p-6 rounded-xl shadow-sm border ${
+        !verification ? 'bg-white border-slate-200' : verification.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+      }`}>
+        <div className="flex items-start justify-between">
+          <div className="flex items-start">
+            {verification?.valid === false ? (
+              <ShieldAlert className="w-8 h-8 mr-3 text-red-600 flex-shrink-0" />
+            ) : (
+              <ShieldCheck className={`w-8 h-8 mr-3 flex-shrink-0 ${verification ? 'text-green-600' : 'text-slate-400'}`} />
+            )}
+            <div>
+              <h2 className="text-lg font-semibold text-slate-800">
+                {t(!verification ? 'audit.verifying' : verification.valid ? 'audit.chainValid' : 'audit.chainBroken')}
+              </h2>
+              {verification && (
+                <p className="text-sm text-slate-600 mt-1">
+                  {t('audit.verifiedCount', { count: verification.entryCount, date: formatDateTime(verification.verifiedAt) })}
+                </p>
+              )}
+              {verification?.headHash && (
+                <p className="text-xs text-slate-500 mt-1 font-mono break-all">{t('audit.headHash', { hash: verification.headHash })}</p>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={runVerification}
+            disabled={isVerifying}
+            className="px-3 py-2 bg-white border border-slate-300 text-slate-700 hover:bg-slate-100 rounded text-sm font-medium flex items-center transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isVerifying ? 'animate-spin' : ''}`} />
+            {t('audit.verify')}
+          </button>
+        </div>
+
+        {verification && verification.problems.length > 0 && (
+          <ul className="mt-4 space-y-1 text-sm text-red-700">
+            {verification.problems.map((p, i) => (
+              <li key={i}>{t('audit.problem', { sequence: String(p.sequence), issue: t(PROBLEM_MESSAGES[p.code], p.params) })}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <h2 className="text-lg font-semibold flex items-center p-6 pb-4 text-slate-700">
+          <Link2 className="w-5 h-5 mr-2 text-blue-600" />
+          {t('audit.events')}
+        </h2>
+        {entries.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-slate-400">{t('audit.noEvents')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase">
+              <tr>
+                <th className="text-left px-4 py-2">#</th>
+                <th className="text-left px-4 py-2">{t('audit.dateTime')}</th>
+                <th className="text-left px-4 py-2">{t('audit.event')}</th>
+                <th className="text-left px-4 py-2">{t('audit.ticket')}</th>
+                <th className="text-left px-4 py-2">{t('audit.description')}</th>
+                <th className="text-left px-4 py-2">{t('audit.hash')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.map(entry => (
+                <tr key={entry.sequence} className={problemSequences.has(entry.sequence) ? 'bg-red-50' : ''}>
+                  <td className="px-4 py-2 font-mono text-slate-500">{entry.sequence}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{formatDateTime(entry.timestamp)}</td>
+                  <td className="px-4 py-2">{t(EVENT_LABELS[entry.eventType])}</td>
+                  <td className="px-4 py-2 font-mono">{entry.ticketId || '—'}</td>
+                  <td className="px-4 py-2 text-slate-600">{entry.summary} <span className="text-slate-400">· {entry.actor}</span></td>
+                  <td className="px-4 py-2 font-mono text-xs text-slate-400" title={entry.hash}>{entry.hash.slice(0, 12)}…</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { AxleConfiguration } from '../types';
+import { getAxleGroups } from '../services/weightValidation';
+import { useI18n } from './I18nProvider';
+
+interface AxleWeightsInputProps {
+  configuration: AxleConfiguration;
+  values: string[]; // One entry per axle group, front to back; empty when not weighed
+  onChange: (values: string[]) => void;
+}
+
+/**
+ * Per-axle-group weights read from an axle-by-axle weighing, checked against the legal axle limits.
+ */
+export const AxleWeightsInput: React.FC<AxleWeightsInputProps> = ({ configuration, values, onChange }) => {
+  const { t, formatKg } = useI18n();
+  const groups = getAxleGroups(configuration);
+
+  const update = (index: number, value: string) =>
+    onChange(groups.map((_, i) => (i === index ? value : values[i] ?? '')));
+
+  return (
+    <div className="bg-white p-3 rounded-lg border border-slate-200 text-sm space-y-2">
+      <div className="text-slate-500">{t('axleWeights.title', { configuration })}</div>
+      <div className="grid grid-cols-2 gap-2">
+        {groups.map((group, index) => (
+          <label key={index} className="flex flex-col text-xs">
+            <span className="text-slate-500 mb-1">
+              {t('axleWeights.group', { index: index + 1, group: t(group.label), limit: formatKg(group.limit) })}
+            </span>
+            <input
+              type="number"
+              min="0"
+              value={values[index] ?? ''}
+              onChange={e => update(index, e.target.value)}
+              className="border border-slate-300 rounded px-2 py-1 text-sm"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Weights typed in AxleWeightsInput, or undefined when none was entered
+ */
+export const parseAxleWeights = (values: string[]): (number | null)[] | undefined =>
+  values.some(value => value.trim())
+    ? values.map(value => (value.trim() && Number(value) > 0 ? Number(value) : null))
+    : undefined;
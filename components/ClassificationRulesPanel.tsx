@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { ListOrdered, Plus, Save, Trash2, Play } from 'lucide-react';
+import { AxleConfiguration, ClassificationRule, Truck } from '../types';
+import { fetchTrucks } from '../services/mockFirestore';
+import { AXLE_CONFIGURATIONS } from '../services/weightValidation';
+import { formatPlate, normalizePlate } from '../services/plates';
+import {
+  ClassificationInput,
+  RuleOutcome,
+  classifyVehicle,
+  createClassificationRule,
+  describeTarget,
+  loadClassificationSettings,
+  saveClassificationSettings,
+  validateClassificationRules,
+} from '../services/vehicleClassification';
+import { MessageKey } from '../locales/pt-BR';
+import { useI18n } from './I18nProvider';
+
+const OUTCOME_LABELS: Record<RuleOutcome, { label: MessageKey; className: string }> = {
+  fired: { label: 'classification.outcome.fired', className: 'bg-green-100 text-green-700' },
+  'no-match': { label: 'classification.outcome.noMatch', className: 'bg-slate-100 text-slate-600' },
+  unavailable: { label: 'classification.outcome.unavailable', className: 'bg-amber-100 text-amber-700' },
+  'not-reached': { label: 'classification.outcome.notReached', className: 'bg-slate-100 text-slate-400' },
+  disabled: { label: 'classification.outcome.disabled', className: 'bg-slate-100 text-slate-400' },
+};
+
+const parseWeight = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+/**
+ * Editor for the rules that pick the vehicle when no document plate is in the fleet, with a
+ * preview of which rule fires for a sample document.
+ */
+export const ClassificationRulesPanel: React.FC = () => {
+  const [rules, setRules] = useState<ClassificationRule[]>(() => loadClassificationSettings().rules);
+  const [trucks, setTrucks] = useState<Truck[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [sample, setSample] = useState({ netWeight: '', shipperCnpj: '', product: '', plate: '' });
+  const i18n = useI18n();
+  const { t, formatKg } = i18n;
+
+  useEffect(() => {
+    fetchTrucks().then(setTrucks).catch(err => console.error('Failed to load trucks', err));
+  }, []);
+
+  const errors = validateClassificationRules(rules);
+  const activeTrucks = trucks.filter(t => t.active);
+  const sampleInput: ClassificationInput = {
+    netWeight: parseWeight(sample.netWeight),
+    shipperCnpj: sample.shipperCnpj.replace(/\D/g, '') || null,
+    product: sample.product || null,
+    plates: normalizePlate(sample.plate) ? [normalizePlate(sample.plate)] : [],
+  };
+  const preview = classifyVehicle(sampleInput, trucks, rules);
+
+  const updateRule = (id: string, changes: Partial<ClassificationRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+    setMessage(null);
+  };
+
+  const handleAdd = () => {
+    const lowest = rules.reduce((max, rule) => Math.max(max, rule.priority), 0);
+    setRules([...rules, createClassificationRule(lowest + 10, t('classification.newRuleName'))]);
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+    saveClassificationSettings({ rules: ordered });
+    setRules(ordered);
+    setMessage(t('classification.saved'));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center mb-1 text-slate-700">
+        <ListOrdered className="w-5 h-5 mr-2 text-blue-600" />
+        {t('classification.title')}
+      </h2>
+      <p className="text-sm text-slate-500 mb-4">{t('classification.intro')}</p>
+
+      <div className="space-y-3 text-sm">
+        {rules.map(rule => (
+          <div key={rule.id} className={`border rounded p-3 ${rule.enabled ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{t('classification.priority')}</span>
+                <input
+                  type="number"
+                  value={rule.priority}
+                  onChange={e => updateRule(rule.id, { priority: Number(e.target.value) })}
+                  className="border border-slate-300 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col md:col-span-3">
+                <span className="text-slate-500 mb-1">{t('classification.name')}</span>
+                <input value={rule.name} onChange={e => updateRule(rule.id, { name: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+              </label>
+              <label className="flex items-center md:pt-5">
+                <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="mr-2" />
+                {t('classification.enabled')}
+              </label>
+              <div className="flex items-end justify-end">
+                <button
+                  onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                  className="px-2 py-1 text-red-600 hover:bg-red-50 rounded flex items-center transition-colors"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  {t('classification.remove')}
+                </button>
+              </div>
+
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{t('classification.minWeight')}</span>
+                <input
+                  type="number"
+                  value={rule.minWeightKg ?? ''}
+                  onChange={e => updateRule(rule.id, { minWeightKg: parseWeight(e.target.value) })}
+                  className="border border-slate-300 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{t('classification.maxWeight')}</span>
+                <input
+                  type="number"
+                  value={rule.maxWeightKg ?? ''}
+                  onChange={e => updateRule(rule.id, { maxWeightKg: parseWeight(e.target.value) })}
+                  className="border border-slate-300 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col md:col-span-2">
+                <span className="text-slate-500 mb-1">{t('classification.shipperCnpj')}</span>
+                <input
+                  value={rule.shipperCnpj}
+                  onChange={e => updateRule(rule.id, { shipperCnpj: e.target.value.replace(/\D/g, '') })}
+                  className="border border-slate-300 rounded px-2 py-1 font-mono"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{t('classification.productContains')}</span>
+                <input value={rule.product} onChange={e => updateRule(rule.id, { product: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{t('classification.documentPlate')}</span>
+                <input
+                  value={rule.plate}
+                  onChange={e => updateRule(rule.id, { plate: normalizePlate(e.target.value) })}
+                  className="border border-slate-300 rounded px-2 py-1 font-mono"
+                />
+              </label>
+
+              <label className="flex flex-col md:col-span-2">
+                <span className="text-slate-500 mb-1">{t('classification.target')}</span>
+                <select
+                  value={rule.target.kind}
+                  onChange={e => updateRule(rule.id, {
+                    target: e.target.value === 'class' ? { kind: 'class', axleConfiguration: '3S3' } : { kind: 'vehicle', truckId: activeTrucks[0]?.truckId ?? '' },
+                  })}
+                  className="border border-slate-300 rounded px-2 py-1"
+                >
+                  <option value="class">{t('classification.targetClass')}</option>
+                  <option value="vehicle">{t('classification.targetVehicle')}</option>
+                </select>
+              </label>
+              <label className="flex flex-col md:col-span-4">
+                <span className="text-slate-500 mb-1">{rule.target.kind === 'class' ? t('classification.axleConfiguration') : t('classification.vehicle')}</span>
+                {rule.target.kind === 'class' ? (
+                  <select
+                    value={rule.target.axleConfiguration}
+                    onChange={e => updateRule(rule.id, { target: { kind: 'class', axleConfiguration: e.target.value as AxleConfiguration } })}
+                    className="border border-slate-300 rounded px-2 py-1"
+                  >
+                    {(Object.keys(AXLE_CONFIGURATIONS) as AxleConfiguration[]).map(config => (
+                      <option key={config} value={config}>{config} · {t(AXLE_CONFIGURATIONS[config].label)}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <select
+                    value={rule.target.truckId}
+                    onChange={e => updateRule(rule.id, { target: { kind: 'vehicle', truckId: e.target.value } })}
+                    className="border border-slate-300 rounded px-2 py-1"
+                  >
+                    {!trucks.some(t => rule.target.kind === 'vehicle' && t.truckId === rule.target.truckId) && (
+                      <option value={rule.target.truckId}>{describeTarget(i18n, rule.target, trucks)}</option>
+                    )}
+                    {trucks.map(truck => (
+                      <option key={truck.truckId} value={truck.truckId}>
+                        {[truck.plateNumber, ...truck.trailerPlates].map(formatPlate).join(' + ')}
+                        {truck.carrierName ? ` · ${truck.carrierName}` : ''}
+                        {truck.active ? '' : ` ${t('classification.inactive')}`}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </label>
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && <p className="text-slate-400">{t('classification.noRules')}</p>}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-600">
+          {errors.map((error, i) => <li key={i}>{t(error.key, error.params)}</li>)}
+        </ul>
+      )}
+
+      <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200 text-sm">
+        <span className="flex items-center font-medium text-slate-600 mb-2">
+          <Play className="w-4 h-4 mr-1" />
+          {t('classification.simulate')}
+        </span>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-3">
+          <input type="number" value={sample.netWeight} onChange={e => setSample({ ...sample, netWeight: e.target.value })} placeholder={t('classification.sampleWeight')} className="border border-slate-300 rounded px-2 py-1" />
+          <input value={sample.shipperCnpj} onChange={e => setSample({ ...sample, shipperCnpj: e.target.value })} placeholder={t('classification.shipperCnpj')} className="border border-slate-300 rounded px-2 py-1 font-mono" />
+          <input value={sample.product} onChange={e => setSample({ ...sample, product: e.target.value })} placeholder={t('classification.sampleProduct')} className="border border-slate-300 rounded px-2 py-1" />
+          <input value={sample.plate} onChange={e => setSample({ ...sample, plate: e.target.value })} placeholder={t('classification.documentPlate')} className="border border-slate-300 rounded px-2 py-1 font-mono" />
+        </div>
+        <table className="w-full text-xs">
+          <tbody className="divide-y divide-slate-200">
+            {preview.evaluations.map(({ rule, outcome, failures, truck }) => (
+              <tr key={rule.id}>
+                <td className="py-1 font-mono w-12">{rule.priority}</td>
+                <td className="py-1">{rule.name}</td>
+                <td className="py-1 text-slate-500">{truck
+                  ? t('classification.pickedTruck', { plate: formatPlate(truck.plateNumber), tare: formatKg(truck.tareWeight) })
+                  : failures.map(failure => t(failure.key, failure.params)).join('; ')}</td>
+                <td className="py-1 text-right">
+                  <span className={`font-medium rounded px-1.5 py-0.5 ${OUTCOME_LABELS[outcome].className}`}>{t(OUTCOME_LABELS[outcome].label)}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!preview.rule && <p className="mt-2 text-amber-700">{t('classification.noRuleApplies')}</p>}
+      </div>
+
+      <div className="mt-4 flex items-center justify-end space-x-3">
+        {message && <span className="text-sm text-green-600">{message}</span>}
+        <button onClick={handleAdd} className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 rounded flex items-center font-medium transition-colors">
+          <Plus className="w-4 h-4 mr-2" />
+          {t('classification.add')}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={errors.length > 0}
+          className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {t('classification.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Printer, X } from 'lucide-react';
+import { SiteSettings, Truck, WeighingTicket } from '../types';
+import { fetchRecentTickets } from '../services/mockFirestore';
+import { OperationsSummary, dateRangeBounds, formatTons, summarizeOperations } from '../services/operationsReport';
+import { STATUS_LABELS, getTicketNetWeight } from '../services/ticketHistory';
+import { formatCnpj, getActiveSite } from '../services/siteSettings';
+import { getSession } from '../services/session';
+import { I18n } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface DailyClosingReportProps {
+  date: string; // yyyy-mm-dd
+  trucks: Truck[];
+  onClose: () => void;
+}
+
+interface ClosingSheetProps {
+  i18n: I18n;
+  date: string;
+  site: SiteSettings;
+  tickets: WeighingTicket[];
+  summary: OperationsSummary;
+  operatorName: string;
+  supervisorName: string;
+  notes: string;
+  generatedAt: number;
+}
+
+// A4 sheet, shown in the modal and printed as is
+const ClosingSheet: React.FC<ClosingSheetProps> = ({ i18n, date, site, tickets, summary, operatorName, supervisorName, notes, generatedAt }) => {
+  const { t, formatNumber, formatDate, formatDateTime } = i18n;
+  const tons = (kg: number) => formatTons(i18n, kg);
+  return (
+    <div className="bg-white text-black text-[11px] leading-snug p-[12mm] w-[210mm] min-h-[297mm] flex flex-col">
+      <div className="text-center border-b-2 border-black pb-2 mb-3">
+        <h1 className="text-base font-bold uppercase">{t('closing.title')} · {formatDate(new Date(`${date}T00:00:00`).getTime())}</h1>
+        <p>{site.legalName}{site.cnpj ? ` · CNPJ ${formatCnpj(site.cnpj)}` : ''}</p>
+        <p>{[site.address, site.city, site.state].filter(Boolean).join(', ')}{site.scaleSerial ? ` · ${t('closing.scaleSerial', { serial: site.scaleSerial })}` : ''}</p>
+      </div>
+
+      <table className="w-full mb-3">
+        <tbody>
+          <tr>
+            <td>{t('closing.tickets')}: <b>{formatNumber(summary.totalTickets)}</b></td>
+            <td>{t('closing.issued')}: <b>{formatNumber(summary.issued)}</b></td>
+            <td>{t('closing.open')}: <b>{formatNumber(summary.open)}</b></td>
+            <td>{t('closing.cancelled')}: <b>{formatNumber(summary.cancelled)}</b></td>
+          </tr>
+          <tr>
+            <td>{t('closing.overCapacity')}: <b>{formatNumber(summary.overCapacity)}</b> ({t('closing.blocked', { count: summary.blocked })})</td>
+            <td>{t('closing.netWeight')}: <b>{tons(summary.netWeight)}</b></td>
+            <td colSpan={2}>
+              {t('closing.averageDifference')}: <b>{summary.averageDifference === null ? '—' : `${formatNumber(Math.round(summary.averageDifference))} kg`}</b>
+              {summary.averageDifferencePercent !== null && ` (${formatNumber(summary.averageDifferencePercent, { maximumFractionDigits: 2 })}%)`}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-2 gap-4 mb-3">
+        <table className="w-full">
+          <thead><tr className="border-b border-black"><th className="text-left">{t('closing.shift')}</th><th className="text-right">{t('closing.tickets')}</th><th className="text-right">{t('closing.netWeight')}</th></tr></thead>
+          <tbody>
+            {summary.byShift.map(shift => (
+              <tr key={shift.shift}><td>{t(shift.label)}</td><td className="text-right">{formatNumber(shift.tickets)}</td><td className="text-right">{tons(shift.netWeight)}</td></tr>
+            ))}
+          </tbody>
+        </table>
+        <table className="w-full">
+          <thead><tr className="border-b border-black"><th className="text-left">{t('closing.product')}</th><th className="text-right">{t('closing.tickets')}</th><th className="text-right">{t('closing.netWeight')}</th></tr></thead>
+          <tbody>
+            {summary.byProduct.map(group => (
+              <tr key={group.label}><td>{group.label || t('report.noProduct')}</td><td className="text-right">{formatNumber(group.tickets)}</td><td className="text-right">{tons(group.netWeight)}</td></tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <table className="w-full mb-3">
+        <thead><tr className="border-b border-black"><th className="text-left">{t('closing.carrier')}</th><th className="text-right">{t('closing.tickets')}</th><th className="text-right">{t('closing.netWeight')}</th></tr></thead>
+        <tbody>
+          {summary.byCarrier.map(group => (
+            <tr key={group.label}><td>{group.label || t('report.noCarrier')}</td><td className="text-right">{formatNumber(group.tickets)}</td><td className="text-right">{tons(group.netWeight)}</td></tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className="w-full mb-3">
+        <thead>
+          <tr className="border-b border-black">
+            <th className="text-left">{t('closing.ticket')}</th>
+            <th className="text-left">{t('closing.time')}</th>
+            <th className="text-left">{t('closing.plate')}</th>
+            <th className="text-left">{t('closing.invoice')}</th>
+            <th className="text-left">{t('closing.status')}</th>
+            <th className="text-right">{t('closing.netKg')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tickets.map(ticket => (
+            <tr key={ticket.id} className="border-b border-slate-200">
+              <td className="font-mono">{ticket.id}</td>
+              <td>{formatDateTime(ticket.issueTimestamp, { hour: '2-digit', minute: '2-digit' })}</td>
+              <td className="font-mono">{ticket.truckPlateNumber}</td>
+              <td className="font-mono truncate max-w-[45mm]">{ticket.invoiceId}</td>
+              <td>{t(STATUS_LABELS[ticket.ticketStatus])}</td>
+              <td className={`text-right font-mono ${ticket.ticketStatus === 'Printed' ? '' : 'line-through'}`}>
+                {formatNumber(getTicketNetWeight(ticket))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {notes && (
+        <div className="border border-black p-2 mb-3">
+          <p className="font-bold">{t('closing.notes')}</p>
+          <p className="whitespace-pre-line">{notes}</p>
+        </div>
+      )}
+
+      <div className="mt-auto grid grid-cols-2 gap-12 pt-12">
+        <div className="text-center border-t border-black pt-1">
+          <p>{operatorName || t('closing.operator')}</p>
+          <p className="text-[9px]">{t('closing.operatorSignature')}</p>
+        </div>
+        <div className="text-center border-t border-black pt-1">
+          <p>{supervisorName || t('closing.supervisor')}</p>
+          <p className="text-[9px]">{t('closing.supervisorSignature')}</p>
+        </div>
+      </div>
+      <p className="text-[9px] text-right mt-4">{t('closing.generatedAt', { time: formatDateTime(generatedAt) })}</p>
+    </div>
+  );
+};
+
+/**
+ * The day's closing: the same figures as the dashboard plus every ticket of the day, printed
+ * on A4 for the supervisor's signature.
+ */
+export const DailyClosingReport: React.FC<DailyClosingReportProps> = ({ date: initialDate, trucks, onClose }) => {
+  const [date, setDate] = useState(initialDate);
+  const [tickets, setTickets] = useState<WeighingTicket[]>([]);
+  const [operatorName, setOperatorName] = useState(() => getSession()?.name ?? '');
+  const [supervisorName, setSupervisorName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [generatedAt, setGeneratedAt] = useState(Date.now());
+  const site = getActiveSite();
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  useEffect(() => {
+    fetchRecentTickets(dateRangeBounds(date, date))
+      .then(result => {
+        setTickets(result.sort((a, b) => a.issueTimestamp - b.issueTimestamp));
+        setGeneratedAt(Date.now());
+      })
+      .catch(err => console.error('Failed to load the day\'s tickets', err));
+  }, [date]);
+
+  // Only the report is printed while this class is on the body (see index.html)
+  useEffect(() => {
+    const done = () => document.body.classList.remove('printing-report');
+    window.addEventListener('afterprint', done);
+    return () => {
+      window.removeEventListener('afterprint', done);
+      done();
+    };
+  }, []);
+
+  const handlePrint = () => {
+    document.body.classList.add('printing-report');
+    window.print();
+  };
+
+  const sheet = (
+    <ClosingSheet
+      i18n={i18n}
+      date={date}
+      site={site}
+      tickets={tickets}
+      summary={summarizeOperations(tickets, trucks)}
+      operatorName={operatorName}
+      supervisorName={supervisorName}
+      notes={notes}
+      generatedAt={generatedAt}
+    />
+  );
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm print:hidden">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+          <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+            <h3 className="text-lg font-bold text-slate-800">{t('closing.title')}</h3>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+          <div className="p-4 grid grid-cols-1 md:grid-cols-4 gap-3 text-sm border-b border-slate-200">
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('closing.date')}</span>
+              <input type="date" value={date} onChange={e => e.target.value && setDate(e.target.value)} className="border border-slate-300 rounded px-2 py-1" />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('closing.operator')}</span>
+              <input value={operatorName} onChange={e => setOperatorName(e.target.value)} className="border border-slate-300 rounded px-2 py-1" />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('closing.supervisor')}</span>
+              <input value={supervisorName} onChange={e => setSupervisorName(e.target.value)} className="border border-slate-300 rounded px-2 py-1" />
+            </label>
+            <label className="flex flex-col md:col-span-4">
+              <span className="text-slate-500 mb-1">{t('closing.notes')}</span>
+              <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} className="border border-slate-300 rounded px-2 py-1" />
+            </label>
+          </div>
+          <div className="flex-grow overflow-auto bg-slate-100 p-4 flex justify-center">
+            <div className="shadow-sm border border-gray-200 h-fit">{sheet}</div>
+          </div>
+          <div className="p-4 border-t border-slate-200 flex justify-end gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded font-medium transition-colors">
+              {t('closing.close')}
+            </button>
+            <button
+              onClick={handlePrint}
+              className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              {t('closing.print')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Print copy, outside the hidden main content */}
+      {createPortal(
+        <div id="printable-report" className="hidden print:block">
+          <style>{'@media print { @page { size: A4 portrait; margin: 0; } }'}</style>
+          {sheet}
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
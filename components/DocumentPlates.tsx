@@ -0,0 +1,63 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { DocumentPlate, Truck } from '../types';
+import { checkDocumentPlates, formatPlate, matchPlatesToFleet } from '../services/plates';
+import { MessageKey } from '../locales/pt-BR';
+import { useI18n } from './I18nProvider';
+
+interface DocumentPlatesProps {
+  plates: DocumentPlate[];
+  trucks: Truck[];
+  selectedTruck?: Truck; // Vehicle on the scale
+}
+
+const ROLE_LABELS: Record<DocumentPlate['role'], MessageKey> = {
+  tractor: 'plates.role.tractor',
+  trailer: 'plates.role.trailer',
+};
+
+/**
+ * Plates found in the document, where each one is in the fleet registry, and a warning when
+ * they do not belong to the vehicle on the scale.
+ */
+export const DocumentPlates: React.FC<DocumentPlatesProps> = ({ plates, trucks, selectedTruck }) => {
+  const { t } = useI18n();
+  if (plates.length === 0) return null;
+  const matches = matchPlatesToFleet(plates, trucks);
+  const check = selectedTruck ? checkDocumentPlates(plates, selectedTruck) : null;
+
+  return (
+    <div className="space-y-1">
+      {plates.map((plate, i) => {
+        const match = matches[i];
+        return (
+          <div key={plate.plate} className="flex justify-between text-sm">
+            <span className="text-slate-500">
+              {t(ROLE_LABELS[plate.role])} ({plate.source === 'observation' ? t('plates.sourceObservation') : 'XML'})
+            </span>
+            <span className="text-right">
+              <span className="font-mono font-bold text-slate-800">{formatPlate(plate.plate)}</span>
+              <span className={`block text-xs ${match.truck ? 'text-slate-500' : 'text-amber-600'}`}>
+                {match.truck
+                  ? t('plates.inFleet', { vehicle: [match.truck.plateNumber, ...match.truck.trailerPlates].map(formatPlate).join(' + ') })
+                  : t('plates.notInFleet')}
+              </span>
+            </span>
+          </div>
+        );
+      })}
+      {check?.status === 'mismatch' && selectedTruck && (
+        <div className="flex items-start text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            <b>{t('plates.mismatchTitle')}</b>{' '}
+            {t('plates.mismatch', {
+              plates: check.foreignPlates.map(formatPlate).join(', '),
+              vehicle: [selectedTruck.plateNumber, ...selectedTruck.trailerPlates].map(formatPlate).join(' + '),
+            })}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
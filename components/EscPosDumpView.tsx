@@ -0,0 +1,40 @@
+import React from 'react';
+import { Download, X } from 'lucide-react';
+import { hexDump } from '../services/escPos';
+import { downloadBytes } from '../services/printerService';
+import { useI18n } from './I18nProvider';
+
+interface EscPosDumpViewProps {
+  bytes: Uint8Array;
+  filename: string;
+  onClose: () => void;
+}
+
+/**
+ * Shows an ESC/POS stream instead of printing it ("dump bytes" mode).
+ */
+export const EscPosDumpView: React.FC<EscPosDumpViewProps> = ({ bytes, filename, onClose }) => {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">{t('printer.dumpTitle', { count: bytes.length })}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <pre className="flex-grow overflow-auto p-4 bg-slate-900 text-green-300 text-xs font-mono">{hexDump(bytes)}</pre>
+        <div className="p-4 border-t border-slate-200 flex justify-end">
+          <button
+            onClick={() => downloadBytes(bytes, filename)}
+            className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {t('printer.downloadBin')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { FiscalDocument, FiscalParseIssue, FiscalParty } from '../types';
+import { describeParseIssue } from '../services/i18n';
+import { decodeAccessKey, formatAccessKey } from '../services/accessKey';
+import { useI18n } from './I18nProvider';
+
+interface FiscalDocumentSummaryProps {
+  document: FiscalDocument;
+  issues?: FiscalParseIssue[];
+}
+
+const TYPE_LABELS: Record<FiscalDocument['type'], string> = {
+  NFe: 'NF-e',
+  CTe: 'CT-e',
+  MDFe: 'MDF-e',
+};
+
+const formatTaxId = (id: string | null): string | null => {
+  if (!id) return null;
+  if (id.length === 14) return id.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+  if (id.length === 11) return id.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+  return id;
+};
+
+const PartyRow: React.FC<{ label: string; party: FiscalParty | null }> = ({ label, party }) => {
+  if (!party) return null;
+  const city = party.address?.city ? ` · ${party.address.city}/${party.address.state ?? ''}` : '';
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-slate-500">{label}</span>
+      <span className="text-right text-slate-800">
+        {party.name || '—'}
+        <span className="block text-xs text-slate-500 font-mono">{formatTaxId(party.cnpj || party.cpf)}{city}</span>
+      </span>
+    </div>
+  );
+};
+
+export const FiscalDocumentSummary: React.FC<FiscalDocumentSummaryProps> = ({ document, issues = [] }) => {
+  const i18n = useI18n();
+  const { t, formatNumber } = i18n;
+  const warnings = issues.filter(i => i.severity === 'warning');
+  const key = document.accessKey ? decodeAccessKey(document.accessKey) : null;
+
+  return (
+    <div className="space-y-3 border-t border-blue-100 pt-3">
+      <div className="flex justify-between text-sm">
+        <span className="text-slate-500">{t('document.title')}</span>
+        <span className="font-mono text-slate-800">{TYPE_LABELS[document.type]} mod. {document.model} · {t('document.series', { series: document.series || '—' })}</span>
+      </div>
+      {document.accessKey && (
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-500">{t('document.accessKey')}</span>
+          <span className="font-mono text-xs text-slate-800 text-right ml-4">
+            {formatAccessKey(document.accessKey)}
+            {key && (
+              <span className="block text-slate-500">
+                {key.uf ?? key.ufCode} · {String(key.month).padStart(2, '0')}/{key.year} · {formatTaxId(key.issuerId)} · mod. {key.model} · {t('document.series', { series: String(Number(key.series)) })} · {t('document.number', { number: String(Number(key.number)) })}
+              </span>
+            )}
+          </span>
+        </div>
+      )}
+      <PartyRow label={t('document.issuer')} party={document.issuer} />
+      <PartyRow label={t('document.sender')} party={document.sender} />
+      <PartyRow label={t('document.recipient')} party={document.recipient} />
+      {document.predominantProduct && (
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-500">{t('document.product')}</span>
+          <span className="text-slate-800">{document.predominantProduct}</span>
+        </div>
+      )}
+      {document.quantities.length > 0 && (
+        <div className="text-sm">
+          <span className="text-slate-500">{t('document.quantities')}</span>
+          <ul className="mt-1 font-mono text-xs text-slate-700 space-y-0.5">
+            {document.quantities.map((q, i) => (
+              <li key={i} className="flex justify-between">
+                <span>{q.measureType || '—'} ({q.unitCode}-{q.unitLabel ?? t('document.unknownUnit')})</span>
+                <span>{formatNumber(q.quantity)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {document.volumes.length > 0 && (
+        <div className="text-sm">
+          <span className="text-slate-500">{t('document.volumes')}</span>
+          <ul className="mt-1 font-mono text-xs text-slate-700 space-y-0.5">
+            {document.volumes.map((v, i) => (
+              <li key={i} className="flex justify-between">
+                <span>{v.quantity ?? '—'} {v.species || ''}</span>
+                <span>{t('document.volumeWeights', {
+                  net: v.netWeight != null ? formatNumber(v.netWeight) : '—',
+                  gross: v.grossWeight != null ? formatNumber(v.grossWeight) : '—',
+                })}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {document.vehicles.length > 0 && (
+        <div className="flex justify-between text-sm">
+          <span className="text-slate-500">{t('document.vehicles')}</span>
+          <span className="font-mono text-slate-800">
+            {document.vehicles.map(v => (v.role === 'trailer' ? t('document.trailerPlate', { plate: v.plate }) : v.plate)).join(', ')}
+          </span>
+        </div>
+      )}
+      {document.weightSource && (
+        <div className="flex justify-between text-xs">
+          <span className="text-slate-400">{t('document.weightSource')}</span>
+          <span className="font-mono text-slate-500">{document.weightSource}</span>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <ul className="p-3 bg-amber-50 text-amber-800 text-xs rounded space-y-1">
+          {warnings.map((w, i) => (
+            <li key={i} className="flex items-start">
+              <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+              {describeParseIssue(i18n, w)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
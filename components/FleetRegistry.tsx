@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from 'react';
+import { Truck as TruckIcon, Plus, Search, Pencil, Power, X, Save, UserPlus, Trash2, AlertTriangle, History } from 'lucide-react';
+import { AxleConfiguration, Driver, TareMeasurement, Truck } from '../types';
+import { fetchTareHistory, saveTareMeasurement, saveTruck, setTruckActive } from '../services/mockFirestore';
+import { createEmptyTruck, searchTrucks, validateTruck } from '../services/fleetService';
+import { isValidPlate, normalizePlate } from '../services/plates';
+import { AXLE_CONFIGURATIONS } from '../services/weightValidation';
+import { getTareStatus, keepsTareHistory, loadTareSettings } from '../services/tareHistory';
+import { TareHistoryPanel, TareStatusBadge } from './TareHistoryPanel';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface FleetRegistryProps {
+  trucks: Truck[];
+  onChange: () => void; // Called after any change so the app reloads the fleet
+}
+
+const TruckForm: React.FC<{ initial: Truck; onCancel: () => void; onSaved: () => void }> = ({ initial, onCancel, onSaved }) => {
+  const [truck, setTruck] = useState<Truck>(initial);
+  const [trailerText, setTrailerText] = useState(initial.trailerPlates.join(', '));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const update = (patch: Partial<Truck>) => setTruck({ ...truck, ...patch });
+  const updateDriver = (index: number, patch: Partial<Driver>) =>
+    update({ drivers: truck.drivers.map((d, i) => (i === index ? { ...d, ...patch } : d)) });
+
+  const handleSave = async () => {
+    const candidate: Truck = {
+      ...truck,
+      plateNumber: normalizePlate(truck.plateNumber),
+      trailerPlates: trailerText.split(/[,;\s]+/).map(normalizePlate).filter(Boolean),
+      drivers: truck.drivers.map(d => ({ ...d, name: d.name.trim() })),
+    };
+    const validationErrors = validateTruck(candidate);
+    setErrors(validationErrors.map(error => t(error.key, error.params)));
+    if (validationErrors.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const savedTruck = await saveTruck(candidate);
+      // The tare typed for a new vehicle starts its tare history
+      if (!initial.truckId && keepsTareHistory(savedTruck)) {
+        await saveTareMeasurement({
+          truckId: savedTruck.truckId,
+          plateNumber: savedTruck.plateNumber,
+          weight: savedTruck.tareWeight,
+          measuredAt: Date.now(),
+          source: 'manual',
+        });
+      }
+      onSaved();
+    } catch (err) {
+      setErrors([describeError(i18n, err)]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'border border-slate-300 rounded px-2 py-1';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-blue-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-slate-700">{initial.truckId ? t('fleet.editTitle', { plate: initial.plateNumber }) : t('fleet.newVehicle')}</h3>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 transition-colors"><X className="w-5 h-5" /></button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('fleet.plate')}</span>
+          <input value={truck.plateNumber} onChange={e => update({ plateNumber: e.target.value.toUpperCase() })} className={`${inputClass} font-mono`} />
+          {truck.plateNumber && !isValidPlate(truck.plateNumber) && (
+            <span className="text-xs text-amber-600 mt-1">{t('fleet.genericPlateHint')}</span>
+          )}
+        </label>
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('fleet.trailerPlates')}</span>
+          <input value={trailerText} onChange={e => setTrailerText(e.target.value.toUpperCase())} className={`${inputClass} font-mono`} />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('fleet.axleConfiguration')}</span>
+          <select
+            value={truck.axleConfiguration || ''}
+            onChange={e => update({ axleConfiguration: (e.target.value || undefined) as AxleConfiguration | undefined })}
+            className={inputClass}
+          >
+            <option value="">{t('fleet.axleConfigurationUnknown')}</option>
+            {(Object.keys(AXLE_CONFIGURATIONS) as AxleConfiguration[]).map(config => (
+              <option key={config} value={config}>{config} · {t(AXLE_CONFIGURATIONS[config].label)}</option>
+            ))}
+          </select>
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('fleet.tare')}</span>
+            {/* After creation the tare is maintained through the tare history */}
+            <input
+              type="number"
+              value={truck.tareWeight || ''}
+              onChange={e => update({ tareWeight: Number(e.target.value) })}
+              readOnly={!!initial.truckId}
+              title={initial.truckId ? t('fleet.tareReadOnlyHint') : undefined}
+              className={`${inputClass} ${initial.truckId ? 'bg-slate-100 text-slate-500' : ''}`}
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('fleet.capacity')}</span>
+            <input type="number" value={truck.maxCapacity || ''} onChange={e => update({ maxCapacity: Number(e.target.value) })} className={inputClass} />
+          </label>
+        </div>
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('fleet.carrier')}</span>
+          <input value={truck.carrierName || ''} onChange={e => update({ carrierName: e.target.value || undefined })} className={inputClass} />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">CNPJ</span>
+            <input value={truck.carrierCnpj || ''} onChange={e => update({ carrierCnpj: e.target.value || undefined })} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">RNTRC</span>
+            <input value={truck.rntrc || ''} onChange={e => update({ rntrc: e.target.value || undefined })} className={`${inputClass} font-mono`} />
+          </label>
+        </div>
+      </div>
+
+      {/* Drivers */}
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-slate-500">{t('fleet.drivers')}</span>
+          <button
+            onClick={() => update({ drivers: [...truck.drivers, { name: '', cpf: '', cnh: '' }] })}
+            className="text-blue-600 hover:text-blue-800 flex items-center text-xs font-medium"
+          >
+            <UserPlus className="w-4 h-4 mr-1" />
+            {t('fleet.addDriver')}
+          </button>
+        </div>
+        {truck.drivers.map((driver, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center">
+            <input value={driver.name} onChange={e => updateDriver(index, { name: e.target.value })} placeholder={t('fleet.driverName')} className={`${inputClass} col-span-5`} />
+            <input value={driver.cpf} onChange={e => updateDriver(index, { cpf: e.target.value })} placeholder="CPF" className={`${inputClass} col-span-3 font-mono`} />
+            <input value={driver.cnh} onChange={e => updateDriver(index, { cnh: e.target.value })} placeholder="CNH" className={`${inputClass} col-span-3 font-mono`} />
+            <button
+              onClick={() => update({ drivers: truck.drivers.filter((_, i) => i !== index) })}
+              className="text-slate-400 hover:text-red-600 transition-colors col-span-1 flex justify-center"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="p-3 bg-red-50 text-red-700 text-sm rounded space-y-1">
+          {errors.map((error, i) => (
+            <li key={i} className="flex items-start"><AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded font-medium transition-colors">{t('fleet.cancel')}</button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {t('fleet.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const FleetRegistry: React.FC<FleetRegistryProps> = ({ trucks, onChange }) => {
+  const [query, setQuery] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [editing, setEditing] = useState<Truck | null>(null);
+  const [tareHistory, setTareHistory] = useState<TareMeasurement[]>([]);
+  const [historyTruckId, setHistoryTruckId] = useState<string | null>(null);
+  const tareSettings = loadTareSettings();
+  const { t, formatKg } = useI18n();
+
+  useEffect(() => {
+    fetchTareHistory().then(setTareHistory);
+  }, [trucks]);
+
+  const visibleTrucks = searchTrucks(trucks, query).filter(t => showInactive || t.active);
+
+  const handleToggleActive = async (truck: Truck) => {
+    await setTruckActive(truck.truckId, !truck.active);
+    onChange();
+  };
+
+  return (
+    <div className="space-y-6">
+      {editing && (
+        <TruckForm
+          key={editing.truckId || 'new'}
+          initial={editing}
+          onCancel={() => setEditing(null)}
+          onSaved={() => { setEditing(null); onChange(); }}
+        />
+      )}
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center text-slate-700">
+            <TruckIcon className="w-5 h-5 mr-2 text-blue-600" />
+            {t('fleet.title')}
+          </h2>
+          <button
+            onClick={() => setEditing(createEmptyTruck())}
+            className="px-3 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center text-sm font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t('fleet.newVehicle')}
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="relative flex-grow">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2 top-2" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={t('fleet.search')}
+              className="w-full border border-slate-300 rounded pl-8 pr-2 py-1 text-sm"
+            />
+          </div>
+          <label className="flex items-center text-sm text-slate-600 whitespace-nowrap">
+            <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} className="mr-2" />
+            {t('fleet.showInactive')}
+          </label>
+        </div>
+
+        {visibleTrucks.length === 0 ? (
+          <p className="text-sm text-slate-400">{t('fleet.noVehicles')}</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {visibleTrucks.map(truck => (
+              <li key={truck.truckId} className={`flex items-start justify-between py-3 text-sm ${truck.active ? '' : 'opacity-50'}`}>
+                <div className="flex-grow">
+                  <div className="font-mono font-bold text-slate-800">
+                    {[truck.plateNumber, ...truck.trailerPlates].join(' + ')}
+                    {truck.axleConfiguration && <span className="ml-2 font-sans text-xs font-medium bg-slate-100 text-slate-600 rounded px-1.5 py-0.5">{truck.axleConfiguration}</span>}
+                    {!truck.active && <span className="ml-2 font-sans text-xs font-medium bg-slate-200 text-slate-600 rounded px-1.5 py-0.5">{t('fleet.inactive')}</span>}
+                    {keepsTareHistory(truck) && (
+                      <span className="ml-2"><TareStatusBadge status={getTareStatus(tareHistory, truck.truckId, tareSettings)} /></span>
+                    )}
+                  </div>
+                  <div className="text-slate-500">
+                    {t('fleet.summary', { tare: formatKg(truck.tareWeight), capacity: formatKg(truck.maxCapacity) })}
+                    {truck.carrierName && ` · ${truck.carrierName}`}
+                    {truck.rntrc && ` · RNTRC ${truck.rntrc}`}
+                  </div>
+                  {truck.drivers.length > 0 && (
+                    <div className="text-xs text-slate-400">{t('fleet.driverList', { names: truck.drivers.map(d => d.name).join(', ') })}</div>
+                  )}
+                  {historyTruckId === truck.truckId && keepsTareHistory(truck) && (
+                    <TareHistoryPanel
+                      truck={truck}
+                      history={tareHistory}
+                      status={getTareStatus(tareHistory, truck.truckId, tareSettings)}
+                      onChange={onChange}
+                    />
+                  )}
+                </div>
+                <div className="flex items-center space-x-3 ml-2 flex-shrink-0">
+                  {keepsTareHistory(truck) && (
+                    <button
+                      onClick={() => setHistoryTruckId(historyTruckId === truck.truckId ? null : truck.truckId)}
+                      className="text-slate-400 hover:text-blue-600 transition-colors"
+                      title={t('fleet.tareHistory')}
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => setEditing(truck)} className="text-slate-400 hover:text-blue-600 transition-colors" title={t('fleet.edit')}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(truck)}
+                    className={`transition-colors ${truck.active ? 'text-slate-400 hover:text-red-600' : 'text-slate-400 hover:text-green-600'}`}
+                    title={truck.active ? t('fleet.deactivate') : t('fleet.reactivate')}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
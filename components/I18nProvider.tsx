@@ -0,0 +1,32 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { I18n, createI18n, loadUiLocale, saveUiLocale } from '../services/i18n';
+
+interface I18nContextValue extends I18n {
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue>({ ...createI18n(), setLocale: () => undefined });
+
+/**
+ * Language of the screen, chosen per station and kept across sessions.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadUiLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    ...createI18n(locale),
+    setLocale: next => {
+      saveUiLocale(next);
+      setLocale(next);
+    },
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { Upload, CheckCircle, AlertTriangle, Loader2, Trash2, FileText, PlayCircle, Archive } from 'lucide-react';
+import { ImportQueueItem, Truck } from '../types';
+import { formatPlate } from '../services/plates';
+import { describeSelectionReason } from '../services/vehicleSelection';
+import { describeParseIssue } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ImportQueueProps {
+  items: ImportQueueItem[];
+  activeItemId: string | null;
+  trucks: Truck[];
+  onFilesAdded: (files: File[]) => void;
+  onLoad: (itemId: string) => void;
+  onRemove: (itemId: string) => void;
+  onClearProcessed: () => void;
+}
+
+export const ImportQueue: React.FC<ImportQueueProps> = ({ items, activeItemId, trucks, onFilesAdded, onLoad, onRemove, onClearProcessed }) => {
+  const i18n = useI18n();
+  const { t, formatKg } = i18n;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) onFilesAdded(files);
+    // Reset file input so same file can be selected again if needed
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onFilesAdded(files);
+  };
+
+  const counts = {
+    ready: items.filter(i => i.status === 'ready').length,
+    error: items.filter(i => i.status === 'error').length,
+    processed: items.filter(i => i.status === 'processed').length,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        className={`relative border-2 border-dashed rounded-lg p-6 transition-colors text-center group cursor-pointer ${
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 hover:bg-slate-50'
+        }`}
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleInputChange}
+          accept=".xml,.zip"
+          multiple
+          className="hidden"
+        />
+        <div className="flex flex-col items-center">
+          <Upload className="w-10 h-10 text-slate-400 group-hover:text-blue-500 mb-2 transition-colors" />
+          <span className="text-sm font-medium text-slate-600">{t('import.dropHint')}</span>
+          <span className="text-xs text-slate-400 mt-1">{t('import.formats')}</span>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="border border-slate-200 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between bg-slate-50 px-3 py-2 text-xs text-slate-500">
+            <span>
+              {t('import.summary', { total: items.length, ready: counts.ready, errors: counts.error, processed: counts.processed })}
+            </span>
+            {counts.processed > 0 && (
+              <button onClick={onClearProcessed} className="text-blue-600 hover:text-blue-800 font-medium">
+                {t('import.clearProcessed')}
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+            {items.map(item => {
+              const truck = trucks.find(t => t.truckId === item.matchedTruckId);
+              const isActive = item.id === activeItemId;
+              return (
+                <li key={item.id} className={`flex items-start justify-between px-3 py-2 text-sm ${isActive ? 'bg-blue-50' : ''}`}>
+                  <div className="flex items-start min-w-0">
+                    {item.status === 'pending' && <Loader2 className="w-4 h-4 mr-2 mt-0.5 text-slate-400 animate-spin flex-shrink-0" />}
+                    {item.status === 'ready' && <FileText className="w-4 h-4 mr-2 mt-0.5 text-blue-500 flex-shrink-0" />}
+                    {item.status === 'error' && <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 text-red-500 flex-shrink-0" />}
+                    {item.status === 'processed' && <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-green-500 flex-shrink-0" />}
+                    <div className="min-w-0">
+                      <div className="font-medium text-slate-700 truncate">{item.fileName}</div>
+                      {item.archiveName && (
+                        <div className="text-xs text-slate-400 flex items-center"><Archive className="w-3 h-3 mr-1" />{item.archiveName}</div>
+                      )}
+                      {item.status === 'error' && (
+                        <div className="text-xs text-red-600">{item.result?.errors?.map(error => describeParseIssue(i18n, error)).join(' ')}</div>
+                      )}
+                      {item.result?.invoiceId && item.status !== 'error' && (
+                        <div className="text-xs text-slate-500">
+                          {t('import.document', { number: item.result.invoiceId, weight: item.result.netWeight !== null ? formatKg(item.result.netWeight) : '—' })}
+                          {item.result.documentPlates?.length
+                            ? t('import.plates', { plates: item.result.documentPlates.map(p => formatPlate(p.plate)).join(' + ') })
+                            : item.result.extractedPlate && t('import.plates', { plates: formatPlate(item.result.extractedPlate) })}
+                        </div>
+                      )}
+                      {item.status !== 'error' && item.matchReason && (
+                        <div className={`text-xs ${truck ? 'text-green-700' : 'text-amber-600'}`}>
+                          {truck ? t('import.vehicle', { plate: truck.plateNumber }) : ''}{describeSelectionReason(i18n, item.matchReason)}
+                        </div>
+                      )}
+                      {item.ticketId && <div className="text-xs text-slate-500">{t('import.ticket', { id: item.ticketId })}</div>}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-2 flex-shrink-0">
+                    {item.status === 'ready' && !isActive && (
+                      <button
+                        onClick={() => onLoad(item.id)}
+                        className="text-blue-600 hover:text-blue-800 flex items-center text-xs font-medium"
+                      >
+                        <PlayCircle className="w-4 h-4 mr-1" />
+                        {t('import.load')}
+                      </button>
+                    )}
+                    {isActive && <span className="text-xs font-medium text-blue-700">{t('import.inUse')}</span>}
+                    <button
+                      onClick={() => onRemove(item.id)}
+                      className="text-slate-400 hover:text-red-600 transition-colors"
+                      title={t('import.remove')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Locale } from '../types';
+import { LOCALES, LOCALE_LABELS } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <label className="flex items-center text-sm bg-slate-800 hover:bg-slate-700 px-2 py-2 rounded transition-colors" title={t('app.language')}>
+      <Languages className="w-4 h-4 mr-1" />
+      <select
+        value={locale}
+        onChange={e => setLocale(e.target.value as Locale)}
+        className="bg-transparent text-white text-sm focus:outline-none"
+      >
+        {LOCALES.map(l => <option key={l} value={l} className="text-slate-900">{LOCALE_LABELS[l]}</option>)}
+      </select>
+    </label>
+  );
+};
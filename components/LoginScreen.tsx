@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { Truck as TruckIcon, LogIn, Lock, AlertTriangle, Loader2 } from 'lucide-react';
+import { UserSession } from '../types';
+import { buildUserAccount, loadAuthSettings, login, saveAuthSettings, unlockSession, validateUserAccount } from '../services/authService';
+import { endSession } from '../services/session';
+import { getRepository } from '../services/repository';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface LoginScreenProps {
+  session: UserSession | null; // A locked session is unlocked with the same user's password
+  onAuthenticated: (session: UserSession | null) => void;
+}
+
+/**
+ * Login, unlocking after inactivity, and on first use the creation of the administrator account.
+ */
+export const LoginScreen: React.FC<LoginScreenProps> = ({ session, onAuthenticated }) => {
+  // Accounts may still be on their way from the shared repository
+  const [hasUsers, setHasUsers] = useState<boolean | null>(null);
+  const [userId, setUserId] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordCheck, setPasswordCheck] = useState('');
+  const [pin, setPin] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  useEffect(() => {
+    getRepository()
+      .catch(err => console.error('Failed to load shared settings', err))
+      .finally(() => setHasUsers(loadAuthSettings().users.length > 0));
+  }, []);
+
+  const run = async (task: () => Promise<UserSession>) => {
+    setIsChecking(true);
+    setErrors([]);
+    try {
+      onAuthenticated(await task());
+    } catch (err) {
+      setErrors([describeError(i18n, err)]);
+      setPassword('');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSetup = () => {
+    const input = { userId: userId.trim().toLowerCase(), name, role: 'admin' as const, password, pin };
+    const problems = validateUserAccount(input, []);
+    if (password !== passwordCheck) problems.push({ key: 'login.passwordMismatch' });
+    if (problems.length > 0) {
+      setErrors(problems.map(problem => t(problem.key, problem.params)));
+      return;
+    }
+    run(async () => {
+      const settings = loadAuthSettings();
+      saveAuthSettings({ ...settings, users: [await buildUserAccount(input)] });
+      return login(input.userId, password);
+    });
+  };
+
+  const handleSwitchUser = () => {
+    endSession();
+    onAuthenticated(null);
+    setPassword('');
+    setErrors([]);
+  };
+
+  const isLocked = !!session?.locked;
+  const isSetup = hasUsers === false && !isLocked;
+  const inputClass = 'w-full border border-slate-300 rounded px-3 py-2';
+
+  const submit = () => {
+    if (isChecking) return;
+    if (isLocked) run(() => unlockSession(password));
+    else if (isSetup) handleSetup();
+    else run(() => login(userId, password));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-900 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm p-6 space-y-4">
+        <div className="flex items-center space-x-3">
+          <TruckIcon className="w-8 h-8 text-blue-600" />
+          <div>
+            <h1 className="text-xl font-bold tracking-tight text-slate-800">ScaleTicket Pro</h1>
+            <p className="text-xs text-slate-500">
+              {isLocked ? t('login.locked') : isSetup ? t('login.setup') : t('login.prompt')}
+            </p>
+          </div>
+        </div>
+
+        {hasUsers === null && !isLocked ? (
+          <div className="flex justify-center py-6 text-slate-400"><Loader2 className="w-6 h-6 animate-spin" /></div>
+        ) : (
+          <form onSubmit={e => { e.preventDefault(); submit(); }} className="space-y-3 text-sm">
+            {isLocked ? (
+              <p className="text-slate-600">{t('login.user')}: <strong>{session!.name}</strong></p>
+            ) : (
+              <input value={userId} onChange={e => setUserId(e.target.value)} placeholder={t('login.login')} autoComplete="username" className={inputClass} autoFocus />
+            )}
+            {isSetup && <input value={name} onChange={e => setName(e.target.value)} placeholder={t('login.fullName')} className={inputClass} />}
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              placeholder={t('login.password')}
+              autoComplete={isSetup ? 'new-password' : 'current-password'}
+              className={inputClass}
+              autoFocus={isLocked}
+            />
+            {isSetup && (
+              <>
+                <input type="password" value={passwordCheck} onChange={e => setPasswordCheck(e.target.value)} placeholder={t('login.repeatPassword')} autoComplete="new-password" className={inputClass} />
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={pin}
+                  onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder={t('login.pin')}
+                  autoComplete="off"
+                  className={inputClass}
+                />
+              </>
+            )}
+
+            {errors.length > 0 && (
+              <div className="p-2 bg-red-50 text-red-700 rounded flex items-start">
+                <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                <ul>{errors.map((error, i) => <li key={i}>{error}</li>)}</ul>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isChecking || !password}
+              className="w-full py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded shadow flex items-center justify-center font-medium transition-colors"
+            >
+              {isChecking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : isLocked ? <Lock className="w-4 h-4 mr-2" /> : <LogIn className="w-4 h-4 mr-2" />}
+              {isLocked ? t('login.unlock') : isSetup ? t('login.createAdmin') : t('login.submit')}
+            </button>
+            {isLocked && (
+              <button type="button" onClick={handleSwitchUser} className="w-full py-2 text-slate-600 hover:bg-slate-100 rounded font-medium transition-colors">
+                {t('login.switchUser')}
+              </button>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
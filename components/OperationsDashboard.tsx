@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3, ClipboardCheck, RefreshCw } from 'lucide-react';
+import { Truck, WeighingTicket } from '../types';
+import { fetchRecentTickets } from '../services/mockFirestore';
+import { SHIFTS, ShiftId, TonnageGroup, dateRangeBounds, formatTons, summarizeOperations, toDateInput } from '../services/operationsReport';
+import { DailyClosingReport } from './DailyClosingReport';
+import { useI18n } from './I18nProvider';
+
+interface OperationsDashboardProps {
+  trucks: Truck[]; // For the carrier of tickets issued before carriers were kept
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GROUP_ROWS = 8;
+
+const SHIFT_COLORS: Record<ShiftId, string> = { morning: 'bg-blue-300', afternoon: 'bg-blue-500', night: 'bg-blue-800' };
+
+const StatCard: React.FC<{ label: string; value: string; tone?: string }> = ({ label, value, tone = 'text-slate-800' }) => (
+  <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+    <p className="text-xs uppercase text-slate-500">{label}</p>
+    <p className={`text-2xl font-bold ${tone}`}>{value}</p>
+  </div>
+);
+
+const TonnageTable: React.FC<{ title: string; groups: TonnageGroup[]; unknownLabel?: string }> = ({ title, groups, unknownLabel = '' }) => {
+  const i18n = useI18n();
+  const { t, formatNumber } = i18n;
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <h3 className="text-sm font-semibold text-slate-700 mb-2">{title}</h3>
+      {groups.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('dashboard.noIssuedTickets')}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {groups.slice(0, GROUP_ROWS).map(group => (
+              <tr key={group.label} className="border-t border-slate-100">
+                <td className="py-1 truncate max-w-[10rem]" title={group.label || unknownLabel}>{group.label || unknownLabel}</td>
+                <td className="py-1 text-right text-slate-500">{formatNumber(group.tickets)}</td>
+                <td className="py-1 text-right font-mono">{formatTons(i18n, group.netWeight)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {groups.length > GROUP_ROWS && <p className="text-xs text-slate-400 mt-1">{t('dashboard.andMore', { count: groups.length - GROUP_ROWS })}</p>}
+    </div>
+  );
+};
+
+export const OperationsDashboard: React.FC<OperationsDashboardProps> = ({ trucks }) => {
+  const [from, setFrom] = useState(() => toDateInput(Date.now() - 6 * DAY_MS));
+  const [to, setTo] = useState(() => toDateInput(Date.now()));
+  const [tickets, setTickets] = useState<WeighingTicket[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [closingDate, setClosingDate] = useState<string | null>(null);
+  const i18n = useI18n();
+  const { t, formatNumber } = i18n;
+  const tons = (kg: number) => formatTons(i18n, kg);
+  const formatDay = (date: string) =>
+    i18n.formatDateTime(new Date(`${date}T00:00:00`).getTime(), { weekday: 'short', day: '2-digit', month: '2-digit' });
+
+  const loadTickets = async () => {
+    setIsLoading(true);
+    try {
+      setTickets(await fetchRecentTickets(dateRangeBounds(from, to)));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTickets();
+  }, [from, to]);
+
+  const summary = summarizeOperations(tickets, trucks);
+  const busiestDay = Math.max(1, ...summary.days.map(day => day.tickets));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <h2 className="text-lg font-semibold flex items-center text-slate-700">
+            <BarChart3 className="w-5 h-5 mr-2 text-blue-600" />
+            {t('dashboard.title')}
+          </h2>
+          <div className="flex flex-wrap items-end gap-2 text-sm">
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('dashboard.from')}</span>
+              <input type="date" value={from} max={to} onChange={e => e.target.value && setFrom(e.target.value)} className="border border-slate-300 rounded px-2 py-1" />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('dashboard.to')}</span>
+              <input type="date" value={to} min={from} onChange={e => e.target.value && setTo(e.target.value)} className="border border-slate-300 rounded px-2 py-1" />
+            </label>
+            <button
+              onClick={loadTickets}
+              disabled={isLoading}
+              className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 hover:bg-slate-100 rounded font-medium flex items-center transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 mr-1 ${isLoading ? 'animate-spin' : ''}`} />
+              {t('dashboard.refresh')}
+            </button>
+            <button
+              onClick={() => setClosingDate(toDateInput(Date.now()))}
+              className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded shadow font-medium flex items-center transition-colors"
+            >
+              <ClipboardCheck className="w-4 h-4 mr-1" />
+              {t('closing.title')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <StatCard label={t('closing.tickets')} value={formatNumber(summary.totalTickets)} />
+        <StatCard label={t('dashboard.issuedNetWeight')} value={tons(summary.netWeight)} />
+        <StatCard
+          label={t('closing.averageDifference')}
+          value={summary.averageDifference === null
+            ? '—'
+            : `${formatNumber(Math.round(summary.averageDifference))} kg (${formatNumber(summary.averageDifferencePercent!, { maximumFractionDigits: 2 })}%)`}
+        />
+        <StatCard label={t('closing.open')} value={formatNumber(summary.open)} />
+        <StatCard label={t('closing.issued')} value={formatNumber(summary.issued)} tone="text-green-700" />
+        <StatCard label={t('closing.overCapacity')} value={t('dashboard.overCapacityValue', { count: summary.overCapacity, blocked: summary.blocked })} tone={summary.overCapacity ? 'text-red-600' : undefined} />
+        <StatCard label={t('closing.cancelled')} value={formatNumber(summary.cancelled)} tone={summary.cancelled ? 'text-slate-900' : undefined} />
+        <StatCard label={t('dashboard.activeDays')} value={formatNumber(summary.days.length)} />
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h3 className="text-sm font-semibold text-slate-700 mb-3">{t('dashboard.byDayAndShift')}</h3>
+        {summary.days.length === 0 ? (
+          <p className="text-sm text-slate-400">{t('dashboard.noTickets')}</p>
+        ) : (
+          <div className="space-y-1 text-sm">
+            {summary.days.map(day => (
+              <div key={day.date} className="flex items-center gap-2">
+                <button onClick={() => setClosingDate(day.date)} className="w-24 text-left text-slate-600 hover:text-blue-600" title={t('dashboard.openClosing')}>
+                  {formatDay(day.date)}
+                </button>
+                <div className="flex-grow flex h-4 rounded overflow-hidden bg-slate-50">
+                  {SHIFTS.map(shift => (
+                    <div
+                      key={shift.id}
+                      style={{ width: `${(day.byShift[shift.id] / busiestDay) * 100}%` }}
+                      className={SHIFT_COLORS[shift.id]}
+                      title={`${t(shift.label)}: ${formatNumber(day.byShift[shift.id])}`}
+                    />
+                  ))}
+                </div>
+                <span className="w-10 text-right text-slate-500">{formatNumber(day.tickets)}</span>
+                <span className="w-20 text-right font-mono">{tons(day.netWeight)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-4 mt-4 text-xs text-slate-600">
+          {summary.byShift.map(shift => (
+            <span key={shift.shift} className="flex items-center">
+              <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${SHIFT_COLORS[shift.shift]}`} />
+              {t('dashboard.shiftTotals', { shift: t(shift.label), count: shift.tickets, weight: tons(shift.netWeight) })}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <TonnageTable title={t('dashboard.byVehicle')} groups={summary.byVehicle} />
+        <TonnageTable title={t('dashboard.byCarrier')} groups={summary.byCarrier} unknownLabel={t('report.noCarrier')} />
+        <TonnageTable title={t('dashboard.byProduct')} groups={summary.byProduct} unknownLabel={t('report.noProduct')} />
+      </div>
+
+      {closingDate && (
+        <DailyClosingReport date={closingDate} trucks={trucks} onClose={() => setClosingDate(null)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Printer, Save, Usb } from 'lucide-react';
+import {
+  PRINTER_CONNECTION_LABELS,
+  PrinterConnection,
+  PrinterSettings,
+  authorizePrinter,
+  isConnectionSupported,
+  loadPrinterSettings,
+  savePrinterSettings,
+  sendEscPos,
+} from '../services/printerService';
+import { encodeTestPage } from '../services/escPos';
+import { EscPosDumpView } from './EscPosDumpView';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export const PrinterSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<PrinterSettings>(loadPrinterSettings);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dump, setDump] = useState<Uint8Array | null>(null);
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const needsDevice = settings.connection === 'webusb' || settings.connection === 'serial';
+  const supported = isConnectionSupported(settings.connection);
+
+  const handleAuthorize = async () => {
+    try {
+      const device = await authorizePrinter(settings);
+      setMessage(t('printer.authorized', { device: device || t(PRINTER_CONNECTION_LABELS[settings.connection]) }));
+    } catch (err) {
+      setMessage(t('printer.authorizeFailed', { error: describeError(i18n, err) }));
+    }
+  };
+
+  const handleTest = async () => {
+    const bytes = encodeTestPage(settings.columns);
+    if (settings.connection === 'dump') {
+      setDump(bytes);
+      return;
+    }
+    try {
+      await sendEscPos(bytes, settings);
+      setMessage(t('printer.testSent'));
+    } catch (err) {
+      setMessage(t('printer.printFailed', { error: describeError(i18n, err) }));
+    }
+  };
+
+  const handleSave = () => {
+    savePrinterSettings(settings);
+    setMessage(t('printer.saved'));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+        <Printer className="w-5 h-5 mr-2 text-blue-600" />
+        {t('printer.title')}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <label className="flex flex-col md:col-span-2">
+          <span className="text-slate-500 mb-1">{t('printer.connection')}</span>
+          <select
+            value={settings.connection}
+            onChange={e => setSettings({ ...settings, connection: e.target.value as PrinterConnection })}
+            className="border border-slate-300 rounded px-2 py-1"
+          >
+            {(Object.keys(PRINTER_CONNECTION_LABELS) as PrinterConnection[]).map(key => (
+              <option key={key} value={key}>{t(PRINTER_CONNECTION_LABELS[key])}</option>
+            ))}
+          </select>
+        </label>
+        {settings.connection === 'bridge' && (
+          <label className="flex flex-col md:col-span-2">
+            <span className="text-slate-500 mb-1">{t('printer.bridgeUrl')}</span>
+            <input
+              value={settings.bridgeUrl}
+              onChange={e => setSettings({ ...settings, bridgeUrl: e.target.value.trim() })}
+              className="border border-slate-300 rounded px-2 py-1 font-mono"
+            />
+          </label>
+        )}
+        {settings.connection === 'serial' && (
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('printer.baudRate')}</span>
+            <input
+              type="number"
+              value={settings.baudRate}
+              onChange={e => setSettings({ ...settings, baudRate: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+        )}
+        {settings.connection !== 'browser' && (
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('printer.columns')}</span>
+            <input
+              type="number"
+              min={32}
+              max={64}
+              value={settings.columns}
+              onChange={e => setSettings({ ...settings, columns: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+        )}
+      </div>
+
+      {!supported && (
+        <p className="mt-3 text-xs text-red-600">{t('printer.unsupported')}</p>
+      )}
+      {settings.connection !== 'browser' && (
+        <p className="mt-3 text-xs text-slate-500">{t('printer.pageLayoutsNote')}</p>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+        {message && <span className="text-sm text-slate-600">{message}</span>}
+        {needsDevice && (
+          <button
+            onClick={handleAuthorize}
+            disabled={!supported}
+            className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <Usb className="w-4 h-4 mr-2" />
+            {t('printer.authorize')}
+          </button>
+        )}
+        {settings.connection !== 'browser' && (
+          <button
+            onClick={handleTest}
+            disabled={!supported}
+            className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            {t('printer.test')}
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {t('printer.save')}
+        </button>
+      </div>
+
+      {dump && <EscPosDumpView bytes={dump} filename="teste-escpos.bin" onClose={() => setDump(null)} />}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Scale, Settings, Plug, Unplug, Lock, AlertTriangle } from 'lucide-react';
+import { ScaleReading } from '../types';
+import {
+  ScaleConnectionStatus,
+  ScaleFrame,
+  ScaleSettings,
+  canCaptureFrame,
+  captureReading,
+  createFrameDecoder,
+  createScaleSource,
+  createStabilityDetector,
+  loadScaleSettings,
+  resolveScaleProtocol,
+  saveScaleSettings,
+} from '../services/scaleService';
+import { SCALE_RECORDINGS } from '../services/scaleRecordings';
+import { MessageKey } from '../locales/pt-BR';
+import { useI18n } from './I18nProvider';
+
+interface ScalePanelProps {
+  capturedReading: ScaleReading | null;
+  onCapture: (reading: ScaleReading | null) => void;
+}
+
+const STATUS_LABELS: Record<ScaleConnectionStatus, MessageKey> = {
+  disconnected: 'scale.status.disconnected',
+  connecting: 'scale.status.connecting',
+  connected: 'scale.status.connected',
+  error: 'scale.status.error',
+};
+
+export const ScalePanel: React.FC<ScalePanelProps> = ({ capturedReading, onCapture }) => {
+  const { t, formatNumber, formatKg, formatTime } = useI18n();
+  const [settings, setSettings] = useState<ScaleSettings>(loadScaleSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [status, setStatus] = useState<ScaleConnectionStatus>('disconnected');
+  const [frame, setFrame] = useState<ScaleFrame | null>(null);
+  const [stable, setStable] = useState(false);
+
+  // (Re)connect whenever the source configuration changes
+  useEffect(() => {
+    const decode = createFrameDecoder(resolveScaleProtocol(settings));
+    const isStable = createStabilityDetector(settings);
+    const source = createScaleSource(settings);
+
+    setFrame(null);
+    setStable(false);
+
+    const disconnect = source({
+      onData: (chunk) => {
+        const frames = decode(chunk);
+        if (frames.length === 0) return;
+        const now = Date.now();
+        let latestStable = false;
+        frames.forEach(f => { latestStable = isStable(f, now); });
+        setFrame(frames[frames.length - 1]);
+        setStable(latestStable);
+      },
+      onStatus: setStatus,
+    });
+
+    return disconnect;
+  }, [settings]);
+
+  const updateSettings = (patch: Partial<ScaleSettings>) => {
+    const next = { ...settings, ...patch };
+    saveScaleSettings(next);
+    setSettings(next);
+    onCapture(null);
+  };
+
+  const capturable = canCaptureFrame(frame, stable);
+  const handleCapture = () => {
+    if (!frame || !capturable) return;
+    onCapture(captureReading(frame, stable, settings));
+  };
+
+  const weightDisplay = frame ? formatNumber(Math.round(frame.weight)) : '-----';
+  const recording = SCALE_RECORDINGS.find(r => r.id === settings.recordingId) || SCALE_RECORDINGS[0];
+  const sourceLabel = settings.sourceType === 'bridge' ? settings.bridgeUrl : t('scale.simulatorLabel', { name: recording.name });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold flex items-center text-slate-700">
+          <Scale className="w-5 h-5 mr-2 text-blue-600" />
+          {t('scale.title')}
+        </h2>
+        <div className="flex items-center space-x-3">
+          <span className={`flex items-center text-xs font-medium ${status === 'connected' ? 'text-green-600' : status === 'error' ? 'text-red-600' : 'text-slate-400'}`}>
+            {status === 'connected' ? <Plug className="w-4 h-4 mr-1" /> : <Unplug className="w-4 h-4 mr-1" />}
+            {t(STATUS_LABELS[status])}
+          </span>
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+            title={t('scale.configure')}
+          >
+            <Settings className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {showSettings && (
+        <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-3 text-sm bg-slate-50 p-4 rounded-lg border border-slate-200">
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('scale.source')}</span>
+            <select
+              value={settings.sourceType}
+              onChange={e => updateSettings({ sourceType: e.target.value as ScaleSettings['sourceType'] })}
+              className="border border-slate-300 rounded px-2 py-1"
+            >
+              <option value="simulator">{t('scale.sourceSimulator')}</option>
+              <option value="bridge">{t('scale.sourceBridge')}</option>
+            </select>
+          </label>
+          {settings.sourceType === 'simulator' ? (
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('scale.recording')}</span>
+              <select
+                value={settings.recordingId}
+                onChange={e => updateSettings({ recordingId: e.target.value })}
+                className="border border-slate-300 rounded px-2 py-1"
+              >
+                {SCALE_RECORDINGS.map(r => (
+                  <option key={r.id} value={r.id}>{r.name}</option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <>
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{t('scale.bridgeUrl')}</span>
+                <input
+                  value={settings.bridgeUrl}
+                  onChange={e => updateSettings({ bridgeUrl: e.target.value })}
+                  className="border border-slate-300 rounded px-2 py-1 font-mono"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{t('scale.protocol')}</span>
+                <select
+                  value={settings.protocol}
+                  onChange={e => updateSettings({ protocol: e.target.value as ScaleSettings['protocol'] })}
+                  className="border border-slate-300 rounded px-2 py-1"
+                >
+                  <option value="toledo-p03">{t('scale.protocolToledo')}</option>
+                  <option value="ascii-line">ASCII (ST,GS,+000000kg)</option>
+                </select>
+              </label>
+            </>
+          )}
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('scale.stabilityTolerance')}</span>
+            <input
+              type="number"
+              value={settings.stabilityToleranceKg}
+              onChange={e => updateSettings({ stabilityToleranceKg: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('scale.stabilityWindow')}</span>
+            <input
+              type="number"
+              value={settings.stabilityWindowMs}
+              onChange={e => updateSettings({ stabilityWindowMs: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+        </div>
+      )}
+
+      {/* Live indicator display */}
+      <div className="flex items-center justify-between bg-slate-900 text-white rounded-lg px-5 py-4">
+        <div>
+          <span className="font-mono text-4xl font-bold tracking-wider">{weightDisplay}</span>
+          <span className="ml-2 text-slate-400">kg</span>
+        </div>
+        <div className="text-right text-xs space-y-1">
+          <div className={stable ? 'text-green-400 font-bold' : 'text-amber-400'}>
+            {t(stable ? 'scale.stable' : frame?.motion ? 'scale.motion' : 'scale.waiting')}
+          </div>
+          {frame?.overload && <div className="text-red-400 font-bold">{t('scale.overload')}</div>}
+          <div className="text-slate-500">{sourceLabel}</div>
+        </div>
+      </div>
+
+      {frame?.mode === 'net' && (
+        <div className="mt-3 p-3 bg-red-50 text-red-700 text-sm rounded flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {t('scale.netModeRejected')}
+        </div>
+      )}
+
+      {settings.sourceType === 'simulator' && (
+        <div className="mt-3 p-3 bg-amber-50 text-amber-800 text-sm rounded flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {t('scale.simulatorWarning')}
+        </div>
+      )}
+
+      {status === 'error' && settings.sourceType === 'bridge' && (
+        <div className="mt-3 p-3 bg-red-50 text-red-700 text-sm rounded flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {t('scale.bridgeUnavailable')}
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center justify-between">
+        <div className="text-sm">
+          {capturedReading ? (
+            <span className="text-slate-600">
+              {t('scale.captured')} <span className="font-mono font-bold text-slate-800">{formatKg(capturedReading.weight)}</span>
+              <span className="text-slate-400 ml-2">{formatTime(capturedReading.capturedAt)}</span>
+            </span>
+          ) : (
+            <span className="text-slate-400">{t('scale.nothingCaptured')}</span>
+          )}
+        </div>
+        <button
+          onClick={handleCapture}
+          disabled={!capturable}
+          className={`px-4 py-2 rounded shadow flex items-center font-medium transition-colors ${
+            capturable ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-slate-200 text-slate-400 cursor-not-allowed shadow-none'
+          }`}
+        >
+          <Lock className="w-4 h-4 mr-2" />
+          {t('scale.capture')}
+        </button>
+      </div>
+    </div>
+  );
+};
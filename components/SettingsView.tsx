@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import { Scale, Save, History, Hash, Lock } from 'lucide-react';
+import { SupervisorApproval, TareExpiryAction, TareSettings, TicketNumberingSettings, WeightEnforcement, WeightValidationSettings } from '../types';
+import { AXLE_CONFIGURATIONS, getLegalGrossLimit, loadValidationSettings, saveValidationSettings } from '../services/weightValidation';
+import { loadTareSettings, saveTareSettings } from '../services/tareHistory';
+import { loadNumberingSettings, peekTicketNumber, saveNumberingSettings, validateNumberingSettings } from '../services/ticketNumbering';
+import { fetchRecentTickets } from '../services/mockFirestore';
+import { StorageSettingsPanel } from './StorageSettingsPanel';
+import { SyncPanel } from './SyncPanel';
+import { SiteSettingsPanel } from './SiteSettingsPanel';
+import { PrinterSettingsPanel } from './PrinterSettingsPanel';
+import { ClassificationRulesPanel } from './ClassificationRulesPanel';
+import { UserAccountsPanel } from './UserAccountsPanel';
+import { SupervisorApprovalForm } from './SupervisorApprovalForm';
+import { hasRole } from '../services/authService';
+import { getSession } from '../services/session';
+import { MessageKey } from '../locales/pt-BR';
+import { useI18n } from './I18nProvider';
+
+const ENFORCEMENT_LABELS: Record<WeightEnforcement, MessageKey> = {
+  warn: 'settings.enforcement.warn',
+  override: 'settings.enforcement.override',
+  block: 'settings.enforcement.block',
+};
+
+const TARE_EXPIRY_LABELS: Record<TareExpiryAction, MessageKey> = {
+  warn: 'settings.tareExpiry.warn',
+  block: 'settings.tareExpiry.block',
+};
+
+export const SettingsView: React.FC = () => {
+  const [validationSettings, setValidationSettings] = useState<WeightValidationSettings>(loadValidationSettings);
+  const [tareSettings, setTareSettings] = useState<TareSettings>(loadTareSettings);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [tareSavedMessage, setTareSavedMessage] = useState<string | null>(null);
+  const [numberingSettings, setNumberingSettings] = useState<TicketNumberingSettings>(loadNumberingSettings);
+  const [ticketIds, setTicketIds] = useState<string[]>([]);
+  const [numberingMessage, setNumberingMessage] = useState<string | null>(null);
+  // Editing is unlocked by a supervisor's PIN for as long as this screen stays open
+  const [approval, setApproval] = useState<SupervisorApproval | null>(null);
+  const session = getSession();
+  const { t, formatKg, formatTime } = useI18n();
+
+  useEffect(() => {
+    fetchRecentTickets().then(tickets => setTicketIds(tickets.map(ticket => ticket.id || '')));
+  }, []);
+
+  const numberingErrors = validateNumberingSettings(numberingSettings);
+
+  const handleSaveValidation = () => {
+    saveValidationSettings(validationSettings);
+    setSavedMessage(t('settings.weightLimitsSaved'));
+  };
+
+  const handleSaveNumbering = () => {
+    if (numberingErrors.length > 0) return;
+    saveNumberingSettings(numberingSettings);
+    setNumberingMessage(t('settings.numberingSaved'));
+  };
+
+  const handleSaveTare = () => {
+    saveTareSettings(tareSettings);
+    setTareSavedMessage(t('settings.tareSaved'));
+  };
+
+  if (!approval) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+        <h2 className="text-lg font-semibold flex items-center text-slate-700">
+          <Lock className="w-5 h-5 mr-2 text-blue-600" />
+          {t('settings.title')}
+        </h2>
+        <p className="text-sm text-slate-500">{t('settings.approvalRequired')}</p>
+        <SupervisorApprovalForm action="settings-change" confirmLabel={t('settings.unlock')} onApproved={setApproval} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-500 flex items-center">
+        <Lock className="w-4 h-4 mr-1" />
+        {t('settings.unlockedBy', { supervisor: approval.supervisorName, time: formatTime(approval.timestamp) })}
+      </p>
+      {session && hasRole(session.role, 'admin') && <UserAccountsPanel />}
+      <SiteSettingsPanel />
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+          <Hash className="w-5 h-5 mr-2 text-blue-600" />
+          {t('settings.numbering')}
+        </h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.siteCode')}</span>
+            <input
+              value={numberingSettings.siteCode}
+              onChange={e => setNumberingSettings({ ...numberingSettings, siteCode: e.target.value.toUpperCase().trim() })}
+              className="border border-slate-300 rounded px-2 py-1 font-mono"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.series')}</span>
+            <input
+              value={numberingSettings.series}
+              onChange={e => setNumberingSettings({ ...numberingSettings, series: e.target.value.toUpperCase().trim() })}
+              className="border border-slate-300 rounded px-2 py-1 font-mono"
+            />
+          </label>
+          <div className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.nextNumber')}</span>
+            <span className="font-mono font-bold text-slate-800 py-1">
+              {numberingErrors.length === 0 ? peekTicketNumber(ticketIds, numberingSettings) : '—'}
+            </span>
+          </div>
+        </div>
+
+        {numberingErrors.length > 0 && (
+          <ul className="mt-3 text-sm text-red-600">
+            {numberingErrors.map((error, i) => <li key={i}>{t(error.key, error.params)}</li>)}
+          </ul>
+        )}
+
+        <div className="mt-4 flex items-center justify-end space-x-3">
+          {numberingMessage && <span className="text-sm text-green-600">{numberingMessage}</span>}
+          <button
+            onClick={handleSaveNumbering}
+            disabled={numberingErrors.length > 0}
+            className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {t('settings.save')}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+          <Scale className="w-5 h-5 mr-2 text-blue-600" />
+          {t('settings.weightLimits')}
+        </h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.grossTolerance')}</span>
+            <input
+              type="number"
+              step="0.5"
+              value={validationSettings.grossTolerancePercent}
+              onChange={e => setValidationSettings({ ...validationSettings, grossTolerancePercent: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.axleTolerance')}</span>
+            <input
+              type="number"
+              step="0.5"
+              value={validationSettings.axleTolerancePercent}
+              onChange={e => setValidationSettings({ ...validationSettings, axleTolerancePercent: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.capacityTolerance')}</span>
+            <input
+              type="number"
+              step="0.5"
+              value={validationSettings.capacityTolerancePercent}
+              onChange={e => setValidationSettings({ ...validationSettings, capacityTolerancePercent: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col md:col-span-3">
+            <span className="text-slate-500 mb-1">{t('settings.enforcement')}</span>
+            <select
+              value={validationSettings.enforcement}
+              onChange={e => setValidationSettings({ ...validationSettings, enforcement: e.target.value as WeightEnforcement })}
+              className="border border-slate-300 rounded px-2 py-1"
+            >
+              {(Object.keys(ENFORCEMENT_LABELS) as WeightEnforcement[]).map(key => (
+                <option key={key} value={key}>{t(ENFORCEMENT_LABELS[key])}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <table className="w-full text-xs mt-4">
+          <thead className="text-slate-500 uppercase">
+            <tr>
+              <th className="text-left py-1">{t('settings.configuration')}</th>
+              <th className="text-right py-1">{t('settings.legalGross')}</th>
+              <th className="text-right py-1">{t('settings.withTolerance')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {(Object.keys(AXLE_CONFIGURATIONS) as (keyof typeof AXLE_CONFIGURATIONS)[]).map(config => {
+              const limit = getLegalGrossLimit(config);
+              return (
+                <tr key={config}>
+                  <td className="py-1"><span className="font-mono font-bold">{config}</span> · {t(AXLE_CONFIGURATIONS[config].label)}</td>
+                  <td className="py-1 text-right font-mono">{formatKg(limit)}</td>
+                  <td className="py-1 text-right font-mono">{formatKg(Math.floor(limit * (1 + validationSettings.grossTolerancePercent / 100)))}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="mt-4 flex items-center justify-end space-x-3">
+          {savedMessage && <span className="text-sm text-green-600">{savedMessage}</span>}
+          <button
+            onClick={handleSaveValidation}
+            className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {t('settings.save')}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+          <History className="w-5 h-5 mr-2 text-blue-600" />
+          {t('settings.tareValidity')}
+        </h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.tareValidityDays')}</span>
+            <input
+              type="number"
+              min="1"
+              value={tareSettings.validityDays}
+              onChange={e => setTareSettings({ ...tareSettings, validityDays: Number(e.target.value) })}
+              className="border border-slate-300 rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('settings.tareExpired')}</span>
+            <select
+              value={tareSettings.expiredAction}
+              onChange={e => setTareSettings({ ...tareSettings, expiredAction: e.target.value as TareExpiryAction })}
+              className="border border-slate-300 rounded px-2 py-1"
+            >
+              {(Object.keys(TARE_EXPIRY_LABELS) as TareExpiryAction[]).map(key => (
+                <option key={key} value={key}>{t(TARE_EXPIRY_LABELS[key])}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="mt-4 flex items-center justify-end space-x-3">
+          {tareSavedMessage && <span className="text-sm text-green-600">{tareSavedMessage}</span>}
+          <button
+            onClick={handleSaveTare}
+            className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {t('settings.save')}
+          </button>
+        </div>
+      </div>
+
+      <ClassificationRulesPanel />
+      <PrinterSettingsPanel />
+      <StorageSettingsPanel />
+      <SyncPanel />
+    </div>
+  );
+};
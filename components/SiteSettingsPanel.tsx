@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Building2, Plus, Save, Trash2, CheckCircle } from 'lucide-react';
+import { Locale, SiteSettings } from '../types';
+import { createEmptySite, getActiveSite, loadSites, readLogoFile, saveSites, setActiveSiteId, validateSite } from '../services/siteSettings';
+import { TicketLayoutSelect } from './TicketLayoutSelect';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_LABELS, describeError } from '../services/i18n';
+import { MessageKey } from '../locales/pt-BR';
+import { useI18n } from './I18nProvider';
+
+const TEXT_FIELDS: { key: keyof SiteSettings; label: MessageKey; wide?: boolean; mono?: boolean }[] = [
+  { key: 'siteId', label: 'sites.field.siteId', mono: true },
+  { key: 'cnpj', label: 'sites.field.cnpj', mono: true },
+  { key: 'legalName', label: 'sites.field.legalName', wide: true },
+  { key: 'tradeName', label: 'sites.field.tradeName', wide: true },
+  { key: 'address', label: 'sites.field.address', wide: true },
+  { key: 'city', label: 'sites.field.city' },
+  { key: 'state', label: 'sites.field.state' },
+  { key: 'scaleSerial', label: 'sites.field.scaleSerial', mono: true },
+  { key: 'inmetroSeal', label: 'sites.field.inmetroSeal', mono: true },
+];
+
+export const SiteSettingsPanel: React.FC = () => {
+  const [sites, setSites] = useState<SiteSettings[]>(loadSites);
+  const [activeSiteId, setActiveSite] = useState(() => getActiveSite().siteId);
+  const [selectedIndex, setSelectedIndex] = useState(() => Math.max(0, loadSites().findIndex(s => s.siteId === getActiveSite().siteId)));
+  const [message, setMessage] = useState<string | null>(null);
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const site = sites[selectedIndex] ?? sites[0];
+  const errors = sites.flatMap(s => validateSite(s, sites).map(e => {
+    const text = t(e.key, e.params);
+    return sites.length > 1 ? `${s.siteId || t('sites.new')}: ${text}` : text;
+  }));
+
+  const updateSite = (changes: Partial<SiteSettings>) => {
+    setSites(sites.map((s, i) => (i === selectedIndex ? { ...s, ...changes } : s)));
+    setMessage(null);
+  };
+
+  const handleAdd = () => {
+    setSites([...sites, createEmptySite()]);
+    setSelectedIndex(sites.length);
+  };
+
+  const handleRemove = () => {
+    if (sites.length <= 1) return;
+    setSites(sites.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(0);
+  };
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      updateSite({ logoDataUrl: await readLogoFile(file) });
+    } catch (err) {
+      setMessage(describeError(i18n, err));
+    }
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    saveSites(sites);
+    // The station keeps its site unless it was removed
+    const active = sites.find(s => s.siteId === activeSiteId) ? activeSiteId : sites[0].siteId;
+    setActiveSiteId(active);
+    setActiveSite(active);
+    setMessage(t('sites.saved'));
+  };
+
+  const handleActivate = () => {
+    if (errors.length > 0) return;
+    saveSites(sites);
+    setActiveSiteId(site.siteId);
+    setActiveSite(site.siteId);
+    setMessage(t('sites.activated', { site: site.tradeName || site.legalName }));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+        <Building2 className="w-5 h-5 mr-2 text-blue-600" />
+        {t('sites.title')}
+      </h2>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        {sites.map((s, i) => (
+          <button
+            key={i}
+            onClick={() => setSelectedIndex(i)}
+            className={`px-3 py-1 rounded border flex items-center ${i === selectedIndex ? 'bg-blue-600 text-white border-blue-600' : 'bg-slate-100 border-slate-300 hover:bg-slate-200'}`}
+          >
+            {s.siteId === activeSiteId && <CheckCircle className="w-3 h-3 mr-1" />}
+            {s.siteId || t('sites.new')}
+          </button>
+        ))}
+        <button onClick={handleAdd} className="px-3 py-1 rounded border border-dashed border-slate-400 text-slate-600 hover:bg-slate-100 flex items-center">
+          <Plus className="w-3 h-3 mr-1" />
+          {t('sites.new')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        {TEXT_FIELDS.map(({ key, label, wide, mono }) => (
+          <label key={key} className={`flex flex-col ${wide ? 'md:col-span-2' : ''}`}>
+            <span className="text-slate-500 mb-1">{t(label)}</span>
+            <input
+              value={site[key]}
+              onChange={e => {
+                const value = key === 'siteId' || key === 'state' ? e.target.value.toUpperCase().trim() : e.target.value;
+                updateSite({ [key]: key === 'cnpj' ? value.replace(/\D/g, '') : value });
+              }}
+              className={`border border-slate-300 rounded px-2 py-1 ${mono ? 'font-mono' : ''}`}
+            />
+          </label>
+        ))}
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('sites.defaultLayout')}</span>
+          <TicketLayoutSelect value={site.ticketLayout} onChange={ticketLayout => updateSite({ ticketLayout })} />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('sites.ticketLocale')}</span>
+          <select
+            value={site.ticketLocale ?? DEFAULT_LOCALE}
+            onChange={e => updateSite({ ticketLocale: e.target.value as Locale })}
+            className="border border-slate-300 rounded px-2 py-1 text-sm bg-white"
+          >
+            {LOCALES.map(locale => <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col md:col-span-2">
+          <span className="text-slate-500 mb-1">{t('sites.footerText')}</span>
+          <textarea
+            value={site.footerText}
+            onChange={e => updateSite({ footerText: e.target.value })}
+            rows={2}
+            className="border border-slate-300 rounded px-2 py-1"
+          />
+        </label>
+        <div className="flex flex-col md:col-span-2">
+          <span className="text-slate-500 mb-1">{t('sites.logo')}</span>
+          <div className="flex items-center space-x-3">
+            {site.logoDataUrl && <img src={site.logoDataUrl} alt={t('sites.logo')} className="max-h-12 border border-slate-200 rounded p-1" />}
+            <input type="file" accept="image/*" onChange={e => handleLogo(e.target.files?.[0])} className="text-xs" />
+            {site.logoDataUrl && (
+              <button onClick={() => updateSite({ logoDataUrl: '' })} className="text-xs text-red-600 hover:underline">{t('sites.removeLogo')}</button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-xs text-red-600 list-disc list-inside">
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+        {message && <span className="text-sm text-slate-600">{message}</span>}
+        {sites.length > 1 && (
+          <button onClick={handleRemove} className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 rounded shadow flex items-center font-medium transition-colors">
+            <Trash2 className="w-4 h-4 mr-2" />
+            {t('sites.remove')}
+          </button>
+        )}
+        {site.siteId !== activeSiteId && (
+          <button
+            onClick={handleActivate}
+            disabled={errors.length > 0}
+            className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {t('sites.activate')}
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={errors.length > 0}
+          className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {t('sites.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Database, Save, PlugZap } from 'lucide-react';
+import { StorageBackend, StorageSettings, createRepository, loadStorageSettings, saveStorageSettings } from '../services/repository';
+import { fetchMigrationReports } from '../services/storageMigration';
+import { MessageKey } from '../locales/pt-BR';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+const BACKEND_LABELS: Record<StorageBackend, MessageKey> = {
+  indexeddb: 'storage.backend.indexeddb',
+  rest: 'storage.backend.rest',
+  local: 'storage.backend.local',
+};
+
+export const StorageSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<StorageSettings>(loadStorageSettings);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const migrations = fetchMigrationReports();
+  const i18n = useI18n();
+  const { t, formatDateTime } = i18n;
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setMessage(null);
+    try {
+      const trucks = await createRepository(settings).listTrucks();
+      setMessage(t('storage.testOk', { count: trucks.length }));
+    } catch (err) {
+      setMessage(t('storage.testFailed', { error: describeError(i18n, err) }));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    saveStorageSettings(settings);
+    setMessage(t('storage.saved'));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+        <Database className="w-5 h-5 mr-2 text-blue-600" />
+        {t('storage.title')}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('storage.backend')}</span>
+          <select
+            value={settings.backend}
+            onChange={e => setSettings({ ...settings, backend: e.target.value as StorageBackend })}
+            className="border border-slate-300 rounded px-2 py-1"
+          >
+            {(Object.keys(BACKEND_LABELS) as StorageBackend[]).map(key => (
+              <option key={key} value={key}>{t(BACKEND_LABELS[key])}</option>
+            ))}
+          </select>
+        </label>
+        {settings.backend === 'rest' && (
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('storage.restUrl')}</span>
+            <input
+              value={settings.restUrl}
+              onChange={e => setSettings({ ...settings, restUrl: e.target.value.trim() })}
+              className="border border-slate-300 rounded px-2 py-1 font-mono"
+            />
+          </label>
+        )}
+        {settings.backend === 'rest' && (
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('storage.restToken')}</span>
+            <input
+              type="password"
+              value={settings.restToken}
+              onChange={e => setSettings({ ...settings, restToken: e.target.value.trim() })}
+              className="border border-slate-300 rounded px-2 py-1 font-mono"
+            />
+          </label>
+        )}
+      </div>
+
+      {migrations.length > 0 && (
+        <ul className="mt-3 text-xs text-slate-500 space-y-1">
+          {migrations.map(m => (
+            <li key={m.target}>
+              {t('storage.migrated', {
+                target: m.target,
+                time: formatDateTime(m.migratedAt),
+                tickets: m.tickets,
+                trucks: m.trucks,
+                tares: m.tareMeasurements,
+                settings: m.settings,
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex items-center justify-end space-x-3">
+        {message && <span className="text-sm text-slate-600">{message}</span>}
+        <button
+          onClick={handleTest}
+          disabled={isTesting}
+          className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <PlugZap className="w-4 h-4 mr-2" />
+          {t('storage.test')}
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {t('storage.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
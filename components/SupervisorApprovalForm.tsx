@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { AlertTriangle, KeyRound } from 'lucide-react';
+import { ApprovalAction, SupervisorApproval } from '../types';
+import { APPROVAL_ACTION_LABELS, approveAction, listApprovers } from '../services/authService';
+import { getSession } from '../services/session';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface SupervisorApprovalFormProps {
+  action: ApprovalAction;
+  ticketId?: string;
+  details?: string; // Recorded in the audit log with the approval
+  reasonPlaceholder?: string; // When set, a reason is required and recorded with the approval
+  confirmLabel: string;
+  confirmClassName?: string;
+  disabled?: boolean; // The action itself is not ready yet
+  onApproved: (approval: SupervisorApproval) => void | Promise<void>;
+}
+
+/**
+ * Supervisor PIN confirmation for a sensitive action. The approval is logged before
+ * `onApproved` runs the action.
+ */
+export const SupervisorApprovalForm: React.FC<SupervisorApprovalFormProps> = ({
+  action,
+  ticketId,
+  details,
+  reasonPlaceholder,
+  confirmLabel,
+  confirmClassName = 'bg-blue-600 hover:bg-blue-700',
+  disabled = false,
+  onApproved,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const approvers = listApprovers();
+  // A supervisor on duty approves with their own account by default
+  const [supervisorId, setSupervisorId] = useState(() => {
+    const session = getSession();
+    return approvers.find(u => u.userId === session?.userId)?.userId ?? approvers[0]?.userId ?? '';
+  });
+  const [pin, setPin] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const canSubmit = !disabled && !isChecking && !!supervisorId && !!pin && (!reasonPlaceholder || !!reason.trim());
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const approval = await approveAction(supervisorId, pin, action, reason.trim(), ticketId, details);
+      setPin('');
+      await onApproved(approval);
+    } catch (err) {
+      setError(describeError(i18n, err));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (approvers.length === 0) {
+    return <p className="text-sm text-red-700">{t('approval.noApprovers', { action: t(APPROVAL_ACTION_LABELS[action]) })}</p>;
+  }
+
+  const inputClass = 'border border-slate-300 rounded px-2 py-1';
+
+  return (
+    <div className="space-y-2 text-sm">
+      <span className="flex items-center text-slate-600 font-medium">
+        <KeyRound className="w-4 h-4 mr-1" />
+        {t('approval.title', { action: t(APPROVAL_ACTION_LABELS[action]) })}
+      </span>
+      {reasonPlaceholder && (
+        <textarea value={reason} onChange={e => setReason(e.target.value)} placeholder={reasonPlaceholder} rows={2} className={`w-full ${inputClass}`} />
+      )}
+      <div className="flex flex-wrap gap-2">
+        <select value={supervisorId} onChange={e => setSupervisorId(e.target.value)} className={`flex-grow ${inputClass}`}>
+          {approvers.map(u => <option key={u.userId} value={u.userId}>{u.name}</option>)}
+        </select>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+          onKeyDown={e => e.key === 'Enter' && handleSubmit()}
+          placeholder="PIN"
+          className={`w-28 ${inputClass}`}
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className={`px-3 py-2 text-white rounded font-medium transition-colors disabled:bg-slate-200 disabled:text-slate-400 ${confirmClassName}`}
+        >
+          {isChecking ? t('approval.checking') : confirmLabel}
+        </button>
+      </div>
+      {error && (
+        <div className="p-2 bg-red-50 text-red-700 rounded flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, Save, Upload, Trash2, AlertTriangle } from 'lucide-react';
+import {
+  OutboxEntry,
+  SyncEntity,
+  SyncSettings,
+  SyncState,
+  SyncStatus,
+  discardOutboxEntry,
+  fetchOutbox,
+  getSyncStatus,
+  loadSyncSettings,
+  queueAllLocalRecords,
+  retryFailedEntries,
+  saveSyncSettings,
+  subscribeSyncStatus,
+  syncNow,
+} from '../services/syncService';
+import { loadStorageSettings } from '../services/repository';
+import { MessageKey } from '../locales/pt-BR';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export const SYNC_STATE_LABELS: Record<SyncState, MessageKey> = {
+  disabled: 'sync.state.disabled',
+  idle: 'sync.state.idle',
+  syncing: 'sync.state.syncing',
+  offline: 'sync.state.offline',
+  error: 'sync.state.error',
+};
+
+const ENTITY_LABELS: Record<SyncEntity, MessageKey> = {
+  ticket: 'sync.entity.ticket',
+  truck: 'sync.entity.truck',
+  tare: 'sync.entity.tare',
+};
+
+/**
+ * Compact status for the header: state plus pending and failed counts.
+ */
+export const SyncIndicator: React.FC<{ onClick: () => void }> = ({ onClick }) => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+  const { t } = useI18n();
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  if (status.state === 'disabled' && status.pending === 0 && status.failed === 0) return null;
+  const Icon = status.state === 'offline' || status.state === 'error' ? CloudOff : Cloud;
+
+  return (
+    <button
+      onClick={onClick}
+      title={status.lastError || t(SYNC_STATE_LABELS[status.state])}
+      className="flex items-center space-x-1 text-sm bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded transition-colors"
+    >
+      <Icon className={`w-4 h-4 ${status.state === 'idle' ? 'text-green-400' : status.state === 'syncing' ? 'text-blue-300' : 'text-amber-400'}`} />
+      {status.pending > 0 && <span>{status.pending}</span>}
+      {status.failed > 0 && <span className="text-red-400 font-bold">!{status.failed}</span>}
+    </button>
+  );
+};
+
+export const SyncPanel: React.FC = () => {
+  const [settings, setSettings] = useState<SyncSettings>(loadSyncSettings);
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>(fetchOutbox);
+  const [message, setMessage] = useState<string | null>(null);
+  const usesRestBackend = loadStorageSettings().backend === 'rest';
+  const i18n = useI18n();
+  const { t, formatDateTime } = i18n;
+
+  useEffect(() => subscribeSyncStatus(s => {
+    setStatus(s);
+    setOutbox(fetchOutbox());
+  }), []);
+
+  const handleSave = () => {
+    saveSyncSettings(settings);
+    setMessage(t('sync.saved'));
+  };
+
+  const handleQueueAll = async () => {
+    try {
+      const count = await queueAllLocalRecords();
+      setMessage(t('sync.queued', { count }));
+    } catch (err) {
+      setMessage(t('sync.queueFailed', { error: describeError(i18n, err) }));
+    }
+  };
+
+  const handleRetry = () => {
+    retryFailedEntries();
+    syncNow();
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+        <Cloud className="w-5 h-5 mr-2 text-blue-600" />
+        {t('sync.title')}
+      </h2>
+
+      {usesRestBackend && (
+        <p className="mb-3 text-sm text-slate-500">{t('sync.restBackendNote')}</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <label className="flex items-center space-x-2 md:col-span-3">
+          <input type="checkbox" checked={settings.enabled} onChange={e => setSettings({ ...settings, enabled: e.target.checked })} />
+          <span>{t('sync.enabled')}</span>
+        </label>
+        <label className="flex flex-col md:col-span-2">
+          <span className="text-slate-500 mb-1">{t('sync.serverUrl')}</span>
+          <input
+            value={settings.serverUrl}
+            onChange={e => setSettings({ ...settings, serverUrl: e.target.value.trim() })}
+            className="border border-slate-300 rounded px-2 py-1 font-mono"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('sync.interval')}</span>
+          <input
+            type="number"
+            min={5}
+            value={settings.intervalSeconds}
+            onChange={e => setSettings({ ...settings, intervalSeconds: Number(e.target.value) })}
+            className="border border-slate-300 rounded px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col">
+          <span className="text-slate-500 mb-1">{t('sync.stationId')}</span>
+          <input
+            value={settings.stationId}
+            onChange={e => setSettings({ ...settings, stationId: e.target.value.trim().toUpperCase() })}
+            className="border border-slate-300 rounded px-2 py-1 font-mono"
+          />
+        </label>
+        <label className="flex flex-col md:col-span-2">
+          <span className="text-slate-500 mb-1">{t('sync.token')}</span>
+          <input
+            type="password"
+            value={settings.token}
+            onChange={e => setSettings({ ...settings, token: e.target.value.trim() })}
+            className="border border-slate-300 rounded px-2 py-1 font-mono"
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200 text-sm flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <span className="font-semibold">{t(SYNC_STATE_LABELS[status.state])}</span>
+          <span className="text-slate-500"> · {t('sync.counts', { pending: status.pending, failed: status.failed })}</span>
+          {status.lastSyncAt && (
+            <span className="text-slate-500"> · {t('sync.lastSync', { time: formatDateTime(status.lastSyncAt) })}</span>
+          )}
+          {status.lastError && <div className="text-xs text-red-600 mt-1">{status.lastError}</div>}
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => syncNow()}
+            disabled={status.state === 'disabled' || status.state === 'syncing'}
+            className="px-3 py-1 bg-slate-200 hover:bg-slate-300 disabled:opacity-50 rounded flex items-center"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            {t('sync.syncNow')}
+          </button>
+          {status.failed > 0 && (
+            <button onClick={handleRetry} className="px-3 py-1 bg-amber-100 text-amber-800 hover:bg-amber-200 rounded flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              {t('sync.retry')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {outbox.length > 0 && (
+        <div className="mt-3 max-h-64 overflow-y-auto border border-slate-200 rounded">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-100 text-slate-500 sticky top-0">
+              <tr>
+                <th className="text-left px-2 py-1">{t('sync.record')}</th>
+                <th className="text-left px-2 py-1">{t('sync.changedAt')}</th>
+                <th className="text-left px-2 py-1">{t('sync.status')}</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {outbox.map(entry => (
+                <tr key={`${entry.entity}:${entry.recordId}`} className="border-t border-slate-100">
+                  <td className="px-2 py-1 font-mono">{t(ENTITY_LABELS[entry.entity])} {entry.recordId}</td>
+                  <td className="px-2 py-1">{formatDateTime(entry.queuedAt)}</td>
+                  <td className={`px-2 py-1 ${entry.status === 'failed' ? 'text-red-600' : 'text-slate-600'}`}>
+                    {entry.status === 'failed' ? t('sync.entryFailed') : t('sync.entryPending')}
+                    {entry.attempts > 0 && ` ${t('sync.attempts', { count: entry.attempts })}`}
+                    {entry.lastError && <div className="text-[10px] text-slate-500">{entry.lastError}</div>}
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    {entry.status === 'failed' && (
+                      <button
+                        onClick={() => discardOutboxEntry(entry.entity, entry.recordId)}
+                        title={t('sync.discard')}
+                        className="text-slate-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center justify-end space-x-3">
+        {message && <span className="text-sm text-slate-600">{message}</span>}
+        <button
+          onClick={handleQueueAll}
+          disabled={status.state === 'disabled'}
+          title={t('sync.queueAllHint')}
+          className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {t('sync.queueAll')}
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {t('sync.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { History, TrendingUp } from 'lucide-react';
+import { TareMeasurement, TareStatus, Truck } from '../types';
+import { saveTareMeasurement } from '../services/mockFirestore';
+import { computeTareDrift } from '../services/tareHistory';
+import { SupervisorApprovalForm } from './SupervisorApprovalForm';
+import { MessageKey } from '../locales/pt-BR';
+import { useI18n } from './I18nProvider';
+
+interface TareHistoryPanelProps {
+  truck: Truck;
+  history: TareMeasurement[]; // Full history; filtered to this truck here
+  status: TareStatus;
+  onChange: () => void;
+}
+
+const SOURCE_LABELS: Record<TareMeasurement['source'], MessageKey> = {
+  'exit-weighing': 'tare.source.exit-weighing',
+  manual: 'tare.source.manual',
+};
+
+export const TareStatusBadge: React.FC<{ status: TareStatus }> = ({ status }) => {
+  const { t, formatDate } = useI18n();
+  if (!status.measurement) {
+    return <span className="font-sans text-xs font-medium bg-amber-100 text-amber-700 rounded px-1.5 py-0.5">{t('tare.none')}</span>;
+  }
+  return status.expired ? (
+    <span className="font-sans text-xs font-medium bg-red-100 text-red-700 rounded px-1.5 py-0.5">{t('tare.expired', { date: formatDate(status.expiresAt!) })}</span>
+  ) : (
+    <span className="font-sans text-xs font-medium bg-green-100 text-green-700 rounded px-1.5 py-0.5">
+      {t('tare.validUntil', { date: formatDate(status.expiresAt!) })}
+    </span>
+  );
+};
+
+export const TareHistoryPanel: React.FC<TareHistoryPanelProps> = ({ truck, history, status, onChange }) => {
+  const [manualWeight, setManualWeight] = useState('');
+  const measurements = history.filter(m => m.truckId === truck.truckId).reverse();
+  const drift = computeTareDrift(history, truck.truckId);
+  const { t, formatNumber, formatKg, formatDate, formatDateTime } = useI18n();
+
+  const handleAddManual = async () => {
+    const weight = Number(manualWeight);
+    if (!(weight > 0)) return;
+    await saveTareMeasurement({
+      truckId: truck.truckId,
+      plateNumber: truck.plateNumber,
+      weight,
+      measuredAt: Date.now(),
+      source: 'manual',
+    });
+    setManualWeight('');
+    onChange();
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-slate-50 rounded border border-slate-200 space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center font-medium text-slate-600">
+          <History className="w-4 h-4 mr-1" />
+          {t('tare.history')}
+        </span>
+        <TareStatusBadge status={status} />
+      </div>
+
+      {drift.count > 1 && (
+        <div className="flex flex-wrap items-center text-slate-600">
+          <TrendingUp className="w-4 h-4 mr-1 flex-shrink-0" />
+          {t('tare.driftSince', { date: formatDate(drift.first!.measuredAt) })}
+          <span className={`font-mono font-bold mx-1 ${drift.drift === 0 ? '' : drift.drift > 0 ? 'text-red-600' : 'text-blue-600'}`}>
+            {drift.drift > 0 ? '+' : ''}{formatKg(drift.drift)} ({formatNumber(drift.driftPercent)}%)
+          </span>
+          · {t('tare.driftRange', { min: drift.min, max: drift.max })}
+          · {t('tare.driftTrend', { trend: `${drift.kgPerMonth > 0 ? '+' : ''}${formatNumber(drift.kgPerMonth)}` })}
+        </div>
+      )}
+
+      {measurements.length === 0 ? (
+        <p className="text-slate-400">{t('tare.empty')}</p>
+      ) : (
+        <table className="w-full">
+          <thead className="text-slate-500 uppercase">
+            <tr>
+              <th className="text-left py-1">{t('tare.date')}</th>
+              <th className="text-left py-1">{t('tare.source')}</th>
+              <th className="text-right py-1">{t('tare.weight')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {measurements.map(m => (
+              <tr key={m.id}>
+                <td className="py-1">{formatDateTime(m.measuredAt)}</td>
+                <td className="py-1">{t(SOURCE_LABELS[m.source])}{m.ticketId && ` (${m.ticketId})`}</td>
+                <td className="py-1 text-right font-mono">{formatKg(m.weight)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* A manual tare replaces the weighed one, so a supervisor approves it */}
+      <div className="space-y-2">
+        <input
+          type="number"
+          value={manualWeight}
+          onChange={e => setManualWeight(e.target.value)}
+          placeholder={t('tare.manualWeight')}
+          className="border border-slate-300 rounded px-2 py-1 w-40"
+        />
+        <SupervisorApprovalForm
+          action="tare-edit"
+          details={`${truck.plateNumber}, ${Number(manualWeight).toLocaleString('pt-BR')} kg`}
+          reasonPlaceholder={t('tare.manualReason')}
+          confirmLabel={t('tare.record')}
+          disabled={!(Number(manualWeight) > 0)}
+          onApproved={handleAddManual}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Ban, PencilLine, AlertTriangle } from 'lucide-react';
+import { SupervisorApproval, Truck, WeighingTicket } from '../types';
+import { cancelTicket, correctTicket, fetchActiveTicketsForDocument } from '../services/mockFirestore';
+import { signTicket } from '../services/signatureService';
+import { loadValidationSettings, validateWeights } from '../services/weightValidation';
+import { formatPlate, normalizePlate } from '../services/plates';
+import { getSessionActor, getSessionUser } from '../services/session';
+import { SupervisorApprovalForm } from './SupervisorApprovalForm';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export type TicketAction = 'cancel' | 'correct';
+
+interface TicketActionsPanelProps {
+  ticket: WeighingTicket;
+  action: TicketAction;
+  trucks: Truck[];
+  onDone: (ticket: WeighingTicket, message: string) => void; // Cancelled ticket or new replacement
+  onClose: () => void;
+}
+
+export const TicketActionsPanel: React.FC<TicketActionsPanelProps> = ({ ticket, action, trucks, onDone, onClose }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [invoiceId, setInvoiceId] = useState(ticket.invoiceId);
+  const [netWeightInvoice, setNetWeightInvoice] = useState(String(ticket.netWeightInvoice));
+  const [truckPlateNumber, setTruckPlateNumber] = useState(ticket.truckPlateNumber);
+  const [truckId, setTruckId] = useState(ticket.truckId);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [duplicateIds, setDuplicateIds] = useState<string[]>([]);
+
+  const isCorrection = action === 'correct';
+  // The corrected vehicle and document are checked again; approvals of the original do not carry over
+  const truck = trucks.find(candidate => candidate.truckId === truckId);
+  // Axle weights only apply while the corrected vehicle has the configuration they were weighed with
+  const axleGroupWeights = truck?.axleConfiguration && truck.axleConfiguration === ticket.weightValidation?.axleConfiguration
+    ? ticket.axleGroupWeights
+    : undefined;
+  const weightValidation = truck
+    ? validateWeights(ticket.grossWeightCalculated, truck, undefined, axleGroupWeights)
+    : ticket.weightValidation;
+  const needsRelease = ticket.ticketStatus !== 'AwaitingExit' && (weightValidation?.violations.length ?? 0) > 0 &&
+    loadValidationSettings().enforcement === 'override';
+  const hasChanges = invoiceId !== ticket.invoiceId || Number(netWeightInvoice) !== ticket.netWeightInvoice ||
+    normalizePlate(truckPlateNumber) !== normalizePlate(ticket.truckPlateNumber) || truckId !== ticket.truckId;
+  const canSubmit = !isSaving &&
+    (!isCorrection || (hasChanges && !!invoiceId.trim() && Number(netWeightInvoice) > 0 && !!normalizePlate(truckPlateNumber)));
+
+  useEffect(() => {
+    setDuplicateIds([]);
+    const documentId = invoiceId.trim();
+    if (!isCorrection || !documentId) return;
+    let cancelled = false;
+    const accessKey = documentId === ticket.invoiceId ? ticket.accessKey : undefined;
+    fetchActiveTicketsForDocument(documentId, accessKey)
+      .then(tickets => { if (!cancelled) setDuplicateIds(tickets.filter(other => other.id !== ticket.id).map(other => other.id!)); })
+      .catch(err => console.error('Failed to look up tickets for the document', err));
+    return () => { cancelled = true; };
+  }, [isCorrection, invoiceId, ticket]);
+
+  // Runs once a supervisor approved with their PIN; the reason comes with the approval
+  const handleApproved = async ({ reason, supervisorName, supervisorId, timestamp }: SupervisorApproval) => {
+    if (!canSubmit || !ticket.id) return;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      if (!isCorrection) {
+        const cancelled = await cancelTicket(ticket.id, reason, getSessionActor(), undefined, supervisorName);
+        onDone(cancelled, t('ticketActions.cancelled', { ticket: ticket.id }));
+        return;
+      }
+
+      // Weighings come from the scale and are never edited; only document and vehicle data change.
+      // The supervisor's approval of the correction also covers what the panel asked them to release.
+      const approval = { supervisorName, supervisorId, reason, timestamp };
+      const replacement: WeighingTicket = {
+        ...ticket,
+        invoiceId: invoiceId.trim(),
+        netWeightInvoice: Number(netWeightInvoice),
+        truckPlateNumber: formatPlate(truckPlateNumber),
+        truckId,
+        // A different vehicle brings its own carrier; otherwise the one at issue stays
+        carrierName: truckId !== ticket.truckId ? truck?.carrierName ?? '' : ticket.carrierName,
+        issuedBy: getSessionUser() ?? ticket.issuedBy,
+        weightValidation,
+        axleGroupWeights,
+        override: needsRelease ? approval : undefined,
+        duplicateOverride: duplicateIds.length > 0 ? approval : undefined,
+      };
+
+      const saved = await correctTicket(ticket.id, replacement, reason, getSessionActor(), supervisorName, signTicket);
+      onDone(saved, t('ticketActions.corrected', { ticket: ticket.id, replacement: saved.id! }));
+    } catch (err) {
+      setError(describeError(i18n, err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'border border-slate-300 rounded px-2 py-1';
+
+  return (
+    <div className="w-full max-w-xl bg-white rounded-lg border border-slate-300 p-4 space-y-3 text-sm">
+      <div className="flex items-center font-semibold text-slate-700">
+        {isCorrection ? <PencilLine className="w-4 h-4 mr-2 text-blue-600" /> : <Ban className="w-4 h-4 mr-2 text-red-600" />}
+        {isCorrection ? t('ticketActions.correctTitle') : t('ticketActions.cancelTitle')}
+      </div>
+
+      {isCorrection && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('ticketActions.invoice')}</span>
+            <input value={invoiceId} onChange={e => setInvoiceId(e.target.value)} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('ticketActions.invoiceWeight')}</span>
+            <input type="number" value={netWeightInvoice} onChange={e => setNetWeightInvoice(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('ticketActions.plate')}</span>
+            <input value={truckPlateNumber} onChange={e => setTruckPlateNumber(e.target.value.toUpperCase())} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('ticketActions.vehicle')}</span>
+            <select value={truckId} onChange={e => setTruckId(e.target.value)} className={inputClass}>
+              {!trucks.some(truck => truck.truckId === ticket.truckId) && <option value={ticket.truckId}>{ticket.truckId}</option>}
+              {trucks.map(truck => (
+                <option key={truck.truckId} value={truck.truckId}>{truck.plateNumber}{truck.active ? '' : ` ${t('ticketActions.inactive')}`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {isCorrection && needsRelease && (
+        <div className="p-2 bg-amber-50 text-amber-800 rounded flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {t('ticketActions.releaseNeeded')}
+        </div>
+      )}
+
+      {isCorrection && duplicateIds.length > 0 && (
+        <div className="p-2 bg-amber-50 text-amber-800 rounded flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {t('ticketActions.duplicateNeeded', { document: invoiceId.trim(), tickets: duplicateIds.join(', ') })}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 text-red-700 rounded flex items-start">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <SupervisorApprovalForm
+        action={isCorrection ? 'ticket-correct' : 'ticket-cancel'}
+        ticketId={ticket.id}
+        reasonPlaceholder={isCorrection ? t('ticketActions.correctReason') : t('ticketActions.cancelReason')}
+        confirmLabel={isCorrection ? t('ticketActions.confirmCorrect') : t('ticketActions.confirmCancel')}
+        confirmClassName={isCorrection ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'}
+        disabled={!canSubmit}
+        onApproved={handleApproved}
+      />
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="px-3 py-2 text-slate-600 hover:bg-slate-100 rounded font-medium transition-colors">{t('ticketActions.back')}</button>
+      </div>
+    </div>
+  );
+};
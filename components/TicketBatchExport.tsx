@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { FileArchive, FileDown } from 'lucide-react';
+import { WeighingTicket } from '../types';
+import { buildTicketsPdf, buildTicketsZip } from '../services/ticketPdf';
+import { downloadBytes } from '../services/printerService';
+import { appendAuditEntry } from '../services/auditService';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface TicketBatchExportProps {
+  tickets: WeighingTicket[]; // Issued or cancelled tickets matching the history filters
+}
+
+type BatchFormat = 'pdf' | 'zip';
+
+/**
+ * Exports many tickets at once, each in the layout of its site, as one PDF or a ZIP of PDFs.
+ */
+export const TicketBatchExport: React.FC<TicketBatchExportProps> = ({ tickets }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [archival, setArchival] = useState(false);
+  const [exporting, setExporting] = useState<BatchFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: BatchFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (format === 'pdf') {
+        downloadBytes(await buildTicketsPdf(tickets, { archival }), `Tickets-${stamp}.pdf`, 'application/pdf');
+      } else {
+        downloadBytes(await buildTicketsZip(tickets, { archival }), `Tickets-${stamp}.zip`, 'application/zip');
+      }
+      // One entry per ticket, in order, so each ticket's trail shows the export
+      for (const ticket of tickets) {
+        await appendAuditEntry('printed', ticket.id, `Ticket exportado em PDF (lote de ${tickets.length})`);
+      }
+    } catch (err) {
+      setError(t('batch.failed', { error: describeError(i18n, err) }));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const buttonClass = 'px-3 py-1 bg-white border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-50 rounded text-sm font-medium flex items-center transition-colors';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {error && <span className="text-red-600">{error}</span>}
+      <label className="flex items-center gap-1 text-slate-600" title={t('batch.archivalHint')}>
+        <input type="checkbox" checked={archival} onChange={e => setArchival(e.target.checked)} />
+        {t('batch.archival')}
+      </label>
+      <button onClick={() => handleExport('pdf')} disabled={tickets.length === 0 || !!exporting} className={buttonClass}>
+        <FileDown className="w-4 h-4 mr-1" />
+        {exporting === 'pdf' ? t('batch.generating') : t('batch.singlePdf', { count: tickets.length })}
+      </button>
+      <button onClick={() => handleExport('zip')} disabled={tickets.length === 0 || !!exporting} className={buttonClass}>
+        <FileArchive className="w-4 h-4 mr-1" />
+        {exporting === 'zip' ? t('batch.generating') : 'ZIP'}
+      </button>
+    </div>
+  );
+};
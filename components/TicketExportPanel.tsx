@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet } from 'lucide-react';
+import { WeighingTicket } from '../types';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMAT_LABELS,
+  ExportColumnKey,
+  ExportFormat,
+  ExportSettings,
+  exportTickets,
+  loadExportSettings,
+  saveExportSettings,
+} from '../services/ticketExport';
+import { downloadBytes } from '../services/printerService';
+import { useI18n } from './I18nProvider';
+
+interface TicketExportPanelProps {
+  tickets: WeighingTicket[]; // Tickets matching the history filters, in display order
+}
+
+/**
+ * Exports the filtered tickets for accounting: CSV, XLSX or JSON with the chosen columns, or
+ * the fixed ERP layout. The format and columns are remembered.
+ */
+export const TicketExportPanel: React.FC<TicketExportPanelProps> = ({ tickets }) => {
+  const { t, locale } = useI18n();
+  const [settings, setSettings] = useState<ExportSettings>(loadExportSettings);
+  const [showColumns, setShowColumns] = useState(false);
+
+  const update = (next: ExportSettings) => {
+    setSettings(next);
+    saveExportSettings(next);
+  };
+
+  // Keeps the column order of EXPORT_COLUMNS whatever the order of the clicks
+  const toggleColumn = (key: ExportColumnKey) => update({
+    ...settings,
+    columns: settings.columns.includes(key)
+      ? settings.columns.filter(k => k !== key)
+      : EXPORT_COLUMNS.map(column => column.key).filter(k => k === key || settings.columns.includes(k)),
+  });
+
+  const handleExport = () => {
+    const file = exportTickets(tickets, settings);
+    downloadBytes(file.data, file.filename, file.type);
+  };
+
+  const usesColumns = settings.format !== 'erp';
+
+  return (
+    <div className="border-t border-slate-200 mt-4 pt-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-slate-500">{t('export.title')}</span>
+        <select
+          value={settings.format}
+          onChange={e => update({ ...settings, format: e.target.value as ExportFormat })}
+          className="border border-slate-300 rounded px-2 py-1 bg-white"
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <option key={format} value={format}>{t(EXPORT_FORMAT_LABELS[format])}</option>
+          ))}
+        </select>
+        {usesColumns && (
+          <button onClick={() => setShowColumns(!showColumns)} className="text-blue-600 hover:underline">
+            {t('export.columns', { count: settings.columns.length })}
+          </button>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={tickets.length === 0 || (usesColumns && settings.columns.length === 0)}
+          className="ml-auto px-3 py-1 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded font-medium flex items-center transition-colors"
+        >
+          <FileSpreadsheet className="w-4 h-4 mr-1" />
+          {t('export.export', { count: tickets.length })}
+        </button>
+      </div>
+
+      {usesColumns && showColumns && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-1 mt-3">
+          {EXPORT_COLUMNS.map(column => (
+            <label key={column.key} className="flex items-center gap-1 text-slate-600">
+              <input type="checkbox" checked={settings.columns.includes(column.key)} onChange={() => toggleColumn(column.key)} />
+              {t(column.label)}
+            </label>
+          ))}
+        </div>
+      )}
+      {settings.format === 'erp' ? (
+        <p className="mt-2 text-xs text-slate-500">{t('export.erpLayout')}</p>
+      ) : locale !== 'pt-BR' && (
+        <p className="mt-2 text-xs text-slate-500">{t('export.fileLanguageNote')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,347 @@
+import React, { useEffect, useState } from 'react';
+import { History, Search, RefreshCw, Printer, X, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, Eye, Ban, PencilLine } from 'lucide-react';
+import { SupervisorApproval, TicketLayoutId, TicketStatus, Truck, WeighingTicket } from '../types';
+import { fetchRecentTickets, recordReprint, releaseTicket } from '../services/mockFirestore';
+import { loadValidationSettings } from '../services/weightValidation';
+import { DEFAULT_HISTORY_FILTERS, STATUS_LABELS, TicketHistoryFilters, TicketSortKey, filterTickets, getTicketNetWeight, paginate, toTicketQuery } from '../services/ticketHistory';
+import { TicketTemplate } from './TicketTemplate';
+import { TicketAction, TicketActionsPanel } from './TicketActionsPanel';
+import { WeightValidationPanel } from './WeightValidationPanel';
+import { TicketLayoutSelect } from './TicketLayoutSelect';
+import { resolveTicketLayout } from '../services/ticketLayouts';
+import { TicketBatchExport } from './TicketBatchExport';
+import { TicketExportPanel } from './TicketExportPanel';
+import { loadSites } from '../services/siteSettings';
+import { MessageKey } from '../locales/pt-BR';
+import { describeError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface TicketHistoryProps {
+  trucks: Truck[]; // For corrections
+  // Sends the (already counted) copy to the printer in the chosen layout
+  onPrint: (ticket: WeighingTicket, layoutId: TicketLayoutId) => void;
+}
+
+const PAGE_SIZE = 15;
+
+const STATUS_STYLES: Record<TicketStatus, string> = {
+  Draft: 'bg-slate-100 text-slate-600',
+  AwaitingExit: 'bg-blue-100 text-blue-700',
+  Printed: 'bg-green-100 text-green-700',
+  'Over-Capacity': 'bg-red-100 text-red-700',
+  Cancelled: 'bg-slate-800 text-white',
+};
+
+// Cancelled tickets can be reprinted; the copy carries the CANCELADO mark
+const REPRINTABLE_STATUSES: TicketStatus[] = ['Printed', 'Cancelled'];
+
+const COLUMNS: { key: TicketSortKey; label: MessageKey; align?: 'right' }[] = [
+  { key: 'id', label: 'history.column.id' },
+  { key: 'issueTimestamp', label: 'history.column.date' },
+  { key: 'truckPlateNumber', label: 'history.column.plate' },
+  { key: 'invoiceId', label: 'history.column.invoice' },
+  { key: 'netWeight', label: 'history.column.net', align: 'right' },
+];
+
+export const TicketHistory: React.FC<TicketHistoryProps> = ({ trucks, onPrint }) => {
+  const i18n = useI18n();
+  const { t, formatKg, formatDateTime } = i18n;
+  const [tickets, setTickets] = useState<WeighingTicket[]>([]);
+  const [filters, setFilters] = useState<TicketHistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [openTicket, setOpenTicket] = useState<WeighingTicket | null>(null);
+  const [layoutId, setLayoutId] = useState<TicketLayoutId>(() => resolveTicketLayout(null).id);
+  const [isReprinting, setIsReprinting] = useState(false);
+  const [pendingAction, setPendingAction] = useState<TicketAction | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [sites] = useState(loadSites);
+
+  const loadTickets = async () => {
+    setIsLoading(true);
+    try {
+      setTickets(await fetchRecentTickets(toTicketQuery(filters)));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(describeError(i18n, err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The date range and status are answered by the repository, so changing them reloads
+  useEffect(() => {
+    loadTickets();
+  }, [filters.from, filters.to, filters.statuses]);
+
+  const updateFilters = (patch: Partial<TicketHistoryFilters>) => {
+    setFilters({ ...filters, ...patch });
+    setPage(1);
+  };
+
+  const toggleStatus = (status: TicketStatus) => updateFilters({
+    statuses: filters.statuses.includes(status) ? filters.statuses.filter(s => s !== status) : [...filters.statuses, status],
+  });
+
+  const toggleSort = (key: TicketSortKey) => updateFilters({
+    sortKey: key,
+    sortDescending: filters.sortKey === key ? !filters.sortDescending : true,
+  });
+
+  const handleReprint = async () => {
+    if (!openTicket?.id) return;
+    setIsReprinting(true);
+    setActionError(null);
+    try {
+      const copy = await recordReprint(openTicket.id);
+      setOpenTicket(copy);
+      onPrint(copy, layoutId);
+      await loadTickets();
+    } catch (err) {
+      setActionError(describeError(i18n, err));
+    } finally {
+      setIsReprinting(false);
+    }
+  };
+
+  // Over-capacity tickets are held back until a supervisor releases them
+  const handleRelease = async ({ supervisorId, supervisorName, reason, timestamp }: SupervisorApproval) => {
+    if (!openTicket?.id) return;
+    try {
+      const released = await releaseTicket(openTicket.id, { supervisorName, supervisorId, reason, timestamp });
+      await handleActionDone(released, t('weighing.ticketReleased', { id: released.id, name: supervisorName }));
+    } catch (err) {
+      setActionError(describeError(i18n, err));
+    }
+  };
+
+  const openDetails = (ticket: WeighingTicket | null) => {
+    setOpenTicket(ticket);
+    setLayoutId(resolveTicketLayout(ticket).id);
+    setPendingAction(null);
+    setActionMessage(null);
+    setActionError(null);
+  };
+
+  const handleActionDone = async (ticket: WeighingTicket, message: string) => {
+    openDetails(ticket);
+    setActionMessage(message);
+    await loadTickets();
+  };
+
+  const filtered = filterTickets(tickets, filters);
+  const current = paginate(filtered, page, PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold flex items-center text-slate-700">
+            <History className="w-5 h-5 mr-2 text-blue-600" />
+            {t('history.title')}
+          </h2>
+          <button
+            onClick={() => loadTickets()}
+            disabled={isLoading}
+            className="px-3 py-2 bg-white border border-slate-300 text-slate-700 hover:bg-slate-100 rounded text-sm font-medium flex items-center transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            {t('history.refresh')}
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <div className="relative md:col-span-3">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2 top-2" />
+            <input
+              value={filters.query}
+              onChange={e => updateFilters({ query: e.target.value })}
+              placeholder={t('history.searchPlaceholder')}
+              className="w-full border border-slate-300 rounded pl-8 pr-2 py-1"
+            />
+          </div>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('history.from')}</span>
+            <input type="date" value={filters.from} onChange={e => updateFilters({ from: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('history.to')}</span>
+            <input type="date" value={filters.to} onChange={e => updateFilters({ to: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+          </label>
+          <label className="flex flex-col">
+            <span className="text-slate-500 mb-1">{t('history.site')}</span>
+            <select value={filters.siteId} onChange={e => updateFilters({ siteId: e.target.value })} className="border border-slate-300 rounded px-2 py-1 bg-white">
+              <option value="">{t('history.allSites')}</option>
+              {sites.map(site => (
+                <option key={site.siteId} value={site.siteId}>{site.siteId} · {site.tradeName || site.legalName}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-col md:col-span-2">
+            <span className="text-slate-500 mb-1">{t('history.status')}</span>
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(STATUS_LABELS) as TicketStatus[]).map(status => (
+                <button
+                  key={status}
+                  onClick={() => toggleStatus(status)}
+                  className={`text-xs font-medium rounded px-2 py-1 transition-colors ${
+                    filters.statuses.includes(status) ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {t(STATUS_LABELS[status])}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <TicketExportPanel tickets={filtered} />
+      </div>
+
+      {/* Results */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <p className="text-sm text-slate-500">{t('history.found', { count: filtered.length })}</p>
+          <TicketBatchExport tickets={filtered.filter(ticket => REPRINTABLE_STATUSES.includes(ticket.ticketStatus))} />
+        </div>
+        {loadError && (
+          <div className="mb-3 p-3 bg-red-50 text-red-700 text-sm rounded">{loadError}</div>
+        )}
+        {filtered.length === 0 ? (
+          <p className="text-sm text-slate-400">{t('history.noMatch')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-500 uppercase">
+              <tr>
+                {COLUMNS.map(column => (
+                  <th key={column.key} className={`py-2 ${column.align === 'right' ? 'text-right' : 'text-left'}`}>
+                    <button onClick={() => toggleSort(column.key)} className="inline-flex items-center uppercase hover:text-slate-700">
+                      {t(column.label)}
+                      {filters.sortKey === column.key && (filters.sortDescending
+                        ? <ArrowDown className="w-3 h-3 ml-1" />
+                        : <ArrowUp className="w-3 h-3 ml-1" />)}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-2 text-left">{t('history.status')}</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {current.items.map(ticket => (
+                <tr key={ticket.id}>
+                  <td className={`py-2 font-mono ${ticket.ticketStatus === 'Cancelled' ? 'line-through text-slate-400' : ''}`}>{ticket.id}</td>
+                  <td className="py-2 text-slate-600">{formatDateTime(ticket.issueTimestamp, { dateStyle: 'short', timeStyle: 'short' })}</td>
+                  <td className="py-2 font-mono font-bold">{ticket.truckPlateNumber}</td>
+                  <td className="py-2 font-mono">{ticket.invoiceId}</td>
+                  <td className="py-2 text-right font-mono">{formatKg(getTicketNetWeight(ticket))}</td>
+                  <td className="py-2">
+                    <span className={`text-xs font-medium rounded px-1.5 py-0.5 ${STATUS_STYLES[ticket.ticketStatus]}`}>{t(STATUS_LABELS[ticket.ticketStatus])}</span>
+                    {(ticket.reprintCount ?? 0) > 0 && <span className="ml-1 text-xs text-slate-400">{t('history.reprints', { count: ticket.reprintCount ?? 0 })}</span>}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button onClick={() => openDetails(ticket)} className="text-slate-400 hover:text-blue-600 transition-colors" title={t('history.open')}>
+                      <Eye className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {current.pageCount > 1 && (
+          <div className="flex items-center justify-end space-x-2 mt-4 text-sm">
+            <button onClick={() => setPage(current.page - 1)} disabled={current.page === 1} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-slate-600">{t('history.page', { page: current.page, count: current.pageCount })}</span>
+            <button onClick={() => setPage(current.page + 1)} disabled={current.page === current.pageCount} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Ticket preview with reprint */}
+      {openTicket && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm print:hidden">
+          <div className="bg-slate-100 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="bg-white p-4 border-b border-slate-200 flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-800">{t('history.ticket', { id: openTicket.id ?? '' })}</h3>
+              <button onClick={() => openDetails(null)} className="text-slate-400 hover:text-slate-600 transition-colors">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="flex-grow overflow-auto p-6 bg-slate-200 flex flex-col [align-items:safe_center] space-y-4">
+              {actionMessage && (
+                <div className="w-full max-w-xl p-3 bg-green-50 text-green-700 text-sm rounded">{actionMessage}</div>
+              )}
+              {actionError && (
+                <div className="w-full max-w-xl p-3 bg-red-50 text-red-700 text-sm rounded">{actionError}</div>
+              )}
+              {openTicket.ticketStatus === 'Over-Capacity' && openTicket.weightValidation && !pendingAction && (
+                <div className="w-full max-w-xl">
+                  <WeightValidationPanel
+                    validation={openTicket.weightValidation}
+                    ticketId={openTicket.id}
+                    onOverride={loadValidationSettings().enforcement === 'override' ? handleRelease : undefined}
+                    blockedMessage={t('preview.printBlocked')}
+                  />
+                </div>
+              )}
+              {pendingAction && (
+                <TicketActionsPanel
+                  ticket={openTicket}
+                  action={pendingAction}
+                  trucks={trucks}
+                  onDone={handleActionDone}
+                  onClose={() => setPendingAction(null)}
+                />
+              )}
+              <TicketTemplate data={openTicket} isPreview={true} layout={resolveTicketLayout(openTicket, layoutId)} />
+            </div>
+
+            <div className="bg-white p-4 border-t border-slate-200 flex items-center justify-end space-x-3">
+              <TicketLayoutSelect value={layoutId} onChange={setLayoutId} className="mr-auto" />
+              {openTicket.ticketStatus !== 'Cancelled' && !pendingAction && (
+                <>
+                  <button
+                    onClick={() => setPendingAction('cancel')}
+                    className="px-4 py-2 text-red-600 hover:bg-red-50 rounded flex items-center font-medium transition-colors"
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    {t('history.cancelTicket')}
+                  </button>
+                  <button
+                    onClick={() => setPendingAction('correct')}
+                    className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded flex items-center font-medium transition-colors"
+                  >
+                    <PencilLine className="w-4 h-4 mr-2" />
+                    {t('history.correct')}
+                  </button>
+                </>
+              )}
+              <button onClick={() => openDetails(null)} className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded font-medium transition-colors">
+                {t('history.close')}
+              </button>
+              <button
+                onClick={handleReprint}
+                disabled={!REPRINTABLE_STATUSES.includes(openTicket.ticketStatus) || isReprinting}
+                title={REPRINTABLE_STATUSES.includes(openTicket.ticketStatus) ? undefined : t('history.reprintOnlyIssued')}
+                className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed rounded shadow flex items-center font-medium transition-colors"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                {t('history.reprint')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { TicketLayoutId } from '../types';
+import { TICKET_LAYOUT_IDS, TICKET_LAYOUTS } from '../services/ticketLayouts';
+import { useI18n } from './I18nProvider';
+
+interface TicketLayoutSelectProps {
+  value: TicketLayoutId;
+  onChange: (layoutId: TicketLayoutId) => void;
+  className?: string;
+}
+
+export const TicketLayoutSelect: React.FC<TicketLayoutSelectProps> = ({ value, onChange, className = '' }) => {
+  const { t } = useI18n();
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value as TicketLayoutId)}
+      title={t('layout.title')}
+      className={`border border-slate-300 rounded px-2 py-1 text-sm bg-white ${className}`}
+    >
+      {TICKET_LAYOUT_IDS.map(id => (
+        <option key={id} value={id}>{t(TICKET_LAYOUTS[id].label)}</option>
+      ))}
+    </select>
+  );
+};
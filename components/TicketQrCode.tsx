@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { useI18n } from './I18nProvider';
+
+interface TicketQrCodeProps {
+  payload: string;
+  sizeMm?: number;
+}
+
+export const TicketQrCode: React.FC<TicketQrCodeProps> = ({ payload, sizeMm = 32 }) => {
+  const { t } = useI18n();
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Medium error correction keeps the code readable on worn thermal paper
+    QRCode.toDataURL(payload, { errorCorrectionLevel: 'M', margin: 1, scale: 6 })
+      .then(url => { if (!cancelled) setDataUrl(url); })
+      .catch(err => console.error('QR code generation failed', err));
+    return () => { cancelled = true; };
+  }, [payload]);
+
+  if (!dataUrl) return null;
+
+  return <img src={dataUrl} alt={t('ticket.qrAlt')} style={{ width: `${sizeMm}mm`, height: `${sizeMm}mm` }} />;
+};
@@ -1,77 +1,182 @@
 import React from 'react';
 import { WeighingTicket } from '../types';
+import { TicketQrCode } from './TicketQrCode';
+import { DEFAULT_SITE, formatCnpj } from '../services/siteSettings';
+import { THERMAL_MIN_HEIGHT_MM, TicketLayout, getContentWidthMm, resolveTicketLayout } from '../services/ticketLayouts';
+import { createI18n } from '../services/i18n';
+import { describeViolation } from '../services/weightValidation';
+import { hasSimulatedReading } from '../services/scaleService';
+import { MessageKey } from '../locales/pt-BR';
 
 interface TicketTemplateProps {
   data: WeighingTicket | null;
   isPreview?: boolean;
+  layout?: TicketLayout; // Defaults to the layout of the ticket's site
 }
 
-export const TicketTemplate: React.FC<TicketTemplateProps> = ({ data, isPreview = false }) => {
+export const TicketTemplate: React.FC<TicketTemplateProps> = ({ data, isPreview = false, layout }) => {
   if (!data) return null;
+  const pageLayout = layout ?? resolveTicketLayout(data);
+  const isThermal = pageLayout.scale === 1;
+  const pageStyle: React.CSSProperties = {
+    width: `${pageLayout.pageWidthMm}mm`,
+    ...(isThermal ? { minHeight: `${THERMAL_MIN_HEIGHT_MM}mm` } : { height: `${pageLayout.pageHeightMm}mm` }),
+  };
 
   // Render logic differs for Preview (On Screen) vs Print (Hidden until print)
   
   if (isPreview) {
-    // PREVIEW MODE: Visible card, styled to look like 80mm thermal paper
-    // 80mm is approx 300-320px on screen depending on DPI, we set a fixed width relative to that.
+    // PREVIEW MODE: Visible card at the real paper size of the layout
     return (
-      <div id="ticket-preview" className="flex flex-col bg-white text-black font-mono p-2 shadow-sm border border-gray-200 mx-auto w-[80mm] min-h-[150mm] relative">
-         <TicketContent data={data} />
+      <div id="ticket-preview" style={pageStyle} className="flex bg-white text-black font-mono shadow-sm border border-gray-200 mx-auto relative shrink-0">
+         <TicketPage data={data} layout={pageLayout} />
       </div>
     );
   }
 
-  // PRINT MODE: Hidden on screen, Fixed full page on print
+  // PRINT MODE: Hidden on screen, page size follows the layout
   return (
-    <div id="printable-ticket" className="hidden print:flex flex-col w-full h-full p-2 font-mono text-black bg-white">
-      <TicketContent data={data} />
+    <div id="printable-ticket" style={pageStyle} className="hidden print:flex font-mono text-black bg-white">
+      <style>{`@media print { @page { size: ${pageLayout.pageWidthMm}mm ${pageLayout.pageHeightMm}mm; margin: 0; } }`}</style>
+      <TicketPage data={data} layout={pageLayout} />
     </div>
   );
 };
 
+// One or more copies of the ticket side by side, each scaled from the 80 mm layout
+const TicketPage: React.FC<{ data: WeighingTicket; layout: TicketLayout }> = ({ data, layout }) => {
+  const isThermal = layout.scale === 1;
+  const copyHeightMm = layout.pageHeightMm - 2 * layout.paddingMm;
+
+  return (
+    <>
+      {layout.copies.map((label, index) => (
+        <div
+          key={index}
+          style={{ width: `${layout.pageWidthMm / layout.copies.length}mm`, padding: `${layout.paddingMm}mm` }}
+          className={`flex flex-col ${index > 0 ? 'border-l border-dashed border-black' : ''}`}
+        >
+          {isThermal ? (
+            <div className="flex flex-col flex-grow">
+              <TicketContent data={data} copyLabel={label} />
+            </div>
+          ) : (
+            // Transforms do not affect layout, so the box reserves the scaled size itself
+            <div style={{ width: `${getContentWidthMm(layout) * layout.scale}mm`, height: `${copyHeightMm}mm` }} className="overflow-hidden">
+              <div
+                style={{
+                  width: `${getContentWidthMm(layout)}mm`,
+                  height: `${copyHeightMm / layout.scale}mm`,
+                  transform: `scale(${layout.scale})`,
+                  transformOrigin: 'top left',
+                }}
+                className="flex flex-col"
+              >
+                <TicketContent data={data} copyLabel={label} />
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+};
+
 // Internal component to share layout logic
-const TicketContent: React.FC<{ data: WeighingTicket }> = ({ data }) => {
+const TicketContent: React.FC<{ data: WeighingTicket; copyLabel?: MessageKey | null }> = ({ data, copyLabel }) => {
   // Calculations for specific fields
-  // 1. Gross (Entrada) = Calculated Gross (Load + Truck)
-  // 2. Tare (Saída) = Truck Tare
+  // 1. Gross (Entrada) = First weighing captured on the scale indicator
+  // 2. Tare (Saída) = Second weighing (empty truck) or the stored tare from the tare history
   // 3. Peso Aferido = Gross - Tare
   
-  const pesoAferido = data.grossWeightCalculated - data.truckTareWeight;
+  const pesoAferido = data.netWeightMeasured ?? data.grossWeightCalculated - data.truckTareWeight;
+  // Tickets issued before sites were configurable carry no snapshot and were printed with the default header
+  const site = data.site ?? DEFAULT_SITE;
+  // Printed in the issuing site's language, whatever the operator's screen is set to
+  const i18n = createI18n(site.ticketLocale);
+  const { t, formatKg, formatDate, formatTime, formatDateTime } = i18n;
+  const formatWeighingTime = (timestamp?: number) =>
+    timestamp ? formatDateTime(timestamp, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) : null;
 
   return (
     <>
+      {copyLabel && <p className="text-[8px] text-right tracking-widest mb-1">{t(copyLabel)}</p>}
+
       {/* Header */}
       <div className="w-full text-center border-b border-black pb-2 mb-2">
-        <h1 className="text-sm font-normal uppercase leading-tight">Balança Rodoviária Lagoinha</h1>
-        <p className="text-[10px] mt-1 leading-tight">Rua Antonio Fernandes Figueroa, 1166<br/>Ribeirão Preto, SP, Brasil</p>
+        {site.logoDataUrl && <img src={site.logoDataUrl} alt="" className="mx-auto max-h-12 mb-1" />}
+        <h1 className="text-sm font-normal uppercase leading-tight">{site.tradeName || site.legalName}</h1>
+        {site.tradeName && site.tradeName !== site.legalName && (
+          <p className="text-[9px] leading-tight">{site.legalName}</p>
+        )}
+        {site.cnpj && <p className="text-[9px] leading-tight">CNPJ {formatCnpj(site.cnpj)}</p>}
+        <p className="text-[10px] mt-1 leading-tight">{site.address}<br/>{[site.city, site.state, t('ticket.country')].filter(Boolean).join(', ')}</p>
       </div>
 
+      {/* Voided ticket: every copy must show it */}
+      {data.ticketStatus === 'Cancelled' && (
+        <div className="w-full text-center border-2 border-black mb-2 p-1">
+          <p className="text-base font-bold tracking-widest">*** {t('ticket.cancelled')} ***</p>
+          {data.cancellation && (
+            <p className="text-[9px] leading-tight">
+              {t('ticket.cancelledBy', { date: formatDateTime(data.cancellation.timestamp), name: data.cancellation.cancelledBy, reason: data.cancellation.reason })}
+              {data.cancellation.replacedByTicketId && <><br />{t('ticket.replacedBy', { id: data.cancellation.replacedByTicketId })}</>}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Duplicate copy printed from the history screen */}
+      {(data.reprintCount ?? 0) > 0 && (
+        <div className="w-full text-center text-[10px] font-bold border border-black mb-2">
+          {t('ticket.reprint', { count: data.reprintCount ?? 0 })}
+        </div>
+      )}
+
+      {hasSimulatedReading(data) && (
+        <div className="w-full text-center text-[10px] font-bold border-2 border-black mb-2">
+          *** {t('ticket.simulated')} ***
+        </div>
+      )}
+
       {/* Info Grid - Reorganized for narrow width */}
       <div className="flex flex-col space-y-1 mb-2 text-[10px] border-b border-dashed border-black pb-2">
         <div className="flex flex-col">
           <div className="flex justify-between">
-             <span>NÚMERO:</span>
-             <span className="font-normal">{data.id || 'PENDENTE'}</span>
+             <span>{t('ticket.number')}</span>
+             <span className="font-normal">{data.id || t('ticket.pending')}</span>
           </div>
           <div className="flex justify-between">
-             <span>DATA:</span>
-             <span>{new Date(data.issueTimestamp).toLocaleDateString('pt-BR')}</span>
+             <span>{t('ticket.date')}</span>
+             <span>{formatDate(data.issueTimestamp)}</span>
           </div>
         </div>
         <div className="flex flex-col">
           <div className="flex justify-between">
-            <span>PLACA:</span>
+            <span>{t('ticket.plate')}</span>
             <span className="font-normal">{data.truckPlateNumber}</span>
           </div>
           <div className="flex justify-between">
-            <span>HORA:</span>
-            <span>{new Date(data.issueTimestamp).toLocaleTimeString('pt-BR')}</span>
+            <span>{t('ticket.time')}</span>
+            <span>{formatTime(data.issueTimestamp)}</span>
           </div>
         </div>
         <div className="flex justify-between">
-             <span>REF. NOTA:</span>
+             <span>{t('ticket.invoiceRef')}</span>
              <span className="font-normal">{data.invoiceId}</span>
         </div>
+        {data.correctsTicketId && (
+          <div className="flex justify-between">
+               <span>{t('ticket.replaces')}</span>
+               <span className="font-normal">{data.correctsTicketId}</span>
+          </div>
+        )}
+        {data.issuedBy && (
+          <div className="flex justify-between">
+               <span>{t('ticket.operator')}</span>
+               <span className="font-normal">{data.issuedBy.name}</span>
+          </div>
+        )}
       </div>
 
       {/* Weights Section - Specific 3 Items Layout */}
@@ -79,27 +184,54 @@ const TicketContent: React.FC<{ data: WeighingTicket }> = ({ data }) => {
         
         {/* 1) Pesagem Bruta Entrada */}
         <div className="flex flex-col">
-          <span className="text-[9px]">1) Pesagem Bruta Entrada</span>
-          <span className="font-normal text-[9px] text-right">{data.grossWeightCalculated.toLocaleString('pt-BR')} kg</span>
+          <span className="text-[9px]">{t('ticket.grossEntry')} {formatWeighingTime(data.entryTimestamp)}</span>
+          <span className="font-normal text-[9px] text-right">{formatKg(data.grossWeightCalculated)}</span>
         </div>
 
-        {/* 2) Tara saída (caminhão) */}
+        {/* 2) Tara saída (caminhão), or the registered tare when there was no exit weighing */}
         <div className="flex flex-col">
-           <span className="text-[9px]">2) Tara Saída (Caminhão)</span>
-           <span className="font-normal text-[9px] text-right">{data.truckTareWeight.toLocaleString('pt-BR')} kg</span>
+           <span className="text-[9px]">{data.exitReading ? `${t('ticket.exitTare')} ${formatWeighingTime(data.exitTimestamp)}` : t('ticket.storedTare')}</span>
+           <span className="font-normal text-[9px] text-right">{formatKg(data.truckTareWeight)}</span>
         </div>
 
         {/* 3) Peso Aferido Mercadoria */}
         <div className="flex flex-col pt-1">
-           <span className="text-[9px]">3) Peso Aferido Mercadoria</span>
-           <span className="font-normal text-[9px] text-right">{pesoAferido.toLocaleString('pt-BR')} kg</span>
+           <span className="text-[9px]">{t('ticket.measuredNet')}</span>
+           <span className="font-normal text-[9px] text-right">{formatKg(pesoAferido)}</span>
         </div>
 
+        {/* Weight limit violations */}
+        {data.weightValidation && data.weightValidation.violations.length > 0 && (
+          <div className="flex flex-col border border-black p-1 text-[9px]">
+            <span className="font-bold text-center">{t('ticket.overweight')}</span>
+            {data.weightValidation.violations.map((v, i) => (
+              <span key={i}>{describeViolation(i18n, v)}: +{formatKg(v.excess)}</span>
+            ))}
+            {data.override && (
+              <span className="mt-1">{t('ticket.releasedBy', { name: data.override.supervisorName, reason: data.override.reason })}</span>
+            )}
+          </div>
+        )}
+
       </div>
 
+      {/* Signed verification code */}
+      {data.signedPayload && (
+        <div className="flex flex-col items-center pt-3 text-[8px]">
+          <TicketQrCode payload={data.signedPayload} />
+          <span className="mt-1">{t('ticket.verifyQr')}</span>
+        </div>
+      )}
+
       {/* Footer */}
       <div className="mt-auto pt-4 text-center text-[9px] border-t border-black">
-        <p>Assinatura Autorizada</p>
+        {(site.scaleSerial || site.inmetroSeal) && (
+          <p className="mb-2 text-[8px]">
+            {[site.scaleSerial && t('ticket.scaleSerial', { serial: site.scaleSerial }), site.inmetroSeal && t('ticket.inmetroSeal', { seal: site.inmetroSeal })].filter(Boolean).join(' · ')}
+          </p>
+        )}
+        {site.footerText && <p className="mb-2 whitespace-pre-line">{site.footerText}</p>}
+        <p>{t('ticket.signature')}</p>
         <p className="mt-4">__________________________</p>
       </div>
     </>
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Users, Plus, Save, Power, Pencil, X } from 'lucide-react';
+import { AuthSettings, UserAccount, UserRole } from '../types';
+import { ROLE_LABELS, UserAccountInput, buildUserAccount, loadAuthSettings, saveAuthSettings, validateUserAccount } from '../services/authService';
+import { getSession } from '../services/session';
+import { useI18n } from './I18nProvider';
+
+const EMPTY_INPUT: UserAccountInput = { userId: '', name: '', role: 'operator', password: '', pin: '' };
+
+/**
+ * Account management for administrators: roles, passwords, approval PINs and the inactivity lock.
+ */
+export const UserAccountsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<AuthSettings>(loadAuthSettings);
+  const [editing, setEditing] = useState<{ input: UserAccountInput; existing?: UserAccount } | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const currentUserId = getSession()?.userId;
+  const { t } = useI18n();
+
+  const store = (next: AuthSettings, text: string) => {
+    saveAuthSettings(next);
+    setSettings(next);
+    setMessage(text);
+  };
+
+  const updateInput = (changes: Partial<UserAccountInput>) => editing && setEditing({ ...editing, input: { ...editing.input, ...changes } });
+
+  const handleSaveUser = async () => {
+    if (!editing) return;
+    const input = { ...editing.input, userId: editing.input.userId.trim().toLowerCase() };
+    const problems = validateUserAccount(input, settings.users, editing.existing);
+    setErrors(problems.map(problem => t(problem.key, problem.params)));
+    if (problems.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const account = await buildUserAccount(input, editing.existing);
+      const users = editing.existing
+        ? settings.users.map(u => (u.userId === account.userId ? account : u))
+        : [...settings.users, account];
+      store({ ...settings, users }, t('users.saved', { userId: account.userId }));
+      setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = (user: UserAccount) => {
+    const activeAdmins = settings.users.filter(u => u.active && u.role === 'admin');
+    if (user.active && user.role === 'admin' && activeAdmins.length <= 1) {
+      setMessage(t('users.error.lastAdmin'));
+      return;
+    }
+    const users = settings.users.map(u => (u.userId === user.userId ? { ...u, active: !u.active } : u));
+    store({ ...settings, users }, t(user.active ? 'users.deactivated' : 'users.reactivated', { userId: user.userId }));
+  };
+
+  const inputClass = 'border border-slate-300 rounded px-2 py-1';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+        <Users className="w-5 h-5 mr-2 text-blue-600" />
+        {t('users.title')}
+      </h2>
+
+      <table className="w-full text-sm">
+        <thead className="text-xs text-slate-500 uppercase">
+          <tr>
+            <th className="text-left py-1">{t('users.name')}</th>
+            <th className="text-left py-1">{t('users.login')}</th>
+            <th className="text-left py-1">{t('users.role')}</th>
+            <th className="text-right py-1"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {settings.users.map(user => (
+            <tr key={user.userId} className={user.active ? '' : 'text-slate-400'}>
+              <td className="py-1">{user.name}{user.active ? '' : ` ${t('users.inactive')}`}</td>
+              <td className="py-1 font-mono">{user.userId}</td>
+              <td className="py-1">{t(ROLE_LABELS[user.role])}</td>
+              <td className="py-1 text-right space-x-1 whitespace-nowrap">
+                <button
+                  onClick={() => { setEditing({ input: { ...EMPTY_INPUT, userId: user.userId, name: user.name, role: user.role }, existing: user }); setErrors([]); }}
+                  className="p-1 text-slate-500 hover:text-blue-600 transition-colors"
+                  title={t('users.edit')}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                {user.userId !== currentUserId && (
+                  <button onClick={() => handleToggleActive(user)} className="p-1 text-slate-500 hover:text-red-600 transition-colors" title={user.active ? t('users.deactivate') : t('users.reactivate')}>
+                    <Power className="w-4 h-4" />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {editing && (
+        <div className="mt-4 p-3 bg-slate-50 rounded border border-slate-200 space-y-3 text-sm">
+          <div className="flex items-center justify-between font-medium text-slate-600">
+            {editing.existing ? t('users.editTitle', { userId: editing.existing.userId }) : t('users.new')}
+            <button onClick={() => setEditing(null)} className="text-slate-400 hover:text-slate-600 transition-colors"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('users.login')}</span>
+              <input
+                value={editing.input.userId}
+                onChange={e => updateInput({ userId: e.target.value })}
+                readOnly={!!editing.existing}
+                className={`${inputClass} font-mono ${editing.existing ? 'bg-slate-100 text-slate-500' : ''}`}
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('users.printedName')}</span>
+              <input value={editing.input.name} onChange={e => updateInput({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{t('users.role')}</span>
+              <select value={editing.input.role} onChange={e => updateInput({ role: e.target.value as UserRole })} className={inputClass}>
+                {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{t(ROLE_LABELS[role])}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col">
+              <span className="text-slate-500 mb-1">{editing.existing ? t('users.newPassword') : t('users.password')}</span>
+              <input type="password" autoComplete="new-password" value={editing.input.password} onChange={e => updateInput({ password: e.target.value })} className={inputClass} />
+            </label>
+            {editing.input.role !== 'operator' && (
+              <label className="flex flex-col">
+                <span className="text-slate-500 mb-1">{editing.existing?.pinHash ? t('users.newPin') : t('users.pin')}</span>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={editing.input.pin}
+                  onChange={e => updateInput({ pin: e.target.value.replace(/\D/g, '') })}
+                  className={inputClass}
+                />
+              </label>
+            )}
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-red-600">
+              {errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveUser}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 rounded shadow flex items-center font-medium transition-colors"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? t('users.saving') : t('users.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-sm">
+        <label className="flex items-center">
+          <span className="text-slate-500 mr-2">{t('users.lockAfter')}</span>
+          <input
+            type="number"
+            min="0"
+            value={settings.lockAfterMinutes}
+            onChange={e => setSettings({ ...settings, lockAfterMinutes: Math.max(0, Number(e.target.value)) })}
+            onBlur={() => store(settings, t('users.lockSaved'))}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <div className="flex items-center space-x-3">
+          {message && <span className="text-green-600">{message}</span>}
+          <button
+            onClick={() => { setEditing({ input: EMPTY_INPUT }); setErrors([]); }}
+            className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 rounded flex items-center font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {t('users.new')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
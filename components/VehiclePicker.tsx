@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { Truck } from '../types';
+import { searchTrucks } from '../services/fleetService';
+import { useI18n } from './I18nProvider';
+
+interface VehiclePickerProps {
+  trucks: Truck[];
+  selectedTruckId: string;
+  onSelect: (truckId: string) => void;
+}
+
+/**
+ * Manual vehicle selection on the weighing screen, limited to active fleet vehicles.
+ */
+export const VehiclePicker: React.FC<VehiclePickerProps> = ({ trucks, selectedTruckId, onSelect }) => {
+  const { t, formatKg } = useI18n();
+  const [query, setQuery] = useState('');
+  const matches = searchTrucks(trucks.filter(t => t.active), query).slice(0, 6);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="relative">
+        <Search className="w-4 h-4 text-slate-400 absolute left-2 top-2" />
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('picker.search')}
+          className="w-full border border-slate-300 rounded pl-8 pr-2 py-1 bg-white"
+        />
+      </div>
+      {query.trim() && (
+        matches.length === 0 ? (
+          <p className="text-slate-400">{t('picker.empty')}</p>
+        ) : (
+          <ul className="bg-white border border-slate-200 rounded divide-y divide-slate-100">
+            {matches.map(truck => (
+              <li key={truck.truckId}>
+                <button
+                  onClick={() => { onSelect(truck.truckId); setQuery(''); }}
+                  className={`w-full text-left px-3 py-2 hover:bg-blue-50 transition-colors ${truck.truckId === selectedTruckId ? 'bg-blue-50' : ''}`}
+                >
+                  <span className="font-mono font-bold text-slate-800">{[truck.plateNumber, ...truck.trailerPlates].join(' + ')}</span>
+                  <span className="text-slate-500"> · {t('picker.tare', { tare: formatKg(truck.tareWeight) })}{truck.carrierName && ` · ${truck.carrierName}`}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
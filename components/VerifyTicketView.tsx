@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QrCode, ShieldCheck, ShieldAlert, ShieldQuestion, Camera, KeyRound, Copy } from 'lucide-react';
+import { TicketVerificationCode, TicketVerificationResult, TrustedKey } from '../types';
+import { exportSitePublicKey, fetchTrustedKeys, importTrustedKey, verifyTicketPayload } from '../services/signatureService';
+import { MessageKey } from '../locales/pt-BR';
+import { isLocalizedError } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+// Minimal typing for the Shape Detection API (not yet part of the TypeScript DOM lib)
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorInstance { detect(source: CanvasImageSource): Promise<DetectedBarcode[]> }
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 400;
+
+const STATUS_TITLES: Record<TicketVerificationResult['status'], MessageKey> = {
+  valid: 'verify.status.valid',
+  tampered: 'verify.status.tampered',
+  cancelled: 'verify.status.cancelled',
+  'unknown-key': 'verify.status.unknown-key',
+  malformed: 'verify.status.malformed',
+};
+
+const RESULT_MESSAGES: Record<TicketVerificationCode, MessageKey> = {
+  'not-a-ticket': 'verify.result.not-a-ticket',
+  undecodable: 'verify.result.undecodable',
+  'untrusted-key': 'verify.result.untrusted-key',
+  'bad-signature': 'verify.result.bad-signature',
+  'local-mismatch': 'verify.result.local-mismatch',
+  cancelled: 'verify.result.cancelled',
+  'cancelled-replaced': 'verify.result.cancelled-replaced',
+  'valid-local': 'verify.result.valid-local',
+  'valid-remote': 'verify.result.valid-remote',
+  'verification-failed': 'verify.result.verification-failed',
+};
+
+export const VerifyTicketView: React.FC = () => {
+  const { t, formatNumber, formatKg, formatDateTime } = useI18n();
+  const [payload, setPayload] = useState('');
+  const [result, setResult] = useState<TicketVerificationResult | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [sitePublicKey, setSitePublicKey] = useState('');
+  const [trustedKeys, setTrustedKeys] = useState<TrustedKey[]>([]);
+  const [keyToImport, setKeyToImport] = useState('');
+  const [keyLabel, setKeyLabel] = useState('');
+  const [keyMessage, setKeyMessage] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    exportSitePublicKey().then(setSitePublicKey).catch(err => console.error('Failed to load the signing key', err));
+    fetchTrustedKeys().then(setTrustedKeys);
+  }, []);
+
+  const handleVerify = async (text: string = payload) => {
+    if (!text.trim()) return;
+    try {
+      setResult(await verifyTicketPayload(text));
+    } catch (err) {
+      console.error('Failed to verify the ticket', err);
+      setResult({ status: 'malformed', code: 'verification-failed' });
+    }
+  };
+
+  // Camera scanning through BarcodeDetector (Chromium based browsers)
+  useEffect(() => {
+    if (!isScanning) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) {
+      setScanError(t('verify.cameraUnsupported'));
+      setIsScanning(false);
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (!videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play();
+        timer = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          const codes = await detector.detect(videoRef.current);
+          if (codes.length > 0) {
+            setPayload(codes[0].rawValue);
+            setIsScanning(false);
+            handleVerify(codes[0].rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch(() => {
+        setScanError(t('verify.cameraUnavailable'));
+        setIsScanning(false);
+      });
+
+    return () => {
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning]);
+
+  const handleImportKey = async () => {
+    setKeyMessage(null);
+    try {
+      const key = await importTrustedKey(keyToImport, keyLabel || t('verify.defaultKeyLabel'));
+      setTrustedKeys(await fetchTrustedKeys());
+      setKeyToImport('');
+      setKeyLabel('');
+      setKeyMessage(t('verify.keyImported', { id: key.keyId }));
+    } catch (err) {
+      setKeyMessage(isLocalizedError(err) ? t(err.key, err.params) : t('verify.importFailed'));
+    }
+  };
+
+  const resultStyle = !result ? '' :
+    result.status === 'valid' ? 'bg-green-50 border-green-200 text-green-800' :
+    result.status === 'unknown-key' || result.status === 'malformed' ? 'bg-amber-50 border-amber-200 text-amber-800' :
+    'bg-red-50 border-red-200 text-red-800';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+          <QrCode className="w-5 h-5 mr-2 text-blue-600" />
+          {t('verify.title')}
+        </h2>
+
+        <textarea
+          value={payload}
+          onChange={e => setPayload(e.target.value)}
+          placeholder={t('verify.payloadPlaceholder')}
+          rows={3}
+          className="w-full border border-slate-300 rounded p-2 font-mono text-xs"
+        />
+
+        {isScanning && (
+          <video ref={videoRef} className="mt-3 w-full max-h-64 bg-black rounded" muted playsInline />
+        )}
+        {scanError && <p className="mt-2 text-sm text-red-600">{scanError}</p>}
+
+        <div className="mt-3 flex justify-end space-x-3">
+          <button
+            onClick={() => { setScanError(null); setIsScanning(!isScanning); }}
+            className="px-4 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <Camera className="w-4 h-4 mr-2" />
+            {t(isScanning ? 'verify.stopCamera' : 'verify.scanCamera')}
+          </button>
+          <button
+            onClick={() => handleVerify()}
+            className="px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded shadow flex items-center font-medium transition-colors"
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {t('verify.verify')}
+          </button>
+        </div>
+
+        {result && (
+          <div className={`mt-4 p-4 rounded-lg border ${resultStyle}`}>
+            <div className="flex items-center font-bold">
+              {result.status === 'valid' ? <ShieldCheck className="w-5 h-5 mr-2" /> :
+               result.status === 'unknown-key' || result.status === 'malformed' ? <ShieldQuestion className="w-5 h-5 mr-2" /> :
+               <ShieldAlert className="w-5 h-5 mr-2" />}
+              {t(STATUS_TITLES[result.status])}
+            </div>
+            <p className="text-sm mt-1">{t(RESULT_MESSAGES[result.code], result.params)}</p>
+            {result.fields && (
+              <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-slate-700">
+                <dt className="text-slate-500">{t('verify.ticket')}</dt><dd className="font-mono">{result.fields.id}</dd>
+                <dt className="text-slate-500">{t('verify.document')}</dt><dd className="font-mono">{result.fields.inv}</dd>
+                <dt className="text-slate-500">{t('verify.plate')}</dt><dd className="font-mono">{result.fields.pl}</dd>
+                <dt className="text-slate-500">{t('verify.grossTare')}</dt><dd className="font-mono">{formatNumber(result.fields.g)} / {formatKg(result.fields.t)}</dd>
+                <dt className="text-slate-500">{t('verify.net')}</dt><dd className="font-mono">{formatKg(result.fields.n)}</dd>
+                <dt className="text-slate-500">{t('verify.issued')}</dt><dd>{formatDateTime(result.fields.ts)}</dd>
+                <dt className="text-slate-500">{t('verify.issuer')}</dt><dd>{result.ownKey ? t('verify.thisScale') : result.keyLabel || result.fields.k}</dd>
+              </dl>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Keys */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+        <h2 className="text-lg font-semibold flex items-center text-slate-700">
+          <KeyRound className="w-5 h-5 mr-2 text-blue-600" />
+          {t('verify.signingKeys')}
+        </h2>
+
+        <div>
+          <span className="text-sm text-slate-500">{t('verify.publicKeyHint')}</span>
+          <div className="mt-1 flex items-start space-x-2">
+            <code className="flex-grow text-xs bg-slate-50 border border-slate-200 rounded p-2 break-all">{sitePublicKey}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(sitePublicKey)}
+              className="text-slate-400 hover:text-slate-600 transition-colors"
+              title={t('verify.copy')}
+            >
+              <Copy className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-sm text-slate-500">{t('verify.importHint')}</span>
+          <input
+            value={keyLabel}
+            onChange={e => setKeyLabel(e.target.value)}
+            placeholder={t('verify.keyLabelPlaceholder')}
+            className="w-full border border-slate-300 rounded px-2 py-1 text-sm"
+          />
+          <textarea
+            value={keyToImport}
+            onChange={e => setKeyToImport(e.target.value)}
+            placeholder="STPK1...."
+            rows={2}
+            className="w-full border border-slate-300 rounded p-2 font-mono text-xs"
+          />
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600">{keyMessage}</span>
+            <button
+              onClick={handleImportKey}
+              disabled={!keyToImport.trim()}
+              className="px-3 py-2 bg-slate-200 text-slate-700 hover:bg-slate-300 rounded text-sm font-medium transition-colors"
+            >
+              {t('verify.importKey')}
+            </button>
+          </div>
+        </div>
+
+        {trustedKeys.length > 0 && (
+          <ul className="text-sm divide-y divide-slate-100">
+            {trustedKeys.map(key => (
+              <li key={key.keyId} className="py-2 flex justify-between">
+                <span>{key.label}</span>
+                <span className="font-mono text-slate-500">{key.keyId}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { AlertOctagon, CheckCircle, ShieldCheck } from 'lucide-react';
+import { SupervisorApproval, SupervisorOverride, WeightValidationResult } from '../types';
+import { describeViolation } from '../services/weightValidation';
+import { SupervisorApprovalForm } from './SupervisorApprovalForm';
+import { useI18n } from './I18nProvider';
+
+interface WeightValidationPanelProps {
+  validation: WeightValidationResult;
+  override?: SupervisorOverride;
+  ticketId?: string;
+  // When provided, a supervisor can release the ticket with their PIN and a reason
+  onOverride?: (approval: SupervisorApproval) => void | Promise<void>;
+  blockedMessage?: string;
+}
+
+export const WeightValidationPanel: React.FC<WeightValidationPanelProps> = ({ validation, override, ticketId, onOverride, blockedMessage }) => {
+  const i18n = useI18n();
+  const { t, formatKg, formatDateTime } = i18n;
+  if (validation.violations.length === 0) {
+    return (
+      <div className="p-3 bg-green-50 text-green-800 text-sm rounded flex items-center">
+        <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+        {validation.legalGrossLimit !== null
+          ? t('validation.withinLegalLimit', { configuration: validation.axleConfiguration ?? '', limit: formatKg(validation.legalGrossLimit) })
+          : t('validation.withinLimits')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-3 text-sm">
+      <div className="flex items-center font-bold text-red-800">
+        <AlertOctagon className="w-5 h-5 mr-2" />
+        {t('validation.overweight')}
+      </div>
+      <ul className="space-y-1 text-red-700">
+        {validation.violations.map((v, i) => (
+          <li key={i} className="flex justify-between">
+            <span>{t('validation.violation', { description: describeViolation(i18n, v), limit: formatKg(v.limit), allowed: formatKg(v.allowed) })}</span>
+            <span className="font-mono font-bold ml-4">+{formatKg(v.excess)}</span>
+          </li>
+        ))}
+      </ul>
+
+      {override ? (
+        <div className="flex items-start text-slate-700 bg-white rounded p-2 border border-red-100">
+          <ShieldCheck className="w-4 h-4 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+          <span>
+            {t('validation.releasedBy', { name: override.supervisorName, date: formatDateTime(override.timestamp) })} {override.reason}
+          </span>
+        </div>
+      ) : onOverride ? (
+        <div className="bg-white rounded p-3 border border-red-100">
+          <SupervisorApprovalForm
+            action="weight-override"
+            ticketId={ticketId}
+            reasonPlaceholder={t('validation.overrideReason')}
+            confirmLabel={t('validation.release')}
+            confirmClassName="bg-red-600 hover:bg-red-700"
+            onApproved={onOverride}
+          />
+        </div>
+      ) : blockedMessage ? (
+        <p className="text-red-800 font-medium">{blockedMessage}</p>
+      ) : null}
+    </div>
+  );
+};
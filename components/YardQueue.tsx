@@ -0,0 +1,75 @@
+import React from 'react';
+import { Warehouse, LogOut, Clock } from 'lucide-react';
+import { WeighingTicket } from '../types';
+import { I18n } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface YardQueueProps {
+  tickets: WeighingTicket[];
+  selectedTicketId: string | null;
+  onSelect: (ticketId: string | null) => void;
+}
+
+const formatElapsed = ({ t }: I18n, since: number): string => {
+  const minutes = Math.max(0, Math.floor((Date.now() - since) / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0
+    ? t('yard.elapsedHours', { hours: String(hours), minutes: String(minutes % 60).padStart(2, '0') })
+    : t('yard.elapsedMinutes', { minutes: String(minutes) });
+};
+
+export const YardQueue: React.FC<YardQueueProps> = ({ tickets, selectedTicketId, onSelect }) => {
+  const i18n = useI18n();
+  const { t, formatKg, formatTime } = i18n;
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h2 className="text-lg font-semibold flex items-center mb-4 text-slate-700">
+        <Warehouse className="w-5 h-5 mr-2 text-blue-600" />
+        {t('yard.title')}
+        <span className="ml-2 text-xs font-medium bg-slate-100 text-slate-600 rounded-full px-2 py-0.5">{tickets.length}</span>
+      </h2>
+
+      {tickets.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('yard.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {tickets.map(ticket => {
+            const entryTime = ticket.entryTimestamp || ticket.issueTimestamp;
+            const isSelected = ticket.id === selectedTicketId;
+            return (
+              <li
+                key={ticket.id}
+                className={`flex items-center justify-between py-3 px-2 rounded ${isSelected ? 'bg-blue-50' : ''}`}
+              >
+                <div className="text-sm">
+                  <div className="font-mono font-bold text-slate-800">
+                    {ticket.truckPlateNumber}
+                    {(ticket.weightValidation?.violations.length ?? 0) > 0 && (
+                      <span className="ml-2 font-sans text-xs font-medium bg-red-100 text-red-700 rounded px-1.5 py-0.5">{t('yard.overweight')}</span>
+                    )}
+                  </div>
+                  <div className="text-slate-500">
+                    {t('yard.details', { id: ticket.id ?? '', invoice: ticket.invoiceId, weight: formatKg(ticket.grossWeightCalculated) })}
+                  </div>
+                  <div className="text-xs text-slate-400 flex items-center mt-0.5">
+                    <Clock className="w-3 h-3 mr-1" />
+                    {t('yard.inYard', { time: formatTime(entryTime), elapsed: formatElapsed(i18n, entryTime) })}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onSelect(isSelected ? null : ticket.id || null)}
+                  className={`px-3 py-2 rounded text-sm font-medium flex items-center transition-colors ${
+                    isSelected ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                  }`}
+                >
+                  <LogOut className="w-4 h-4 mr-1" />
+                  {t(isSelected ? 'yard.selected' : 'yard.weighExit')}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
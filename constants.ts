@@ -1,7 +1,8 @@
 import { Truck } from './types';
 
 // Configuration Collection: Trucks
-// Specific definitions based on requirements:
+// Seed for the fleet registry on first run; afterwards vehicles are managed in the app.
+// Specific definitions based on requirements (targets of the default classification rules):
 // TRUCK: Tare 9960 kg (For loads <= 15000)
 // CARRETA: Tare 9900 kg (For loads > 15000)
 export const MOCK_TRUCKS: Truck[] = [
@@ -9,18 +10,24 @@ export const MOCK_TRUCKS: Truck[] = [
     truckId: 'TRK-STD-01', 
     plateNumber: 'TRUCK', 
     tareWeight: 9960, 
+    trailerPlates: [],
     maxCapacity: 26000, // 9960 + 15000 = 24960, so 26000 covers it
-    driverName: 'Auto Select 1' 
+    axleConfiguration: '4C', // Legal PBT 29000 kg
+    drivers: [{ name: 'Auto Select 1', cpf: '', cnh: '' }],
+    active: true
   },
   { 
     truckId: 'CRT-HVY-01', 
     plateNumber: 'CARRETA', 
     tareWeight: 9900, 
+    trailerPlates: [],
     maxCapacity: 50000, // High capacity for heavy loads
-    driverName: 'Auto Select 2' 
+    axleConfiguration: '3S3', // Legal PBT 48500 kg
+    drivers: [{ name: 'Auto Select 2', cpf: '', cnh: '' }],
+    active: true
   },
   // Keeping a generic one just in case, but the logic targets the names above
-  { truckId: 'TRK-GEN-03', plateNumber: 'GENERIC-01', tareWeight: 5000, maxCapacity: 10000, driverName: 'Spare Driver' },
+  { truckId: 'TRK-GEN-03', plateNumber: 'GENERIC-01', trailerPlates: [], tareWeight: 5000, maxCapacity: 10000, axleConfiguration: '2C', drivers: [{ name: 'Spare Driver', cpf: '', cnh: '' }], active: true },
 ];
 
 export const APP_NAME = "ScaleTicket Pro Studio";
\ No newline at end of file
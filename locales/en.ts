@@ -0,0 +1,749 @@
+import { MessageKey } from './pt-BR';
+
+export const en: Record<MessageKey, string> = {
+  'nav.weighing': 'Weighing',
+  'nav.dashboard': 'Dashboard',
+  'nav.history': 'History',
+  'nav.fleet': 'Fleet',
+  'nav.verify': 'Verify',
+  'nav.audit': 'Audit',
+  'nav.settings': 'Settings',
+
+  'app.newSession': 'New Session',
+  'app.lock': 'Lock',
+  'app.logout': 'Sign out',
+  'app.language': 'Language',
+  'app.printFailed': 'Printing failed: {error}',
+  'app.pdfFailed': 'Could not create the PDF: {error}',
+
+  'import.dropHint': 'Click or drop XML or ZIP files',
+  'import.formats': 'NF-e (mod. 55), CT-e (mod. 57) or MDF-e (mod. 58) · several files at once',
+  'import.summary': '{total} file(s) · {ready} ready · {errors} with errors · {processed} processed',
+  'import.clearProcessed': 'Clear processed',
+  'import.document': 'No. {number} · {weight}',
+  'import.plates': ' · Plate {plates}',
+  'import.vehicle': 'Vehicle: {plate} — ',
+  'import.ticket': 'Ticket {id}',
+  'import.load': 'Load',
+  'import.inUse': 'In use',
+  'import.remove': 'Remove from queue',
+
+  'weighing.invoiceData': 'Fiscal Document',
+  'weighing.documentNumber': 'Invoice/CT-e Number',
+  'weighing.cargoNetWeight': 'Net Weight (Cargo)',
+  'weighing.filenameDate': 'Date Detected (File Name)',
+  'weighing.vehicleDetected': 'Vehicle Detected',
+  'weighing.vehicleManual': 'Vehicle (manual selection)',
+  'weighing.vehicleTare': '{plate} (Tare: {weight})',
+  'weighing.overridesAutomatic': 'Replaces the automatic selection: {reason}',
+  'weighing.changeVehicle': 'Change vehicle',
+  'weighing.autoSelected': 'Vehicle selected automatically: {reason}',
+  'weighing.unexpectedReadError': 'Unexpected error while reading the file.',
+  'weighing.exitOf': 'Exit of',
+  'weighing.entryGross': 'Gross Weight (Entry)',
+  'weighing.exitNet': 'Net Weight (Entry - Exit)',
+  'weighing.registerExit': 'Record Exit and Issue Ticket',
+  'weighing.awaitingExitWeight': 'Waiting for the exit (tare) weight from the scale',
+  'weighing.exitNotLighter': 'The exit weight must be lower than the entry weight.',
+  'weighing.registerEntry': 'Record Entry',
+  'weighing.awaitingXml': 'Waiting for an XML file to select the vehicle automatically',
+  'weighing.awaitingStableWeight': 'Waiting for a stable weight from the scale',
+  'weighing.storedTare': 'Registered tare',
+  'weighing.tareExpiredBlock': 'Tare expired: the ticket can only be closed with an exit weighing.',
+  'weighing.tareExpiredWarn': 'Tare expired: recording an exit weighing to renew the tare is recommended.',
+  'weighing.closeWithStoredTare': 'Issue Ticket with Registered Tare',
+  'weighing.storedTareNet': ' (net {weight})',
+  'weighing.entryRegistered': 'Entry recorded: {plate} waiting for the exit weighing ({id}).',
+  'weighing.ticketIssuedWithStoredTare': 'Ticket {id} issued with the registered tare.',
+  'weighing.ticketGenerated': 'Ticket issued.',
+  'weighing.ticketOverweight': 'Ticket recorded as overweight: printing blocked.',
+  'weighing.ticketReleased': 'Ticket {id} released by {name}.',
+  'weighing.saveFailed': 'Error saving the ticket: {error}',
+  'weighing.tareSaveFailed': 'Ticket {id} saved, but the exit tare was not added to the history: {error}',
+  'weighing.duplicateDocument': 'This document already has an active ticket: {tickets}.',
+  'weighing.duplicateApproved': 'New ticket authorized by {name}.',
+  'weighing.duplicateReasonPlaceholder': 'Reason for the new ticket (e.g. second trip with the same CT-e)',
+  'weighing.duplicateConfirm': 'Authorize new ticket',
+
+  'preview.title': 'Ticket Issued',
+  'preview.blockedTitle': 'Ticket Held for Overweight',
+  'preview.printBlocked': 'Printing blocked: unload the excess and weigh again.',
+  'preview.close': 'Close',
+  'preview.print': 'Print',
+  'preview.downloadPdf': 'Download PDF',
+
+  'ticket.country': 'Brazil',
+  'ticket.cancelled': 'CANCELLED',
+  'ticket.cancelledBy': '{date} by {name}: {reason}',
+  'ticket.replacedBy': 'Replaced by ticket {id}',
+  'ticket.reprint': 'DUPLICATE (REPRINT {count})',
+  'ticket.simulated': 'SIMULATED WEIGHING - NOT VALID',
+  'ticket.number': 'NUMBER:',
+  'ticket.pending': 'PENDING',
+  'ticket.date': 'DATE:',
+  'ticket.plate': 'PLATE:',
+  'ticket.time': 'TIME:',
+  'ticket.invoiceRef': 'INVOICE REF.:',
+  'ticket.replaces': 'REPLACES:',
+  'ticket.operator': 'OPERATOR:',
+  'ticket.grossEntry': '1) Gross Weight at Entry',
+  'ticket.exitTare': '2) Tare at Exit (Truck)',
+  'ticket.storedTare': '2) Registered Tare (Truck)',
+  'ticket.measuredNet': '3) Measured Cargo Weight',
+  'ticket.overweight': 'OVERWEIGHT',
+  'ticket.releasedBy': 'Released by {name}: {reason}',
+  'ticket.verifyQr': 'Check authenticity with the QR code',
+  'ticket.scaleSerial': 'Scale no. {serial}',
+  'ticket.inmetroSeal': 'INMETRO seal {seal}',
+  'ticket.signature': 'Authorized Signature',
+  'ticket.copySite': 'SITE COPY',
+  'ticket.copyDriver': 'DRIVER COPY',
+
+  'parse.file-unreadable': 'Could not read the file.',
+  'parse.unsupported-file': 'Unsupported file type (use .xml or .zip).',
+  'parse.zip-no-xml': 'No XML file found in the ZIP.',
+  'parse.zip-unreadable': 'Could not open the ZIP file: {detail}',
+  'parse.invalid-xml': 'Invalid XML file.',
+  'parse.unknown-document': 'Unknown document: expected NF-e (infNFe), CT-e (infCte) or MDF-e (infMDFe).',
+  'parse.model-mismatch': 'Model "{model}" does not match the layout (expected {expected}).',
+  'parse.issuer-without-id': 'Issuer without CNPJ/CPF.',
+  'parse.number-missing': 'Document number missing.',
+  'parse.series-missing': 'Series missing.',
+  'parse.issue-date-missing': 'Issue date missing.',
+  'parse.access-key-missing': 'Id attribute without a 44-digit access key ("{id}").',
+  'parse.access-key-check-digit': 'Access key {key} has an invalid check digit.',
+  'parse.access-key-protocol-mismatch': 'Access key in Id ({id}) differs from the key in the authorization protocol ({protocol}).',
+  'parse.access-key-uf-mismatch': 'State in the access key ({key}) differs from cUF ({document}).',
+  'parse.access-key-period-mismatch': 'Issue month in the access key ({key}) differs from the issue date ({document}).',
+  'parse.access-key-issuer-mismatch': 'CNPJ/CPF in the access key ({key}) differs from the issuer ({document}).',
+  'parse.access-key-model-mismatch': 'Model in the access key ({key}) differs from mod ({document}).',
+  'parse.access-key-series-mismatch': 'Series in the access key ({key}) differs from the document series ({document}).',
+  'parse.access-key-number-mismatch': 'Number in the access key ({key}) differs from the document number ({document}).',
+  'parse.invalid-cargo-weight': 'Invalid cargo weight ({weight} kg).',
+  'parse.invalid-plate': 'Plate {plate} matches neither the old (ABC-1234) nor the Mercosul (ABC1D23) format.',
+  'parse.nfe-gross-weight-only': 'Net weight missing from the volumes; only gross weight (pesoB) given.',
+  'parse.nfe-no-volume-weight': 'No volume with a weight (pesoL) in the transport group.',
+  'parse.cte-without-cargo': 'CT-e without an infCTeNorm group (complementary or annulment): there is no cargo to weigh.',
+  'parse.cte-real-weight-missing': '"PESO REAL" measure not found; used {source}.',
+  'parse.cte-no-weight-unit': 'No quantity in KG (01) or TON (02); units present: {units}.',
+  'parse.cte-no-quantities': 'No infQ group in the cargo.',
+  'parse.mdfe-tractor-missing': 'Tractor unit not given.',
+  'parse.mdfe-total-weight-missing': 'Total cargo weight (qCarga) not given.',
+  'parse.mdfe-invalid-unit': 'Invalid weight unit: "{unit}" (expected 01-KG or 02-TON).',
+
+  'audit.event.created': 'Creation',
+  'audit.event.printed': 'Printing',
+  'audit.event.reprinted': 'Reprint',
+  'audit.event.edited': 'Change',
+  'audit.event.cancelled': 'Cancellation',
+  'audit.event.approved': 'Approval',
+  'audit.verifying': 'Verifying the audit chain...',
+  'audit.chainValid': 'Chain intact',
+  'audit.chainBroken': 'Chain compromised',
+  'audit.verifiedCount': '{count} entries verified on {date}',
+  'audit.headHash': 'Current hash: {hash}',
+  'audit.verify': 'Verify',
+  'audit.problem': 'Entry #{sequence}: {issue}',
+  'audit.problem.sequence-gap': 'Expected sequence {expected}: entry removed or out of order.',
+  'audit.problem.chain-broken': 'Broken link: the previous hash does not match.',
+  'audit.problem.content-altered': 'Content altered: the entry hash does not match.',
+  'audit.problem.tail-removed': 'Final entries removed: the last entry does not match the header.',
+  'audit.problem.head-missing': 'Log header missing.',
+  'audit.events': 'Event Log',
+  'audit.noEvents': 'No events recorded.',
+  'audit.dateTime': 'Date/Time',
+  'audit.event': 'Event',
+  'audit.ticket': 'Ticket',
+  'audit.description': 'Description',
+  'audit.hash': 'Hash',
+
+  'verify.title': 'Verify Ticket',
+  'verify.payloadPlaceholder': 'Paste the QR code content here (STP1....)',
+  'verify.cameraUnsupported': 'This browser cannot read from the camera. Paste the QR code content.',
+  'verify.cameraUnavailable': 'Could not access the camera.',
+  'verify.stopCamera': 'Stop Camera',
+  'verify.scanCamera': 'Scan with Camera',
+  'verify.verify': 'Verify',
+  'verify.status.valid': 'Authentic Ticket',
+  'verify.status.tampered': 'Tampered Ticket',
+  'verify.status.cancelled': 'Cancelled Ticket',
+  'verify.status.unknown-key': 'Unknown Issuer',
+  'verify.status.malformed': 'Invalid Content',
+  'verify.result.not-a-ticket': 'The content is not a ScaleTicket ticket QR code.',
+  'verify.result.undecodable': 'The ticket data could not be decoded.',
+  'verify.result.untrusted-key': 'Key {key} is not trusted on this station. Import the public key of the issuing scale.',
+  'verify.result.bad-signature': 'Invalid signature: the ticket data was altered or forged.',
+  'verify.result.local-mismatch': 'Valid signature, but the local ticket record differs from the QR code.',
+  'verify.result.cancelled': 'Authentic ticket, but CANCELLED: {reason}.',
+  'verify.result.cancelled-replaced': 'Authentic ticket, but CANCELLED: {reason} (replaced by ticket {id}).',
+  'verify.result.valid-local': 'Authentic ticket, matches the local record.',
+  'verify.result.valid-remote': 'Authentic signature (ticket not found on this station).',
+  'verify.result.verification-failed': 'The ticket could not be verified on this station. Try again.',
+  'verify.ticket': 'Ticket',
+  'verify.document': 'Invoice/CT-e',
+  'verify.plate': 'Plate',
+  'verify.grossTare': 'Gross / Tare',
+  'verify.net': 'Net',
+  'verify.issued': 'Issued',
+  'verify.issuer': 'Issuer',
+  'verify.thisScale': 'This scale',
+  'verify.signingKeys': 'Signing Keys',
+  'verify.publicKeyHint': 'Public key of this scale (share it with whoever receives the tickets)',
+  'verify.copy': 'Copy',
+  'verify.importHint': 'Import a key from another scale',
+  'verify.keyLabelPlaceholder': 'Name of the issuing scale',
+  'verify.defaultKeyLabel': 'External scale',
+  'verify.keyImported': 'Key {id} imported.',
+  'verify.importFailed': 'Could not import the key.',
+  'verify.importKey': 'Import Key',
+
+  'scale.title': 'Scale',
+  'scale.status.disconnected': 'Disconnected',
+  'scale.status.connecting': 'Connecting...',
+  'scale.status.connected': 'Connected',
+  'scale.status.error': 'Connection error',
+  'scale.bridgeUnavailable': 'Scale bridge unavailable. Reconnecting...',
+  'scale.netModeRejected': 'The indicator is in net mode (tare subtracted). Switch back to gross mode to capture the weight.',
+  'scale.notCapturable': 'Wait for a stable gross weight to capture.',
+  'scale.simulatorWarning': 'Simulator active: the weights do not come from the scale and tickets are marked as simulated.',
+  'scale.configure': 'Configure scale',
+  'scale.source': 'Source',
+  'scale.sourceSimulator': 'Simulator (recordings)',
+  'scale.sourceBridge': 'Local bridge (serial/TCP)',
+  'scale.recording': 'Recording',
+  'scale.simulatorLabel': 'Simulator ({name})',
+  'scale.bridgeUrl': 'Bridge address',
+  'scale.protocol': 'Indicator protocol',
+  'scale.protocolToledo': 'Toledo P03 (continuous)',
+  'scale.stabilityTolerance': 'Stability tolerance (kg)',
+  'scale.stabilityWindow': 'Stability window (ms)',
+  'scale.stable': 'STABLE',
+  'scale.motion': 'IN MOTION',
+  'scale.waiting': 'WAITING',
+  'scale.overload': 'OVERLOAD',
+  'scale.captured': 'Captured weight:',
+  'scale.nothingCaptured': 'No weight captured',
+  'scale.capture': 'Capture Weight',
+  'yard.title': 'Vehicles in the Yard',
+  'yard.empty': 'No vehicle waiting for the exit weighing.',
+  'yard.overweight': 'Overweight',
+  'yard.details': '{id} · Invoice {invoice} · Entry {weight}',
+  'yard.elapsedHours': '{hours}h {minutes}min',
+  'yard.elapsedMinutes': '{minutes} min',
+  'yard.inYard': '{time} ({elapsed} in the yard)',
+  'yard.selected': 'Selected',
+  'yard.weighExit': 'Weigh Exit',
+
+  'status.Draft': 'Draft',
+  'status.AwaitingExit': 'In the yard',
+  'status.Printed': 'Issued',
+  'status.Over-Capacity': 'Overweight',
+  'status.Cancelled': 'Cancelled',
+  'history.title': 'Ticket History',
+  'history.refresh': 'Refresh',
+  'history.searchPlaceholder': 'Ticket number, invoice or plate',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.site': 'Site',
+  'history.allSites': 'All',
+  'history.status': 'Status',
+  'history.found': '{count} ticket(s) found',
+  'history.noMatch': 'No ticket matches the filters.',
+  'history.column.id': 'Ticket',
+  'history.column.date': 'Date',
+  'history.column.plate': 'Plate',
+  'history.column.invoice': 'Invoice',
+  'history.column.net': 'Net',
+  'history.reprints': '{count}× copy',
+  'history.open': 'Open',
+  'history.page': 'Page {page} of {count}',
+  'history.ticket': 'Ticket {id}',
+  'history.cancelTicket': 'Cancel Ticket',
+  'history.correct': 'Correct',
+  'history.close': 'Close',
+  'history.reprintOnlyIssued': 'Only issued or cancelled tickets can be reprinted',
+  'history.reprint': 'Print Copy',
+
+  'export.format.csv': 'CSV (Excel pt-BR)',
+  'export.format.xlsx': 'XLSX spreadsheet',
+  'export.format.json': 'JSON',
+  'export.format.erp': 'ERP file (fixed positions)',
+  'export.column.id': 'Ticket',
+  'export.column.issueDate': 'Issued',
+  'export.column.status': 'Status',
+  'export.column.plate': 'Plate',
+  'export.column.invoiceId': 'Invoice',
+  'export.column.invoiceNetWeight': 'Invoice weight (kg)',
+  'export.column.entryDate': 'Entry',
+  'export.column.exitDate': 'Exit',
+  'export.column.grossWeight': 'Gross weight (kg)',
+  'export.column.tareWeight': 'Tare (kg)',
+  'export.column.netWeight': 'Net weight (kg)',
+  'export.column.difference': 'Difference from invoice (kg)',
+  'export.column.siteId': 'Site',
+  'export.column.siteName': 'Legal name',
+  'export.column.siteCnpj': 'CNPJ',
+  'export.column.issuedBy': 'Operator',
+  'export.column.correctsTicketId': 'Replaces',
+  'export.column.cancellationReason': 'Cancellation reason',
+  'export.column.overrideSupervisor': 'Released by',
+  'export.column.reprintCount': 'Reprints',
+  'export.title': 'Export for accounting:',
+  'export.columns': 'Columns ({count})',
+  'export.export': 'Export {count} ticket(s)',
+  'export.fileLanguageNote': 'Files use Portuguese headers, as the accounting import expects.',
+  'export.erpLayout': 'Fixed layout of 180 positions per line (header, one record per ticket and totals).',
+
+  'shift.morning': 'Morning (6 am–2 pm)',
+  'shift.afternoon': 'Afternoon (2 pm–10 pm)',
+  'shift.night': 'Night (10 pm–6 am)',
+  'report.noCarrier': 'No carrier',
+  'report.noProduct': 'Not informed',
+  'dashboard.title': 'Operations Dashboard',
+  'dashboard.from': 'From',
+  'dashboard.to': 'To',
+  'dashboard.refresh': 'Refresh',
+  'dashboard.issuedNetWeight': 'Issued net weight',
+  'dashboard.overCapacityValue': '{count} ({blocked} blocked)',
+  'dashboard.activeDays': 'Days with activity',
+  'dashboard.byDayAndShift': 'Tickets by day and shift',
+  'dashboard.noTickets': 'No tickets in this period.',
+  'dashboard.openClosing': 'Open this day\'s closing',
+  'dashboard.shiftTotals': '{shift}: {count} ticket(s), {weight}',
+  'dashboard.byVehicle': 'By vehicle',
+  'dashboard.byCarrier': 'By carrier',
+  'dashboard.byProduct': 'By product',
+  'dashboard.noIssuedTickets': 'No issued tickets.',
+  'dashboard.andMore': 'and {count} more',
+  'closing.title': 'Daily closing',
+  'closing.scaleSerial': 'Scale no. {serial}',
+  'closing.tickets': 'Tickets',
+  'closing.issued': 'Issued',
+  'closing.open': 'In the yard',
+  'closing.cancelled': 'Cancelled',
+  'closing.overCapacity': 'Overweight',
+  'closing.blocked': '{count} blocked',
+  'closing.netWeight': 'Net weight',
+  'closing.averageDifference': 'Average invoice difference',
+  'closing.shift': 'Shift',
+  'closing.product': 'Product',
+  'closing.carrier': 'Carrier',
+  'closing.ticket': 'Ticket',
+  'closing.time': 'Time',
+  'closing.plate': 'Plate',
+  'closing.invoice': 'Invoice',
+  'closing.status': 'Status',
+  'closing.netKg': 'Net (kg)',
+  'closing.notes': 'Notes',
+  'closing.operator': 'Operator',
+  'closing.operatorSignature': 'Scale operator',
+  'closing.supervisor': 'Supervisor',
+  'closing.supervisorSignature': 'Supervisor · checks and signs',
+  'closing.generatedAt': 'Generated on {time}',
+  'closing.date': 'Date',
+  'closing.close': 'Close',
+  'closing.print': 'Print for signature',
+
+  'axle.2C': 'Single-axle truck (2 axles)',
+  'axle.3C': 'Tandem truck (3 axles)',
+  'axle.4C': 'Twin-steer truck (4 axles)',
+  'axle.2S1': '4x2 tractor + 1-axle semi-trailer',
+  'axle.2S2': '4x2 tractor + 2-axle semi-trailer',
+  'axle.2S3': '4x2 tractor + 3-axle semi-trailer',
+  'axle.3S2': '6x2 tractor + 2-axle semi-trailer',
+  'axle.3S3': '6x4 tractor + 3-axle semi-trailer',
+  'axle.3T4': 'B-double (7 axles)',
+  'axle.3T6': 'Road train (9 axles)',
+  'numbering.invalidSiteCode': 'The site code must have 2 to 6 letters or digits.',
+  'numbering.invalidSeries': 'The series must have up to 3 letters or digits.',
+  'classification.title': 'Vehicle Classification',
+  'classification.intro': 'Used when no plate of the document is in the fleet. Rules are evaluated from the lowest to the highest priority; the first one that matches picks the vehicle. Empty fields accept any document.',
+  'classification.priority': 'Priority',
+  'classification.name': 'Name',
+  'classification.enabled': 'Enabled',
+  'classification.remove': 'Remove',
+  'classification.minWeight': 'Weight above (kg)',
+  'classification.maxWeight': 'Weight up to (kg)',
+  'classification.shipperCnpj': 'Shipper CNPJ',
+  'classification.productContains': 'Product contains',
+  'classification.documentPlate': 'Plate in the document',
+  'classification.target': 'Target',
+  'classification.targetClass': 'Vehicle class',
+  'classification.targetVehicle': 'Specific vehicle',
+  'classification.axleConfiguration': 'Axle configuration',
+  'classification.vehicle': 'Vehicle',
+  'classification.inactive': '(inactive)',
+  'classification.noRules': 'No rules: the vehicle will always be picked by hand.',
+  'classification.simulate': 'Simulate a document',
+  'classification.sampleWeight': 'Cargo weight (kg)',
+  'classification.sampleProduct': 'Product',
+  'classification.pickedTruck': '{plate} · Tare {tare}',
+  'classification.noRuleApplies': 'No rule applies: the operator picks the vehicle.',
+  'classification.add': 'New rule',
+  'classification.newRuleName': 'New rule',
+  'classification.save': 'Save',
+  'classification.saved': 'Rules saved. They apply to the next imported documents.',
+  'classification.outcome.fired': 'Applied',
+  'classification.outcome.noMatch': 'No match',
+  'classification.outcome.unavailable': 'No vehicle',
+  'classification.outcome.notReached': 'Not evaluated',
+  'classification.outcome.disabled': 'Disabled',
+  'classification.error.name': 'Rule {rule}: enter a name.',
+  'classification.error.weightRange': '{rule}: the minimum weight must be less than the maximum.',
+  'classification.error.cnpj': '{rule}: the shipper CNPJ must have 14 digits.',
+  'classification.error.plate': '{rule}: the plate is neither in the old (ABC-1234) nor the Mercosur (ABC1D23) format.',
+  'classification.error.target': '{rule}: choose the target vehicle.',
+  'classification.target.vehicle': 'Vehicle {plate}',
+  'classification.target.unregistered': 'Vehicle {truckId} (not registered)',
+  'classification.failure.noWeight': 'The document has no cargo weight',
+  'classification.failure.belowMin': 'Weight {weight} kg is not above {limit} kg',
+  'classification.failure.aboveMax': 'Weight {weight} kg above {limit} kg',
+  'classification.failure.shipper': 'Different shipper',
+  'classification.failure.product': 'Different product',
+  'classification.failure.plate': 'Plate {plate} not in the document',
+  'classification.failure.noVehicleOfClass': 'No active vehicle of class {configuration}',
+  'classification.failure.vehicleInactive': 'Vehicle {vehicle} inactive or not registered',
+
+  'sync.state.disabled': 'Synchronisation disabled',
+  'sync.state.idle': 'Synchronised',
+  'sync.state.syncing': 'Synchronising…',
+  'sync.state.offline': 'No connection to the server',
+  'sync.state.error': 'Synchronisation error',
+  'sync.entity.ticket': 'Ticket',
+  'sync.entity.truck': 'Vehicle',
+  'sync.entity.tare': 'Tare',
+  'sync.saved': 'Synchronisation saved. Reload the page to apply it.',
+  'sync.queued': '{count} record(s) queued for sending.',
+  'sync.queueFailed': 'Failed to queue: {error}',
+  'sync.title': 'Central Server Synchronisation',
+  'sync.restBackendNote': 'Storage is set to REST server: the data is already written straight to the server.',
+  'sync.enabled': 'Work offline and synchronise with the central server',
+  'sync.serverUrl': 'Server address',
+  'sync.interval': 'Interval (seconds)',
+  'sync.stationId': 'Station id',
+  'sync.token': 'Access token (the same as the server\'s)',
+  'sync.counts': '{pending} pending · {failed} failed',
+  'sync.lastSync': 'last on {time}',
+  'sync.syncNow': 'Synchronise now',
+  'sync.retry': 'Retry',
+  'sync.record': 'Record',
+  'sync.changedAt': 'Changed on',
+  'sync.status': 'Status',
+  'sync.entryFailed': 'Failed',
+  'sync.entryPending': 'Pending',
+  'sync.attempts': '({count} attempt(s))',
+  'sync.discard': 'Discard the upload (the local record is kept)',
+  'sync.queueAllHint': 'Sends every ticket, vehicle and tare of this station to the server',
+  'sync.queueAll': 'Send all records',
+  'sync.save': 'Save',
+  'settings.enforcement.warn': 'Only flag it on the ticket',
+  'settings.enforcement.override': 'Block printing until a supervisor releases it',
+  'settings.enforcement.block': 'Block printing (no release)',
+  'settings.tareExpiry.warn': 'Only warn',
+  'settings.tareExpiry.block': 'Require a new exit weighing',
+  'settings.weightLimitsSaved': 'Weight limits saved.',
+  'settings.numberingSaved': 'Numbering saved.',
+  'settings.tareSaved': 'Tare validity saved.',
+  'settings.title': 'Settings',
+  'settings.approvalRequired': 'Settings changes need a supervisor\'s approval.',
+  'settings.unlock': 'Unlock editing',
+  'settings.unlockedBy': 'Editing unlocked by {supervisor} at {time}.',
+  'settings.numbering': 'Ticket Numbering',
+  'settings.siteCode': 'Site code',
+  'settings.series': 'Series (optional)',
+  'settings.nextNumber': 'Next number',
+  'settings.weightLimits': 'Weight Limits',
+  'settings.grossTolerance': 'Gross weight tolerance (%)',
+  'settings.axleTolerance': 'Axle tolerance (%)',
+  'settings.capacityTolerance': 'Capacity tolerance (%)',
+  'settings.enforcement': 'Action on overweight',
+  'settings.configuration': 'Configuration',
+  'settings.legalGross': 'Legal gross weight',
+  'settings.withTolerance': 'With tolerance',
+  'settings.tareValidity': 'Tare Validity',
+  'settings.tareValidityDays': 'Validity of a measured tare (days)',
+  'settings.tareExpired': 'Expired tare',
+  'settings.save': 'Save',
+
+  'fleet.error.plate': 'Enter the tractor/truck plate.',
+  'fleet.error.trailerPlate': 'Trailer plate {plate} is neither in the old (ABC-1234) nor the Mercosur (ABC1D23) format.',
+  'fleet.error.tare': 'Enter the vehicle tare.',
+  'fleet.error.capacity': 'The capacity must be greater than the tare.',
+  'fleet.error.cnpj': 'The carrier CNPJ must have 14 digits.',
+  'fleet.error.rntrc': 'The RNTRC must have 8 or 9 digits.',
+  'fleet.error.driverName': 'Driver {driver}: enter the name.',
+  'fleet.error.driverCpf': 'Driver {driver}: invalid CPF.',
+  'fleet.error.driverCnh': 'Driver {driver}: the CNH must have 11 digits.',
+  'fleet.editTitle': 'Edit {plate}',
+  'fleet.newVehicle': 'New Vehicle',
+  'fleet.plate': 'Tractor / truck plate',
+  'fleet.genericPlateHint': 'Neither in the old (ABC-1234) nor the Mercosur (ABC1D23) format; use only for generic vehicles, which keep no tare history.',
+  'fleet.trailerPlates': 'Trailer plates (comma separated)',
+  'fleet.axleConfiguration': 'Axle configuration',
+  'fleet.axleConfigurationUnknown': 'Not informed',
+  'fleet.tare': 'Tare (kg)',
+  'fleet.tareReadOnlyHint': 'Record new tares in the tare history',
+  'fleet.capacity': 'Gross capacity (kg)',
+  'fleet.carrier': 'Carrier',
+  'fleet.drivers': 'Linked drivers',
+  'fleet.addDriver': 'Add driver',
+  'fleet.driverName': 'Name',
+  'fleet.cancel': 'Cancel',
+  'fleet.save': 'Save',
+  'fleet.title': 'Registered Fleet',
+  'fleet.search': 'Search by plate, carrier, RNTRC or driver',
+  'fleet.showInactive': 'Show inactive',
+  'fleet.noVehicles': 'No vehicles found.',
+  'fleet.inactive': 'Inactive',
+  'fleet.summary': 'Tare {tare} · Capacity {capacity}',
+  'fleet.driverList': 'Drivers: {names}',
+  'fleet.tareHistory': 'Tare history',
+  'fleet.edit': 'Edit',
+  'fleet.deactivate': 'Deactivate',
+  'fleet.reactivate': 'Reactivate',
+
+  'role.operator': 'Operator',
+  'role.supervisor': 'Supervisor',
+  'role.admin': 'Administrator',
+  'approval.action.weight-override': 'Overweight release',
+  'approval.action.ticket-cancel': 'Ticket cancellation',
+  'approval.action.ticket-correct': 'Ticket correction',
+  'approval.action.tare-edit': 'Tare entry',
+  'approval.action.settings-change': 'Settings change',
+  'approval.action.duplicate-document': 'New ticket for a document already weighed',
+  'approval.noApprovers': 'No supervisor with a PIN is registered: {action} unavailable.',
+  'approval.title': '{action}: supervisor approval',
+  'approval.checking': 'Checking…',
+  'users.error.login': 'The login must have 3 to 32 lowercase letters, digits, dots, hyphens or underscores.',
+  'users.error.loginTaken': 'The login {userId} already exists.',
+  'users.error.name': 'Enter the name.',
+  'users.error.password': 'The password must have at least 8 characters.',
+  'users.error.pin': 'The PIN must have 4 to 8 digits.',
+  'users.error.pinRequired': 'Supervisors and administrators need an approval PIN.',
+  'users.error.lastAdmin': 'At least one administrator must stay active.',
+  'users.saved': 'User {userId} saved.',
+  'users.deactivated': 'User {userId} deactivated.',
+  'users.reactivated': 'User {userId} reactivated.',
+  'users.title': 'Users',
+  'users.name': 'Name',
+  'users.login': 'Login',
+  'users.role': 'Role',
+  'users.inactive': '(inactive)',
+  'users.edit': 'Edit',
+  'users.deactivate': 'Deactivate',
+  'users.reactivate': 'Reactivate',
+  'users.editTitle': 'Edit {userId}',
+  'users.new': 'New user',
+  'users.printedName': 'Name (printed on tickets)',
+  'users.newPassword': 'New password (empty keeps the current one)',
+  'users.password': 'Password',
+  'users.newPin': 'New PIN (empty keeps the current one)',
+  'users.pin': 'Approval PIN',
+  'users.saving': 'Saving…',
+  'users.save': 'Save user',
+  'users.lockAfter': 'Lock after inactivity (min, 0 = never)',
+  'users.lockSaved': 'Lock time saved.',
+  'login.passwordMismatch': 'The passwords do not match.',
+  'login.locked': 'Session locked after inactivity',
+  'login.setup': 'First use: create the administrator',
+  'login.prompt': 'Sign in with your user',
+  'login.user': 'User',
+  'login.login': 'Login',
+  'login.fullName': 'Full name',
+  'login.password': 'Password',
+  'login.repeatPassword': 'Repeat the password',
+  'login.pin': 'Approval PIN (4 to 8 digits)',
+  'login.unlock': 'Unlock',
+  'login.createAdmin': 'Create the administrator and sign in',
+  'login.submit': 'Sign in',
+  'login.switchUser': 'Sign in as another user',
+
+  'sites.error.legalName': 'Enter the legal name.',
+  'sites.error.cnpj': 'Invalid CNPJ.',
+  'sites.error.state': 'The state must have 2 letters.',
+  'sites.error.duplicate': 'The code {siteId} is already used by another site.',
+  'sites.field.siteId': 'Site code',
+  'sites.field.cnpj': 'CNPJ',
+  'sites.field.legalName': 'Legal name',
+  'sites.field.tradeName': 'Name on the ticket header',
+  'sites.field.address': 'Address',
+  'sites.field.city': 'City',
+  'sites.field.state': 'State',
+  'sites.field.scaleSerial': 'Scale serial number',
+  'sites.field.inmetroSeal': 'INMETRO seal',
+  'sites.new': 'New site',
+  'sites.saved': 'Sites saved. New tickets will use this data.',
+  'sites.activated': 'This station now issues tickets for {site}.',
+  'sites.title': 'Weighing Sites',
+  'sites.defaultLayout': 'Default print layout',
+  'sites.ticketLocale': 'Printed ticket language',
+  'sites.footerText': 'Footer text',
+  'sites.logo': 'Logo',
+  'sites.removeLogo': 'Remove',
+  'sites.remove': 'Remove site',
+  'sites.activate': 'Use on this station',
+  'sites.save': 'Save',
+  'storage.backend.indexeddb': 'Browser local database (IndexedDB)',
+  'storage.backend.rest': 'REST server',
+  'storage.backend.local': 'localStorage (legacy)',
+  'storage.testOk': 'Connection OK: {count} vehicle(s) at the destination.',
+  'storage.testFailed': 'Connection failed: {error}',
+  'storage.saved': 'Storage saved. Reload the page to apply it.',
+  'storage.title': 'Storage',
+  'storage.backend': 'Where to keep tickets, fleet and tares',
+  'storage.restUrl': 'Server address',
+  'storage.restToken': 'Access token',
+  'storage.migrated': 'Migrated to {target} on {time}: {tickets} ticket(s), {trucks} vehicle(s), {tares} tare(s), {settings} setting(s)',
+  'storage.test': 'Test',
+  'storage.save': 'Save',
+
+  'printer.connection.browser': 'Browser printing',
+  'printer.connection.webusb': 'ESC/POS over USB (WebUSB)',
+  'printer.connection.serial': 'ESC/POS over a serial port (Web Serial)',
+  'printer.connection.bridge': 'ESC/POS through the local print bridge',
+  'printer.connection.dump': 'ESC/POS show bytes only (no printer)',
+  'printer.authorized': 'Authorised: {device}',
+  'printer.authorizeFailed': 'Authorisation failed: {error}',
+  'printer.testSent': 'Test page sent.',
+  'printer.printFailed': 'Printing failed: {error}',
+  'printer.saved': 'Printer saved.',
+  'printer.title': 'Printer',
+  'printer.connection': '80 mm ticket output',
+  'printer.bridgeUrl': 'Print bridge address',
+  'printer.baudRate': 'Speed (bps)',
+  'printer.columns': 'Columns per line',
+  'printer.unsupported': 'This browser does not offer this connection; use Chrome or Edge, or the print bridge.',
+  'printer.pageLayoutsNote': 'A5 and A4 layouts keep using the browser\'s printing.',
+  'printer.authorize': 'Authorise device',
+  'printer.test': 'Print test page',
+  'printer.save': 'Save',
+  'printer.dumpTitle': 'ESC/POS bytes ({count} bytes)',
+  'printer.downloadBin': 'Download .bin',
+
+  'plates.role.tractor': 'Tractor/truck',
+  'plates.role.trailer': 'Trailer',
+  'plates.sourceObservation': 'XML, notes',
+  'plates.inFleet': 'Fleet: {vehicle}',
+  'plates.notInFleet': 'Not in the fleet registry',
+  'plates.mismatchTitle': 'Plates do not match.',
+  'plates.mismatch': 'Document plate(s) {plates} do not belong to vehicle {vehicle}. Check the vehicle before recording the weighing.',
+  'tare.source.exit-weighing': 'Exit weighing',
+  'tare.source.manual': 'Manual entry',
+  'tare.none': 'No measured tare',
+  'tare.expired': 'Tare expired on {date}',
+  'tare.validUntil': 'Tare valid until {date}',
+  'tare.history': 'Tare history',
+  'tare.driftSince': 'Change since {date}:',
+  'tare.driftRange': 'range {min}–{max} kg',
+  'tare.driftTrend': 'trend {trend} kg/month',
+  'tare.empty': 'No tare recorded. The next exit weighing will be recorded here.',
+  'tare.date': 'Date',
+  'tare.source': 'Source',
+  'tare.weight': 'Tare',
+  'tare.manualWeight': 'Measured tare (kg)',
+  'tare.manualReason': 'Reason for the manual entry (required)',
+  'tare.record': 'Record tare',
+
+  'document.title': 'Document',
+  'document.series': 'Series {series}',
+  'document.number': 'No. {number}',
+  'document.accessKey': 'Access key',
+  'document.issuer': 'Issuer',
+  'document.sender': 'Sender',
+  'document.recipient': 'Recipient',
+  'document.product': 'Main product',
+  'document.quantities': 'Quantities (infQ)',
+  'document.volumes': 'Packages carried',
+  'document.volumeWeights': 'Net {net} / Gross {gross} kg',
+  'document.vehicles': 'Vehicles on the document',
+  'document.trailerPlate': '{plate} (trailer)',
+  'document.weightSource': 'Weight source',
+  'layout.title': 'Print layout',
+  'layout.thermal-80': '80 mm thermal roll',
+  'layout.a5': 'A5 (148 × 210 mm)',
+  'layout.a4-two-copies': 'A4 landscape, two copies',
+  'ticket.qrAlt': 'Verification QR code',
+  'picker.search': 'Search vehicle by plate, carrier or driver',
+  'picker.empty': 'No active vehicle found.',
+  'picker.tare': 'Tare {tare}',
+  'batch.failed': 'Export failed: {error}',
+  'batch.archivalHint': 'Adds XMP metadata and a permanent document id',
+  'batch.archival': 'Archival (PDF/A)',
+  'batch.generating': 'Generating...',
+  'batch.singlePdf': 'Single PDF ({count})',
+  'ticketActions.cancelled': 'Ticket {ticket} cancelled.',
+  'ticketActions.corrected': 'Ticket {ticket} cancelled and replaced by {replacement}.',
+  'ticketActions.correctTitle': 'Correct ticket (issues a new ticket and cancels the original)',
+  'ticketActions.cancelTitle': 'Cancel ticket',
+  'ticketActions.invoice': 'Invoice / CT-e',
+  'ticketActions.invoiceWeight': 'Invoice weight (kg)',
+  'ticketActions.plate': 'Plate',
+  'ticketActions.vehicle': 'Vehicle',
+  'ticketActions.inactive': '(inactive)',
+  'ticketActions.correctReason': 'Reason for the correction (required)',
+  'ticketActions.cancelReason': 'Reason for the cancellation (required)',
+  'ticketActions.confirmCorrect': 'Save correction',
+  'ticketActions.confirmCancel': 'Confirm cancellation',
+  'ticketActions.back': 'Back',
+
+  'axleGroup.steer': 'single steer axle',
+  'axleGroup.double-steer': 'double steer axle',
+  'axleGroup.single': 'single axle, dual wheels',
+  'axleGroup.tandem': 'tandem axle',
+  'axleGroup.tridem': 'tridem axle',
+  'violation.capacity': 'Capacity of vehicle {plate}',
+  'violation.legal-gross': 'Legal gross weight {configuration}',
+  'violation.legal-axle': 'Axle group {index} ({group})',
+  'validation.withinLimits': 'Weight within limits',
+  'validation.withinLegalLimit': 'Weight within limits (legal gross weight {configuration}: {limit})',
+  'validation.overweight': 'Overweight',
+  'validation.violation': '{description}: limit {limit} (tolerated up to {allowed})',
+  'validation.releasedBy': 'Released by {name} on {date}:',
+  'validation.overrideReason': 'Reason for the release (required)',
+  'validation.release': 'Release ticket',
+  'selection.tractor-plate': 'Plate {plate} (tractor/truck) found in the document',
+  'selection.trailer-plate': 'Plate {plate} (trailer) found in the document',
+  'selection.rule': 'Rule "{rule}" (priority {priority})',
+  'selection.no-rule': 'No classification rule applies to the document: select the vehicle.',
+
+  'ticketActions.releaseNeeded': 'The weight exceeds the limits of the corrected vehicle. Approving the correction also releases the new ticket.',
+  'ticketActions.duplicateNeeded': 'Document {document} already has an active ticket ({tickets}). Approving the correction also authorises another ticket for the document.',
+
+  'app.auditFailed': 'Could not write the audit log; nothing was printed or exported: {error}',
+  'audit.unwritten': 'Audit: {count} pending',
+  'audit.unwrittenHint': 'Saved changes whose audit entry has not been written yet. Click to retry; do not repeat the changes.',
+
+  'axleWeights.title': 'Weights per axle group ({configuration}), optional',
+  'axleWeights.group': '{index} · {group} (limit {limit})',
+
+  'storage.recordConflict': 'Record {id} was changed by another station. Reload and try again.',
+
+  'login.invalidCredentials': 'Invalid login or password.',
+  'login.invalidPassword': 'Invalid password.',
+  'approval.invalidPin': 'Invalid supervisor PIN.',
+  'fleet.duplicatePlate': 'Plate {plate} is already registered ({id}).',
+  'fleet.notFound': 'Vehicle {id} not found.',
+  'history.ticketNotFound': 'Ticket {id} not found.',
+  'history.notOverCapacity': 'Ticket {id} is not held for excess weight.',
+  'history.alreadyCancelled': 'Ticket {id} is already cancelled.',
+  'parse.zip-corrupt': 'Invalid or corrupted ZIP file.',
+  'parse.zip-corrupt-entry': 'Corrupted entry in the ZIP: {name}',
+  'parse.zip-encrypted': 'Password-protected file in the ZIP: {name}',
+  'parse.zip-unsupported-method': 'Unsupported compression method ({method}) in the ZIP: {name}',
+  'storage.serverError': 'The server answered {status} on {path}.',
+  'storage.migrationIncomplete': 'Incomplete migration: {count} ticket(s) not found at the destination.',
+  'storage.databaseBlocked': 'Local database blocked by another tab running an older version. Close the other tabs.',
+  'storage.transactionAborted': 'The write to the local database was interrupted.',
+  'verify.invalidKeyFormat': 'Invalid public key format.',
+  'verify.keyIdMismatch': 'The key id does not match its content.',
+  'printer.webUsbUnsupported': 'This browser does not support WebUSB.',
+  'printer.webSerialUnsupported': 'This browser does not support Web Serial.',
+  'printer.noUsbPrinter': 'No USB printer authorized. Authorize it under Settings → Printer.',
+  'printer.usbNoOutput': 'The USB printer has no data output.',
+  'printer.noSerialPort': 'No serial port authorized. Authorize it under Settings → Printer.',
+  'printer.bridgeError': 'The print bridge answered {status}: {detail}',
+  'printer.noRawOutput': 'This connection does not send ESC/POS commands.',
+  'sites.imageProcessingFailed': 'The image could not be processed.',
+  'sites.invalidImage': 'Invalid image file.',
+  'document.unknownUnit': 'Unknown',
+};
@@ -0,0 +1,749 @@
+import { MessageKey } from './pt-BR';
+
+export const es: Record<MessageKey, string> = {
+  'nav.weighing': 'Pesaje',
+  'nav.dashboard': 'Panel',
+  'nav.history': 'Historial',
+  'nav.fleet': 'Flota',
+  'nav.verify': 'Verificar',
+  'nav.audit': 'Auditoría',
+  'nav.settings': 'Configuración',
+
+  'app.newSession': 'Nueva Sesión',
+  'app.lock': 'Bloquear',
+  'app.logout': 'Salir',
+  'app.language': 'Idioma',
+  'app.printFailed': 'Error al imprimir: {error}',
+  'app.pdfFailed': 'Error al generar el PDF: {error}',
+
+  'import.dropHint': 'Haga clic o arrastre archivos XML o ZIP',
+  'import.formats': 'NF-e (mod. 55), CT-e (mod. 57) o MDF-e (mod. 58) · varios archivos a la vez',
+  'import.summary': '{total} archivo(s) · {ready} listo(s) · {errors} con error · {processed} procesado(s)',
+  'import.clearProcessed': 'Quitar procesados',
+  'import.document': 'N.º {number} · {weight}',
+  'import.plates': ' · Placa {plates}',
+  'import.vehicle': 'Vehículo: {plate} — ',
+  'import.ticket': 'Ticket {id}',
+  'import.load': 'Cargar',
+  'import.inUse': 'En uso',
+  'import.remove': 'Quitar de la cola',
+
+  'weighing.invoiceData': 'Documento Fiscal',
+  'weighing.documentNumber': 'Número de Factura/CT-e',
+  'weighing.cargoNetWeight': 'Peso Neto (Carga)',
+  'weighing.filenameDate': 'Fecha Detectada (Nombre del Archivo)',
+  'weighing.vehicleDetected': 'Vehículo Detectado',
+  'weighing.vehicleManual': 'Vehículo (selección manual)',
+  'weighing.vehicleTare': '{plate} (Tara: {weight})',
+  'weighing.overridesAutomatic': 'Reemplaza la selección automática: {reason}',
+  'weighing.changeVehicle': 'Cambiar vehículo',
+  'weighing.autoSelected': 'Vehículo seleccionado automáticamente: {reason}',
+  'weighing.unexpectedReadError': 'Error inesperado al leer el archivo.',
+  'weighing.exitOf': 'Salida de',
+  'weighing.entryGross': 'Peso Bruto (Entrada)',
+  'weighing.exitNet': 'Peso Neto (Entrada - Salida)',
+  'weighing.registerExit': 'Registrar Salida y Emitir Ticket',
+  'weighing.awaitingExitWeight': 'Esperando la captura del peso de salida (tara) en la báscula',
+  'weighing.exitNotLighter': 'El peso de salida debe ser menor que el peso de entrada.',
+  'weighing.registerEntry': 'Registrar Entrada',
+  'weighing.awaitingXml': 'Esperando un archivo XML para seleccionar el vehículo automáticamente',
+  'weighing.awaitingStableWeight': 'Esperando la captura de un peso estable en la báscula',
+  'weighing.storedTare': 'Tara registrada',
+  'weighing.tareExpiredBlock': 'Tara vencida: el ticket solo puede cerrarse con el pesaje de salida.',
+  'weighing.tareExpiredWarn': 'Tara vencida: se recomienda registrar el pesaje de salida para renovar la tara.',
+  'weighing.closeWithStoredTare': 'Emitir Ticket con Tara Registrada',
+  'weighing.storedTareNet': ' (neto {weight})',
+  'weighing.entryRegistered': 'Entrada registrada: {plate} esperando el pesaje de salida ({id}).',
+  'weighing.ticketIssuedWithStoredTare': 'Ticket {id} emitido con la tara registrada.',
+  'weighing.ticketGenerated': 'Ticket emitido correctamente.',
+  'weighing.ticketOverweight': 'Ticket registrado con exceso de peso: impresión bloqueada.',
+  'weighing.ticketReleased': 'Ticket {id} liberado por {name}.',
+  'weighing.saveFailed': 'Error al guardar el ticket: {error}',
+  'weighing.tareSaveFailed': 'Ticket {id} guardado, pero la tara de salida no se agregó al historial: {error}',
+  'weighing.duplicateDocument': 'Este documento ya tiene un ticket activo: {tickets}.',
+  'weighing.duplicateApproved': 'Nuevo ticket autorizado por {name}.',
+  'weighing.duplicateReasonPlaceholder': 'Motivo del nuevo ticket (p. ej., segundo viaje con el mismo CT-e)',
+  'weighing.duplicateConfirm': 'Autorizar nuevo ticket',
+
+  'preview.title': 'Ticket Emitido',
+  'preview.blockedTitle': 'Ticket Retenido por Exceso de Peso',
+  'preview.printBlocked': 'Impresión bloqueada: descargue el exceso y vuelva a pesar.',
+  'preview.close': 'Cerrar',
+  'preview.print': 'Imprimir',
+  'preview.downloadPdf': 'Descargar PDF',
+
+  'ticket.country': 'Brasil',
+  'ticket.cancelled': 'ANULADO',
+  'ticket.cancelledBy': '{date} por {name}: {reason}',
+  'ticket.replacedBy': 'Reemplazado por el ticket {id}',
+  'ticket.reprint': 'DUPLICADO (REIMPRESIÓN {count})',
+  'ticket.simulated': 'PESAJE SIMULADO - SIN VALOR',
+  'ticket.number': 'NÚMERO:',
+  'ticket.pending': 'PENDIENTE',
+  'ticket.date': 'FECHA:',
+  'ticket.plate': 'PLACA:',
+  'ticket.time': 'HORA:',
+  'ticket.invoiceRef': 'REF. FACTURA:',
+  'ticket.replaces': 'REEMPLAZA:',
+  'ticket.operator': 'OPERADOR:',
+  'ticket.grossEntry': '1) Pesaje Bruto de Entrada',
+  'ticket.exitTare': '2) Tara de Salida (Camión)',
+  'ticket.storedTare': '2) Tara Registrada (Camión)',
+  'ticket.measuredNet': '3) Peso Medido de la Mercadería',
+  'ticket.overweight': 'EXCESO DE PESO',
+  'ticket.releasedBy': 'Liberado por {name}: {reason}',
+  'ticket.verifyQr': 'Verifique la autenticidad con el código QR',
+  'ticket.scaleSerial': 'Báscula n.º {serial}',
+  'ticket.inmetroSeal': 'Precinto INMETRO {seal}',
+  'ticket.signature': 'Firma Autorizada',
+  'ticket.copySite': 'COPIA DEL PUESTO',
+  'ticket.copyDriver': 'COPIA DEL CONDUCTOR',
+
+  'parse.file-unreadable': 'No se pudo leer el archivo.',
+  'parse.unsupported-file': 'Tipo de archivo no admitido (use .xml o .zip).',
+  'parse.zip-no-xml': 'No se encontró ningún archivo XML en el ZIP.',
+  'parse.zip-unreadable': 'No se pudo abrir el archivo ZIP: {detail}',
+  'parse.invalid-xml': 'Archivo XML no válido.',
+  'parse.unknown-document': 'Documento no reconocido: se esperaba NF-e (infNFe), CT-e (infCte) o MDF-e (infMDFe).',
+  'parse.model-mismatch': 'El modelo "{model}" no corresponde al layout (se esperaba {expected}).',
+  'parse.issuer-without-id': 'Emisor sin CNPJ/CPF.',
+  'parse.number-missing': 'Número del documento no informado.',
+  'parse.series-missing': 'Serie no informada.',
+  'parse.issue-date-missing': 'Fecha de emisión no informada.',
+  'parse.access-key-missing': 'Atributo Id sin clave de acceso de 44 dígitos ("{id}").',
+  'parse.access-key-check-digit': 'La clave de acceso {key} tiene un dígito verificador no válido.',
+  'parse.access-key-protocol-mismatch': 'La clave de acceso del Id ({id}) difiere de la clave del protocolo de autorización ({protocol}).',
+  'parse.access-key-uf-mismatch': 'El estado de la clave de acceso ({key}) difiere de cUF ({document}).',
+  'parse.access-key-period-mismatch': 'El mes de emisión de la clave de acceso ({key}) difiere de la fecha de emisión ({document}).',
+  'parse.access-key-issuer-mismatch': 'El CNPJ/CPF de la clave de acceso ({key}) difiere del emisor ({document}).',
+  'parse.access-key-model-mismatch': 'El modelo de la clave de acceso ({key}) difiere de mod ({document}).',
+  'parse.access-key-series-mismatch': 'La serie de la clave de acceso ({key}) difiere de la serie del documento ({document}).',
+  'parse.access-key-number-mismatch': 'El número de la clave de acceso ({key}) difiere del número del documento ({document}).',
+  'parse.invalid-cargo-weight': 'Peso de la carga no válido ({weight} kg).',
+  'parse.invalid-plate': 'La placa {plate} no sigue el formato antiguo (ABC-1234) ni el Mercosur (ABC1D23).',
+  'parse.nfe-gross-weight-only': 'Falta el peso neto en los volúmenes; solo se informó el peso bruto (pesoB).',
+  'parse.nfe-no-volume-weight': 'Ningún volumen con peso (pesoL) en el grupo de transporte.',
+  'parse.cte-without-cargo': 'CT-e sin grupo infCTeNorm (complementario o de anulación): no hay carga para pesar.',
+  'parse.cte-real-weight-missing': 'No se encontró la medida "PESO REAL"; se usó {source}.',
+  'parse.cte-no-weight-unit': 'Ninguna cantidad en KG (01) o TON (02); unidades presentes: {units}.',
+  'parse.cte-no-quantities': 'Ningún grupo infQ informado en la carga.',
+  'parse.mdfe-tractor-missing': 'Vehículo tractor no informado.',
+  'parse.mdfe-total-weight-missing': 'Peso total de la carga (qCarga) no informado.',
+  'parse.mdfe-invalid-unit': 'Unidad de peso no válida: "{unit}" (se esperaba 01-KG o 02-TON).',
+
+  'audit.event.created': 'Creación',
+  'audit.event.printed': 'Impresión',
+  'audit.event.reprinted': 'Reimpresión',
+  'audit.event.edited': 'Modificación',
+  'audit.event.cancelled': 'Anulación',
+  'audit.event.approved': 'Aprobación',
+  'audit.verifying': 'Verificando la cadena de auditoría...',
+  'audit.chainValid': 'Cadena íntegra',
+  'audit.chainBroken': 'Cadena comprometida',
+  'audit.verifiedCount': '{count} registros verificados el {date}',
+  'audit.headHash': 'Hash actual: {hash}',
+  'audit.verify': 'Verificar',
+  'audit.problem': 'Registro #{sequence}: {issue}',
+  'audit.problem.sequence-gap': 'Secuencia esperada {expected}: registro eliminado o fuera de orden.',
+  'audit.problem.chain-broken': 'Encadenamiento roto: el hash anterior no coincide.',
+  'audit.problem.content-altered': 'Contenido alterado: el hash del registro no coincide.',
+  'audit.problem.tail-removed': 'Registros finales eliminados: el último registro no corresponde al encabezado.',
+  'audit.problem.head-missing': 'Falta el encabezado del registro.',
+  'audit.events': 'Registro de Eventos',
+  'audit.noEvents': 'No hay eventos registrados.',
+  'audit.dateTime': 'Fecha/Hora',
+  'audit.event': 'Evento',
+  'audit.ticket': 'Ticket',
+  'audit.description': 'Descripción',
+  'audit.hash': 'Hash',
+
+  'verify.title': 'Verificar Ticket',
+  'verify.payloadPlaceholder': 'Pegue aquí el contenido del código QR (STP1....)',
+  'verify.cameraUnsupported': 'Este navegador no admite la lectura con cámara. Pegue el contenido del código QR.',
+  'verify.cameraUnavailable': 'No se pudo acceder a la cámara.',
+  'verify.stopCamera': 'Detener Cámara',
+  'verify.scanCamera': 'Leer con Cámara',
+  'verify.verify': 'Verificar',
+  'verify.status.valid': 'Ticket Auténtico',
+  'verify.status.tampered': 'Ticket Adulterado',
+  'verify.status.cancelled': 'Ticket Anulado',
+  'verify.status.unknown-key': 'Emisor Desconocido',
+  'verify.status.malformed': 'Contenido No Válido',
+  'verify.result.not-a-ticket': 'El contenido no es un código QR de ticket ScaleTicket.',
+  'verify.result.undecodable': 'No se pudieron decodificar los datos del ticket.',
+  'verify.result.untrusted-key': 'La clave {key} no es de confianza en esta estación. Importe la clave pública de la báscula emisora.',
+  'verify.result.bad-signature': 'Firma no válida: los datos del ticket fueron alterados o falsificados.',
+  'verify.result.local-mismatch': 'Firma válida, pero el registro local del ticket difiere del código QR.',
+  'verify.result.cancelled': 'Ticket auténtico, pero ANULADO: {reason}.',
+  'verify.result.cancelled-replaced': 'Ticket auténtico, pero ANULADO: {reason} (reemplazado por el ticket {id}).',
+  'verify.result.valid-local': 'Ticket auténtico y coincide con el registro local.',
+  'verify.result.valid-remote': 'Firma auténtica (ticket no encontrado en esta estación).',
+  'verify.result.verification-failed': 'No fue posible verificar el ticket en esta estación. Intente de nuevo.',
+  'verify.ticket': 'Ticket',
+  'verify.document': 'Factura/CT-e',
+  'verify.plate': 'Placa',
+  'verify.grossTare': 'Bruto / Tara',
+  'verify.net': 'Neto',
+  'verify.issued': 'Emisión',
+  'verify.issuer': 'Emisor',
+  'verify.thisScale': 'Esta báscula',
+  'verify.signingKeys': 'Claves de Firma',
+  'verify.publicKeyHint': 'Clave pública de esta báscula (compártala con quien recibe los tickets)',
+  'verify.copy': 'Copiar',
+  'verify.importHint': 'Importar la clave de otra báscula',
+  'verify.keyLabelPlaceholder': 'Nombre de la báscula emisora',
+  'verify.defaultKeyLabel': 'Báscula externa',
+  'verify.keyImported': 'Clave {id} importada.',
+  'verify.importFailed': 'No se pudo importar la clave.',
+  'verify.importKey': 'Importar Clave',
+
+  'scale.title': 'Báscula',
+  'scale.status.disconnected': 'Desconectado',
+  'scale.status.connecting': 'Conectando...',
+  'scale.status.connected': 'Conectado',
+  'scale.status.error': 'Error de conexión',
+  'scale.bridgeUnavailable': 'Puente de la báscula no disponible. Reconectando...',
+  'scale.netModeRejected': 'El indicador está en modo neto (tara descontada). Vuelva al modo bruto para capturar el peso.',
+  'scale.notCapturable': 'Espere un peso bruto estable para capturar.',
+  'scale.simulatorWarning': 'Simulador activo: los pesos no vienen de la báscula y los tickets salen marcados como simulados.',
+  'scale.configure': 'Configurar báscula',
+  'scale.source': 'Origen',
+  'scale.sourceSimulator': 'Simulador (grabaciones)',
+  'scale.sourceBridge': 'Puente local (serie/TCP)',
+  'scale.recording': 'Grabación',
+  'scale.simulatorLabel': 'Simulador ({name})',
+  'scale.bridgeUrl': 'Dirección del puente',
+  'scale.protocol': 'Protocolo del indicador',
+  'scale.protocolToledo': 'Toledo P03 (continuo)',
+  'scale.stabilityTolerance': 'Tolerancia de estabilidad (kg)',
+  'scale.stabilityWindow': 'Ventana de estabilidad (ms)',
+  'scale.stable': 'ESTABLE',
+  'scale.motion': 'EN MOVIMIENTO',
+  'scale.waiting': 'ESPERANDO',
+  'scale.overload': 'SOBRECARGA',
+  'scale.captured': 'Peso capturado:',
+  'scale.nothingCaptured': 'Ningún peso capturado',
+  'scale.capture': 'Capturar Peso',
+  'yard.title': 'Vehículos en el Patio',
+  'yard.empty': 'Ningún vehículo esperando el pesaje de salida.',
+  'yard.overweight': 'Exceso de peso',
+  'yard.details': '{id} · Factura {invoice} · Entrada {weight}',
+  'yard.elapsedHours': '{hours} h {minutes} min',
+  'yard.elapsedMinutes': '{minutes} min',
+  'yard.inYard': '{time} ({elapsed} en el patio)',
+  'yard.selected': 'Seleccionado',
+  'yard.weighExit': 'Pesar Salida',
+
+  'status.Draft': 'Borrador',
+  'status.AwaitingExit': 'En el patio',
+  'status.Printed': 'Emitido',
+  'status.Over-Capacity': 'Exceso de peso',
+  'status.Cancelled': 'Anulado',
+  'history.title': 'Historial de Tickets',
+  'history.refresh': 'Actualizar',
+  'history.searchPlaceholder': 'Número de ticket, factura o placa',
+  'history.from': 'Desde',
+  'history.to': 'Hasta',
+  'history.site': 'Puesto',
+  'history.allSites': 'Todos',
+  'history.status': 'Estado',
+  'history.found': '{count} ticket(s) encontrado(s)',
+  'history.noMatch': 'Ningún ticket coincide con los filtros.',
+  'history.column.id': 'Ticket',
+  'history.column.date': 'Fecha',
+  'history.column.plate': 'Placa',
+  'history.column.invoice': 'Factura',
+  'history.column.net': 'Neto',
+  'history.reprints': '{count}× duplicado',
+  'history.open': 'Abrir',
+  'history.page': 'Página {page} de {count}',
+  'history.ticket': 'Ticket {id}',
+  'history.cancelTicket': 'Anular Ticket',
+  'history.correct': 'Corregir',
+  'history.close': 'Cerrar',
+  'history.reprintOnlyIssued': 'Solo se pueden reimprimir tickets emitidos o anulados',
+  'history.reprint': 'Imprimir Duplicado',
+
+  'export.format.csv': 'CSV (Excel pt-BR)',
+  'export.format.xlsx': 'Hoja de cálculo XLSX',
+  'export.format.json': 'JSON',
+  'export.format.erp': 'Archivo ERP (posiciones fijas)',
+  'export.column.id': 'Ticket',
+  'export.column.issueDate': 'Emisión',
+  'export.column.status': 'Estado',
+  'export.column.plate': 'Placa',
+  'export.column.invoiceId': 'Factura',
+  'export.column.invoiceNetWeight': 'Peso de la factura (kg)',
+  'export.column.entryDate': 'Entrada',
+  'export.column.exitDate': 'Salida',
+  'export.column.grossWeight': 'Peso bruto (kg)',
+  'export.column.tareWeight': 'Tara (kg)',
+  'export.column.netWeight': 'Peso neto (kg)',
+  'export.column.difference': 'Diferencia con la factura (kg)',
+  'export.column.siteId': 'Puesto',
+  'export.column.siteName': 'Razón social',
+  'export.column.siteCnpj': 'CNPJ',
+  'export.column.issuedBy': 'Operador',
+  'export.column.correctsTicketId': 'Reemplaza',
+  'export.column.cancellationReason': 'Motivo de la anulación',
+  'export.column.overrideSupervisor': 'Liberado por',
+  'export.column.reprintCount': 'Reimpresiones',
+  'export.title': 'Exportar para contabilidad:',
+  'export.columns': 'Columnas ({count})',
+  'export.export': 'Exportar {count} ticket(s)',
+  'export.fileLanguageNote': 'Los archivos usan encabezados en portugués, como espera la importación contable.',
+  'export.erpLayout': 'Formato fijo de 180 posiciones por línea (encabezado, un registro por ticket y totalizador).',
+
+  'shift.morning': 'Mañana (06h–14h)',
+  'shift.afternoon': 'Tarde (14h–22h)',
+  'shift.night': 'Noche (22h–06h)',
+  'report.noCarrier': 'Sin transportista',
+  'report.noProduct': 'No informado',
+  'dashboard.title': 'Panel de Operaciones',
+  'dashboard.from': 'Desde',
+  'dashboard.to': 'Hasta',
+  'dashboard.refresh': 'Actualizar',
+  'dashboard.issuedNetWeight': 'Peso neto emitido',
+  'dashboard.overCapacityValue': '{count} ({blocked} bloq.)',
+  'dashboard.activeDays': 'Días con movimiento',
+  'dashboard.byDayAndShift': 'Tickets por día y turno',
+  'dashboard.noTickets': 'Ningún ticket en el período.',
+  'dashboard.openClosing': 'Abrir el cierre de este día',
+  'dashboard.shiftTotals': '{shift}: {count} ticket(s), {weight}',
+  'dashboard.byVehicle': 'Por vehículo',
+  'dashboard.byCarrier': 'Por transportista',
+  'dashboard.byProduct': 'Por producto',
+  'dashboard.noIssuedTickets': 'Sin tickets emitidos.',
+  'dashboard.andMore': 'y {count} más',
+  'closing.title': 'Cierre del día',
+  'closing.scaleSerial': 'Báscula nº {serial}',
+  'closing.tickets': 'Tickets',
+  'closing.issued': 'Emitidos',
+  'closing.open': 'En el patio',
+  'closing.cancelled': 'Cancelados',
+  'closing.overCapacity': 'Exceso de peso',
+  'closing.blocked': '{count} bloqueado(s)',
+  'closing.netWeight': 'Peso neto',
+  'closing.averageDifference': 'Diferencia media de la factura',
+  'closing.shift': 'Turno',
+  'closing.product': 'Producto',
+  'closing.carrier': 'Transportista',
+  'closing.ticket': 'Ticket',
+  'closing.time': 'Hora',
+  'closing.plate': 'Placa',
+  'closing.invoice': 'Factura',
+  'closing.status': 'Situación',
+  'closing.netKg': 'Neto (kg)',
+  'closing.notes': 'Observaciones',
+  'closing.operator': 'Operador',
+  'closing.operatorSignature': 'Operador de la báscula',
+  'closing.supervisor': 'Supervisor',
+  'closing.supervisorSignature': 'Supervisor · revisa y firma',
+  'closing.generatedAt': 'Generado el {time}',
+  'closing.date': 'Fecha',
+  'closing.close': 'Cerrar',
+  'closing.print': 'Imprimir para firma',
+
+  'axle.2C': 'Camión simple (2 ejes)',
+  'axle.3C': 'Camión tándem (3 ejes)',
+  'axle.4C': 'Camión doble dirección (4 ejes)',
+  'axle.2S1': 'Tractor 4x2 + semirremolque 1 eje',
+  'axle.2S2': 'Tractor 4x2 + semirremolque 2 ejes',
+  'axle.2S3': 'Tractor 4x2 + semirremolque 3 ejes',
+  'axle.3S2': 'Tractor 6x2 + semirremolque 2 ejes',
+  'axle.3S3': 'Tractor 6x4 + semirremolque 3 ejes',
+  'axle.3T4': 'Bitren (7 ejes)',
+  'axle.3T6': 'Rodotren (9 ejes)',
+  'numbering.invalidSiteCode': 'El código del puesto debe tener de 2 a 6 letras o números.',
+  'numbering.invalidSeries': 'La serie debe tener hasta 3 letras o números.',
+  'classification.title': 'Clasificación de Vehículos',
+  'classification.intro': 'Se usan cuando ninguna placa del documento está en la flota. Las reglas se evalúan de la menor a la mayor prioridad; la primera que se cumple elige el vehículo. Los campos vacíos aceptan cualquier documento.',
+  'classification.priority': 'Prioridad',
+  'classification.name': 'Nombre',
+  'classification.enabled': 'Activa',
+  'classification.remove': 'Eliminar',
+  'classification.minWeight': 'Peso mayor que (kg)',
+  'classification.maxWeight': 'Peso hasta (kg)',
+  'classification.shipperCnpj': 'CNPJ del remitente',
+  'classification.productContains': 'Producto contiene',
+  'classification.documentPlate': 'Placa en el documento',
+  'classification.target': 'Destino',
+  'classification.targetClass': 'Clase de vehículo',
+  'classification.targetVehicle': 'Vehículo específico',
+  'classification.axleConfiguration': 'Configuración de ejes',
+  'classification.vehicle': 'Vehículo',
+  'classification.inactive': '(inactivo)',
+  'classification.noRules': 'Ninguna regla: el vehículo se elegirá siempre manualmente.',
+  'classification.simulate': 'Simular documento',
+  'classification.sampleWeight': 'Peso de la carga (kg)',
+  'classification.sampleProduct': 'Producto',
+  'classification.pickedTruck': '{plate} · Tara {tare}',
+  'classification.noRuleApplies': 'Ninguna regla se aplica: el operador elige el vehículo.',
+  'classification.add': 'Nueva regla',
+  'classification.newRuleName': 'Nueva regla',
+  'classification.save': 'Guardar',
+  'classification.saved': 'Reglas guardadas. Se aplican a los próximos documentos importados.',
+  'classification.outcome.fired': 'Aplicada',
+  'classification.outcome.noMatch': 'No cumple',
+  'classification.outcome.unavailable': 'Sin vehículo',
+  'classification.outcome.notReached': 'No evaluada',
+  'classification.outcome.disabled': 'Desactivada',
+  'classification.error.name': 'Regla {rule}: informe el nombre.',
+  'classification.error.weightRange': '{rule}: el peso mínimo debe ser menor que el máximo.',
+  'classification.error.cnpj': '{rule}: el CNPJ del remitente debe tener 14 dígitos.',
+  'classification.error.plate': '{rule}: placa fuera del formato antiguo (ABC-1234) o Mercosur (ABC1D23).',
+  'classification.error.target': '{rule}: elija el vehículo de destino.',
+  'classification.target.vehicle': 'Vehículo {plate}',
+  'classification.target.unregistered': 'Vehículo {truckId} (no registrado)',
+  'classification.failure.noWeight': 'Documento sin peso de la carga',
+  'classification.failure.belowMin': 'Peso {weight} kg no es mayor que {limit} kg',
+  'classification.failure.aboveMax': 'Peso {weight} kg por encima de {limit} kg',
+  'classification.failure.shipper': 'Remitente diferente',
+  'classification.failure.product': 'Producto diferente',
+  'classification.failure.plate': 'Placa {plate} ausente en el documento',
+  'classification.failure.noVehicleOfClass': 'Ningún vehículo activo de la clase {configuration}',
+  'classification.failure.vehicleInactive': 'Vehículo {vehicle} inactivo o no registrado',
+
+  'sync.state.disabled': 'Sincronización desactivada',
+  'sync.state.idle': 'Sincronizado',
+  'sync.state.syncing': 'Sincronizando…',
+  'sync.state.offline': 'Sin conexión con el servidor',
+  'sync.state.error': 'Error de sincronización',
+  'sync.entity.ticket': 'Ticket',
+  'sync.entity.truck': 'Vehículo',
+  'sync.entity.tare': 'Tara',
+  'sync.saved': 'Sincronización guardada. Recargue la página para aplicarla.',
+  'sync.queued': '{count} registro(s) en la cola de envío.',
+  'sync.queueFailed': 'Error al encolar: {error}',
+  'sync.title': 'Sincronización con el Servidor Central',
+  'sync.restBackendNote': 'El almacenamiento está configurado como Servidor REST: los datos ya se graban directamente en el servidor.',
+  'sync.enabled': 'Trabajar sin conexión y sincronizar con el servidor central',
+  'sync.serverUrl': 'Dirección del servidor',
+  'sync.interval': 'Intervalo (segundos)',
+  'sync.stationId': 'Identificación de la estación',
+  'sync.token': 'Token de acceso (el mismo del servidor)',
+  'sync.counts': '{pending} pendiente(s) · {failed} con error',
+  'sync.lastSync': 'última el {time}',
+  'sync.syncNow': 'Sincronizar ahora',
+  'sync.retry': 'Reintentar',
+  'sync.record': 'Registro',
+  'sync.changedAt': 'Modificado el',
+  'sync.status': 'Situación',
+  'sync.entryFailed': 'Falló',
+  'sync.entryPending': 'Pendiente',
+  'sync.attempts': '({count} intento(s))',
+  'sync.discard': 'Descartar el envío (el registro local se mantiene)',
+  'sync.queueAllHint': 'Envía al servidor todos los tickets, vehículos y taras de esta estación',
+  'sync.queueAll': 'Enviar todos los registros',
+  'sync.save': 'Guardar',
+  'settings.enforcement.warn': 'Solo señalar en el ticket',
+  'settings.enforcement.override': 'Bloquear la impresión hasta la liberación del supervisor',
+  'settings.enforcement.block': 'Bloquear la impresión (sin liberación)',
+  'settings.tareExpiry.warn': 'Solo avisar',
+  'settings.tareExpiry.block': 'Exigir un nuevo pesaje de salida',
+  'settings.weightLimitsSaved': 'Límites de peso guardados.',
+  'settings.numberingSaved': 'Numeración guardada.',
+  'settings.tareSaved': 'Validez de la tara guardada.',
+  'settings.title': 'Configuración',
+  'settings.approvalRequired': 'Los cambios de configuración necesitan la aprobación de un supervisor.',
+  'settings.unlock': 'Habilitar edición',
+  'settings.unlockedBy': 'Edición habilitada por {supervisor} a las {time}.',
+  'settings.numbering': 'Numeración de Tickets',
+  'settings.siteCode': 'Código del puesto',
+  'settings.series': 'Serie (opcional)',
+  'settings.nextNumber': 'Próximo número',
+  'settings.weightLimits': 'Límites de Peso',
+  'settings.grossTolerance': 'Tolerancia PBT (%)',
+  'settings.axleTolerance': 'Tolerancia por eje (%)',
+  'settings.capacityTolerance': 'Tolerancia de capacidad (%)',
+  'settings.enforcement': 'Acción en caso de exceso',
+  'settings.configuration': 'Configuración',
+  'settings.legalGross': 'PBT legal',
+  'settings.withTolerance': 'Con tolerancia',
+  'settings.tareValidity': 'Validez de la Tara',
+  'settings.tareValidityDays': 'Validez de la tara medida (días)',
+  'settings.tareExpired': 'Tara vencida',
+  'settings.save': 'Guardar',
+
+  'fleet.error.plate': 'Informe la placa del tractor/camión.',
+  'fleet.error.trailerPlate': 'Placa de remolque {plate} fuera del formato antiguo (ABC-1234) o Mercosur (ABC1D23).',
+  'fleet.error.tare': 'Informe la tara del vehículo.',
+  'fleet.error.capacity': 'La capacidad debe ser mayor que la tara.',
+  'fleet.error.cnpj': 'El CNPJ del transportista debe tener 14 dígitos.',
+  'fleet.error.rntrc': 'El RNTRC debe tener 8 o 9 dígitos.',
+  'fleet.error.driverName': 'Conductor {driver}: informe el nombre.',
+  'fleet.error.driverCpf': 'Conductor {driver}: CPF inválido.',
+  'fleet.error.driverCnh': 'Conductor {driver}: la CNH debe tener 11 dígitos.',
+  'fleet.editTitle': 'Editar {plate}',
+  'fleet.newVehicle': 'Nuevo Vehículo',
+  'fleet.plate': 'Placa del tractor / camión',
+  'fleet.genericPlateHint': 'Fuera del formato antiguo (ABC-1234) o Mercosur (ABC1D23); úselo solo para vehículos genéricos, que no guardan historial de tara.',
+  'fleet.trailerPlates': 'Placas de los remolques (separadas por coma)',
+  'fleet.axleConfiguration': 'Configuración de ejes',
+  'fleet.axleConfigurationUnknown': 'No informada',
+  'fleet.tare': 'Tara (kg)',
+  'fleet.tareReadOnlyHint': 'Registre nuevas taras en el historial de tara',
+  'fleet.capacity': 'Capacidad PBT (kg)',
+  'fleet.carrier': 'Transportista',
+  'fleet.drivers': 'Conductores vinculados',
+  'fleet.addDriver': 'Agregar conductor',
+  'fleet.driverName': 'Nombre',
+  'fleet.cancel': 'Cancelar',
+  'fleet.save': 'Guardar',
+  'fleet.title': 'Flota Registrada',
+  'fleet.search': 'Buscar por placa, transportista, RNTRC o conductor',
+  'fleet.showInactive': 'Mostrar inactivos',
+  'fleet.noVehicles': 'Ningún vehículo encontrado.',
+  'fleet.inactive': 'Inactivo',
+  'fleet.summary': 'Tara {tare} · Capacidad {capacity}',
+  'fleet.driverList': 'Conductores: {names}',
+  'fleet.tareHistory': 'Historial de tara',
+  'fleet.edit': 'Editar',
+  'fleet.deactivate': 'Desactivar',
+  'fleet.reactivate': 'Reactivar',
+
+  'role.operator': 'Operador',
+  'role.supervisor': 'Supervisor',
+  'role.admin': 'Administrador',
+  'approval.action.weight-override': 'Liberación de exceso de peso',
+  'approval.action.ticket-cancel': 'Cancelación de ticket',
+  'approval.action.ticket-correct': 'Corrección de ticket',
+  'approval.action.tare-edit': 'Registro de tara',
+  'approval.action.settings-change': 'Cambio de configuración',
+  'approval.action.duplicate-document': 'Nuevo ticket para un documento ya pesado',
+  'approval.noApprovers': 'Ningún supervisor con PIN registrado: {action} no disponible.',
+  'approval.title': '{action}: aprobación del supervisor',
+  'approval.checking': 'Verificando…',
+  'users.error.login': 'El login debe tener de 3 a 32 letras minúsculas, números, punto, guion o guion bajo.',
+  'users.error.loginTaken': 'El login {userId} ya existe.',
+  'users.error.name': 'Informe el nombre.',
+  'users.error.password': 'La contraseña debe tener al menos 8 caracteres.',
+  'users.error.pin': 'El PIN debe tener de 4 a 8 dígitos.',
+  'users.error.pinRequired': 'Supervisores y administradores necesitan un PIN de liberación.',
+  'users.error.lastAdmin': 'Debe mantenerse al menos un administrador activo.',
+  'users.saved': 'Usuario {userId} guardado.',
+  'users.deactivated': 'Usuario {userId} desactivado.',
+  'users.reactivated': 'Usuario {userId} reactivado.',
+  'users.title': 'Usuarios',
+  'users.name': 'Nombre',
+  'users.login': 'Login',
+  'users.role': 'Perfil',
+  'users.inactive': '(inactivo)',
+  'users.edit': 'Editar',
+  'users.deactivate': 'Desactivar',
+  'users.reactivate': 'Reactivar',
+  'users.editTitle': 'Editar {userId}',
+  'users.new': 'Nuevo usuario',
+  'users.printedName': 'Nombre (impreso en los tickets)',
+  'users.newPassword': 'Nueva contraseña (vacío mantiene la actual)',
+  'users.password': 'Contraseña',
+  'users.newPin': 'Nuevo PIN (vacío mantiene el actual)',
+  'users.pin': 'PIN de liberación',
+  'users.saving': 'Guardando…',
+  'users.save': 'Guardar usuario',
+  'users.lockAfter': 'Bloquear tras inactividad (min, 0 = nunca)',
+  'users.lockSaved': 'Tiempo de bloqueo guardado.',
+  'login.passwordMismatch': 'Las contraseñas no coinciden.',
+  'login.locked': 'Sesión bloqueada por inactividad',
+  'login.setup': 'Primer acceso: cree el administrador',
+  'login.prompt': 'Ingrese con su usuario',
+  'login.user': 'Usuario',
+  'login.login': 'Login',
+  'login.fullName': 'Nombre completo',
+  'login.password': 'Contraseña',
+  'login.repeatPassword': 'Repita la contraseña',
+  'login.pin': 'PIN de liberación (4 a 8 dígitos)',
+  'login.unlock': 'Desbloquear',
+  'login.createAdmin': 'Crear administrador e ingresar',
+  'login.submit': 'Ingresar',
+  'login.switchUser': 'Ingresar con otro usuario',
+
+  'sites.error.legalName': 'Informe la razón social.',
+  'sites.error.cnpj': 'CNPJ inválido.',
+  'sites.error.state': 'La UF debe tener 2 letras.',
+  'sites.error.duplicate': 'El código {siteId} ya lo usa otro puesto.',
+  'sites.field.siteId': 'Código del puesto',
+  'sites.field.cnpj': 'CNPJ',
+  'sites.field.legalName': 'Razón social',
+  'sites.field.tradeName': 'Nombre en el encabezado del ticket',
+  'sites.field.address': 'Dirección',
+  'sites.field.city': 'Ciudad',
+  'sites.field.state': 'UF',
+  'sites.field.scaleSerial': 'Nº de serie de la báscula',
+  'sites.field.inmetroSeal': 'Precinto INMETRO',
+  'sites.new': 'Nuevo puesto',
+  'sites.saved': 'Puestos guardados. Los nuevos tickets usarán estos datos.',
+  'sites.activated': 'Esta estación ahora emite tickets por {site}.',
+  'sites.title': 'Puestos de Pesaje',
+  'sites.defaultLayout': 'Diseño de impresión predeterminado',
+  'sites.ticketLocale': 'Idioma del ticket impreso',
+  'sites.footerText': 'Texto del pie',
+  'sites.logo': 'Logotipo',
+  'sites.removeLogo': 'Eliminar',
+  'sites.remove': 'Eliminar puesto',
+  'sites.activate': 'Usar en esta estación',
+  'sites.save': 'Guardar',
+  'storage.backend.indexeddb': 'Base local del navegador (IndexedDB)',
+  'storage.backend.rest': 'Servidor REST',
+  'storage.backend.local': 'localStorage (heredado)',
+  'storage.testOk': 'Conexión OK: {count} vehículo(s) en el destino.',
+  'storage.testFailed': 'Error de conexión: {error}',
+  'storage.saved': 'Almacenamiento guardado. Recargue la página para aplicarlo.',
+  'storage.title': 'Almacenamiento',
+  'storage.backend': 'Dónde guardar tickets, flota y taras',
+  'storage.restUrl': 'Dirección del servidor',
+  'storage.restToken': 'Token de acceso',
+  'storage.migrated': 'Migrado a {target} el {time}: {tickets} ticket(s), {trucks} vehículo(s), {tares} tara(s), {settings} configuración(es)',
+  'storage.test': 'Probar',
+  'storage.save': 'Guardar',
+
+  'printer.connection.browser': 'Impresión del navegador',
+  'printer.connection.webusb': 'ESC/POS por USB (WebUSB)',
+  'printer.connection.serial': 'ESC/POS por puerto serie (Web Serial)',
+  'printer.connection.bridge': 'ESC/POS por el puente de impresión local',
+  'printer.connection.dump': 'ESC/POS solo mostrar bytes (sin impresora)',
+  'printer.authorized': 'Autorizado: {device}',
+  'printer.authorizeFailed': 'Error al autorizar: {error}',
+  'printer.testSent': 'Página de prueba enviada.',
+  'printer.printFailed': 'Error de impresión: {error}',
+  'printer.saved': 'Impresora guardada.',
+  'printer.title': 'Impresora',
+  'printer.connection': 'Salida del ticket de 80 mm',
+  'printer.bridgeUrl': 'Dirección del puente de impresión',
+  'printer.baudRate': 'Velocidad (bps)',
+  'printer.columns': 'Columnas por línea',
+  'printer.unsupported': 'Este navegador no ofrece esta conexión; use Chrome o Edge, o el puente de impresión.',
+  'printer.pageLayoutsNote': 'Los diseños A5 y A4 siguen usando la impresión del navegador.',
+  'printer.authorize': 'Autorizar dispositivo',
+  'printer.test': 'Imprimir prueba',
+  'printer.save': 'Guardar',
+  'printer.dumpTitle': 'Bytes ESC/POS ({count} bytes)',
+  'printer.downloadBin': 'Descargar .bin',
+
+  'plates.role.tractor': 'Tractor/camión',
+  'plates.role.trailer': 'Remolque',
+  'plates.sourceObservation': 'XML, observaciones',
+  'plates.inFleet': 'Flota: {vehicle}',
+  'plates.notInFleet': 'No registrada en la flota',
+  'plates.mismatchTitle': 'Placas divergentes.',
+  'plates.mismatch': 'La(s) placa(s) del documento {plates} no pertenece(n) al vehículo {vehicle}. Verifique el vehículo antes de registrar el pesaje.',
+  'tare.source.exit-weighing': 'Pesaje de salida',
+  'tare.source.manual': 'Registro manual',
+  'tare.none': 'Sin tara medida',
+  'tare.expired': 'Tara vencida el {date}',
+  'tare.validUntil': 'Tara válida hasta {date}',
+  'tare.history': 'Historial de tara',
+  'tare.driftSince': 'Variación desde {date}:',
+  'tare.driftRange': 'rango {min}–{max} kg',
+  'tare.driftTrend': 'tendencia {trend} kg/mes',
+  'tare.empty': 'Ninguna tara registrada. El próximo pesaje de salida se registrará aquí.',
+  'tare.date': 'Fecha',
+  'tare.source': 'Origen',
+  'tare.weight': 'Tara',
+  'tare.manualWeight': 'Tara medida (kg)',
+  'tare.manualReason': 'Motivo del registro manual (obligatorio)',
+  'tare.record': 'Registrar tara',
+
+  'document.title': 'Documento',
+  'document.series': 'Serie {series}',
+  'document.number': 'N.º {number}',
+  'document.accessKey': 'Clave de acceso',
+  'document.issuer': 'Emisor',
+  'document.sender': 'Remitente',
+  'document.recipient': 'Destinatario',
+  'document.product': 'Producto predominante',
+  'document.quantities': 'Cantidades (infQ)',
+  'document.volumes': 'Volúmenes transportados',
+  'document.volumeWeights': 'N {net} / B {gross} kg',
+  'document.vehicles': 'Vehículos en el documento',
+  'document.trailerPlate': '{plate} (remolque)',
+  'document.weightSource': 'Origen del peso',
+  'layout.title': 'Formato de impresión',
+  'layout.thermal-80': 'Rollo térmico 80 mm',
+  'layout.a5': 'A5 (148 × 210 mm)',
+  'layout.a4-two-copies': 'A4 horizontal, dos copias',
+  'ticket.qrAlt': 'Código QR de verificación',
+  'picker.search': 'Buscar vehículo por placa, transportista o conductor',
+  'picker.empty': 'Ningún vehículo activo encontrado.',
+  'picker.tare': 'Tara {tare}',
+  'batch.failed': 'Error en la exportación: {error}',
+  'batch.archivalHint': 'Incluye metadatos XMP e identificador permanente del documento',
+  'batch.archival': 'Archivo (PDF/A)',
+  'batch.generating': 'Generando...',
+  'batch.singlePdf': 'PDF único ({count})',
+  'ticketActions.cancelled': 'Ticket {ticket} anulado.',
+  'ticketActions.corrected': 'Ticket {ticket} anulado y sustituido por {replacement}.',
+  'ticketActions.correctTitle': 'Corregir ticket (genera un nuevo ticket y anula el original)',
+  'ticketActions.cancelTitle': 'Anular ticket',
+  'ticketActions.invoice': 'Factura / CT-e',
+  'ticketActions.invoiceWeight': 'Peso de la factura (kg)',
+  'ticketActions.plate': 'Placa',
+  'ticketActions.vehicle': 'Vehículo',
+  'ticketActions.inactive': '(inactivo)',
+  'ticketActions.correctReason': 'Motivo de la corrección (obligatorio)',
+  'ticketActions.cancelReason': 'Motivo de la anulación (obligatorio)',
+  'ticketActions.confirmCorrect': 'Guardar corrección',
+  'ticketActions.confirmCancel': 'Confirmar anulación',
+  'ticketActions.back': 'Volver',
+
+  'axleGroup.steer': 'direccional simple',
+  'axleGroup.double-steer': 'direccional doble',
+  'axleGroup.single': 'eje simple de rueda doble',
+  'axleGroup.tandem': 'tándem doble',
+  'axleGroup.tridem': 'tándem triple',
+  'violation.capacity': 'Capacidad del vehículo {plate}',
+  'violation.legal-gross': 'PBT legal {configuration}',
+  'violation.legal-axle': 'Conjunto {index} ({group})',
+  'validation.withinLimits': 'Peso dentro de los límites',
+  'validation.withinLegalLimit': 'Peso dentro de los límites (PBT legal {configuration}: {limit})',
+  'validation.overweight': 'Exceso de peso',
+  'validation.violation': '{description}: límite {limit} (tolerancia hasta {allowed})',
+  'validation.releasedBy': 'Liberado por {name} el {date}:',
+  'validation.overrideReason': 'Motivo de la liberación (obligatorio)',
+  'validation.release': 'Liberar ticket',
+  'selection.tractor-plate': 'Placa {plate} (tractor/camión) encontrada en el documento',
+  'selection.trailer-plate': 'Placa {plate} (remolque) encontrada en el documento',
+  'selection.rule': 'Regla "{rule}" (prioridad {priority})',
+  'selection.no-rule': 'Ninguna regla de clasificación se aplica al documento: seleccione el vehículo.',
+
+  'ticketActions.releaseNeeded': 'El peso excede los límites del vehículo corregido. La aprobación de la corrección también libera el nuevo ticket.',
+  'ticketActions.duplicateNeeded': 'El documento {document} ya tiene un ticket activo ({tickets}). La aprobación de la corrección también autoriza otro ticket para el documento.',
+
+  'app.auditFailed': 'No se pudo registrar en el log de auditoría; no se imprimió ni exportó nada: {error}',
+  'audit.unwritten': 'Auditoría: {count} pendiente(s)',
+  'audit.unwrittenHint': 'Cambios guardados cuyo registro de auditoría aún no se grabó. Haga clic para reintentar; no repita los cambios.',
+
+  'axleWeights.title': 'Pesos por conjunto de ejes ({configuration}), opcional',
+  'axleWeights.group': '{index} · {group} (límite {limit})',
+
+  'storage.recordConflict': 'El registro {id} fue modificado por otra estación. Recargue e intente de nuevo.',
+
+  'login.invalidCredentials': 'Usuario o contraseña inválidos.',
+  'login.invalidPassword': 'Contraseña inválida.',
+  'approval.invalidPin': 'PIN del supervisor inválido.',
+  'fleet.duplicatePlate': 'La placa {plate} ya está registrada ({id}).',
+  'fleet.notFound': 'Vehículo {id} no encontrado.',
+  'history.ticketNotFound': 'Ticket {id} no encontrado.',
+  'history.notOverCapacity': 'El ticket {id} no está bloqueado por exceso de peso.',
+  'history.alreadyCancelled': 'El ticket {id} ya está cancelado.',
+  'parse.zip-corrupt': 'Archivo ZIP inválido o dañado.',
+  'parse.zip-corrupt-entry': 'Entrada dañada en el ZIP: {name}',
+  'parse.zip-encrypted': 'Archivo protegido con contraseña en el ZIP: {name}',
+  'parse.zip-unsupported-method': 'Método de compresión no soportado ({method}) en el ZIP: {name}',
+  'storage.serverError': 'El servidor respondió {status} en {path}.',
+  'storage.migrationIncomplete': 'Migración incompleta: {count} ticket(s) no encontrados en el destino.',
+  'storage.databaseBlocked': 'Base de datos local bloqueada por otra pestaña con una versión anterior. Cierre las otras pestañas.',
+  'storage.transactionAborted': 'La escritura en la base de datos local fue interrumpida.',
+  'verify.invalidKeyFormat': 'Formato de clave pública inválido.',
+  'verify.keyIdMismatch': 'El identificador de la clave no coincide con el contenido.',
+  'printer.webUsbUnsupported': 'Este navegador no soporta WebUSB.',
+  'printer.webSerialUnsupported': 'Este navegador no soporta Web Serial.',
+  'printer.noUsbPrinter': 'Ninguna impresora USB autorizada. Autorícela en Configuración → Impresora.',
+  'printer.usbNoOutput': 'La impresora USB no tiene salida de datos.',
+  'printer.noSerialPort': 'Ningún puerto serie autorizado. Autorícelo en Configuración → Impresora.',
+  'printer.bridgeError': 'El puente de impresión respondió {status}: {detail}',
+  'printer.noRawOutput': 'Esta conexión no envía comandos ESC/POS.',
+  'sites.imageProcessingFailed': 'No fue posible procesar la imagen.',
+  'sites.invalidImage': 'Archivo de imagen inválido.',
+  'document.unknownUnit': 'Desconocida',
+};
@@ -0,0 +1,750 @@
+// Source catalog: en and es must translate every key. Placeholders in braces are filled by translate().
+export const ptBR = {
+  'nav.weighing': 'Pesagem',
+  'nav.dashboard': 'Painel',
+  'nav.history': 'Histórico',
+  'nav.fleet': 'Frota',
+  'nav.verify': 'Verificar',
+  'nav.audit': 'Auditoria',
+  'nav.settings': 'Configurações',
+
+  'app.newSession': 'Nova Sessão',
+  'app.lock': 'Bloquear',
+  'app.logout': 'Sair',
+  'app.language': 'Idioma',
+  'app.printFailed': 'Falha ao imprimir: {error}',
+  'app.pdfFailed': 'Falha ao gerar o PDF: {error}',
+
+  'import.dropHint': 'Clique ou arraste arquivos XML ou ZIP',
+  'import.formats': 'NF-e (mod. 55), CT-e (mod. 57) ou MDF-e (mod. 58) · vários arquivos por vez',
+  'import.summary': '{total} arquivo(s) · {ready} pronto(s) · {errors} com erro · {processed} processado(s)',
+  'import.clearProcessed': 'Limpar processados',
+  'import.document': 'Nº {number} · {weight}',
+  'import.plates': ' · Placa {plates}',
+  'import.vehicle': 'Veículo: {plate} — ',
+  'import.ticket': 'Ticket {id}',
+  'import.load': 'Carregar',
+  'import.inUse': 'Em uso',
+  'import.remove': 'Remover da fila',
+
+  'weighing.invoiceData': 'Dados da Nota Fiscal',
+  'weighing.documentNumber': 'Número da Nota/CTe',
+  'weighing.cargoNetWeight': 'Peso Líquido (Carga)',
+  'weighing.filenameDate': 'Data Detectada (Nome do Arquivo)',
+  'weighing.vehicleDetected': 'Veículo Detectado',
+  'weighing.vehicleManual': 'Veículo (seleção manual)',
+  'weighing.vehicleTare': '{plate} (Tara: {weight})',
+  'weighing.overridesAutomatic': 'Substitui a seleção automática: {reason}',
+  'weighing.changeVehicle': 'Alterar veículo',
+  'weighing.autoSelected': 'Veículo selecionado automaticamente: {reason}',
+  'weighing.unexpectedReadError': 'Erro inesperado ao ler o arquivo.',
+  'weighing.exitOf': 'Saída de',
+  'weighing.entryGross': 'Peso Bruto (Entrada)',
+  'weighing.exitNet': 'Peso Líquido (Entrada - Saída)',
+  'weighing.registerExit': 'Registrar Saída e Emitir Ticket',
+  'weighing.awaitingExitWeight': 'Aguardando captura do peso de saída (tara) na balança',
+  'weighing.exitNotLighter': 'O peso de saída deve ser menor que o peso de entrada.',
+  'weighing.registerEntry': 'Registrar Entrada',
+  'weighing.awaitingXml': 'Aguardando arquivo XML para seleção automática de veículo',
+  'weighing.awaitingStableWeight': 'Aguardando captura de peso estável na balança',
+  'weighing.storedTare': 'Tara cadastrada',
+  'weighing.tareExpiredBlock': 'Tara vencida: o ticket só pode ser fechado com a pesagem de saída.',
+  'weighing.tareExpiredWarn': 'Tara vencida: recomenda-se registrar a pesagem de saída para renovar a tara.',
+  'weighing.closeWithStoredTare': 'Emitir Ticket com Tara Cadastrada',
+  'weighing.storedTareNet': ' (líquido {weight})',
+  'weighing.entryRegistered': 'Entrada registrada: {plate} aguardando pesagem de saída ({id}).',
+  'weighing.ticketIssuedWithStoredTare': 'Ticket {id} emitido com a tara cadastrada.',
+  'weighing.ticketGenerated': 'Ticket gerado com sucesso.',
+  'weighing.ticketOverweight': 'Ticket registrado com excesso de peso: impressão bloqueada.',
+  'weighing.ticketReleased': 'Ticket {id} liberado por {name}.',
+  'weighing.saveFailed': 'Erro ao salvar o ticket: {error}',
+  'weighing.tareSaveFailed': 'Ticket {id} salvo, mas a tara da saída não entrou no histórico: {error}',
+  'weighing.duplicateDocument': 'Este documento já tem ticket ativo: {tickets}.',
+  'weighing.duplicateApproved': 'Novo ticket autorizado por {name}.',
+  'weighing.duplicateReasonPlaceholder': 'Motivo do novo ticket (ex.: segunda viagem com o mesmo CT-e)',
+  'weighing.duplicateConfirm': 'Autorizar novo ticket',
+
+  'preview.title': 'Ticket Gerado',
+  'preview.blockedTitle': 'Ticket Retido por Excesso de Peso',
+  'preview.printBlocked': 'Impressão bloqueada: descarregue o excesso e realize nova pesagem.',
+  'preview.close': 'Fechar',
+  'preview.print': 'Imprimir',
+  'preview.downloadPdf': 'Baixar PDF',
+
+  'ticket.country': 'Brasil',
+  'ticket.cancelled': 'CANCELADO',
+  'ticket.cancelledBy': '{date} por {name}: {reason}',
+  'ticket.replacedBy': 'Substituído pelo ticket {id}',
+  'ticket.reprint': '2ª VIA (REIMPRESSÃO {count})',
+  'ticket.simulated': 'PESAGEM SIMULADA - SEM VALOR',
+  'ticket.number': 'NÚMERO:',
+  'ticket.pending': 'PENDENTE',
+  'ticket.date': 'DATA:',
+  'ticket.plate': 'PLACA:',
+  'ticket.time': 'HORA:',
+  'ticket.invoiceRef': 'REF. NOTA:',
+  'ticket.replaces': 'SUBSTITUI:',
+  'ticket.operator': 'OPERADOR:',
+  'ticket.grossEntry': '1) Pesagem Bruta Entrada',
+  'ticket.exitTare': '2) Tara Saída (Caminhão)',
+  'ticket.storedTare': '2) Tara Cadastrada (Caminhão)',
+  'ticket.measuredNet': '3) Peso Aferido Mercadoria',
+  'ticket.overweight': 'EXCESSO DE PESO',
+  'ticket.releasedBy': 'Liberado por {name}: {reason}',
+  'ticket.verifyQr': 'Verifique a autenticidade pelo QR Code',
+  'ticket.scaleSerial': 'Balança nº {serial}',
+  'ticket.inmetroSeal': 'Lacre INMETRO {seal}',
+  'ticket.signature': 'Assinatura Autorizada',
+  'ticket.copySite': 'VIA DO POSTO',
+  'ticket.copyDriver': 'VIA DO MOTORISTA',
+
+  'parse.file-unreadable': 'Falha ao ler o arquivo.',
+  'parse.unsupported-file': 'Tipo de arquivo não suportado (use .xml ou .zip).',
+  'parse.zip-no-xml': 'Nenhum arquivo XML encontrado no ZIP.',
+  'parse.zip-unreadable': 'Falha ao abrir o arquivo ZIP: {detail}',
+  'parse.invalid-xml': 'Formato de arquivo XML inválido.',
+  'parse.unknown-document': 'Documento não reconhecido: esperado NF-e (infNFe), CT-e (infCte) ou MDF-e (infMDFe).',
+  'parse.model-mismatch': 'Modelo "{model}" não corresponde ao layout (esperado {expected}).',
+  'parse.issuer-without-id': 'Emitente sem CNPJ/CPF.',
+  'parse.number-missing': 'Número do documento não informado.',
+  'parse.series-missing': 'Série não informada.',
+  'parse.issue-date-missing': 'Data de emissão não informada.',
+  'parse.access-key-missing': 'Atributo Id sem chave de acesso de 44 dígitos ("{id}").',
+  'parse.access-key-check-digit': 'Chave de acesso {key} com dígito verificador inválido.',
+  'parse.access-key-protocol-mismatch': 'Chave de acesso do Id ({id}) difere da chave do protocolo de autorização ({protocol}).',
+  'parse.access-key-uf-mismatch': 'UF da chave de acesso ({key}) difere de cUF ({document}).',
+  'parse.access-key-period-mismatch': 'Mês de emissão da chave de acesso ({key}) difere da data de emissão ({document}).',
+  'parse.access-key-issuer-mismatch': 'CNPJ/CPF da chave de acesso ({key}) difere do emitente ({document}).',
+  'parse.access-key-model-mismatch': 'Modelo da chave de acesso ({key}) difere de mod ({document}).',
+  'parse.access-key-series-mismatch': 'Série da chave de acesso ({key}) difere da série do documento ({document}).',
+  'parse.access-key-number-mismatch': 'Número da chave de acesso ({key}) difere do número do documento ({document}).',
+  'parse.invalid-cargo-weight': 'Peso da carga inválido ({weight} kg).',
+  'parse.invalid-plate': 'Placa {plate} fora do padrão antigo (ABC-1234) ou Mercosul (ABC1D23).',
+  'parse.nfe-gross-weight-only': 'Peso líquido ausente nos volumes; apenas peso bruto (pesoB) informado.',
+  'parse.nfe-no-volume-weight': 'Nenhum volume com peso (pesoL) informado no grupo de transporte.',
+  'parse.cte-without-cargo': 'CT-e sem grupo infCTeNorm (complementar ou de anulação): não há carga para pesar.',
+  'parse.cte-real-weight-missing': 'Medida "PESO REAL" não encontrada; usado {source}.',
+  'parse.cte-no-weight-unit': 'Nenhuma quantidade em KG (01) ou TON (02); unidades presentes: {units}.',
+  'parse.cte-no-quantities': 'Nenhum grupo infQ informado na carga.',
+  'parse.mdfe-tractor-missing': 'Veículo de tração não informado.',
+  'parse.mdfe-total-weight-missing': 'Peso total da carga (qCarga) não informado.',
+  'parse.mdfe-invalid-unit': 'Unidade de peso inválida: "{unit}" (esperado 01-KG ou 02-TON).',
+
+  'audit.event.created': 'Criação',
+  'audit.event.printed': 'Impressão',
+  'audit.event.reprinted': 'Reimpressão',
+  'audit.event.edited': 'Alteração',
+  'audit.event.cancelled': 'Cancelamento',
+  'audit.event.approved': 'Aprovação',
+  'audit.verifying': 'Verificando cadeia de auditoria...',
+  'audit.chainValid': 'Cadeia íntegra',
+  'audit.chainBroken': 'Cadeia comprometida',
+  'audit.verifiedCount': '{count} registros verificados em {date}',
+  'audit.headHash': 'Hash atual: {hash}',
+  'audit.verify': 'Verificar',
+  'audit.problem': 'Registro #{sequence}: {issue}',
+  'audit.problem.sequence-gap': 'Sequência esperada {expected}: registro removido ou fora de ordem.',
+  'audit.problem.chain-broken': 'Encadeamento quebrado: o hash anterior não confere.',
+  'audit.problem.content-altered': 'Conteúdo alterado: o hash do registro não confere.',
+  'audit.problem.tail-removed': 'Registros finais removidos: o último registro não corresponde ao cabeçalho.',
+  'audit.problem.head-missing': 'Cabeçalho do log ausente.',
+  'audit.events': 'Registro de Eventos',
+  'audit.noEvents': 'Nenhum evento registrado.',
+  'audit.dateTime': 'Data/Hora',
+  'audit.event': 'Evento',
+  'audit.ticket': 'Ticket',
+  'audit.description': 'Descrição',
+  'audit.hash': 'Hash',
+
+  'verify.title': 'Verificar Ticket',
+  'verify.payloadPlaceholder': 'Cole aqui o conteúdo do QR Code (STP1....)',
+  'verify.cameraUnsupported': 'Leitura pela câmera não suportada neste navegador. Cole o conteúdo do QR Code.',
+  'verify.cameraUnavailable': 'Não foi possível acessar a câmera.',
+  'verify.stopCamera': 'Parar Câmera',
+  'verify.scanCamera': 'Ler com Câmera',
+  'verify.verify': 'Verificar',
+  'verify.status.valid': 'Ticket Autêntico',
+  'verify.status.tampered': 'Ticket Adulterado',
+  'verify.status.cancelled': 'Ticket Cancelado',
+  'verify.status.unknown-key': 'Emissor Desconhecido',
+  'verify.status.malformed': 'Conteúdo Inválido',
+  'verify.result.not-a-ticket': 'O conteúdo não é um QR Code de ticket ScaleTicket.',
+  'verify.result.undecodable': 'Não foi possível decodificar os dados do ticket.',
+  'verify.result.untrusted-key': 'Chave {key} não é confiável nesta estação. Importe a chave pública da balança emissora.',
+  'verify.result.bad-signature': 'Assinatura inválida: os dados do ticket foram alterados ou forjados.',
+  'verify.result.local-mismatch': 'Assinatura válida, mas o registro local do ticket difere do QR Code.',
+  'verify.result.cancelled': 'Ticket autêntico, porém CANCELADO: {reason}.',
+  'verify.result.cancelled-replaced': 'Ticket autêntico, porém CANCELADO: {reason} (substituído pelo ticket {id}).',
+  'verify.result.valid-local': 'Ticket autêntico e conferido com o registro local.',
+  'verify.result.valid-remote': 'Assinatura autêntica (ticket não encontrado nesta estação).',
+  'verify.result.verification-failed': 'Não foi possível verificar o ticket nesta estação. Tente novamente.',
+  'verify.ticket': 'Ticket',
+  'verify.document': 'Nota/CTe',
+  'verify.plate': 'Placa',
+  'verify.grossTare': 'Bruto / Tara',
+  'verify.net': 'Líquido',
+  'verify.issued': 'Emissão',
+  'verify.issuer': 'Emissor',
+  'verify.thisScale': 'Esta balança',
+  'verify.signingKeys': 'Chaves de Assinatura',
+  'verify.publicKeyHint': 'Chave pública desta balança (compartilhe com quem recebe os tickets)',
+  'verify.copy': 'Copiar',
+  'verify.importHint': 'Importar chave de outra balança',
+  'verify.keyLabelPlaceholder': 'Nome da balança emissora',
+  'verify.defaultKeyLabel': 'Balança externa',
+  'verify.keyImported': 'Chave {id} importada.',
+  'verify.importFailed': 'Falha ao importar a chave.',
+  'verify.importKey': 'Importar Chave',
+
+  'scale.title': 'Balança',
+  'scale.status.disconnected': 'Desconectado',
+  'scale.status.connecting': 'Conectando...',
+  'scale.status.connected': 'Conectado',
+  'scale.status.error': 'Erro de conexão',
+  'scale.bridgeUnavailable': 'Ponte da balança indisponível. Tentando reconectar...',
+  'scale.netModeRejected': 'O indicador está em modo líquido (tara descontada). Volte ao modo bruto para capturar o peso.',
+  'scale.notCapturable': 'Aguarde um peso bruto estável para capturar.',
+  'scale.simulatorWarning': 'Simulador ativo: os pesos não vêm da balança e os tickets saem marcados como simulados.',
+  'scale.configure': 'Configurar balança',
+  'scale.source': 'Origem',
+  'scale.sourceSimulator': 'Simulador (gravações)',
+  'scale.sourceBridge': 'Ponte local (serial/TCP)',
+  'scale.recording': 'Gravação',
+  'scale.simulatorLabel': 'Simulador ({name})',
+  'scale.bridgeUrl': 'Endereço da ponte',
+  'scale.protocol': 'Protocolo do indicador',
+  'scale.protocolToledo': 'Toledo P03 (contínuo)',
+  'scale.stabilityTolerance': 'Tolerância de estabilidade (kg)',
+  'scale.stabilityWindow': 'Janela de estabilidade (ms)',
+  'scale.stable': 'ESTÁVEL',
+  'scale.motion': 'EM MOVIMENTO',
+  'scale.waiting': 'AGUARDANDO',
+  'scale.overload': 'SOBRECARGA',
+  'scale.captured': 'Peso capturado:',
+  'scale.nothingCaptured': 'Nenhum peso capturado',
+  'scale.capture': 'Capturar Peso',
+  'yard.title': 'Veículos no Pátio',
+  'yard.empty': 'Nenhum veículo aguardando pesagem de saída.',
+  'yard.overweight': 'Excesso de peso',
+  'yard.details': '{id} · Nota {invoice} · Entrada {weight}',
+  'yard.elapsedHours': '{hours}h {minutes}min',
+  'yard.elapsedMinutes': '{minutes} min',
+  'yard.inYard': '{time} ({elapsed} no pátio)',
+  'yard.selected': 'Selecionado',
+  'yard.weighExit': 'Pesar Saída',
+
+  'status.Draft': 'Rascunho',
+  'status.AwaitingExit': 'No pátio',
+  'status.Printed': 'Emitido',
+  'status.Over-Capacity': 'Excesso de peso',
+  'status.Cancelled': 'Cancelado',
+  'history.title': 'Histórico de Tickets',
+  'history.refresh': 'Atualizar',
+  'history.searchPlaceholder': 'Número do ticket, nota ou placa',
+  'history.from': 'De',
+  'history.to': 'Até',
+  'history.site': 'Posto',
+  'history.allSites': 'Todos',
+  'history.status': 'Situação',
+  'history.found': '{count} ticket(s) encontrado(s)',
+  'history.noMatch': 'Nenhum ticket corresponde aos filtros.',
+  'history.column.id': 'Ticket',
+  'history.column.date': 'Data',
+  'history.column.plate': 'Placa',
+  'history.column.invoice': 'Nota',
+  'history.column.net': 'Líquido',
+  'history.reprints': '{count}× 2ª via',
+  'history.open': 'Abrir',
+  'history.page': 'Página {page} de {count}',
+  'history.ticket': 'Ticket {id}',
+  'history.cancelTicket': 'Cancelar Ticket',
+  'history.correct': 'Corrigir',
+  'history.close': 'Fechar',
+  'history.reprintOnlyIssued': 'Somente tickets emitidos ou cancelados podem ser reimpressos',
+  'history.reprint': 'Imprimir 2ª Via',
+
+  'export.format.csv': 'CSV (Excel pt-BR)',
+  'export.format.xlsx': 'Planilha XLSX',
+  'export.format.json': 'JSON',
+  'export.format.erp': 'Arquivo ERP (posições fixas)',
+  'export.column.id': 'Ticket',
+  'export.column.issueDate': 'Emissão',
+  'export.column.status': 'Situação',
+  'export.column.plate': 'Placa',
+  'export.column.invoiceId': 'Nota fiscal',
+  'export.column.invoiceNetWeight': 'Peso da nota (kg)',
+  'export.column.entryDate': 'Entrada',
+  'export.column.exitDate': 'Saída',
+  'export.column.grossWeight': 'Peso bruto (kg)',
+  'export.column.tareWeight': 'Tara (kg)',
+  'export.column.netWeight': 'Peso líquido (kg)',
+  'export.column.difference': 'Diferença da nota (kg)',
+  'export.column.siteId': 'Posto',
+  'export.column.siteName': 'Razão social',
+  'export.column.siteCnpj': 'CNPJ',
+  'export.column.issuedBy': 'Operador',
+  'export.column.correctsTicketId': 'Substitui',
+  'export.column.cancellationReason': 'Motivo do cancelamento',
+  'export.column.overrideSupervisor': 'Liberado por',
+  'export.column.reprintCount': 'Reimpressões',
+  'export.title': 'Exportar para contabilidade:',
+  'export.columns': 'Colunas ({count})',
+  'export.export': 'Exportar {count} ticket(s)',
+  'export.fileLanguageNote': 'Os arquivos usam cabeçalhos em português, como espera a importação contábil.',
+  'export.erpLayout': 'Layout fixo de 180 posições por linha (cabeçalho, um registro por ticket e totalizador).',
+
+  'shift.morning': 'Manhã (06h–14h)',
+  'shift.afternoon': 'Tarde (14h–22h)',
+  'shift.night': 'Noite (22h–06h)',
+  'report.noCarrier': 'Sem transportadora',
+  'report.noProduct': 'Não informado',
+  'dashboard.title': 'Painel de Operações',
+  'dashboard.from': 'De',
+  'dashboard.to': 'Até',
+  'dashboard.refresh': 'Atualizar',
+  'dashboard.issuedNetWeight': 'Peso líquido emitido',
+  'dashboard.overCapacityValue': '{count} ({blocked} bloq.)',
+  'dashboard.activeDays': 'Dias com movimento',
+  'dashboard.byDayAndShift': 'Tickets por dia e turno',
+  'dashboard.noTickets': 'Nenhum ticket no período.',
+  'dashboard.openClosing': 'Abrir o fechamento deste dia',
+  'dashboard.shiftTotals': '{shift}: {count} ticket(s), {weight}',
+  'dashboard.byVehicle': 'Por veículo',
+  'dashboard.byCarrier': 'Por transportadora',
+  'dashboard.byProduct': 'Por produto',
+  'dashboard.noIssuedTickets': 'Sem tickets emitidos.',
+  'dashboard.andMore': 'e mais {count}',
+  'closing.title': 'Fechamento do dia',
+  'closing.scaleSerial': 'Balança nº {serial}',
+  'closing.tickets': 'Tickets',
+  'closing.issued': 'Emitidos',
+  'closing.open': 'No pátio',
+  'closing.cancelled': 'Cancelados',
+  'closing.overCapacity': 'Excesso de peso',
+  'closing.blocked': '{count} bloqueado(s)',
+  'closing.netWeight': 'Peso líquido',
+  'closing.averageDifference': 'Diferença média da nota',
+  'closing.shift': 'Turno',
+  'closing.product': 'Produto',
+  'closing.carrier': 'Transportadora',
+  'closing.ticket': 'Ticket',
+  'closing.time': 'Hora',
+  'closing.plate': 'Placa',
+  'closing.invoice': 'Nota',
+  'closing.status': 'Situação',
+  'closing.netKg': 'Líquido (kg)',
+  'closing.notes': 'Observações',
+  'closing.operator': 'Operador',
+  'closing.operatorSignature': 'Operador da balança',
+  'closing.supervisor': 'Supervisor',
+  'closing.supervisorSignature': 'Supervisor · confere e assina',
+  'closing.generatedAt': 'Gerado em {time}',
+  'closing.date': 'Data',
+  'closing.close': 'Fechar',
+  'closing.print': 'Imprimir para assinatura',
+
+  'axle.2C': 'Caminhão toco (2 eixos)',
+  'axle.3C': 'Caminhão trucado (3 eixos)',
+  'axle.4C': 'Bitruck (4 eixos)',
+  'axle.2S1': 'Cavalo 4x2 + semirreboque 1 eixo',
+  'axle.2S2': 'Cavalo 4x2 + semirreboque 2 eixos',
+  'axle.2S3': 'Cavalo 4x2 + semirreboque 3 eixos',
+  'axle.3S2': 'Cavalo 6x2 + semirreboque 2 eixos',
+  'axle.3S3': 'Cavalo 6x4 + semirreboque 3 eixos',
+  'axle.3T4': 'Bitrem (7 eixos)',
+  'axle.3T6': 'Rodotrem (9 eixos)',
+  'numbering.invalidSiteCode': 'O código do posto deve ter de 2 a 6 letras ou números.',
+  'numbering.invalidSeries': 'A série deve ter até 3 letras ou números.',
+  'classification.title': 'Classificação de Veículos',
+  'classification.intro': 'Usadas quando nenhuma placa do documento está na frota. As regras são avaliadas da menor para a maior prioridade; a primeira que atende escolhe o veículo. Campos vazios aceitam qualquer documento.',
+  'classification.priority': 'Prioridade',
+  'classification.name': 'Nome',
+  'classification.enabled': 'Ativa',
+  'classification.remove': 'Remover',
+  'classification.minWeight': 'Peso acima de (kg)',
+  'classification.maxWeight': 'Peso até (kg)',
+  'classification.shipperCnpj': 'CNPJ do remetente',
+  'classification.productContains': 'Produto contém',
+  'classification.documentPlate': 'Placa no documento',
+  'classification.target': 'Destino',
+  'classification.targetClass': 'Classe de veículo',
+  'classification.targetVehicle': 'Veículo específico',
+  'classification.axleConfiguration': 'Configuração de eixos',
+  'classification.vehicle': 'Veículo',
+  'classification.inactive': '(inativo)',
+  'classification.noRules': 'Nenhuma regra: o veículo será sempre escolhido manualmente.',
+  'classification.simulate': 'Simular documento',
+  'classification.sampleWeight': 'Peso da carga (kg)',
+  'classification.sampleProduct': 'Produto',
+  'classification.pickedTruck': '{plate} · Tara {tare}',
+  'classification.noRuleApplies': 'Nenhuma regra se aplica: o operador escolhe o veículo.',
+  'classification.add': 'Nova regra',
+  'classification.newRuleName': 'Nova regra',
+  'classification.save': 'Salvar',
+  'classification.saved': 'Regras salvas. Valem para os próximos documentos importados.',
+  'classification.outcome.fired': 'Aplicada',
+  'classification.outcome.noMatch': 'Não atende',
+  'classification.outcome.unavailable': 'Sem veículo',
+  'classification.outcome.notReached': 'Não avaliada',
+  'classification.outcome.disabled': 'Desativada',
+  'classification.error.name': 'Regra {rule}: informe o nome.',
+  'classification.error.weightRange': '{rule}: o peso mínimo deve ser menor que o máximo.',
+  'classification.error.cnpj': '{rule}: CNPJ do remetente deve ter 14 dígitos.',
+  'classification.error.plate': '{rule}: placa fora do padrão antigo (ABC-1234) ou Mercosul (ABC1D23).',
+  'classification.error.target': '{rule}: escolha o veículo de destino.',
+  'classification.target.vehicle': 'Veículo {plate}',
+  'classification.target.unregistered': 'Veículo {truckId} (não cadastrado)',
+  'classification.failure.noWeight': 'Documento sem peso da carga',
+  'classification.failure.belowMin': 'Peso {weight} kg não é maior que {limit} kg',
+  'classification.failure.aboveMax': 'Peso {weight} kg acima de {limit} kg',
+  'classification.failure.shipper': 'Remetente diferente',
+  'classification.failure.product': 'Produto diferente',
+  'classification.failure.plate': 'Placa {plate} ausente no documento',
+  'classification.failure.noVehicleOfClass': 'Nenhum veículo ativo da classe {configuration}',
+  'classification.failure.vehicleInactive': 'Veículo {vehicle} inativo ou não cadastrado',
+
+  'sync.state.disabled': 'Sincronização desativada',
+  'sync.state.idle': 'Sincronizado',
+  'sync.state.syncing': 'Sincronizando…',
+  'sync.state.offline': 'Sem conexão com o servidor',
+  'sync.state.error': 'Erro na sincronização',
+  'sync.entity.ticket': 'Ticket',
+  'sync.entity.truck': 'Veículo',
+  'sync.entity.tare': 'Tara',
+  'sync.saved': 'Sincronização salva. Recarregue a página para aplicar.',
+  'sync.queued': '{count} registro(s) colocados na fila de envio.',
+  'sync.queueFailed': 'Falha ao enfileirar: {error}',
+  'sync.title': 'Sincronização com o Servidor Central',
+  'sync.restBackendNote': 'O armazenamento está configurado como Servidor REST: os dados já são gravados diretamente no servidor.',
+  'sync.enabled': 'Trabalhar offline e sincronizar com o servidor central',
+  'sync.serverUrl': 'Endereço do servidor',
+  'sync.interval': 'Intervalo (segundos)',
+  'sync.stationId': 'Identificação da estação',
+  'sync.token': 'Token de acesso (o mesmo do servidor)',
+  'sync.counts': '{pending} pendente(s) · {failed} com falha',
+  'sync.lastSync': 'última em {time}',
+  'sync.syncNow': 'Sincronizar agora',
+  'sync.retry': 'Tentar novamente',
+  'sync.record': 'Registro',
+  'sync.changedAt': 'Alterado em',
+  'sync.status': 'Situação',
+  'sync.entryFailed': 'Falhou',
+  'sync.entryPending': 'Pendente',
+  'sync.attempts': '({count} tentativa(s))',
+  'sync.discard': 'Descartar envio (o registro local é mantido)',
+  'sync.queueAllHint': 'Envia ao servidor todos os tickets, veículos e taras desta estação',
+  'sync.queueAll': 'Enviar todos os registros',
+  'sync.save': 'Salvar',
+  'settings.enforcement.warn': 'Apenas sinalizar no ticket',
+  'settings.enforcement.override': 'Bloquear impressão até liberação do supervisor',
+  'settings.enforcement.block': 'Bloquear impressão (sem liberação)',
+  'settings.tareExpiry.warn': 'Apenas avisar',
+  'settings.tareExpiry.block': 'Exigir nova pesagem de saída',
+  'settings.weightLimitsSaved': 'Limites de peso salvos.',
+  'settings.numberingSaved': 'Numeração salva.',
+  'settings.tareSaved': 'Validade da tara salva.',
+  'settings.title': 'Configurações',
+  'settings.approvalRequired': 'As alterações de configuração precisam da aprovação de um supervisor.',
+  'settings.unlock': 'Liberar edição',
+  'settings.unlockedBy': 'Edição liberada por {supervisor} às {time}.',
+  'settings.numbering': 'Numeração de Tickets',
+  'settings.siteCode': 'Código do posto',
+  'settings.series': 'Série (opcional)',
+  'settings.nextNumber': 'Próximo número',
+  'settings.weightLimits': 'Limites de Peso',
+  'settings.grossTolerance': 'Tolerância PBT (%)',
+  'settings.axleTolerance': 'Tolerância por eixo (%)',
+  'settings.capacityTolerance': 'Tolerância capacidade (%)',
+  'settings.enforcement': 'Ação em caso de excesso',
+  'settings.configuration': 'Configuração',
+  'settings.legalGross': 'PBT legal',
+  'settings.withTolerance': 'Com tolerância',
+  'settings.tareValidity': 'Validade da Tara',
+  'settings.tareValidityDays': 'Validade da tara aferida (dias)',
+  'settings.tareExpired': 'Tara vencida',
+  'settings.save': 'Salvar',
+
+  'fleet.error.plate': 'Informe a placa do cavalo/caminhão.',
+  'fleet.error.trailerPlate': 'Placa de reboque {plate} fora do padrão antigo (ABC-1234) ou Mercosul (ABC1D23).',
+  'fleet.error.tare': 'Informe a tara do veículo.',
+  'fleet.error.capacity': 'A capacidade deve ser maior que a tara.',
+  'fleet.error.cnpj': 'CNPJ da transportadora deve ter 14 dígitos.',
+  'fleet.error.rntrc': 'RNTRC deve ter 8 ou 9 dígitos.',
+  'fleet.error.driverName': 'Motorista {driver}: informe o nome.',
+  'fleet.error.driverCpf': 'Motorista {driver}: CPF inválido.',
+  'fleet.error.driverCnh': 'Motorista {driver}: CNH deve ter 11 dígitos.',
+  'fleet.editTitle': 'Editar {plate}',
+  'fleet.newVehicle': 'Novo Veículo',
+  'fleet.plate': 'Placa do cavalo / caminhão',
+  'fleet.genericPlateHint': 'Fora do padrão antigo (ABC-1234) ou Mercosul (ABC1D23); use apenas para veículos genéricos, que não guardam histórico de tara.',
+  'fleet.trailerPlates': 'Placas dos reboques (separadas por vírgula)',
+  'fleet.axleConfiguration': 'Configuração de eixos',
+  'fleet.axleConfigurationUnknown': 'Não informada',
+  'fleet.tare': 'Tara (kg)',
+  'fleet.tareReadOnlyHint': 'Registre novas taras no histórico de tara',
+  'fleet.capacity': 'Capacidade PBT (kg)',
+  'fleet.carrier': 'Transportadora',
+  'fleet.drivers': 'Motoristas vinculados',
+  'fleet.addDriver': 'Adicionar motorista',
+  'fleet.driverName': 'Nome',
+  'fleet.cancel': 'Cancelar',
+  'fleet.save': 'Salvar',
+  'fleet.title': 'Frota Cadastrada',
+  'fleet.search': 'Buscar por placa, transportadora, RNTRC ou motorista',
+  'fleet.showInactive': 'Mostrar inativos',
+  'fleet.noVehicles': 'Nenhum veículo encontrado.',
+  'fleet.inactive': 'Inativo',
+  'fleet.summary': 'Tara {tare} · Capacidade {capacity}',
+  'fleet.driverList': 'Motoristas: {names}',
+  'fleet.tareHistory': 'Histórico de tara',
+  'fleet.edit': 'Editar',
+  'fleet.deactivate': 'Desativar',
+  'fleet.reactivate': 'Reativar',
+
+  'role.operator': 'Operador',
+  'role.supervisor': 'Supervisor',
+  'role.admin': 'Administrador',
+  'approval.action.weight-override': 'Liberação de excesso de peso',
+  'approval.action.ticket-cancel': 'Cancelamento de ticket',
+  'approval.action.ticket-correct': 'Correção de ticket',
+  'approval.action.tare-edit': 'Lançamento de tara',
+  'approval.action.settings-change': 'Alteração de configurações',
+  'approval.action.duplicate-document': 'Novo ticket para documento já pesado',
+  'approval.noApprovers': 'Nenhum supervisor com PIN cadastrado: {action} indisponível.',
+  'approval.title': '{action}: aprovação do supervisor',
+  'approval.checking': 'Verificando…',
+  'users.error.login': 'Login deve ter de 3 a 32 letras minúsculas, números, ponto, hífen ou sublinhado.',
+  'users.error.loginTaken': 'O login {userId} já existe.',
+  'users.error.name': 'Informe o nome.',
+  'users.error.password': 'A senha deve ter pelo menos 8 caracteres.',
+  'users.error.pin': 'O PIN deve ter de 4 a 8 dígitos.',
+  'users.error.pinRequired': 'Supervisores e administradores precisam de um PIN de liberação.',
+  'users.error.lastAdmin': 'É preciso manter ao menos um administrador ativo.',
+  'users.saved': 'Usuário {userId} salvo.',
+  'users.deactivated': 'Usuário {userId} desativado.',
+  'users.reactivated': 'Usuário {userId} reativado.',
+  'users.title': 'Usuários',
+  'users.name': 'Nome',
+  'users.login': 'Login',
+  'users.role': 'Perfil',
+  'users.inactive': '(inativo)',
+  'users.edit': 'Editar',
+  'users.deactivate': 'Desativar',
+  'users.reactivate': 'Reativar',
+  'users.editTitle': 'Editar {userId}',
+  'users.new': 'Novo usuário',
+  'users.printedName': 'Nome (impresso nos tickets)',
+  'users.newPassword': 'Nova senha (vazio mantém a atual)',
+  'users.password': 'Senha',
+  'users.newPin': 'Novo PIN (vazio mantém o atual)',
+  'users.pin': 'PIN de liberação',
+  'users.saving': 'Salvando…',
+  'users.save': 'Salvar usuário',
+  'users.lockAfter': 'Bloquear após inatividade (min, 0 = nunca)',
+  'users.lockSaved': 'Tempo de bloqueio salvo.',
+  'login.passwordMismatch': 'As senhas não conferem.',
+  'login.locked': 'Sessão bloqueada por inatividade',
+  'login.setup': 'Primeiro acesso: crie o administrador',
+  'login.prompt': 'Entre com seu usuário',
+  'login.user': 'Usuário',
+  'login.login': 'Login',
+  'login.fullName': 'Nome completo',
+  'login.password': 'Senha',
+  'login.repeatPassword': 'Repita a senha',
+  'login.pin': 'PIN de liberação (4 a 8 dígitos)',
+  'login.unlock': 'Desbloquear',
+  'login.createAdmin': 'Criar administrador e entrar',
+  'login.submit': 'Entrar',
+  'login.switchUser': 'Entrar com outro usuário',
+
+  'sites.error.legalName': 'Informe a razão social.',
+  'sites.error.cnpj': 'CNPJ inválido.',
+  'sites.error.state': 'UF deve ter 2 letras.',
+  'sites.error.duplicate': 'O código {siteId} já é usado por outro posto.',
+  'sites.field.siteId': 'Código do posto',
+  'sites.field.cnpj': 'CNPJ',
+  'sites.field.legalName': 'Razão social',
+  'sites.field.tradeName': 'Nome no cabeçalho do ticket',
+  'sites.field.address': 'Endereço',
+  'sites.field.city': 'Cidade',
+  'sites.field.state': 'UF',
+  'sites.field.scaleSerial': 'Nº de série da balança',
+  'sites.field.inmetroSeal': 'Lacre INMETRO',
+  'sites.new': 'Novo posto',
+  'sites.saved': 'Postos salvos. Os novos tickets usarão estes dados.',
+  'sites.activated': 'Esta estação agora emite tickets por {site}.',
+  'sites.title': 'Postos de Pesagem',
+  'sites.defaultLayout': 'Layout padrão de impressão',
+  'sites.ticketLocale': 'Idioma do ticket impresso',
+  'sites.footerText': 'Texto do rodapé',
+  'sites.logo': 'Logotipo',
+  'sites.removeLogo': 'Remover',
+  'sites.remove': 'Remover posto',
+  'sites.activate': 'Usar nesta estação',
+  'sites.save': 'Salvar',
+  'storage.backend.indexeddb': 'Banco local do navegador (IndexedDB)',
+  'storage.backend.rest': 'Servidor REST',
+  'storage.backend.local': 'localStorage (legado)',
+  'storage.testOk': 'Conexão OK: {count} veículo(s) no destino.',
+  'storage.testFailed': 'Falha na conexão: {error}',
+  'storage.saved': 'Armazenamento salvo. Recarregue a página para aplicar.',
+  'storage.title': 'Armazenamento',
+  'storage.backend': 'Onde guardar tickets, frota e taras',
+  'storage.restUrl': 'Endereço do servidor',
+  'storage.restToken': 'Token de acesso',
+  'storage.migrated': 'Migrado para {target} em {time}: {tickets} ticket(s), {trucks} veículo(s), {tares} tara(s), {settings} configuração(ões)',
+  'storage.test': 'Testar',
+  'storage.save': 'Salvar',
+
+  'printer.connection.browser': 'Impressão do navegador',
+  'printer.connection.webusb': 'ESC/POS via USB (WebUSB)',
+  'printer.connection.serial': 'ESC/POS via porta serial (Web Serial)',
+  'printer.connection.bridge': 'ESC/POS via ponte de impressão local',
+  'printer.connection.dump': 'ESC/POS apenas exibir bytes (sem impressora)',
+  'printer.authorized': 'Autorizado: {device}',
+  'printer.authorizeFailed': 'Falha ao autorizar: {error}',
+  'printer.testSent': 'Página de teste enviada.',
+  'printer.printFailed': 'Falha na impressão: {error}',
+  'printer.saved': 'Impressora salva.',
+  'printer.title': 'Impressora',
+  'printer.connection': 'Saída do ticket de 80 mm',
+  'printer.bridgeUrl': 'Endereço da ponte de impressão',
+  'printer.baudRate': 'Velocidade (bps)',
+  'printer.columns': 'Colunas por linha',
+  'printer.unsupported': 'Este navegador não oferece esta conexão; use o Chrome ou Edge, ou a ponte de impressão.',
+  'printer.pageLayoutsNote': 'Layouts A5 e A4 continuam usando a impressão do navegador.',
+  'printer.authorize': 'Autorizar dispositivo',
+  'printer.test': 'Imprimir teste',
+  'printer.save': 'Salvar',
+  'printer.dumpTitle': 'Bytes ESC/POS ({count} bytes)',
+  'printer.downloadBin': 'Baixar .bin',
+
+  'plates.role.tractor': 'Cavalo/caminhão',
+  'plates.role.trailer': 'Reboque',
+  'plates.sourceObservation': 'XML, observações',
+  'plates.inFleet': 'Frota: {vehicle}',
+  'plates.notInFleet': 'Não cadastrada na frota',
+  'plates.mismatchTitle': 'Placas divergentes.',
+  'plates.mismatch': 'Placa(s) do documento {plates} não pertence(m) ao veículo {vehicle}. Confira o veículo antes de registrar a pesagem.',
+  'tare.source.exit-weighing': 'Pesagem de saída',
+  'tare.source.manual': 'Lançamento manual',
+  'tare.none': 'Sem tara aferida',
+  'tare.expired': 'Tara vencida em {date}',
+  'tare.validUntil': 'Tara válida até {date}',
+  'tare.history': 'Histórico de tara',
+  'tare.driftSince': 'Variação desde {date}:',
+  'tare.driftRange': 'faixa {min}–{max} kg',
+  'tare.driftTrend': 'tendência {trend} kg/mês',
+  'tare.empty': 'Nenhuma tara registrada. A próxima pesagem de saída será registrada aqui.',
+  'tare.date': 'Data',
+  'tare.source': 'Origem',
+  'tare.weight': 'Tara',
+  'tare.manualWeight': 'Tara aferida (kg)',
+  'tare.manualReason': 'Motivo do lançamento manual (obrigatório)',
+  'tare.record': 'Registrar tara',
+
+  'document.title': 'Documento',
+  'document.series': 'Série {series}',
+  'document.number': 'Nº {number}',
+  'document.accessKey': 'Chave de Acesso',
+  'document.issuer': 'Emitente',
+  'document.sender': 'Remetente',
+  'document.recipient': 'Destinatário',
+  'document.product': 'Produto Predominante',
+  'document.quantities': 'Quantidades (infQ)',
+  'document.volumes': 'Volumes Transportados',
+  'document.volumeWeights': 'L {net} / B {gross} kg',
+  'document.vehicles': 'Veículos no Documento',
+  'document.trailerPlate': '{plate} (reboque)',
+  'document.weightSource': 'Origem do peso',
+  'layout.title': 'Layout de impressão',
+  'layout.thermal-80': 'Bobina térmica 80 mm',
+  'layout.a5': 'A5 (148 × 210 mm)',
+  'layout.a4-two-copies': 'A4 paisagem, duas vias',
+  'ticket.qrAlt': 'QR Code de verificação',
+  'picker.search': 'Buscar veículo por placa, transportadora ou motorista',
+  'picker.empty': 'Nenhum veículo ativo encontrado.',
+  'picker.tare': 'Tara {tare}',
+  'batch.failed': 'Falha na exportação: {error}',
+  'batch.archivalHint': 'Inclui metadados XMP e identificador permanente do documento',
+  'batch.archival': 'Arquivamento (PDF/A)',
+  'batch.generating': 'Gerando...',
+  'batch.singlePdf': 'PDF único ({count})',
+  'ticketActions.cancelled': 'Ticket {ticket} cancelado.',
+  'ticketActions.corrected': 'Ticket {ticket} cancelado e substituído por {replacement}.',
+  'ticketActions.correctTitle': 'Corrigir ticket (gera um novo ticket e cancela o original)',
+  'ticketActions.cancelTitle': 'Cancelar ticket',
+  'ticketActions.invoice': 'Nota / CT-e',
+  'ticketActions.invoiceWeight': 'Peso da nota (kg)',
+  'ticketActions.plate': 'Placa',
+  'ticketActions.vehicle': 'Veículo',
+  'ticketActions.inactive': '(inativo)',
+  'ticketActions.correctReason': 'Motivo da correção (obrigatório)',
+  'ticketActions.cancelReason': 'Motivo do cancelamento (obrigatório)',
+  'ticketActions.confirmCorrect': 'Salvar Correção',
+  'ticketActions.confirmCancel': 'Confirmar Cancelamento',
+  'ticketActions.back': 'Voltar',
+
+  'axleGroup.steer': 'direcional simples',
+  'axleGroup.double-steer': 'direcional duplo',
+  'axleGroup.single': 'simples rodado duplo',
+  'axleGroup.tandem': 'tandem duplo',
+  'axleGroup.tridem': 'tandem triplo',
+  'violation.capacity': 'Capacidade do veículo {plate}',
+  'violation.legal-gross': 'PBT legal {configuration}',
+  'violation.legal-axle': 'Conjunto {index} ({group})',
+  'validation.withinLimits': 'Peso dentro dos limites',
+  'validation.withinLegalLimit': 'Peso dentro dos limites (PBT legal {configuration}: {limit})',
+  'validation.overweight': 'Excesso de Peso',
+  'validation.violation': '{description}: limite {limit} (tolerância até {allowed})',
+  'validation.releasedBy': 'Liberado por {name} em {date}:',
+  'validation.overrideReason': 'Motivo da liberação (obrigatório)',
+  'validation.release': 'Liberar Ticket',
+  'selection.tractor-plate': 'Placa {plate} (cavalo/caminhão) encontrada no documento',
+  'selection.trailer-plate': 'Placa {plate} (reboque) encontrada no documento',
+  'selection.rule': 'Regra "{rule}" (prioridade {priority})',
+  'selection.no-rule': 'Nenhuma regra de classificação se aplica ao documento: selecione o veículo.',
+
+  'ticketActions.releaseNeeded': 'O peso excede os limites do veículo corrigido. A aprovação da correção também libera o novo ticket.',
+  'ticketActions.duplicateNeeded': 'O documento {document} já possui ticket ativo ({tickets}). A aprovação da correção também autoriza outro ticket para o documento.',
+
+  'app.auditFailed': 'Não foi possível registrar no log de auditoria; nada foi impresso ou exportado: {error}',
+  'audit.unwritten': 'Auditoria: {count} pendente(s)',
+  'audit.unwrittenHint': 'Alterações salvas cujo registro de auditoria ainda não foi gravado. Clique para tentar novamente; não repita as alterações.',
+
+  'axleWeights.title': 'Pesos por conjunto de eixos ({configuration}), opcional',
+  'axleWeights.group': '{index} · {group} (limite {limit})',
+
+  'storage.recordConflict': 'O registro {id} foi alterado por outra estação. Recarregue e tente novamente.',
+
+  'login.invalidCredentials': 'Login ou senha inválidos.',
+  'login.invalidPassword': 'Senha inválida.',
+  'approval.invalidPin': 'PIN do supervisor inválido.',
+  'fleet.duplicatePlate': 'A placa {plate} já está cadastrada ({id}).',
+  'fleet.notFound': 'Veículo {id} não encontrado.',
+  'history.ticketNotFound': 'Ticket {id} não encontrado.',
+  'history.notOverCapacity': 'O ticket {id} não está bloqueado por excesso de peso.',
+  'history.alreadyCancelled': 'O ticket {id} já está cancelado.',
+  'parse.zip-corrupt': 'Arquivo ZIP inválido ou corrompido.',
+  'parse.zip-corrupt-entry': 'Entrada corrompida no ZIP: {name}',
+  'parse.zip-encrypted': 'Arquivo protegido por senha no ZIP: {name}',
+  'parse.zip-unsupported-method': 'Método de compressão não suportado ({method}) no ZIP: {name}',
+  'storage.serverError': 'Servidor respondeu {status} em {path}.',
+  'storage.migrationIncomplete': 'Migração incompleta: {count} ticket(s) não encontrados no destino.',
+  'storage.databaseBlocked': 'Banco de dados local bloqueado por outra aba em versão anterior. Feche as outras abas.',
+  'storage.transactionAborted': 'A gravação no banco de dados local foi interrompida.',
+  'verify.invalidKeyFormat': 'Formato de chave pública inválido.',
+  'verify.keyIdMismatch': 'O identificador da chave não confere com o conteúdo.',
+  'printer.webUsbUnsupported': 'Este navegador não suporta WebUSB.',
+  'printer.webSerialUnsupported': 'Este navegador não suporta Web Serial.',
+  'printer.noUsbPrinter': 'Nenhuma impressora USB autorizada. Autorize-a em Configurações → Impressora.',
+  'printer.usbNoOutput': 'A impressora USB não tem saída de dados.',
+  'printer.noSerialPort': 'Nenhuma porta serial autorizada. Autorize-a em Configurações → Impressora.',
+  'printer.bridgeError': 'A ponte de impressão respondeu {status}: {detail}',
+  'printer.noRawOutput': 'Esta conexão não envia comandos ESC/POS.',
+  'sites.imageProcessingFailed': 'Não foi possível processar a imagem.',
+  'sites.invalidImage': 'Arquivo de imagem inválido.',
+  'document.unknownUnit': 'Desconhecida',
+};
+
+export type MessageKey = keyof typeof ptBR;
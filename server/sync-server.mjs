@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+// Central reference server: shared store for the scale houses of a site.
+//
+// Usage:
+//   node server/sync-server.mjs [--port 8787] [--data server/data.json] [--token <secret>]
+//                               [--origin http://10.0.0.5:3000,http://balanca-2:3000]
+//
+// Every write (PUT, POST /sync/push) and the settings routes require
+// `Authorization: Bearer <secret>` (--token or SYNC_SERVER_TOKEN); without a token they are
+// disabled and the server is read-only. Browsers may call it only from the listed origins
+// (--origin or SYNC_SERVER_ORIGIN, comma-separated); without the option, from none.
+//
+// Serves, under /api:
+//   - the REST repository routes (see services/restRepository.ts), for stations that store
+//     everything on the server;
+//   - POST /sync/push and GET /sync/changes?since=&limit=, for stations that work offline
+//     and synchronise (see services/syncService.ts).
+// Every record carries a revision. A pushed change is applied only when it was based on the
+// current revision; otherwise the server answers with its copy and the station merges. A REST
+// PUT is checked the same way against the record's sync.revision (0 or none for a new record)
+// and answered 409 on a mismatch, so two stations never overwrite each other's tickets.
+// Data is kept in a single JSON file, rewritten atomically after every change.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const port = Number(option('port', '8787'));
+const dataFile = path.resolve(option('data', 'server/data.json'));
+const token = option('token', process.env.SYNC_SERVER_TOKEN || '');
+const allowedOrigins = option('origin', process.env.SYNC_SERVER_ORIGIN || '')
+  .split(',')
+  .map((origin) => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+const ENTITIES = ['ticket', 'truck', 'tare'];
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 200;
+// Station-only settings (password and PIN hashes) are neither stored nor served
+const PRIVATE_SETTING_KEYS = ['auth_settings'];
+
+const emptyData = () => ({ seq: 0, records: { ticket: {}, truck: {}, tare: {} }, settings: {} });
+
+const loadData = () => {
+  if (!fs.existsSync(dataFile)) return emptyData();
+  return { ...emptyData(), ...JSON.parse(fs.readFileSync(dataFile, 'utf8')) };
+};
+
+const data = loadData();
+PRIVATE_SETTING_KEYS.forEach((key) => delete data.settings[key]); // Written by older stations
+
+const persist = () => {
+  fs.mkdirSync(path.dirname(dataFile), { recursive: true });
+  const temporary = `${dataFile}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(data));
+  fs.renameSync(temporary, dataFile);
+};
+
+// Stores a record as the next revision and appends it to the change feed
+const applyRecord = (entity, id, record, stationId) => {
+  const current = data.records[entity][id];
+  const revision = (current?.revision ?? 0) + 1;
+  const seq = ++data.seq;
+  const sync = { updatedAt: Date.now(), stationId: stationId || 'servidor', ...record.sync, revision };
+  data.records[entity][id] = { revision, seq, record: { ...record, sync } };
+  return revision;
+};
+
+// REST write: only when based on the stored revision; a new record never replaces an existing id
+const putRecord = (res, entity, id, record) => {
+  if (!record || typeof record !== 'object') return send(res, 400, { error: 'Registro inválido.' });
+  const current = data.records[entity][id];
+  if (current && current.revision !== (record.sync?.revision ?? 0)) {
+    return send(res, 409, { error: 'Registro alterado por outra estação.', revision: current.revision, record: current.record });
+  }
+  applyRecord(entity, id, record);
+  persist();
+  return send(res, 204);
+};
+
+const listRecords = (entity) => Object.values(data.records[entity]).map((entry) => entry.record);
+
+const pushChanges = ({ stationId, changes }) => {
+  const results = (Array.isArray(changes) ? changes : []).map(({ entity, id, baseRevision, record }) => {
+    if (!ENTITIES.includes(entity) || !id || !record) {
+      return { entity, id, status: 'rejected', error: 'Alteração inválida.' };
+    }
+    const current = data.records[entity][id];
+    if (current && current.revision !== baseRevision) {
+      return { entity, id, status: 'conflict', revision: current.revision, record: current.record };
+    }
+    return { entity, id, status: 'applied', revision: applyRecord(entity, id, record, stationId) };
+  });
+  if (results.some((r) => r.status === 'applied')) persist();
+  return { results };
+};
+
+const listChanges = (since, limit) => {
+  const changes = ENTITIES.flatMap((entity) =>
+    Object.entries(data.records[entity])
+      .filter(([, entry]) => entry.seq > since)
+      .map(([id, entry]) => ({ seq: entry.seq, entity, id, revision: entry.revision, record: entry.record }))
+  ).sort((a, b) => a.seq - b.seq);
+  const page = changes.slice(0, limit);
+  return {
+    changes: page,
+    cursor: page.length > 0 ? page[page.length - 1].seq : since,
+    more: changes.length > page.length,
+  };
+};
+
+const matchesTicketQuery = (ticket, query) =>
+  (!query.has('from') || ticket.issueTimestamp >= Number(query.get('from'))) &&
+  (!query.has('to') || ticket.issueTimestamp <= Number(query.get('to'))) &&
+  (!query.has('plate') || ticket.truckPlateNumber === query.get('plate')) &&
+  (!query.has('invoiceId') || ticket.invoiceId === query.get('invoiceId')) &&
+  (!query.has('status') || ticket.ticketStatus === query.get('status'));
+
+const highestTicketId = (prefix) => {
+  const ids = Object.keys(data.records.ticket)
+    .filter((id) => id.startsWith(prefix) && /^\d+$/.test(id.slice(prefix.length)))
+    .sort();
+  return ids.length > 0 ? ids[ids.length - 1] : null;
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Corpo da requisição muito grande.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : null);
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const isAuthorized = (req) => {
+  const [scheme, presented] = (req.headers.authorization || '').split(' ');
+  if (!token || scheme !== 'Bearer' || !presented) return false;
+  const expected = crypto.createHash('sha256').update(token).digest();
+  return crypto.timingSafeEqual(crypto.createHash('sha256').update(presented).digest(), expected);
+};
+
+const send = (res, status, body) => {
+  if (body === undefined) {
+    res.writeHead(status);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const route = async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const parts = url.pathname.replace(/^\/api\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+  const [resource, id] = parts;
+  const method = req.method;
+  const query = url.searchParams;
+
+  if (resource === 'health' && method === 'GET') {
+    return send(res, 200, { ok: true, seq: data.seq });
+  }
+
+  if (method !== 'GET' || resource === 'settings') {
+    if (!token) return send(res, 403, { error: 'Gravação desativada: inicie o servidor com --token.' });
+    if (!isAuthorized(req)) return send(res, 401, { error: 'Token de acesso inválido.' });
+  }
+
+  if (resource === 'sync' && id === 'push' && method === 'POST') {
+    return send(res, 200, pushChanges((await readBody(req)) || {}));
+  }
+  if (resource === 'sync' && id === 'changes' && method === 'GET') {
+    const limit = Number(query.get('limit')) || DEFAULT_PAGE_SIZE;
+    return send(res, 200, listChanges(Number(query.get('since')) || 0, limit));
+  }
+
+  if (resource === 'trucks') {
+    if (method === 'GET' && !id) return send(res, 200, listRecords('truck'));
+    if (method === 'PUT' && id) return putRecord(res, 'truck', id, await readBody(req));
+  }
+
+  if (resource === 'tickets') {
+    if (method === 'GET' && !id) return send(res, 200, listRecords('ticket').filter((t) => matchesTicketQuery(t, query)));
+    if (method === 'GET' && id) {
+      const entry = data.records.ticket[id];
+      return entry ? send(res, 200, entry.record) : send(res, 404, { error: 'Ticket não encontrado.' });
+    }
+    if (method === 'PUT' && id) return putRecord(res, 'ticket', id, await readBody(req));
+  }
+
+  if (resource === 'tickets-highest' && method === 'GET') {
+    return send(res, 200, { id: highestTicketId(query.get('prefix') || '') });
+  }
+
+  if (resource === 'tare-history') {
+    const truckId = query.get('truckId');
+    if (method === 'GET' && !id) return send(res, 200, listRecords('tare').filter((m) => !truckId || m.truckId === truckId));
+    if (method === 'PUT' && id) return putRecord(res, 'tare', id, await readBody(req));
+  }
+
+  if (resource === 'settings') {
+    if (method === 'GET' && !id) return send(res, 200, data.settings);
+    if (method === 'PUT' && PRIVATE_SETTING_KEYS.includes(id)) return send(res, 403, { error: 'Configuração restrita à estação.' });
+    if (method === 'PUT' && id) {
+      data.settings[id] = await readBody(req);
+      persist();
+      return send(res, 204);
+    }
+  }
+
+  send(res, 404, { error: 'Rota não encontrada.' });
+};
+
+const server = http.createServer((req, res) => {
+  const origin = req.headers.origin;
+  if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  }
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  route(req, res).catch((err) => {
+    console.error(`Erro em ${req.method} ${req.url}: ${err.message}`);
+    if (!res.headersSent) send(res, 400, { error: err.message });
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Servidor central em http://localhost:${port}/api (dados em ${dataFile})`);
+  if (!token) console.log('Sem --token: gravações desativadas, o servidor atende somente leituras.');
+  if (allowedOrigins.length === 0) console.log('Sem --origin: navegadores em outras origens não têm acesso.');
+});
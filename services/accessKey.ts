@@ -0,0 +1,63 @@
+// Chave de acesso of NF-e, CT-e and MDF-e: 44 digits, the last one a mod-11 check digit.
+// Layout: cUF(2) AAMM(4) CNPJ/CPF(14) mod(2) serie(3) número(9) tpEmis(1) código numérico(8) DV(1)
+
+// IBGE codes of the states (cUF)
+const UF_CODES: Record<string, string> = {
+  '11': 'RO', '12': 'AC', '13': 'AM', '14': 'RR', '15': 'PA', '16': 'AP', '17': 'TO',
+  '21': 'MA', '22': 'PI', '23': 'CE', '24': 'RN', '25': 'PB', '26': 'PE', '27': 'AL', '28': 'SE', '29': 'BA',
+  '31': 'MG', '32': 'ES', '33': 'RJ', '35': 'SP',
+  '41': 'PR', '42': 'SC', '43': 'RS',
+  '50': 'MS', '51': 'MT', '52': 'GO', '53': 'DF',
+};
+
+export interface AccessKeyFields {
+  ufCode: string; // IBGE code, e.g. "35"
+  uf: string | null; // State acronym, null for an unknown code
+  year: number; // Four digits
+  month: number; // 1-12
+  issuerId: string; // 14 digits: the CNPJ, or a CPF padded with zeros
+  model: string; // "55", "57" or "58"
+  series: string; // Three digits
+  number: string; // Nine digits
+  emissionType: string; // tpEmis
+  numericCode: string; // cNF / cCT / cMDF
+  checkDigit: string;
+}
+
+/**
+ * Mod-11 check digit of the first 43 digits: weights 2 to 9 from the right, and 0 when the
+ * remainder is 0 or 1.
+ */
+export const accessKeyCheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 2; i >= 0; i--, weight = weight === 9 ? 2 : weight + 1) {
+    sum += Number(digits[i]) * weight;
+  }
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+export const isAccessKeyFormat = (key: string): boolean => /^\d{44}$/.test(key);
+
+export const isValidAccessKey = (key: string): boolean =>
+  isAccessKeyFormat(key) && accessKeyCheckDigit(key.slice(0, 43)) === Number(key[43]);
+
+/**
+ * Fields packed into a 44-digit key. The check digit is not verified here (see isValidAccessKey).
+ */
+export const decodeAccessKey = (key: string): AccessKeyFields => ({
+  ufCode: key.slice(0, 2),
+  uf: UF_CODES[key.slice(0, 2)] ?? null,
+  year: 2000 + Number(key.slice(2, 4)),
+  month: Number(key.slice(4, 6)),
+  issuerId: key.slice(6, 20),
+  model: key.slice(20, 22),
+  series: key.slice(22, 25),
+  number: key.slice(25, 34),
+  emissionType: key.slice(34, 35),
+  numericCode: key.slice(35, 43),
+  checkDigit: key.slice(43),
+});
+
+// Groups of four digits, as printed on the DANFE / DACTE
+export const formatAccessKey = (key: string): string => key.replace(/(\d{4})(?=\d)/g, '$1 ');
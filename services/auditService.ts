@@ -0,0 +1,280 @@
+import { AuditEntry, AuditEventType, AuditVerificationResult } from '../types';
+import { completion, toPromise } from './indexedDbRepository';
+import { getSessionActor } from './session';
+import { AUDIT_LOG_STORE, STATION_VALUES_STORE, getStationDatabase } from './stationDatabase';
+
+// Sequence and hash of the newest entry, kept apart from the log so truncation is detectable
+const AUDIT_HEAD_KEY = 'auditHead';
+// Entries for saved changes that could not be logged yet; a short list, so localStorage is enough
+const PENDING_AUDIT_STORAGE_KEY = 'ticket_audit_pending';
+// Where the log lived before it moved to IndexedDB; imported once, then removed
+const LEGACY_AUDIT_LOG_STORAGE_KEY = 'ticket_audit_log';
+const LEGACY_AUDIT_HEAD_STORAGE_KEY = 'ticket_audit_head';
+
+const GENESIS_HASH = '0'.repeat(64);
+const AUDIT_LOCK_NAME = 'ticket-audit-log';
+
+/**
+ * Serialises a value with sorted object keys, so the same entry always hashes the same way.
+ */
+const canonicalJson = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+    .join(',')}}`;
+};
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>): Promise<string> => sha256Hex(canonicalJson(entry));
+
+type AuditHead = { sequence: number; hash: string };
+
+/**
+ * Moves a log kept in localStorage by earlier versions into the station database, unless the
+ * database already has entries.
+ */
+const importLegacyLog = async (db: IDBDatabase): Promise<void> => {
+  const stored = localStorage.getItem(LEGACY_AUDIT_LOG_STORAGE_KEY);
+  if (stored === null) return;
+
+  const count = await toPromise(db.transaction(AUDIT_LOG_STORE).objectStore(AUDIT_LOG_STORE).count());
+  if (count === 0) {
+    const log: AuditEntry[] = JSON.parse(stored);
+    const head = localStorage.getItem(LEGACY_AUDIT_HEAD_STORAGE_KEY);
+    const transaction = db.transaction([AUDIT_LOG_STORE, STATION_VALUES_STORE], 'readwrite');
+    log.forEach(entry => transaction.objectStore(AUDIT_LOG_STORE).add(entry));
+    if (head !== null) transaction.objectStore(STATION_VALUES_STORE).put(JSON.parse(head), AUDIT_HEAD_KEY);
+    await completion(transaction);
+  }
+  localStorage.removeItem(LEGACY_AUDIT_LOG_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_AUDIT_HEAD_STORAGE_KEY);
+};
+
+let ready: Promise<IDBDatabase> | null = null;
+const auditDatabase = (): Promise<IDBDatabase> => {
+  ready ??= getStationDatabase()
+    .then(async db => { await importLegacyLog(db); return db; })
+    .catch(err => { ready = null; throw err; });
+  return ready;
+};
+
+const readLog = async (): Promise<AuditEntry[]> =>
+  toPromise((await auditDatabase()).transaction(AUDIT_LOG_STORE).objectStore(AUDIT_LOG_STORE).getAll());
+
+const readHead = async (): Promise<AuditHead | null> => {
+  const db = await auditDatabase();
+  const head = await toPromise(db.transaction(STATION_VALUES_STORE).objectStore(STATION_VALUES_STORE).get(AUDIT_HEAD_KEY));
+  return head ?? null;
+};
+
+const readLastEntry = async (): Promise<AuditEntry | null> => {
+  const db = await auditDatabase();
+  const cursor = await toPromise(db.transaction(AUDIT_LOG_STORE).objectStore(AUDIT_LOG_STORE).openCursor(null, 'prev'));
+  return cursor ? cursor.value : null;
+};
+
+// Appends are serialised within the tab; the Web Locks API extends that across tabs when available
+let appendQueue: Promise<unknown> = Promise.resolve();
+const withAuditLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = () => (navigator.locks ? navigator.locks.request(AUDIT_LOCK_NAME, task) : task());
+  const result = appendQueue.then(run, run);
+  appendQueue = result.catch(() => undefined);
+  return result;
+};
+
+interface AuditEvent {
+  eventType: AuditEventType;
+  ticketId: string;
+  summary: string;
+  data?: Record<string, unknown>;
+  actor: string;
+  timestamp: number;
+}
+
+/**
+ * Chains the event onto the newest entry and writes the entry and the new head in one
+ * transaction. Must run under the audit lock.
+ */
+const writeEntry = async (event: AuditEvent): Promise<AuditEntry> => {
+  const head = await readHead();
+  const previous = head ? null : await readLastEntry();
+
+  const unsigned: Omit<AuditEntry, 'hash'> = {
+    sequence: (head?.sequence ?? previous?.sequence ?? 0) + 1,
+    timestamp: event.timestamp,
+    eventType: event.eventType,
+    ticketId: event.ticketId,
+    actor: event.actor,
+    summary: event.summary,
+    data: event.data,
+    previousHash: head?.hash ?? previous?.hash ?? GENESIS_HASH,
+  };
+  const entry: AuditEntry = { ...unsigned, hash: await hashEntry(unsigned) };
+
+  const transaction = (await auditDatabase()).transaction([AUDIT_LOG_STORE, STATION_VALUES_STORE], 'readwrite');
+  transaction.objectStore(AUDIT_LOG_STORE).add(entry); // add, not put: never overwrites an entry
+  transaction.objectStore(STATION_VALUES_STORE).put({ sequence: entry.sequence, hash: entry.hash }, AUDIT_HEAD_KEY);
+  await completion(transaction);
+  return entry;
+};
+
+const readPending = (): AuditEvent[] => {
+  const stored = localStorage.getItem(PENDING_AUDIT_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writePending = (events: AuditEvent[]): void => {
+  if (events.length > 0) localStorage.setItem(PENDING_AUDIT_STORAGE_KEY, JSON.stringify(events));
+  else localStorage.removeItem(PENDING_AUDIT_STORAGE_KEY);
+};
+
+const unwrittenListeners = new Set<(count: number) => void>();
+const publishUnwritten = (): void => {
+  const count = readPending().length;
+  unwrittenListeners.forEach(listener => listener(count));
+};
+
+/**
+ * Writes the pending entries, oldest first, removing each one once it is in the log. Stops at
+ * the first failure and throws it. Must run under the audit lock.
+ */
+const writePendingEntries = async (): Promise<void> => {
+  let pending = readPending();
+  if (pending.length === 0) return;
+  try {
+    while (pending.length > 0) {
+      await writeEntry(pending[0]);
+      pending = pending.slice(1);
+      writePending(pending);
+    }
+  } finally {
+    publishUnwritten();
+  }
+};
+
+/**
+ * Appends an event to the hash-chained audit log, after any pending entries. Entries are never
+ * rewritten or removed. Throws when the log cannot be written.
+ */
+export const appendAuditEntry = async (
+  eventType: AuditEventType,
+  ticketId: string,
+  summary: string,
+  data?: Record<string, unknown>,
+  actor: string = getSessionActor()
+): Promise<AuditEntry> => {
+  const event: AuditEvent = { eventType, ticketId, summary, data, actor, timestamp: Date.now() };
+  return withAuditLock(async () => {
+    await writePendingEntries();
+    return writeEntry(event);
+  });
+};
+
+/**
+ * Writes the entries kept by recordAuditEntry, oldest first. Stops at the first failure and throws it.
+ */
+export const retryUnwrittenAuditEntries = (): Promise<void> => withAuditLock(writePendingEntries);
+
+/**
+ * Appends the entry for a change that is already saved. A failure does not undo the change, so
+ * that it is never repeated just to get it logged: the entry is kept in localStorage, reported to
+ * the subscribers and written before the next entry or on retryUnwrittenAuditEntries. Throws
+ * only when the entry can be neither written nor kept.
+ */
+export const recordAuditEntry = async (
+  eventType: AuditEventType,
+  ticketId: string,
+  summary: string,
+  data?: Record<string, unknown>,
+  actor: string = getSessionActor()
+): Promise<void> => {
+  const event: AuditEvent = { eventType, ticketId, summary, data, actor, timestamp: Date.now() };
+  try {
+    await withAuditLock(async () => {
+      await writePendingEntries();
+      await writeEntry(event);
+    });
+  } catch (err) {
+    console.error('Failed to write the audit log', err);
+    writePending([...readPending(), event]);
+    publishUnwritten();
+  }
+};
+
+/**
+ * Calls the listener now and whenever the number of unwritten entries changes. Returns the unsubscribe function.
+ */
+export const subscribeUnwrittenAuditEntries = (listener: (count: number) => void): (() => void) => {
+  unwrittenListeners.add(listener);
+  listener(readPending().length);
+  return () => { unwrittenListeners.delete(listener); };
+};
+
+/**
+ * Lists the field-level changes between two versions of a record, for "edited" entries.
+ */
+export const diffFields = <T extends object>(before: T, after: T): Record<string, { from: unknown; to: unknown }> => {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.delete('sync'); // Sync bookkeeping changes on every write
+  keys.forEach(key => {
+    const from = (before as Record<string, unknown>)[key];
+    const to = (after as Record<string, unknown>)[key];
+    if (canonicalJson(from) !== canonicalJson(to)) changes[key] = { from, to };
+  });
+  return changes;
+};
+
+export const fetchAuditLog = async (ticketId?: string): Promise<AuditEntry[]> => {
+  const log = await readLog();
+  return ticketId ? log.filter(e => e.ticketId === ticketId) : log;
+};
+
+/**
+ * Recomputes every hash and checks the links between entries. Detects edited entries,
+ * removed or reordered entries, and a truncated tail (through the stored head).
+ */
+export const verifyAuditChain = async (): Promise<AuditVerificationResult> => {
+  const [log, head] = await Promise.all([readLog(), readHead()]);
+  const problems: AuditVerificationResult['problems'] = [];
+
+  let expectedPreviousHash = GENESIS_HASH;
+  for (let i = 0; i < log.length; i++) {
+    const { hash, ...unsigned } = log[i];
+
+    if (unsigned.sequence !== i + 1) {
+      problems.push({ sequence: unsigned.sequence, code: 'sequence-gap', params: { expected: String(i + 1) } });
+    }
+    if (unsigned.previousHash !== expectedPreviousHash) {
+      problems.push({ sequence: unsigned.sequence, code: 'chain-broken' });
+    }
+    if ((await hashEntry(unsigned)) !== hash) {
+      problems.push({ sequence: unsigned.sequence, code: 'content-altered' });
+    }
+    expectedPreviousHash = hash;
+  }
+
+  const last = log[log.length - 1];
+  if (head && (!last || last.sequence !== head.sequence || last.hash !== head.hash)) {
+    problems.push({ sequence: head.sequence, code: 'tail-removed' });
+  }
+  if (!head && log.length > 0) {
+    problems.push({ sequence: last.sequence, code: 'head-missing' });
+  }
+
+  return {
+    valid: problems.length === 0,
+    entryCount: log.length,
+    verifiedAt: Date.now(),
+    headHash: head?.hash ?? null,
+    problems,
+  };
+};
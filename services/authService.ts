@@ -0,0 +1,166 @@
+import { ApprovalAction, AuthSettings, SupervisorApproval, UserAccount, UserRole, UserSession } from '../types';
+import { readSetting } from './repository';
+import { appendAuditEntry } from './auditService';
+import { getSession, startSession, updateSession } from './session';
+import { DEFAULT_LOCALE, LocalizedMessage, localizedError, translate } from './i18n';
+import { MessageKey } from '../locales/pt-BR';
+
+// Keys for localStorage
+const AUTH_SETTINGS_STORAGE_KEY = 'auth_settings';
+
+// OWASP minimum for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+const HASH_SCHEME = 'pbkdf2-sha256';
+
+export const DEFAULT_AUTH_SETTINGS: AuthSettings = {
+  users: [],
+  lockAfterMinutes: 10,
+};
+
+export const ROLE_LABELS: Record<UserRole, MessageKey> = {
+  operator: 'role.operator',
+  supervisor: 'role.supervisor',
+  admin: 'role.admin',
+};
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, MessageKey> = {
+  'weight-override': 'approval.action.weight-override',
+  'ticket-cancel': 'approval.action.ticket-cancel',
+  'ticket-correct': 'approval.action.ticket-correct',
+  'tare-edit': 'approval.action.tare-edit',
+  'settings-change': 'approval.action.settings-change',
+  'duplicate-document': 'approval.action.duplicate-document',
+};
+
+const ROLE_RANK: Record<UserRole, number> = { operator: 0, supervisor: 1, admin: 2 };
+
+export const hasRole = (role: UserRole, required: UserRole): boolean => ROLE_RANK[role] >= ROLE_RANK[required];
+
+export const loadAuthSettings = (): AuthSettings => readSetting(AUTH_SETTINGS_STORAGE_KEY, DEFAULT_AUTH_SETTINGS);
+
+/**
+ * Accounts hold the password and PIN hashes, so they stay on this station and are never
+ * written through to the repository.
+ */
+export const saveAuthSettings = (settings: AuthSettings): void => {
+  localStorage.setItem(AUTH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => new Uint8Array((hex.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+
+const deriveKey = async (secret: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+/**
+ * Salted PBKDF2 hash of a password or PIN, stored with its parameters so the iteration count
+ * can grow without invalidating existing accounts.
+ */
+export const hashSecret = async (secret: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return `${HASH_SCHEME}$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(await deriveKey(secret, salt, PBKDF2_ITERATIONS))}`;
+};
+
+export const verifySecret = async (secret: string, stored: string): Promise<boolean> => {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== HASH_SCHEME || !salt || !hash) return false;
+  const derived = toHex(await deriveKey(secret, fromHex(salt), Number(iterations)));
+  // Compare every character so the time taken does not reveal the matching prefix
+  let difference = derived.length ^ hash.length;
+  for (let i = 0; i < derived.length; i++) difference |= derived.charCodeAt(i) ^ (hash.charCodeAt(i) || 0);
+  return difference === 0;
+};
+
+export interface UserAccountInput {
+  userId: string;
+  name: string;
+  role: UserRole;
+  password: string; // Empty keeps the current password when editing
+  pin: string; // Empty keeps the current PIN when editing
+}
+
+/**
+ * Problems that prevent an account from being saved. `existing` is the stored account when editing.
+ */
+export const validateUserAccount = (input: UserAccountInput, users: UserAccount[], existing?: UserAccount): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+  if (!/^[a-z0-9._-]{3,32}$/.test(input.userId)) errors.push({ key: 'users.error.login' });
+  else if (!existing && users.some(u => u.userId === input.userId)) errors.push({ key: 'users.error.loginTaken', params: { userId: input.userId } });
+  if (!input.name.trim()) errors.push({ key: 'users.error.name' });
+  if ((!existing || input.password) && input.password.length < 8) errors.push({ key: 'users.error.password' });
+  if (input.pin && !/^\d{4,8}$/.test(input.pin)) errors.push({ key: 'users.error.pin' });
+  if (input.role !== 'operator' && !input.pin && !existing?.pinHash) errors.push({ key: 'users.error.pinRequired' });
+  // The last active administrator cannot lose the role
+  const otherAdmins = users.filter(u => u.active && u.role === 'admin' && u.userId !== existing?.userId);
+  if (existing?.role === 'admin' && input.role !== 'admin' && otherAdmins.length === 0) errors.push({ key: 'users.error.lastAdmin' });
+  return errors;
+};
+
+export const buildUserAccount = async (input: UserAccountInput, existing?: UserAccount): Promise<UserAccount> => ({
+  userId: input.userId,
+  name: input.name.trim(),
+  role: input.role,
+  active: existing?.active ?? true,
+  passwordHash: input.password ? await hashSecret(input.password) : existing!.passwordHash,
+  // Operators never approve, so they keep no PIN
+  pinHash: input.role === 'operator' ? null : input.pin ? await hashSecret(input.pin) : existing?.pinHash ?? null,
+  createdAt: existing?.createdAt ?? Date.now(),
+});
+
+export const login = async (userId: string, password: string): Promise<UserSession> => {
+  const user = loadAuthSettings().users.find(u => u.userId === userId.trim().toLowerCase() && u.active);
+  if (!user || !(await verifySecret(password, user.passwordHash))) throw localizedError('login.invalidCredentials');
+  return startSession(user);
+};
+
+/**
+ * Unlocks an idle session with the password of the same user.
+ */
+export const unlockSession = async (password: string): Promise<UserSession> => {
+  const session = getSession();
+  const user = session && loadAuthSettings().users.find(u => u.userId === session.userId && u.active);
+  if (!user || !(await verifySecret(password, user.passwordHash))) throw localizedError('login.invalidPassword');
+  return updateSession({ locked: false, lastActivityAt: Date.now() })!;
+};
+
+// Active accounts that can approve sensitive actions
+export const listApprovers = (): UserAccount[] =>
+  loadAuthSettings().users.filter(u => u.active && hasRole(u.role, 'supervisor') && u.pinHash);
+
+/**
+ * Checks a supervisor's PIN for a sensitive action and logs the approval. The audit entry is
+ * written before the action itself, so a failed action still shows who approved it.
+ */
+export const approveAction = async (
+  supervisorId: string,
+  pin: string,
+  action: ApprovalAction,
+  reason: string,
+  ticketId: string = '',
+  details: string = '' // What is being approved, e.g. the vehicle and weight of a tare
+): Promise<SupervisorApproval> => {
+  const supervisor = listApprovers().find(u => u.userId === supervisorId);
+  if (!supervisor || !(await verifySecret(pin, supervisor.pinHash!))) throw localizedError('approval.invalidPin');
+
+  const approval: SupervisorApproval = {
+    action,
+    supervisorId: supervisor.userId,
+    supervisorName: supervisor.name,
+    requestedBy: getSession()?.userId ?? null,
+    reason,
+    timestamp: Date.now(),
+  };
+  // Audit entries are written in the default language, whatever the screen shows
+  await appendAuditEntry(
+    'approved',
+    ticketId,
+    `${translate(DEFAULT_LOCALE, APPROVAL_ACTION_LABELS[action])}${details ? ` (${details})` : ''} aprovado(a) pelo supervisor ${supervisor.name}${reason ? `: ${reason}` : ''}`,
+    { ...approval, details: details || undefined },
+    supervisor.name
+  );
+  return approval;
+};
@@ -0,0 +1,206 @@
+import { WeighingTicket } from '../types';
+import { DEFAULT_SITE, formatCnpj } from './siteSettings';
+import { createI18n } from './i18n';
+import { describeViolation } from './weightValidation';
+import { hasSimulatedReading } from './scaleService';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// ESC t 2 selects PC850 (Multilingual), which covers Portuguese and Spanish
+const CODE_PAGE_PC850 = 2;
+
+// Latin characters used in pt-BR and es text and their PC850 code points
+const PC850: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'à': 0x85, 'ç': 0x87, 'ê': 0x88, 'É': 0x90,
+  'ô': 0x93, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ª': 0xa6, 'º': 0xa7, 'Á': 0xb5,
+  'Â': 0xb6, 'À': 0xb7, 'ã': 0xc6, 'Ã': 0xc7, 'Ê': 0xd2, 'Í': 0xd6, 'Ó': 0xe0, 'Ô': 0xe2,
+  'õ': 0xe4, 'Õ': 0xe5, 'Ú': 0xe9, '°': 0xf8, '·': 0xfa, '×': 0x9e, 'ñ': 0xa4, 'Ñ': 0xa5,
+  '¿': 0xa8, '¡': 0xad, 'Ü': 0x9a,
+};
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+const ALIGN_CODES: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+
+/**
+ * Encodes text for the printer: ASCII as is, known accents through PC850, anything else
+ * without its diacritics (or '?').
+ */
+export const encodeText = (text: string): number[] =>
+  Array.from(text).flatMap(char => {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f) return [code];
+    if (char === '\n') return [LF];
+    if (/\s/.test(char)) return [0x20]; // e.g. the narrow no-break space of some locale formats
+    if (PC850[char] !== undefined) return [PC850[char]];
+    const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return plain.length === 1 && plain.charCodeAt(0) < 0x7f ? [plain.charCodeAt(0)] : [0x3f];
+  });
+
+/**
+ * Chainable builder for an ESC/POS command stream (Epson TM compatible).
+ */
+export const createEscPosBuilder = (columns = 48) => {
+  const bytes: number[] = [];
+  const push = (...values: number[]) => { bytes.push(...values); };
+
+  const builder = {
+    columns,
+    initialize: () => { push(ESC, 0x40, ESC, 0x74, CODE_PAGE_PC850); return builder; },
+    align: (align: EscPosAlign) => { push(ESC, 0x61, ALIGN_CODES[align]); return builder; },
+    bold: (on: boolean) => { push(ESC, 0x45, on ? 1 : 0); return builder; },
+    // Character magnification, 1 to 8 in each direction
+    size: (width: number, height: number) => { push(GS, 0x21, ((width - 1) << 4) | (height - 1)); return builder; },
+    text: (text: string) => { push(...encodeText(text)); return builder; },
+    line: (text = '') => { push(...encodeText(text), LF); return builder; },
+    // Label on the left, value on the right, padded to the full width
+    pair: (label: string, value: string) => {
+      const gap = Math.max(1, columns - label.length - value.length);
+      return builder.line(`${label}${' '.repeat(gap)}${value}`);
+    },
+    rule: (char = '-') => builder.line(char.repeat(columns)),
+    feed: (lines = 1) => { push(ESC, 0x64, lines); return builder; },
+    // Model 2 QR code: module size 1-16, error correction M
+    qrCode: (data: string, moduleSize = 6) => {
+      const payload = encodeText(data);
+      const length = payload.length + 3;
+      push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31);
+      push(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...payload);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+      return builder;
+    },
+    // Feeds past the cutter and performs a partial cut
+    cut: () => { push(GS, 0x56, 0x42, 0x03); return builder; },
+    encode: () => Uint8Array.from(bytes),
+  };
+  return builder;
+};
+
+// Splits text into lines of at most `columns` characters, breaking at spaces where possible
+export const wrapText = (text: string, columns: number): string[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let current = '';
+    paragraph.split(' ').forEach(word => {
+      if (current && current.length + 1 + word.length > columns) {
+        lines.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${word}` : word;
+      while (current.length > columns) {
+        lines.push(current.slice(0, columns));
+        current = current.slice(columns);
+      }
+    });
+    return [...lines, current];
+  });
+
+/**
+ * The same content as the 80 mm ticket template, as a raw ESC/POS stream ending with a cut.
+ */
+export const encodeTicketEscPos = (ticket: WeighingTicket, columns = 48): Uint8Array => {
+  const site = ticket.site ?? DEFAULT_SITE;
+  const i18n = createI18n(site.ticketLocale);
+  const { t, formatKg, formatDate, formatTime, formatDateTime } = i18n;
+  const formatWeighingTime = (timestamp?: number) =>
+    timestamp ? formatDateTime(timestamp, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) : '';
+  const p = createEscPosBuilder(columns);
+  const netWeight = ticket.netWeightMeasured ?? ticket.grossWeightCalculated - ticket.truckTareWeight;
+
+  p.initialize().align('center');
+  p.bold(true);
+  wrapText((site.tradeName || site.legalName).toUpperCase(), columns).forEach(l => p.line(l));
+  p.bold(false);
+  if (site.tradeName && site.tradeName !== site.legalName) wrapText(site.legalName, columns).forEach(l => p.line(l));
+  if (site.cnpj) p.line(`CNPJ ${formatCnpj(site.cnpj)}`);
+  p.line(site.address).line([site.city, site.state, t('ticket.country')].filter(Boolean).join(', '));
+  p.rule('=');
+
+  if (ticket.ticketStatus === 'Cancelled') {
+    p.bold(true).size(2, 2).line(t('ticket.cancelled')).size(1, 1).bold(false);
+    if (ticket.cancellation) {
+      const c = ticket.cancellation;
+      wrapText(t('ticket.cancelledBy', { date: formatDateTime(c.timestamp), name: c.cancelledBy, reason: c.reason }), columns).forEach(l => p.line(l));
+      if (c.replacedByTicketId) p.line(t('ticket.replacedBy', { id: c.replacedByTicketId }));
+    }
+    p.rule('=');
+  }
+  if ((ticket.reprintCount ?? 0) > 0) {
+    p.bold(true).line(t('ticket.reprint', { count: ticket.reprintCount ?? 0 })).bold(false);
+  }
+  if (hasSimulatedReading(ticket)) {
+    wrapText(`*** ${t('ticket.simulated')} ***`, columns).forEach(l => p.bold(true).line(l).bold(false));
+  }
+
+  p.align('left');
+  p.pair(t('ticket.number'), ticket.id || t('ticket.pending'));
+  p.pair(t('ticket.date'), formatDate(ticket.issueTimestamp));
+  p.pair(t('ticket.plate'), ticket.truckPlateNumber);
+  p.pair(t('ticket.time'), formatTime(ticket.issueTimestamp));
+  p.pair(t('ticket.invoiceRef'), ticket.invoiceId);
+  if (ticket.correctsTicketId) p.pair(t('ticket.replaces'), ticket.correctsTicketId);
+  if (ticket.issuedBy) p.pair(t('ticket.operator'), ticket.issuedBy.name);
+  p.rule();
+
+  p.line(`${t('ticket.grossEntry')} ${formatWeighingTime(ticket.entryTimestamp)}`.trim());
+  p.align('right').line(formatKg(ticket.grossWeightCalculated)).align('left');
+  p.line(ticket.exitReading ? `${t('ticket.exitTare')} ${formatWeighingTime(ticket.exitTimestamp)}` : t('ticket.storedTare'));
+  p.align('right').line(formatKg(ticket.truckTareWeight)).align('left');
+  p.bold(true).line(t('ticket.measuredNet'));
+  p.align('right').size(1, 2).line(formatKg(netWeight)).size(1, 1).bold(false).align('left');
+
+  const violations = ticket.weightValidation?.violations ?? [];
+  if (violations.length > 0) {
+    p.rule().align('center').bold(true).line(t('ticket.overweight')).bold(false).align('left');
+    violations.forEach(v => wrapText(`${describeViolation(i18n, v)}: +${formatKg(v.excess)}`, columns).forEach(l => p.line(l)));
+    if (ticket.override) wrapText(t('ticket.releasedBy', { name: ticket.override.supervisorName, reason: ticket.override.reason }), columns).forEach(l => p.line(l));
+  }
+
+  p.align('center');
+  if (ticket.signedPayload) {
+    p.feed(1).qrCode(ticket.signedPayload).line(t('ticket.verifyQr'));
+  }
+
+  p.rule();
+  if (site.scaleSerial || site.inmetroSeal) {
+    p.line([site.scaleSerial && t('ticket.scaleSerial', { serial: site.scaleSerial }), site.inmetroSeal && t('ticket.inmetroSeal', { seal: site.inmetroSeal })].filter(Boolean).join(' · '));
+  }
+  if (site.footerText) wrapText(site.footerText, columns).forEach(l => p.line(l));
+  p.line(t('ticket.signature')).feed(3).line('__________________________');
+
+  return p.feed(4).cut().encode();
+};
+
+/**
+ * Offset, hex and printable characters, 16 bytes per line (like `xxd`), to check the
+ * stream without a printer.
+ */
+export const hexDump = (bytes: Uint8Array): string => {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const chunk = Array.from(bytes.slice(offset, offset + 16));
+    const hex = chunk.map(b => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = chunk.map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Short page with accents, styles, a QR code and a cut, to check a printer setup.
+ */
+export const encodeTestPage = (columns = 48): Uint8Array =>
+  createEscPosBuilder(columns)
+    .initialize()
+    .align('center').bold(true).size(2, 2).line('TESTE').size(1, 1).bold(false)
+    .line('Impressão ESC/POS')
+    .line('ÁÉÍÓÚ ÂÊÔ ÃÕ Ç áéíóú âêô ãõ ç')
+    .rule()
+    .align('left').pair('Colunas:', String(columns))
+    .pair('Data:', new Date().toLocaleString('pt-BR'))
+    .align('center').feed(1).qrCode('ScaleTicket Pro', 4)
+    .feed(4).cut().encode();
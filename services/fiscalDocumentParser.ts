@@ -0,0 +1,418 @@
+import {
+  CargoQuantity,
+  DocumentVehicle,
+  FiscalAddress,
+  FiscalDocument,
+  FiscalDocumentType,
+  FiscalParseIssue,
+  FiscalParseOutcome,
+  FiscalParty,
+  ParseIssueCode,
+  TransportedVolume,
+} from '../types';
+import { normalizePlate } from './plates';
+import { decodeAccessKey, isAccessKeyFormat, isValidAccessKey } from './accessKey';
+
+// Signed wrapper, info root and expected <mod> for each supported layout.
+// The wrapper matters: CT-e and MDF-e also carry <infNFe> groups referencing invoices.
+const LAYOUTS: Record<FiscalDocumentType, { wrapper: string; root: string; model: FiscalDocument['model'] }> = {
+  NFe: { wrapper: 'NFe', root: 'infNFe', model: '55' },
+  CTe: { wrapper: 'CTe', root: 'infCte', model: '57' },
+  MDFe: { wrapper: 'MDFe', root: 'infMDFe', model: '58' },
+};
+
+// CT-e infQ/cUnid and MDF-e tot/cUnid
+const UNIT_LABELS: Record<string, string> = {
+  '00': 'M3',
+  '01': 'KG',
+  '02': 'TON',
+  '03': 'UNIDADE',
+  '04': 'LITROS',
+  '05': 'MMBTU',
+};
+
+// Layout code and name, e.g. "01-KG"; a code outside the table is shown alone
+const describeUnit = (unitCode: string): string =>
+  UNIT_LABELS[unitCode] ? `${unitCode}-${UNIT_LABELS[unitCode]}` : unitCode;
+
+const EMPTY_PARTY: FiscalParty = { cnpj: null, cpf: null, name: null, tradeName: null, stateRegistration: null, address: null };
+
+// --- Namespace-agnostic DOM helpers (all layouts use the portalfiscal default namespace) ---
+
+const childElements = (parent: Element | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter(el => el.localName === name) : [];
+
+/**
+ * Follows a path of direct children, e.g. "ide/nCT". Returns the first match at every step.
+ */
+const at = (parent: Element | null | undefined, path: string): Element | null => {
+  let current: Element | null = parent ?? null;
+  for (const part of path.split('/')) {
+    current = childElements(current, part)[0] ?? null;
+    if (!current) return null;
+  }
+  return current;
+};
+
+const all = (parent: Element | null | undefined, path: string): Element[] => {
+  const parts = path.split('/');
+  const last = parts.pop()!;
+  const container = parts.length > 0 ? at(parent, parts.join('/')) : parent;
+  return childElements(container, last);
+};
+
+const text = (parent: Element | null | undefined, path: string): string | null =>
+  at(parent, path)?.textContent?.trim() || null;
+
+const decimal = (parent: Element | null | undefined, path: string): number | null => {
+  const value = text(parent, path);
+  if (value === null) return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const findRoot = (doc: Document, type: FiscalDocumentType): Element | null => {
+  const { wrapper, root } = LAYOUTS[type];
+  return Array.from(doc.getElementsByTagNameNS('*', root)).find(el => el.parentElement?.localName === wrapper) ?? null;
+};
+
+// --- Shared blocks ---
+
+const parseAddress = (el: Element | null): FiscalAddress | null => {
+  if (!el) return null;
+  return {
+    street: text(el, 'xLgr'),
+    number: text(el, 'nro'),
+    complement: text(el, 'xCpl'),
+    district: text(el, 'xBairro'),
+    cityCode: text(el, 'cMun'),
+    city: text(el, 'xMun'),
+    state: text(el, 'UF'),
+    zipCode: text(el, 'CEP'),
+  };
+};
+
+const parseParty = (el: Element | null, addressTag: string): FiscalParty | null => {
+  if (!el) return null;
+  return {
+    cnpj: text(el, 'CNPJ'),
+    cpf: text(el, 'CPF'),
+    name: text(el, 'xNome'),
+    tradeName: text(el, 'xFant'),
+    stateRegistration: text(el, 'IE'),
+    address: parseAddress(at(el, addressTag)),
+  };
+};
+
+const parseVehicle = (el: Element, role: DocumentVehicle['role'], rntrc: string | null): DocumentVehicle | null => {
+  const plate = text(el, 'placa');
+  if (!plate) return null;
+  return {
+    role,
+    plate: normalizePlate(plate),
+    state: text(el, 'UF'),
+    rntrc: text(el, 'RNTRC') || text(el, 'RNTC') || text(el, 'prop/RNTRC') || rntrc,
+    renavam: text(el, 'RENAVAM'),
+    tareWeight: decimal(el, 'tara'),
+    capacityKg: decimal(el, 'capKG'),
+  };
+};
+
+const toKg = (quantity: number, unitCode: string): number | null => {
+  if (unitCode === '01') return quantity;
+  if (unitCode === '02') return Math.round(quantity * 1000 * 1000) / 1000;
+  return null;
+};
+
+/**
+ * Access key from the Id attribute ("NFe" / "CTe" / "MDFe" + 44 digits).
+ */
+const accessKeyFromId = (root: Element, type: FiscalDocumentType): string | null => {
+  const id = root.getAttribute('Id') || '';
+  const digits = id.startsWith(type) ? id.slice(type.length) : id.replace(/\D/g, '');
+  return isAccessKeyFormat(digits) ? digits : null;
+};
+
+/**
+ * Access key repeated in the authorization protocol of a *Proc file (protCTe/infProt/chCTe...).
+ */
+const accessKeyFromProtocol = (doc: Document, type: FiscalDocumentType): string | null => {
+  const protocol = doc.getElementsByTagNameNS('*', `prot${type}`)[0];
+  const key = text(protocol, `infProt/ch${type}`);
+  return key && isAccessKeyFormat(key) ? key : null;
+};
+
+// --- Layout parsers ---
+
+type ReportIssue = (
+  path: string | null,
+  code: ParseIssueCode,
+  params?: Record<string, string>,
+  severity?: FiscalParseIssue['severity']
+) => void;
+
+const parseNFe = (root: Element, issue: ReportIssue) => {
+  const products = all(root, 'det').map(det => ({
+    name: text(det, 'prod/xProd'),
+    value: decimal(det, 'prod/vProd') ?? 0,
+  }));
+  // The predominant product is the one with the highest value in the invoice
+  const predominant = products.reduce<{ name: string | null; value: number } | null>(
+    (best, p) => (!best || p.value > best.value ? p : best), null);
+
+  const volumes: TransportedVolume[] = all(root, 'transp/vol').map(vol => ({
+    quantity: decimal(vol, 'qVol'),
+    species: text(vol, 'esp'),
+    brand: text(vol, 'marca'),
+    numbering: text(vol, 'nVol'),
+    netWeight: decimal(vol, 'pesoL'),
+    grossWeight: decimal(vol, 'pesoB'),
+  }));
+
+  const vehicles: DocumentVehicle[] = [];
+  const tractor = at(root, 'transp/veicTransp');
+  if (tractor) {
+    const vehicle = parseVehicle(tractor, 'tractor', null);
+    if (vehicle) vehicles.push(vehicle);
+  }
+  all(root, 'transp/reboque').forEach(el => {
+    const vehicle = parseVehicle(el, 'trailer', null);
+    if (vehicle) vehicles.push(vehicle);
+  });
+
+  let netWeightKg: number | null = null;
+  let weightSource: string | null = null;
+  const weighed = volumes.filter(v => v.netWeight !== null);
+  if (weighed.length > 0) {
+    netWeightKg = weighed.reduce((sum, v) => sum + (v.netWeight || 0), 0);
+    weightSource = `transp/vol/pesoL (${weighed.length} volume${weighed.length > 1 ? 's' : ''})`;
+  } else if (volumes.some(v => v.grossWeight !== null)) {
+    issue('transp/vol/pesoL', 'nfe-gross-weight-only');
+  } else {
+    issue('transp/vol', 'nfe-no-volume-weight');
+  }
+
+  return {
+    number: text(root, 'ide/nNF'),
+    numberPath: 'ide/nNF',
+    sender: null,
+    recipient: parseParty(at(root, 'dest'), 'enderDest'),
+    quantities: [] as CargoQuantity[],
+    volumes,
+    predominantProduct: predominant?.name ?? null,
+    cargoValue: decimal(root, 'total/ICMSTot/vNF'),
+    vehicles,
+    netWeightKg,
+    weightSource,
+    referencedKeys: all(root, 'ide/NFref').map(ref => text(ref, 'refNFe')).filter((k): k is string => !!k),
+  };
+};
+
+const parseCTe = (root: Element, issue: ReportIssue) => {
+  const cargo = at(root, 'infCTeNorm/infCarga');
+  if (!at(root, 'infCTeNorm')) {
+    issue('infCTeNorm', 'cte-without-cargo');
+  }
+
+  const quantities: CargoQuantity[] = all(cargo, 'infQ').map(q => {
+    const unitCode = text(q, 'cUnid') || '';
+    return {
+      unitCode,
+      unitLabel: UNIT_LABELS[unitCode] ?? null,
+      measureType: (text(q, 'tpMed') || '').toUpperCase(),
+      quantity: decimal(q, 'qCarga') ?? 0,
+    };
+  });
+
+  // Weight: prefer the "PESO REAL" measure, then any other weight measure in KG/TON
+  const weightEntries = quantities.filter(q => q.unitCode === '01' || q.unitCode === '02');
+  const chosen = weightEntries.find(q => q.measureType.includes('PESO REAL'))
+    || weightEntries.find(q => q.measureType.includes('PESO') && !q.measureType.includes('CUBAD') && !q.measureType.includes('BASE'))
+    || weightEntries[0];
+
+  let netWeightKg: number | null = null;
+  let weightSource: string | null = null;
+  if (chosen) {
+    netWeightKg = toKg(chosen.quantity, chosen.unitCode);
+    weightSource = ['infQ', chosen.measureType, `(${describeUnit(chosen.unitCode)})`].filter(Boolean).join(' ');
+    if (!chosen.measureType.includes('PESO REAL')) {
+      issue('infCTeNorm/infCarga/infQ/tpMed', 'cte-real-weight-missing', { source: weightSource }, 'warning');
+    }
+  } else if (quantities.length > 0) {
+    issue('infCTeNorm/infCarga/infQ/cUnid', 'cte-no-weight-unit', { units: quantities.map(q => q.unitCode).join(', ') });
+  } else {
+    issue('infCTeNorm/infCarga/infQ', 'cte-no-quantities');
+  }
+
+  const rodo = at(root, 'infCTeNorm/infModal/rodo');
+  const rntrc = text(rodo, 'RNTRC');
+  const vehicles = all(rodo, 'veic')
+    .map((el, index) => parseVehicle(el, index === 0 ? 'tractor' : 'trailer', rntrc))
+    .filter((v): v is DocumentVehicle => !!v);
+
+  return {
+    number: text(root, 'ide/nCT'),
+    numberPath: 'ide/nCT',
+    sender: parseParty(at(root, 'rem'), 'enderReme'),
+    recipient: parseParty(at(root, 'dest'), 'enderDest'),
+    quantities,
+    volumes: [] as TransportedVolume[],
+    predominantProduct: text(cargo, 'proPred'),
+    cargoValue: decimal(cargo, 'vCarga'),
+    vehicles,
+    netWeightKg,
+    weightSource,
+    referencedKeys: all(root, 'infCTeNorm/infDoc/infNFe').map(nfe => text(nfe, 'chave')).filter((k): k is string => !!k),
+  };
+};
+
+const parseMDFe = (root: Element, issue: ReportIssue) => {
+  const rodo = at(root, 'infModal/rodo');
+  const rntrc = text(rodo, 'infANTT/RNTRC');
+  const vehicles: DocumentVehicle[] = [];
+  const tractor = at(rodo, 'veicTracao');
+  if (tractor) {
+    const vehicle = parseVehicle(tractor, 'tractor', rntrc);
+    if (vehicle) vehicles.push(vehicle);
+  } else {
+    issue('infModal/rodo/veicTracao', 'mdfe-tractor-missing', undefined, 'warning');
+  }
+  all(rodo, 'veicReboque').forEach(el => {
+    const vehicle = parseVehicle(el, 'trailer', rntrc);
+    if (vehicle) vehicles.push(vehicle);
+  });
+
+  const unitCode = text(root, 'tot/cUnid') || '';
+  const quantity = decimal(root, 'tot/qCarga');
+  const quantities: CargoQuantity[] = quantity !== null
+    ? [{ unitCode, unitLabel: UNIT_LABELS[unitCode] ?? null, measureType: 'PESO BRUTO TOTAL', quantity }]
+    : [];
+
+  let netWeightKg: number | null = null;
+  let weightSource: string | null = null;
+  if (quantity === null) {
+    issue('tot/qCarga', 'mdfe-total-weight-missing');
+  } else {
+    netWeightKg = toKg(quantity, unitCode);
+    if (netWeightKg === null) {
+      issue('tot/cUnid', 'mdfe-invalid-unit', { unit: unitCode });
+    } else {
+      weightSource = `tot/qCarga (${describeUnit(unitCode)})`;
+    }
+  }
+
+  const referencedKeys = all(root, 'infDoc/infMunDescarga').flatMap(mun => [
+    ...all(mun, 'infCTe').map(el => text(el, 'chCTe')),
+    ...all(mun, 'infNFe').map(el => text(el, 'chNFe')),
+  ]).filter((k): k is string => !!k);
+
+  return {
+    number: text(root, 'ide/nMDF'),
+    numberPath: 'ide/nMDF',
+    sender: null,
+    recipient: null,
+    quantities,
+    volumes: [] as TransportedVolume[],
+    predominantProduct: text(root, 'prodPred/xProd'),
+    cargoValue: decimal(root, 'tot/vCarga'),
+    vehicles,
+    netWeightKg,
+    weightSource,
+    referencedKeys,
+  };
+};
+
+/**
+ * Parses an NF-e (mod 55), CT-e (mod 57) or MDF-e (mod 58) XML, with or without the
+ * *Proc wrapper. Values are read from their exact layout paths only; anything missing
+ * or inconsistent is reported as an issue instead of being guessed.
+ */
+export const parseFiscalDocumentXml = (xmlText: string): FiscalParseOutcome => {
+  const issues: FiscalParseIssue[] = [];
+  const xmlDoc = new DOMParser().parseFromString(xmlText, 'text/xml');
+
+  if (xmlDoc.getElementsByTagName('parsererror').length > 0) {
+    issues.push({ severity: 'error', documentType: null, path: null, code: 'invalid-xml' });
+    return { document: null, issues };
+  }
+
+  const type = (Object.keys(LAYOUTS) as FiscalDocumentType[]).find(t => findRoot(xmlDoc, t));
+  if (!type) {
+    issues.push({ severity: 'error', documentType: null, path: null, code: 'unknown-document' });
+    return { document: null, issues };
+  }
+
+  const layout = LAYOUTS[type];
+  const root = findRoot(xmlDoc, type)!;
+  const issue: ReportIssue = (path, code, params, severity = 'error') =>
+    issues.push({ severity, documentType: type, path: path ? `${layout.root}/${path}` : null, code, ...(params ? { params } : {}) });
+
+  const model = text(root, 'ide/mod');
+  if (model !== layout.model) {
+    issue('ide/mod', 'model-mismatch', { model: model ?? '—', expected: layout.model });
+  }
+
+  const parsed = type === 'NFe' ? parseNFe(root, issue) : type === 'CTe' ? parseCTe(root, issue) : parseMDFe(root, issue);
+
+  const issuer = parseParty(at(root, 'emit'), 'enderEmit');
+  if (!issuer || (!issuer.cnpj && !issuer.cpf)) {
+    issue('emit/CNPJ', 'issuer-without-id');
+  }
+  if (!parsed.number) issue(parsed.numberPath, 'number-missing');
+
+  const series = text(root, 'ide/serie');
+  if (series === null) issue('ide/serie', 'series-missing', undefined, 'warning');
+
+  const issueDate = text(root, 'ide/dhEmi') || text(root, 'ide/dEmi');
+  if (!issueDate) issue('ide/dhEmi', 'issue-date-missing', undefined, 'warning');
+
+  const idKey = accessKeyFromId(root, type);
+  const protocolKey = accessKeyFromProtocol(xmlDoc, type);
+  const accessKey = idKey ?? protocolKey;
+  if (!accessKey) {
+    issue(null, 'access-key-missing', { id: root.getAttribute('Id') ?? '' }, 'warning');
+  } else if (idKey && protocolKey && idKey !== protocolKey) {
+    issue(null, 'access-key-protocol-mismatch', { id: idKey, protocol: protocolKey });
+  } else if (!isValidAccessKey(accessKey)) {
+    issue(null, 'access-key-check-digit', { key: accessKey });
+  } else {
+    // The key packs the document's identity; each part must agree with the fields read above
+    const key = decodeAccessKey(accessKey);
+    const compare = (code: ParseIssueCode, path: string | null, fromKey: string, fromDocument: string | null | undefined) => {
+      if (fromDocument && fromDocument !== fromKey) issue(path, code, { key: fromKey, document: fromDocument });
+    };
+    const asNumber = (digits: string) => String(Number(digits)); // Zero padding differs between the key and the fields
+    compare('access-key-uf-mismatch', 'ide/cUF', key.ufCode, text(root, 'ide/cUF'));
+    compare('access-key-period-mismatch', 'ide/dhEmi', `${String(key.month).padStart(2, '0')}/${key.year}`, issueDate && `${issueDate.slice(5, 7)}/${issueDate.slice(0, 4)}`);
+    compare('access-key-issuer-mismatch', 'emit/CNPJ', key.issuerId, (issuer?.cnpj ?? issuer?.cpf)?.padStart(14, '0'));
+    compare('access-key-model-mismatch', 'ide/mod', key.model, model);
+    compare('access-key-series-mismatch', 'ide/serie', asNumber(key.series), series && asNumber(series));
+    compare('access-key-number-mismatch', parsed.numberPath, asNumber(key.number), parsed.number && asNumber(parsed.number));
+  }
+
+  if (parsed.netWeightKg !== null && parsed.netWeightKg <= 0) {
+    issue(null, 'invalid-cargo-weight', { weight: String(parsed.netWeightKg) });
+  }
+
+  const document: FiscalDocument = {
+    type,
+    model: layout.model,
+    accessKey,
+    number: parsed.number || '',
+    series: series || '',
+    issueDate,
+    issuer: issuer ?? EMPTY_PARTY,
+    sender: parsed.sender,
+    recipient: parsed.recipient,
+    quantities: parsed.quantities,
+    volumes: parsed.volumes,
+    predominantProduct: parsed.predominantProduct,
+    cargoValue: parsed.cargoValue,
+    vehicles: parsed.vehicles,
+    netWeightKg: parsed.netWeightKg,
+    weightSource: parsed.weightSource,
+    referencedKeys: parsed.referencedKeys,
+  };
+
+  return { document, issues };
+};
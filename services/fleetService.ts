@@ -0,0 +1,71 @@
+import { Truck } from '../types';
+import { formatPlate, isValidPlate, normalizePlate } from './plates';
+import { LocalizedMessage } from './i18n';
+
+const onlyDigits = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * CPF check digits (mod 11). Repeated-digit numbers such as 111.111.111-11 are invalid.
+ */
+export const isValidCpf = (value: string): boolean => {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  const checkDigit = (length: number): number => {
+    const sum = cpf.slice(0, length).split('').reduce((acc, digit, i) => acc + Number(digit) * (length + 1 - i), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+};
+
+/**
+ * Lists the problems that prevent a vehicle record from being saved.
+ */
+export const validateTruck = (truck: Truck): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+  if (!truck.plateNumber) errors.push({ key: 'fleet.error.plate' });
+  // The tractor may be a generic category entry; trailers always carry real plates
+  truck.trailerPlates.filter(plate => !isValidPlate(plate)).forEach(plate =>
+    errors.push({ key: 'fleet.error.trailerPlate', params: { plate: formatPlate(plate) } })
+  );
+  if (!(truck.tareWeight > 0)) errors.push({ key: 'fleet.error.tare' });
+  if (!(truck.maxCapacity > truck.tareWeight)) errors.push({ key: 'fleet.error.capacity' });
+  if (truck.carrierCnpj && onlyDigits(truck.carrierCnpj).length !== 14) errors.push({ key: 'fleet.error.cnpj' });
+  if (truck.rntrc && !/^\d{8,9}$/.test(onlyDigits(truck.rntrc))) errors.push({ key: 'fleet.error.rntrc' });
+
+  truck.drivers.forEach((driver, i) => {
+    const params = { driver: i + 1 };
+    if (!driver.name.trim()) errors.push({ key: 'fleet.error.driverName', params });
+    if (driver.cpf && !isValidCpf(driver.cpf)) errors.push({ key: 'fleet.error.driverCpf', params });
+    if (driver.cnh && onlyDigits(driver.cnh).length !== 11) errors.push({ key: 'fleet.error.driverCnh', params });
+  });
+
+  return errors;
+};
+
+/**
+ * Matches a free-text query against plates (tractor and trailers), carrier, RNTRC and drivers.
+ */
+export const searchTrucks = (trucks: Truck[], query: string): Truck[] => {
+  const term = query.trim().toUpperCase();
+  if (!term) return trucks;
+  const plateTerm = normalizePlate(term);
+
+  return trucks.filter(truck =>
+    (plateTerm && [truck.plateNumber, ...truck.trailerPlates].some(plate => normalizePlate(plate).includes(plateTerm))) ||
+    truck.carrierName?.toUpperCase().includes(term) ||
+    truck.rntrc?.includes(term) ||
+    truck.drivers.some(d => d.name.toUpperCase().includes(term) || (onlyDigits(term) && onlyDigits(d.cpf).includes(onlyDigits(term))))
+  );
+};
+
+export const createEmptyTruck = (): Truck => ({
+  truckId: '',
+  plateNumber: '',
+  trailerPlates: [],
+  tareWeight: 0,
+  maxCapacity: 0,
+  drivers: [],
+  active: true,
+});
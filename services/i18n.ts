@@ -0,0 +1,106 @@
+import { FiscalDocumentType, FiscalParseIssue, Locale } from '../types';
+import { MessageKey, ptBR } from '../locales/pt-BR';
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+
+// Keys for localStorage (per station: each operator picks the language of their screen)
+const UI_LOCALE_STORAGE_KEY = 'ui_locale';
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Each language is listed by its own name
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'pt-BR': 'Português (Brasil)',
+  en: 'English',
+  es: 'Español',
+};
+
+export const LOCALES = Object.keys(LOCALE_LABELS) as Locale[];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { 'pt-BR': ptBR, en, es };
+
+const DOCUMENT_TYPE_LABELS: Record<FiscalDocumentType, string> = { NFe: 'NF-e', CTe: 'CT-e', MDFe: 'MDF-e' };
+
+export type MessageParams = Record<string, string | number>;
+
+// Message produced by a service and translated where it is shown
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+/**
+ * Message in the given language. `{name}` placeholders are replaced by the matching param;
+ * numbers are formatted for the locale.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGS[locale]?.[key] ?? ptBR[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
+
+// Error thrown by a service with a catalog message; the message text is in the default language, for logs
+export type LocalizedError = Error & LocalizedMessage;
+
+export const localizedError = (key: MessageKey, params?: MessageParams): LocalizedError =>
+  Object.assign(new Error(translate(DEFAULT_LOCALE, key, params)), { key, params });
+
+export const isLocalizedError = (err: unknown, key?: MessageKey): err is LocalizedError =>
+  err instanceof Error && 'key' in err && (key === undefined || (err as LocalizedError).key === key);
+
+export interface I18n {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatKg: (weight: number) => string;
+  formatDate: (timestamp: number) => string;
+  formatTime: (timestamp: number) => string;
+  formatDateTime: (timestamp: number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+/**
+ * Messages and number/date formatting bound to one language: the operator's for the screen,
+ * the issuing site's for printed tickets.
+ */
+export const createI18n = (locale: Locale = DEFAULT_LOCALE): I18n => ({
+  locale,
+  t: (key, params) => translate(locale, key, params),
+  formatNumber: (value, options) => formatNumber(locale, value, options),
+  formatKg: weight => `${formatNumber(locale, weight)} kg`,
+  formatDate: timestamp => new Date(timestamp).toLocaleDateString(locale),
+  formatTime: timestamp => new Date(timestamp).toLocaleTimeString(locale),
+  formatDateTime: (timestamp, options) => new Date(timestamp).toLocaleString(locale, options),
+});
+
+/**
+ * Text of a caught error in the operator's language. Errors without a catalog message
+ * (network, storage) are shown as they are.
+ */
+export const describeError = ({ t }: I18n, err: unknown): string => {
+  if (isLocalizedError(err)) return t(err.key, err.params);
+  return err instanceof Error ? err.message : String(err);
+};
+
+/**
+ * Text of a parser issue, prefixed with the document layout when it is known (e.g. "CT-e: ...").
+ */
+export const describeParseIssue = (i18n: I18n, issue: FiscalParseIssue): string => {
+  const message = i18n.t(`parse.${issue.code}`, issue.params);
+  return issue.documentType ? `${DOCUMENT_TYPE_LABELS[issue.documentType]}: ${message}` : message;
+};
+
+export const loadUiLocale = (): Locale => {
+  const stored = localStorage.getItem(UI_LOCALE_STORAGE_KEY) as Locale | null;
+  return stored && LOCALES.includes(stored) ? stored : DEFAULT_LOCALE;
+};
+
+export const saveUiLocale = (locale: Locale): void => {
+  localStorage.setItem(UI_LOCALE_STORAGE_KEY, locale);
+};
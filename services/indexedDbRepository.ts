@@ -0,0 +1,122 @@
+import { TareMeasurement, Truck, WeighingTicket } from '../types';
+import { DataRepository, TicketQuery, isSequentialId, matchesTicketQuery } from './repository';
+import { localizedError } from './i18n';
+
+const DATABASE_NAME = 'scaleticket';
+const DATABASE_VERSION = 1;
+
+const TRUCKS_STORE = 'trucks';
+const TICKETS_STORE = 'tickets';
+const TARE_HISTORY_STORE = 'tareHistory';
+const SETTINGS_STORE = 'settings';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(TRUCKS_STORE, { keyPath: 'truckId' });
+
+    const tickets = db.createObjectStore(TICKETS_STORE, { keyPath: 'id' });
+    tickets.createIndex('issueTimestamp', 'issueTimestamp');
+    tickets.createIndex('truckPlateNumber', 'truckPlateNumber');
+    tickets.createIndex('invoiceId', 'invoiceId');
+    tickets.createIndex('ticketStatus', 'ticketStatus');
+
+    const tareHistory = db.createObjectStore(TARE_HISTORY_STORE, { keyPath: 'id' });
+    tareHistory.createIndex('truckId', 'truckId');
+
+    db.createObjectStore(SETTINGS_STORE); // Out-of-line keys: the setting name
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(localizedError('storage.databaseBlocked'));
+});
+
+export const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Resolves once the write transaction is durable, not just when the request succeeded
+export const completion = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || localizedError('storage.transactionAborted'));
+});
+
+/**
+ * Picks the most selective index for a ticket query; remaining criteria are applied in memory.
+ */
+const openTicketQuery = (store: IDBObjectStore, query: TicketQuery): IDBRequest<WeighingTicket[]> => {
+  if (query.invoiceId !== undefined) return store.index('invoiceId').getAll(query.invoiceId);
+  if (query.plate !== undefined) return store.index('truckPlateNumber').getAll(query.plate);
+  if (query.from !== undefined || query.to !== undefined) {
+    const range = query.from !== undefined && query.to !== undefined
+      ? IDBKeyRange.bound(query.from, query.to)
+      : query.from !== undefined ? IDBKeyRange.lowerBound(query.from) : IDBKeyRange.upperBound(query.to);
+    return store.index('issueTimestamp').getAll(range);
+  }
+  if (query.status !== undefined) return store.index('ticketStatus').getAll(query.status);
+  return store.getAll();
+};
+
+export const createIndexedDbRepository = (): DataRepository => {
+  let database: Promise<IDBDatabase> | null = null;
+  const db = () => (database ??= openDatabase());
+
+  const readAll = async <T>(storeName: string): Promise<T[]> =>
+    toPromise((await db()).transaction(storeName).objectStore(storeName).getAll());
+
+  const put = async (storeName: string, value: unknown, key?: IDBValidKey): Promise<void> => {
+    const transaction = (await db()).transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).put(value, key);
+    return completion(transaction);
+  };
+
+  return {
+    backend: 'indexeddb',
+    label: 'indexeddb',
+
+    listTrucks: () => readAll<Truck>(TRUCKS_STORE),
+    putTruck: truck => put(TRUCKS_STORE, truck),
+
+    queryTickets: async (query = {}) => {
+      const store = (await db()).transaction(TICKETS_STORE).objectStore(TICKETS_STORE);
+      const tickets = await toPromise(openTicketQuery(store, query));
+      return tickets.filter(t => matchesTicketQuery(t, query));
+    },
+    getTicket: async ticketId => {
+      const ticket = await toPromise((await db()).transaction(TICKETS_STORE).objectStore(TICKETS_STORE).get(ticketId));
+      return ticket || null;
+    },
+    putTicket: ticket => put(TICKETS_STORE, ticket),
+    highestTicketId: async prefix => {
+      // Walk the primary keys of the prefix backwards; other series sharing the prefix are skipped
+      const store = (await db()).transaction(TICKETS_STORE).objectStore(TICKETS_STORE);
+      const cursorRequest = store.openKeyCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`), 'prev');
+      return new Promise<string | null>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return resolve(null);
+          const id = String(cursor.primaryKey);
+          if (isSequentialId(id, prefix)) return resolve(id);
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+    },
+
+    listTareHistory: async truckId => {
+      const store = (await db()).transaction(TARE_HISTORY_STORE).objectStore(TARE_HISTORY_STORE);
+      return toPromise<TareMeasurement[]>(truckId ? store.index('truckId').getAll(truckId) : store.getAll());
+    },
+    putTareMeasurement: measurement => put(TARE_HISTORY_STORE, measurement),
+
+    listSettings: async () => {
+      const store = (await db()).transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE);
+      const [keys, values] = await Promise.all([toPromise(store.getAllKeys()), toPromise(store.getAll())]);
+      return Object.fromEntries(keys.map((key, i) => [String(key), values[i]]));
+    },
+    putSetting: (key, value) => put(SETTINGS_STORE, value, key),
+  };
+};
@@ -0,0 +1,50 @@
+import { TareMeasurement, Truck, WeighingTicket } from '../types';
+import { DataRepository, TicketQuery, isSequentialId, matchesTicketQuery } from './repository';
+
+// Keys for localStorage (the original collections, also read by the migration)
+export const LEGACY_TICKETS_STORAGE_KEY = 'weighing_tickets_db';
+export const LEGACY_TRUCKS_STORAGE_KEY = 'trucks_db';
+export const LEGACY_TARE_HISTORY_STORAGE_KEY = 'tare_history_db';
+
+const readCollection = <T>(key: string): T[] => {
+  const stored = localStorage.getItem(key);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const upsert = <T>(key: string, item: T, sameItem: (a: T, b: T) => boolean): void => {
+  const items = readCollection<T>(key);
+  const index = items.findIndex(existing => sameItem(existing, item));
+  if (index !== -1) {
+    items[index] = item;
+  } else {
+    items.push(item);
+  }
+  localStorage.setItem(key, JSON.stringify(items));
+};
+
+/**
+ * Whole collections as JSON arrays in localStorage. Kept as a fallback for browsers without
+ * IndexedDB; settings already live in localStorage, so they are not duplicated.
+ */
+export const createLocalStorageRepository = (): DataRepository => ({
+  backend: 'local',
+  label: 'local',
+
+  listTrucks: async () => readCollection<Truck>(LEGACY_TRUCKS_STORAGE_KEY),
+  putTruck: async truck => upsert(LEGACY_TRUCKS_STORAGE_KEY, truck, (a, b) => a.truckId === b.truckId),
+
+  queryTickets: async (query: TicketQuery = {}) =>
+    readCollection<WeighingTicket>(LEGACY_TICKETS_STORAGE_KEY).filter(t => matchesTicketQuery(t, query)),
+  getTicket: async ticketId => readCollection<WeighingTicket>(LEGACY_TICKETS_STORAGE_KEY).find(t => t.id === ticketId) || null,
+  putTicket: async ticket => upsert(LEGACY_TICKETS_STORAGE_KEY, ticket, (a, b) => a.id === b.id),
+  highestTicketId: async prefix => readCollection<WeighingTicket>(LEGACY_TICKETS_STORAGE_KEY)
+    .map(t => t.id || '')
+    .filter(id => isSequentialId(id, prefix))
+    .reduce<string | null>((max, id) => (!max || Number(id.slice(prefix.length)) > Number(max.slice(prefix.length)) ? id : max), null),
+
+  listTareHistory: async truckId => readCollection<TareMeasurement>(LEGACY_TARE_HISTORY_STORAGE_KEY).filter(m => !truckId || m.truckId === truckId),
+  putTareMeasurement: async measurement => upsert(LEGACY_TARE_HISTORY_STORAGE_KEY, measurement, (a, b) => a.id === b.id),
+
+  listSettings: async () => ({}),
+  putSetting: async () => undefined,
+});
@@ -1,53 +1,341 @@
-import { WeighingTicket, Truck } from '../types';
+import { WeighingTicket, Truck, TareMeasurement, SupervisorOverride } from '../types';
 import { MOCK_TRUCKS } from '../constants';
+import { diffFields, recordAuditEntry } from './auditService';
+import { getTicketNumberPrefix, loadNumberingSettings, nextTicketNumber, withTicketNumberLock } from './ticketNumbering';
+import { DataRepository, getRepository, TicketQuery } from './repository';
+import { queueLocalChange, stampLocalChange } from './syncService';
+import { getActiveSite } from './siteSettings';
+import { isTicketReleasable } from './weightValidation';
+import { isLocalizedError, localizedError } from './i18n';
 
-// Keys for localStorage
-const TICKETS_STORAGE_KEY = 'weighing_tickets_db';
+// Collections are stored by the repository selected in the storage settings (see repository.ts).
+// Every local write is stamped and queued for the central server (see syncService.ts).
+
+const readTrucks = async (): Promise<Truck[]> => {
+  const repository = await getRepository();
+  const trucks = await repository.listTrucks();
+  if (trucks.length > 0) return trucks;
+  // First run: seed the registry with the default configuration
+  await Promise.all(MOCK_TRUCKS.map(truck => repository.putTruck(truck)));
+  return MOCK_TRUCKS;
+};
+
+/**
+ * Fetches the Trucks collection (active and deactivated vehicles)
+ */
+export const fetchTrucks = async (): Promise<Truck[]> => readTrucks();
+
+/**
+ * Saves a truck to the Trucks collection (insert when truckId is empty)
+ */
+export const saveTruck = async (truck: Truck): Promise<Truck> => {
+  const trucks = await readTrucks();
+  const duplicate = trucks.find(t => t.truckId !== truck.truckId && t.plateNumber === truck.plateNumber);
+  if (duplicate) {
+    throw localizedError('fleet.duplicatePlate', { plate: truck.plateNumber, id: duplicate.truckId });
+  }
+
+  const stored = trucks.find(t => t.truckId === truck.truckId);
+  const savedTruck = stampLocalChange({ ...truck, truckId: truck.truckId || `VEH-${Date.now().toString(36).toUpperCase()}` }, stored);
+  await (await getRepository()).putTruck(savedTruck);
+  queueLocalChange('truck', savedTruck);
+  return savedTruck;
+};
+
+/**
+ * Deactivates (or reactivates) a truck. Vehicles are never deleted so old tickets keep their reference.
+ */
+export const setTruckActive = async (truckId: string, active: boolean): Promise<Truck> => {
+  const truck = (await readTrucks()).find(t => t.truckId === truckId);
+  if (!truck) throw localizedError('fleet.notFound', { id: truckId });
+  return saveTruck({ ...truck, active });
+};
+
+/**
+ * Fetches the tare history, oldest first (optionally for a single truck)
+ */
+export const fetchTareHistory = async (truckId?: string): Promise<TareMeasurement[]> => {
+  const history = await (await getRepository()).listTareHistory(truckId);
+  return history.sort((a, b) => a.measuredAt - b.measuredAt);
+};
+
+export const createTareMeasurementId = (): string => `TARE-${Date.now().toString(36).toUpperCase()}`;
+
+/**
+ * Appends a tare measurement. Measurements are never edited; the newest one
+ * also becomes the truck's registered tare. The id may be chosen beforehand so that a ticket
+ * can refer to the measurement before it is stored.
+ */
+export const saveTareMeasurement = async (measurement: Omit<TareMeasurement, 'id'> & { id?: string }): Promise<TareMeasurement> => {
+  const savedMeasurement: TareMeasurement = stampLocalChange({ ...measurement, id: measurement.id ?? createTareMeasurementId() });
+  await (await getRepository()).putTareMeasurement(savedMeasurement);
+  queueLocalChange('tare', savedMeasurement);
+
+  const history = await fetchTareHistory(measurement.truckId);
+  const isLatest = history.every(m => m.measuredAt <= measurement.measuredAt);
+  const truck = (await readTrucks()).find(t => t.truckId === measurement.truckId);
+  if (truck && isLatest) {
+    await saveTruck({ ...truck, tareWeight: measurement.weight });
+  }
+  return savedMeasurement;
+};
+
+// Signs a ticket once its number is known (see signTicket in the signature service)
+export type TicketSigner = (ticket: WeighingTicket) => Promise<string>;
+
+// Numbers tried for a new ticket before giving up when other stations keep taking them first
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+// Tickets that are not cancelled for the same fiscal document. Documents are matched by access
+// key; tickets without one (issued before keys were kept) match on the document number alone.
+const findActiveTicketsForDocument = async (
+  repository: DataRepository,
+  ticket: Pick<WeighingTicket, 'invoiceId' | 'accessKey' | 'correctsTicketId'>
+): Promise<WeighingTicket[]> =>
+  (await repository.queryTickets({ invoiceId: ticket.invoiceId })).filter(other =>
+    other.ticketStatus !== 'Cancelled' &&
+    // A correction is saved before its original is cancelled
+    other.id !== ticket.correctsTicketId &&
+    (!other.accessKey || !ticket.accessKey || other.accessKey === ticket.accessKey)
+  );
+
+/**
+ * Fetches the active tickets already issued for a fiscal document
+ */
+export const fetchActiveTicketsForDocument = async (invoiceId: string, accessKey?: string): Promise<WeighingTicket[]> =>
+  findActiveTicketsForDocument(await getRepository(), { invoiceId, accessKey });
+
+/**
+ * Saves a ticket to the WeighingTickets collection.
+ * Tickets without an id are stored with the next number of the site's series; existing
+ * tickets are replaced. Every write is recorded in the audit log; a failure to write the log
+ * is reported by the audit service and does not fail the save. A document gets a single
+ * active ticket unless the new one carries a supervisor's duplicateOverride. With a signer the
+ * ticket is signed after numbering, before it is stored, so a signed ticket is written once.
+ */
+export const saveTicket = async (ticket: WeighingTicket, sign?: TicketSigner): Promise<WeighingTicket> => {
+  const repository = await getRepository();
+
+  // Numbering and writing happen under one lock so that concurrent tabs never hand out
+  // the same number or overwrite each other's tickets
+  const { savedTicket, previousTicket } = await withTicketNumberLock(async () => {
+    const previousTicket = ticket.id ? await repository.getTicket(ticket.id) : null;
+    if (!previousTicket) return { savedTicket: await insertTicket(repository, ticket, sign), previousTicket };
+
+    const savedTicket = stampLocalChange(sign ? { ...ticket, signedPayload: await sign(ticket) } : ticket, previousTicket);
+    await repository.putTicket(savedTicket);
+    return { savedTicket, previousTicket };
+  });
+  queueLocalChange('ticket', savedTicket);
+
+  console.log("Ticket saved successfully", savedTicket);
+
+  if (previousTicket) {
+    await recordAuditEntry('edited', savedTicket.id!, `Ticket atualizado (${savedTicket.ticketStatus})`, diffFields(previousTicket, savedTicket));
+  } else {
+    await recordCreation(savedTicket);
+  }
+  return savedTicket;
+};
+
+/**
+ * Stores a new ticket with the next number of the site's series, after the duplicate-document
+ * check. Must run inside withTicketNumberLock; the caller queues and logs the ticket.
+ */
+const insertTicket = async (repository: DataRepository, ticket: WeighingTicket, sign?: TicketSigner): Promise<WeighingTicket> => {
+  if (!ticket.duplicateOverride) {
+    const duplicates = await findActiveTicketsForDocument(repository, ticket);
+    if (duplicates.length > 0) {
+      throw localizedError('weighing.duplicateDocument', { tickets: duplicates.map(d => d.id).join(', ') });
+    }
+  }
+  // Do not overwrite issueTimestamp with Date.now(); use the one passed in the ticket object
+  const settings = loadNumberingSettings();
+  for (let attempt = 1; ; attempt++) {
+    const highestId = await repository.highestTicketId(getTicketNumberPrefix(settings));
+    const number = nextTicketNumber(highestId ? [highestId] : [], settings);
+    // The issuing site is frozen into the ticket, so reprints show the data that was printed
+    const savedTicket = stampLocalChange({ ...ticket, id: number.ticketId, site: ticket.site ?? getActiveSite() });
+    if (sign) savedTicket.signedPayload = await sign(savedTicket);
+    try {
+      await repository.putTicket(savedTicket);
+      number.commit();
+      return savedTicket;
+    } catch (err) {
+      // On the central server another station may have taken the number first: take the next one
+      if (!isLocalizedError(err, 'storage.recordConflict') || attempt >= MAX_NUMBERING_ATTEMPTS) throw err;
+    }
+  }
+};
+
+const recordCreation = (ticket: WeighingTicket): Promise<void> =>
+  recordAuditEntry('created', ticket.id!, `Ticket criado (${ticket.ticketStatus})`, { ...ticket });
+
+// Read-modify-write of a stored ticket under the collection lock
+const updateStoredTicket = async (
+  ticketId: string,
+  update: (ticket: WeighingTicket) => WeighingTicket
+): Promise<WeighingTicket> => {
+  const repository = await getRepository();
+  const updated = await withTicketNumberLock(async () => {
+    const ticket = await repository.getTicket(ticketId);
+    if (!ticket) throw localizedError('history.ticketNotFound', { id: ticketId });
+    const updated = stampLocalChange(update(ticket), ticket);
+    await repository.putTicket(updated);
+    return updated;
+  });
+  queueLocalChange('ticket', updated);
+  return updated;
+};
 
 /**
- * Simulates fetching the Trucks collection
+ * Counts a reprint ("2ª via") of a stored ticket. Logged as a reprint only,
+ * not as an edit of the ticket.
  */
-export const fetchTrucks = async (): Promise<Truck[]> => {
-  return new Promise((resolve) => {
-    // Simulate network latency
-    setTimeout(() => {
-      resolve(MOCK_TRUCKS);
-    }, 500);
+export const recordReprint = async (ticketId: string): Promise<WeighingTicket> => {
+  const ticket = await updateStoredTicket(ticketId, t => ({ ...t, reprintCount: (t.reprintCount || 0) + 1 }));
+  await recordAuditEntry('reprinted', ticketId, `2ª via impressa (reimpressão ${ticket.reprintCount})`, { reprintCount: ticket.reprintCount });
+  return ticket;
+};
+
+/**
+ * Releases a ticket held back for weight violations, with a supervisor's approval, so that
+ * it can be printed.
+ */
+export const releaseTicket = async (ticketId: string, override: SupervisorOverride): Promise<WeighingTicket> => {
+  const ticket = await updateStoredTicket(ticketId, original => {
+    if (original.ticketStatus !== 'Over-Capacity') throw localizedError('history.notOverCapacity', { id: ticketId });
+    return { ...original, override, ticketStatus: 'Printed' };
   });
+  await recordAuditEntry('edited', ticketId, `Ticket liberado com excesso de peso: ${override.reason}`, { override: { ...override } });
+  return ticket;
 };
 
 /**
- * Simulates saving a ticket to the WeighingTickets collection
+ * Voids a ticket. The record is kept with the 'Cancelled' status and the
+ * reason, user, approving supervisor and previous status; the write is logged as a cancellation.
  */
-export const saveTicket = async (ticket: WeighingTicket): Promise<WeighingTicket> => {
-  return new Promise((resolve, reject) => {
-    setTimeout(() => {
+export const cancelTicket = async (
+  ticketId: string,
+  reason: string,
+  cancelledBy: string,
+  replacedByTicketId?: string,
+  approvedBy?: string
+): Promise<WeighingTicket> => {
+  const ticket = await updateStoredTicket(ticketId, original => {
+    if (original.ticketStatus === 'Cancelled') throw localizedError('history.alreadyCancelled', { id: ticketId });
+    return toCancelled(original, reason, cancelledBy, replacedByTicketId, approvedBy);
+  });
+  await recordCancellation(ticket);
+  return ticket;
+};
+
+const toCancelled = (
+  ticket: WeighingTicket,
+  reason: string,
+  cancelledBy: string,
+  replacedByTicketId?: string,
+  approvedBy?: string
+): WeighingTicket => ({
+  ...ticket,
+  ticketStatus: 'Cancelled',
+  cancellation: { reason, cancelledBy, timestamp: Date.now(), previousStatus: ticket.ticketStatus, replacedByTicketId, approvedBy },
+});
+
+const recordCancellation = (ticket: WeighingTicket): Promise<void> => {
+  const { reason, cancelledBy, replacedByTicketId } = ticket.cancellation!;
+  return recordAuditEntry(
+    'cancelled',
+    ticket.id!,
+    replacedByTicketId ? `Ticket cancelado e substituído por ${replacedByTicketId}: ${reason}` : `Ticket cancelado: ${reason}`,
+    { ...ticket.cancellation },
+    cancelledBy
+  );
+};
+
+// Whether an approval on the replacement is the one given for the original ticket
+const isSameApproval = (approval?: SupervisorOverride, originalApproval?: SupervisorOverride): boolean =>
+  !!approval && !!originalApproval &&
+  approval.timestamp === originalApproval.timestamp && approval.supervisorName === originalApproval.supervisorName;
+
+/**
+ * Corrects a ticket: the replacement is stored as a new ticket linked to the
+ * original (issued by the current site), and the original is cancelled, both under the
+ * collection lock. When the original cannot be cancelled, the replacement is voided (its number
+ * stays used, so the series has no gap) and the error is thrown. The original record is never
+ * modified otherwise.
+ * Approvals given for the original (weight release, second ticket for the document) are not
+ * carried over: a replacement that still needs one must bring a fresh approval, otherwise it
+ * is blocked as over capacity or rejected as a duplicate. The access key is kept only while
+ * the document number is unchanged. A closed replacement is signed with the given signer.
+ */
+export const correctTicket = async (
+  originalId: string,
+  replacement: WeighingTicket,
+  reason: string,
+  correctedBy: string,
+  approvedBy?: string,
+  sign?: TicketSigner
+): Promise<WeighingTicket> => {
+  const repository = await getRepository();
+  let voidedReplacement: WeighingTicket | null = null;
+
+  try {
+    const { savedReplacement, cancelledOriginal } = await withTicketNumberLock(async () => {
+      const original = await repository.getTicket(originalId);
+      if (!original) throw localizedError('history.ticketNotFound', { id: originalId });
+      if (original.ticketStatus === 'Cancelled') throw localizedError('history.alreadyCancelled', { id: originalId });
+
+      const { id, signedPayload, reprintCount, cancellation, sync, site, accessKey, override, duplicateOverride, ...fields } = replacement;
+      const ticket: WeighingTicket = { ...fields, correctsTicketId: originalId };
+      if (accessKey && replacement.invoiceId === original.invoiceId) ticket.accessKey = accessKey;
+      if (override && !isSameApproval(override, original.override)) ticket.override = override;
+      if (duplicateOverride && !isSameApproval(duplicateOverride, original.duplicateOverride)) ticket.duplicateOverride = duplicateOverride;
+      if (ticket.ticketStatus !== 'AwaitingExit') {
+        ticket.ticketStatus = isTicketReleasable(ticket) ? 'Printed' : 'Over-Capacity';
+      }
+
+      const savedReplacement = await insertTicket(repository, ticket, ticket.ticketStatus !== 'AwaitingExit' ? sign : undefined);
+      const cancelledOriginal = stampLocalChange(toCancelled(original, reason, correctedBy, savedReplacement.id, approvedBy), original);
       try {
-        const stored = localStorage.getItem(TICKETS_STORAGE_KEY);
-        const currentTickets: WeighingTicket[] = stored ? JSON.parse(stored) : [];
-        
-        // Do not overwrite issueTimestamp with Date.now(); use the one passed in the ticket object
-        const newTicket = { 
-          ...ticket, 
-          id: `TKT-${Date.now().toString().slice(-6)}` // Auto-generate simple ID
-        };
-        
-        currentTickets.push(newTicket);
-        localStorage.setItem(TICKETS_STORAGE_KEY, JSON.stringify(currentTickets));
-        
-        console.log("Firestore Mock: Ticket saved successfully", newTicket);
-        resolve(newTicket);
-      } catch (e) {
-        reject(e);
+        await repository.putTicket(cancelledOriginal);
+      } catch (err) {
+        // Two active tickets for one weighing must not remain
+        const voided = stampLocalChange(toCancelled(savedReplacement, `Correção de ${originalId} não concluída`, correctedBy), savedReplacement);
+        await repository.putTicket(voided).then(
+          () => { voidedReplacement = voided; },
+          voidError => console.error('Failed to void the replacement', voidError)
+        );
+        throw err;
       }
-    }, 800); // Simulate network write delay
-  });
+      return { savedReplacement, cancelledOriginal };
+    });
+
+    queueLocalChange('ticket', savedReplacement);
+    queueLocalChange('ticket', cancelledOriginal);
+    await recordCreation(savedReplacement);
+    await recordCancellation(cancelledOriginal);
+    return savedReplacement;
+  } catch (err) {
+    if (voidedReplacement) {
+      queueLocalChange('ticket', voidedReplacement);
+      await recordCreation(voidedReplacement);
+      await recordCancellation(voidedReplacement);
+    }
+    throw err;
+  }
 };
 
 /**
- * Simulates fetching recent tickets
+ * Fetches tickets, optionally narrowed by the repository's indexed fields
  */
-export const fetchRecentTickets = async (): Promise<WeighingTicket[]> => {
-  const stored = localStorage.getItem(TICKETS_STORAGE_KEY);
-  return stored ? JSON.parse(stored) : [];
-};
\ No newline at end of file
+export const fetchRecentTickets = async (query?: TicketQuery): Promise<WeighingTicket[]> =>
+  (await getRepository()).queryTickets(query);
+
+/**
+ * Fetches tickets whose truck is still inside the yard (first weighing done)
+ */
+export const fetchOpenTickets = async (): Promise<WeighingTicket[]> => {
+  const tickets = await fetchRecentTickets({ status: 'AwaitingExit' });
+  return tickets.sort((a, b) => (a.entryTimestamp || a.issueTimestamp) - (b.entryTimestamp || b.issueTimestamp));
+};
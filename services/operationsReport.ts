@@ -0,0 +1,135 @@
+import { Truck, WeighingTicket } from '../types';
+import { MessageKey } from '../locales/pt-BR';
+import { I18n } from './i18n';
+import { getTicketNetWeight } from './ticketHistory';
+
+export type ShiftId = 'morning' | 'afternoon' | 'night';
+
+// Weighbridge shifts by the hour the ticket was issued; the night shift crosses midnight
+export const SHIFTS: { id: ShiftId; label: MessageKey; startHour: number; endHour: number }[] = [
+  { id: 'morning', label: 'shift.morning', startHour: 6, endHour: 14 },
+  { id: 'afternoon', label: 'shift.afternoon', startHour: 14, endHour: 22 },
+  { id: 'night', label: 'shift.night', startHour: 22, endHour: 6 },
+];
+
+export interface TonnageGroup {
+  label: string; // Empty when the carrier or product is not known
+  tickets: number;
+  netWeight: number; // kg
+}
+
+export interface ShiftSummary {
+  shift: ShiftId;
+  label: MessageKey;
+  tickets: number;
+  netWeight: number; // kg, issued tickets only
+}
+
+export interface DaySummary {
+  date: string; // yyyy-mm-dd, local time
+  tickets: number;
+  netWeight: number; // kg, issued tickets only
+  byShift: Record<ShiftId, number>; // Ticket count
+}
+
+export interface OperationsSummary {
+  totalTickets: number;
+  issued: number; // Printed: released with a measured or stored tare
+  open: number; // AwaitingExit
+  cancelled: number;
+  blocked: number; // Over-Capacity, waiting for a supervisor
+  overCapacity: number; // Any weight violation, released or not
+  netWeight: number; // kg, issued tickets only
+  averageDifference: number | null; // kg, measured - invoice, issued tickets only
+  averageDifferencePercent: number | null; // Relative to the invoice weight
+  days: DaySummary[];
+  byShift: ShiftSummary[];
+  byVehicle: TonnageGroup[];
+  byCarrier: TonnageGroup[];
+  byProduct: TonnageGroup[];
+}
+
+export const getShift = (timestamp: number): ShiftId => {
+  const hour = new Date(timestamp).getHours();
+  return SHIFTS.find(shift =>
+    shift.startHour < shift.endHour ? hour >= shift.startHour && hour < shift.endHour : hour >= shift.startHour || hour < shift.endHour
+  )!.id;
+};
+
+export const formatTons = ({ formatNumber }: I18n, kg: number): string =>
+  `${formatNumber(kg / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} t`;
+
+// yyyy-mm-dd in local time, the format of the date inputs
+export const toDateInput = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// First and last millisecond of a yyyy-mm-dd range, local time
+export const dateRangeBounds = (from: string, to: string): { from: number; to: number } => ({
+  from: new Date(`${from}T00:00:00`).getTime(),
+  to: new Date(`${to}T23:59:59.999`).getTime(),
+});
+
+const groupTonnage = (tickets: WeighingTicket[], keyOf: (ticket: WeighingTicket) => string): TonnageGroup[] => {
+  const groups = new Map<string, TonnageGroup>();
+  tickets.forEach(ticket => {
+    const label = keyOf(ticket);
+    const group = groups.get(label) ?? { label, tickets: 0, netWeight: 0 };
+    group.tickets++;
+    group.netWeight += getTicketNetWeight(ticket);
+    groups.set(label, group);
+  });
+  return [...groups.values()].sort((a, b) => b.netWeight - a.netWeight);
+};
+
+/**
+ * Figures for the dashboard and the daily closing. Tonnage and invoice differences count only
+ * issued tickets; cancelled and blocked tickets are counted but never weighed in. Carriers come
+ * from the ticket; the fleet is only consulted for tickets issued before carriers were kept.
+ */
+export const summarizeOperations = (tickets: WeighingTicket[], trucks: Truck[]): OperationsSummary => {
+  const issued = tickets.filter(ticket => ticket.ticketStatus === 'Printed');
+  const carriers = new Map(trucks.map(truck => [truck.truckId, truck.carrierName]));
+
+  const differences = issued.filter(ticket => ticket.netWeightInvoice > 0).map(ticket => ({
+    kg: getTicketNetWeight(ticket) - ticket.netWeightInvoice,
+    percent: ((getTicketNetWeight(ticket) - ticket.netWeightInvoice) / ticket.netWeightInvoice) * 100,
+  }));
+  const average = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+  const days = new Map<string, DaySummary>();
+  tickets.forEach(ticket => {
+    const date = toDateInput(ticket.issueTimestamp);
+    const day = days.get(date) ?? { date, tickets: 0, netWeight: 0, byShift: { morning: 0, afternoon: 0, night: 0 } };
+    day.tickets++;
+    day.byShift[getShift(ticket.issueTimestamp)]++;
+    if (ticket.ticketStatus === 'Printed') day.netWeight += getTicketNetWeight(ticket);
+    days.set(date, day);
+  });
+
+  return {
+    totalTickets: tickets.length,
+    issued: issued.length,
+    open: tickets.filter(ticket => ticket.ticketStatus === 'AwaitingExit').length,
+    cancelled: tickets.filter(ticket => ticket.ticketStatus === 'Cancelled').length,
+    blocked: tickets.filter(ticket => ticket.ticketStatus === 'Over-Capacity').length,
+    overCapacity: tickets.filter(ticket => (ticket.weightValidation?.violations.length ?? 0) > 0).length,
+    netWeight: issued.reduce((sum, ticket) => sum + getTicketNetWeight(ticket), 0),
+    averageDifference: average(differences.map(d => d.kg)),
+    averageDifferencePercent: average(differences.map(d => d.percent)),
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    byShift: SHIFTS.map(shift => {
+      const inShift = tickets.filter(ticket => getShift(ticket.issueTimestamp) === shift.id);
+      return {
+        shift: shift.id,
+        label: shift.label,
+        tickets: inShift.length,
+        netWeight: inShift.filter(ticket => ticket.ticketStatus === 'Printed').reduce((sum, ticket) => sum + getTicketNetWeight(ticket), 0),
+      };
+    }),
+    byVehicle: groupTonnage(issued, ticket => ticket.truckPlateNumber),
+    byCarrier: groupTonnage(issued, ticket => ticket.carrierName ?? carriers.get(ticket.truckId) ?? ''),
+    byProduct: groupTonnage(issued, ticket => ticket.productName ?? ''),
+  };
+};
@@ -0,0 +1,233 @@
+/**
+ * Minimal PDF 1.4 writer: vector text in the standard Courier fonts, lines, filled
+ * rectangles and JPEG images. Text stays selectable and searchable, and a ticket page is a few kilobytes.
+ * Coordinates are in millimetres from the top-left corner of the page.
+ */
+
+export type PdfFont = 'mono' | 'mono-bold';
+export type PdfAlign = 'left' | 'center' | 'right';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number; // pt
+  align?: PdfAlign;
+}
+
+export interface PdfDocumentInfo {
+  title: string;
+  subject?: string;
+  keywords?: string[];
+  createdAt?: Date;
+  // Archival copy: XMP metadata, document id and no features outside PDF/A-1b (see buildPdf)
+  archival?: boolean;
+}
+
+const PT_PER_MM = 72 / 25.4;
+const PRODUCER = 'ScaleTicket Pro';
+
+// Courier: every glyph is 600/1000 em wide
+const COURIER_ADVANCE = 0.6;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  mono: { name: 'F1', baseFont: 'Courier' },
+  'mono-bold': { name: 'F2', baseFont: 'Courier-Bold' },
+};
+
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+/**
+ * Text as a hex string in WinAnsiEncoding (Latin-1 for the accented letters used in pt-BR).
+ */
+const encodeWinAnsi = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      let code = char.charCodeAt(0);
+      if (/\s/.test(char)) code = 0x20;
+      else if (code > 0xff || (code >= 0x7f && code < 0xa0)) code = 0x3f;
+      return code.toString(16).padStart(2, '0');
+    })
+    .join('');
+
+// Baseline JPEG (DCT) image in RGB, embedded as is
+export interface PdfImage {
+  jpeg: Uint8Array;
+  widthPx: number;
+  heightPx: number;
+}
+
+export const textWidthMm = (text: string, size: number): number =>
+  (Array.from(text).length * COURIER_ADVANCE * size) / PT_PER_MM;
+
+export interface PdfPage {
+  readonly widthMm: number;
+  readonly heightMm: number;
+  text(x: number, y: number, text: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, width?: number, dashed?: boolean): void;
+  rect(x: number, y: number, width: number, height: number, mode?: 'fill' | 'stroke', lineWidth?: number): void;
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void;
+  readonly images: readonly PdfImage[]; // Referenced in the content as /Im0, /Im1...
+  content(): string;
+}
+
+/**
+ * A page whose drawing operations are collected as a content stream. y is the text baseline.
+ */
+export const createPdfPage = (widthMm: number, heightMm: number): PdfPage => {
+  const ops: string[] = [];
+  const images: PdfImage[] = [];
+  const x = (mm: number) => num(mm * PT_PER_MM);
+  const y = (mm: number) => num((heightMm - mm) * PT_PER_MM);
+
+  return {
+    widthMm,
+    heightMm,
+    text: (left, baseline, text, { font = 'mono', size = 8, align = 'left' } = {}) => {
+      const width = textWidthMm(text, size);
+      const start = align === 'center' ? left - width / 2 : align === 'right' ? left - width : left;
+      ops.push(`BT /${FONT_RESOURCES[font].name} ${num(size)} Tf ${x(start)} ${y(baseline)} Td <${encodeWinAnsi(text)}> Tj ET`);
+    },
+    line: (x1, y1, x2, y2, width = 0.2, dashed = false) => {
+      ops.push(`${num(width * PT_PER_MM)} w ${dashed ? '[2 2] 0 d' : '[] 0 d'} ${x(x1)} ${y(y1)} m ${x(x2)} ${y(y2)} l S`);
+    },
+    rect: (left, top, width, height, mode = 'fill', lineWidth = 0.2) => {
+      const box = `${x(left)} ${y(top + height)} ${num(width * PT_PER_MM)} ${num(height * PT_PER_MM)} re`;
+      ops.push(mode === 'fill' ? `${box} f` : `${num(lineWidth * PT_PER_MM)} w [] 0 d ${box} S`);
+    },
+    image: (image, left, top, width, height) => {
+      let index = images.indexOf(image);
+      if (index === -1) index = images.push(image) - 1;
+      ops.push(`q ${num(width * PT_PER_MM)} 0 0 ${num(height * PT_PER_MM)} ${x(left)} ${y(top + height)} cm /Im${index} Do Q`);
+    },
+    images,
+    content: () => ops.join('\n'),
+  };
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// PDF text string for the Info dictionary (UTF-16BE with BOM, so accents survive)
+const infoString = (value: string): string =>
+  `<feff${Array.from(value).map(c => c.charCodeAt(0).toString(16).padStart(4, '0')).join('')}>`;
+
+const pdfDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const xmpMetadata = (info: PdfDocumentInfo, createdAt: Date, documentId: string): string => `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:pdf="http://ns.adobe.com/pdf/1.3/" xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/">
+<dc:format>application/pdf</dc:format>
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.title)}</rdf:li></rdf:Alt></dc:title>
+${info.subject ? `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.subject)}</rdf:li></rdf:Alt></dc:description>` : ''}
+<xmp:CreateDate>${createdAt.toISOString()}</xmp:CreateDate>
+<xmp:ModifyDate>${createdAt.toISOString()}</xmp:ModifyDate>
+<xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>
+<pdf:Producer>${PRODUCER}</pdf:Producer>
+${info.keywords?.length ? `<pdf:Keywords>${escapeXml(info.keywords.join(', '))}</pdf:Keywords>` : ''}
+<xmpMM:DocumentID>uuid:${documentId.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5')}</xmpMM:DocumentID>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+const binaryString = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) text += String.fromCharCode(bytes[i]);
+  return text;
+};
+
+// UTF-8 bytes as a string of byte-sized characters, to be written unchanged
+const utf8Bytes = (text: string): string => binaryString(new TextEncoder().encode(text));
+
+const randomHex = (bytes: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes))).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Assembles the pages into a PDF file. In archival mode the file also carries XMP metadata and
+ * a permanent document id, and uses nothing PDF/A-1b forbids (no encryption, scripts or
+ * transparency). The standard fonts are referenced, not embedded, and there is no output
+ * intent, so a validator will still flag those; convert with a PDF/A tool when strict conformance is required.
+ */
+export const buildPdf = (pages: PdfPage[], info: PdfDocumentInfo): Uint8Array => {
+  const createdAt = info.createdAt ?? new Date();
+  const documentId = randomHex(16);
+  const objects: string[] = [];
+  const add = (body: string): number => objects.push(body);
+
+  const catalogId = add('');
+  const pagesId = add('');
+  const fontIds = (Object.keys(FONT_RESOURCES) as PdfFont[]).map(font =>
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_RESOURCES[font].baseFont} /Encoding /WinAnsiEncoding >>`)
+  );
+  const fontDictionary = (Object.keys(FONT_RESOURCES) as PdfFont[])
+    .map((font, i) => `/${FONT_RESOURCES[font].name} ${fontIds[i]} 0 R`)
+    .join(' ');
+
+  // The same image (a site logo) is stored once however many pages show it
+  const imageIds = new Map<PdfImage, number>();
+  const imageId = (image: PdfImage): number => {
+    if (!imageIds.has(image)) {
+      imageIds.set(image, add(
+        `<< /Type /XObject /Subtype /Image /Width ${image.widthPx} /Height ${image.heightPx} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n${binaryString(image.jpeg)}\nendstream`
+      ));
+    }
+    return imageIds.get(image)!;
+  };
+
+  const pageIds = pages.map(page => {
+    const content = page.content(); // ASCII only: text is written as hex strings
+    const contentId = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    const xObjects = page.images.map((image, index) => `/Im${index} ${imageId(image)} 0 R`).join(' ');
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.widthMm * PT_PER_MM)} ${num(page.heightMm * PT_PER_MM)}] ` +
+      `/Resources << /Font << ${fontDictionary} >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> /Contents ${contentId} 0 R >>`
+    );
+  });
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let metadataRef = '';
+  if (info.archival) {
+    const xmp = utf8Bytes(xmpMetadata(info, createdAt, documentId));
+    const metadataId = add(`<< /Type /Metadata /Subtype /XML /Length ${xmp.length} >>\nstream\n${xmp}\nendstream`);
+    metadataRef = ` /Metadata ${metadataId} 0 R`;
+  }
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R${metadataRef} >>`;
+
+  const infoId = add(
+    `<< /Title ${infoString(info.title)}${info.subject ? ` /Subject ${infoString(info.subject)}` : ''}` +
+    `${info.keywords?.length ? ` /Keywords ${infoString(info.keywords.join(', '))}` : ''}` +
+    ` /Producer ${infoString(PRODUCER)} /Creator ${infoString(PRODUCER)} /CreationDate (${pdfDate(createdAt)}) /ModDate (${pdfDate(createdAt)}) >>`
+  );
+
+  // Objects are written byte for byte: every character is below 0x100
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (text: string) => {
+    const bytes = Uint8Array.from(Array.from(text), c => c.charCodeAt(0) & 0xff);
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  const offsets = objects.map((body, i) => {
+    const offset = length;
+    write(`${i + 1} 0 obj\n${body}\nendobj\n`);
+    return offset;
+  });
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R /ID [<${documentId}> <${documentId}>] >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const file = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    file.set(chunk, position);
+    position += chunk.length;
+  });
+  return file;
+};
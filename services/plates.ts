@@ -0,0 +1,105 @@
+import { DocumentPlate, Truck } from '../types';
+
+export type PlateFormat = 'old' | 'mercosul';
+
+// Old Brazilian format ABC-1234 and Mercosul ABC1D23 (fifth character is a letter)
+const OLD_PLATE = /^[A-Z]{3}[0-9]{4}$/;
+const MERCOSUL_PLATE = /^[A-Z]{3}[0-9][A-Z][0-9]{2}$/;
+
+// Plates inside free text, with or without the hyphen or space after the letters
+const PLATE_IN_TEXT = /(?:^|[^A-Z0-9])([A-Z]{3})[-\s]?([0-9][A-Z0-9][0-9]{2})(?![A-Z0-9])/g;
+
+/**
+ * Upper case without separators: "abc-1234" and "ABC 1234" both become "ABC1234".
+ */
+export const normalizePlate = (plate: string): string => plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const getPlateFormat = (plate: string): PlateFormat | null => {
+  const normalized = normalizePlate(plate);
+  if (OLD_PLATE.test(normalized)) return 'old';
+  if (MERCOSUL_PLATE.test(normalized)) return 'mercosul';
+  return null;
+};
+
+export const isValidPlate = (plate: string): boolean => getPlateFormat(plate) !== null;
+
+/**
+ * Display form: ABC-1234 for the old format, ABC1D23 for Mercosul, anything else as typed.
+ */
+export const formatPlate = (plate: string): string => {
+  const normalized = normalizePlate(plate);
+  const format = getPlateFormat(normalized);
+  if (format === 'old') return `${normalized.slice(0, 3)}-${normalized.slice(3)}`;
+  return format === 'mercosul' ? normalized : plate.trim().toUpperCase();
+};
+
+/**
+ * Mercosul form of an old plate: the second digit becomes a letter (0 = A ... 9 = J), as
+ * DENATRAN does when a vehicle gets the new plate.
+ */
+export const toMercosulPlate = (plate: string): string => {
+  const normalized = normalizePlate(plate);
+  if (getPlateFormat(normalized) !== 'old') return normalized;
+  return `${normalized.slice(0, 4)}${String.fromCharCode(65 + Number(normalized[4]))}${normalized.slice(5)}`;
+};
+
+/**
+ * Same vehicle: equal once normalized, or the same registration before and after the
+ * conversion to Mercosul.
+ */
+export const platesMatch = (a: string, b: string): boolean => {
+  const left = normalizePlate(a);
+  const right = normalizePlate(b);
+  if (!left || !right) return false;
+  return left === right || (isValidPlate(left) && isValidPlate(right) && toMercosulPlate(left) === toMercosulPlate(right));
+};
+
+/**
+ * Every valid plate in a free-text field, in order and without repeats.
+ */
+export const extractPlatesFromText = (text: string): string[] => {
+  const plates: string[] = [];
+  for (const match of text.toUpperCase().matchAll(PLATE_IN_TEXT)) {
+    const plate = `${match[1]}${match[2]}`;
+    if (isValidPlate(plate) && !plates.includes(plate)) plates.push(plate);
+  }
+  return plates;
+};
+
+export interface FleetPlateMatch {
+  plate: string;
+  truck: Truck | null;
+  position: 'tractor' | 'trailer' | null; // Where the plate sits on the matched truck
+}
+
+/**
+ * Looks every document plate up in the fleet registry (tractor and trailer plates).
+ */
+export const matchPlatesToFleet = (plates: DocumentPlate[], trucks: Truck[]): FleetPlateMatch[] =>
+  plates.map(({ plate }) => {
+    const asTractor = trucks.find(truck => platesMatch(truck.plateNumber, plate));
+    if (asTractor) return { plate, truck: asTractor, position: 'tractor' };
+    const asTrailer = trucks.find(truck => truck.trailerPlates.some(trailer => platesMatch(trailer, plate)));
+    return asTrailer ? { plate, truck: asTrailer, position: 'trailer' } : { plate, truck: null, position: null };
+  });
+
+export interface PlateCheck {
+  status: 'match' | 'mismatch' | 'no-plates' | 'unchecked';
+  foreignPlates: string[]; // Document plates that are not on the vehicle on the scale
+}
+
+/**
+ * Compares the plates of the document with the vehicle on the scale. Generic fleet entries
+ * (weight categories without a real plate) cannot be checked.
+ */
+export const checkDocumentPlates = (plates: DocumentPlate[], truck: Truck): PlateCheck => {
+  if (plates.length === 0) {
+    return { status: 'no-plates', foreignPlates: [] };
+  }
+  const vehiclePlates = [truck.plateNumber, ...truck.trailerPlates];
+  if (!vehiclePlates.some(isValidPlate)) {
+    return { status: 'unchecked', foreignPlates: [] };
+  }
+  const foreignPlates = plates.map(p => p.plate).filter(plate => !vehiclePlates.some(v => platesMatch(v, plate)));
+  return { status: foreignPlates.length === 0 ? 'match' : 'mismatch', foreignPlates };
+};
@@ -0,0 +1,179 @@
+import { TicketLayout } from './ticketLayouts';
+import { MessageKey } from '../locales/pt-BR';
+import { localizedError } from './i18n';
+
+// Keys for localStorage (per station: each scale house has its own printer)
+const PRINTER_SETTINGS_STORAGE_KEY = 'printer_settings';
+
+// USB printer class (WebUSB filter)
+const USB_PRINTER_CLASS = 7;
+
+export type PrinterConnection = 'browser' | 'webusb' | 'serial' | 'bridge' | 'dump';
+
+export interface PrinterSettings {
+  connection: PrinterConnection;
+  bridgeUrl: string; // POST endpoint of bridge/print-bridge.mjs
+  baudRate: number; // Web Serial only
+  columns: number; // Characters per line in the normal font (48 for 80 mm, font A)
+}
+
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  connection: 'browser',
+  bridgeUrl: 'http://localhost:8766/print',
+  baudRate: 9600,
+  columns: 48,
+};
+
+// Minimal shapes of the WebUSB and Web Serial APIs (not part of the DOM typings)
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+}
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { interfaceClass: number; endpoints: UsbEndpoint[] };
+}
+interface UsbDevice {
+  opened: boolean;
+  productName?: string;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+interface SerialPortLike {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+interface DeviceNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: { classCode: number }[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPortLike[]>;
+    requestPort(): Promise<SerialPortLike>;
+  };
+}
+
+const devices = (): DeviceNavigator => navigator as unknown as DeviceNavigator;
+
+export const PRINTER_CONNECTION_LABELS: Record<PrinterConnection, MessageKey> = {
+  browser: 'printer.connection.browser',
+  webusb: 'printer.connection.webusb',
+  serial: 'printer.connection.serial',
+  bridge: 'printer.connection.bridge',
+  dump: 'printer.connection.dump',
+};
+
+export const loadPrinterSettings = (): PrinterSettings => {
+  const stored = localStorage.getItem(PRINTER_SETTINGS_STORAGE_KEY);
+  return stored ? { ...DEFAULT_PRINTER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PRINTER_SETTINGS;
+};
+
+export const savePrinterSettings = (settings: PrinterSettings): void => {
+  localStorage.setItem(PRINTER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Raw ESC/POS output only replaces the browser for the 80 mm layout; A5 and A4 always use
+ * the browser's print dialog.
+ */
+export const usesEscPos = (layout: TicketLayout, settings: PrinterSettings = loadPrinterSettings()): boolean =>
+  settings.connection !== 'browser' && layout.id === 'thermal-80';
+
+export const isConnectionSupported = (connection: PrinterConnection): boolean => {
+  if (connection === 'webusb') return !!devices().usb;
+  if (connection === 'serial') return !!devices().serial;
+  return true;
+};
+
+/**
+ * Asks the user to pick the printer. Must run from a click; afterwards the browser
+ * remembers the permission and printing needs no prompt. Returns the device name when the
+ * browser reports one.
+ */
+export const authorizePrinter = async (settings: PrinterSettings): Promise<string> => {
+  if (settings.connection === 'webusb') {
+    if (!devices().usb) throw localizedError('printer.webUsbUnsupported');
+    const device = await devices().usb!.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] });
+    return device.productName || '';
+  }
+  if (settings.connection === 'serial') {
+    if (!devices().serial) throw localizedError('printer.webSerialUnsupported');
+    await devices().serial!.requestPort();
+  }
+  return '';
+};
+
+const sendUsb = async (bytes: Uint8Array): Promise<void> => {
+  const usb = devices().usb;
+  if (!usb) throw localizedError('printer.webUsbUnsupported');
+  const [device] = await usb.getDevices();
+  if (!device) throw localizedError('printer.noUsbPrinter');
+
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+  const printerInterface = device.configuration!.interfaces.find(i => i.alternate.interfaceClass === USB_PRINTER_CLASS)
+    ?? device.configuration!.interfaces[0];
+  const endpoint = printerInterface?.alternate.endpoints.find(e => e.direction === 'out');
+  if (!printerInterface || !endpoint) throw localizedError('printer.usbNoOutput');
+
+  await device.claimInterface(printerInterface.interfaceNumber);
+  try {
+    await device.transferOut(endpoint.endpointNumber, bytes);
+  } finally {
+    await device.releaseInterface(printerInterface.interfaceNumber);
+    await device.close();
+  }
+};
+
+const sendSerial = async (bytes: Uint8Array, baudRate: number): Promise<void> => {
+  const serial = devices().serial;
+  if (!serial) throw localizedError('printer.webSerialUnsupported');
+  const [port] = await serial.getPorts();
+  if (!port) throw localizedError('printer.noSerialPort');
+
+  await port.open({ baudRate });
+  try {
+    const writer = port.writable!.getWriter();
+    try {
+      await writer.write(bytes);
+    } finally {
+      writer.releaseLock();
+    }
+  } finally {
+    await port.close();
+  }
+};
+
+const sendBridge = async (bytes: Uint8Array, url: string): Promise<void> => {
+  const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/octet-stream' }, body: bytes });
+  if (!response.ok) {
+    throw localizedError('printer.bridgeError', { status: String(response.status), detail: await response.text() });
+  }
+};
+
+/**
+ * Sends a raw ESC/POS stream to the configured printer. Not used in 'dump' mode, where the
+ * caller shows the bytes instead.
+ */
+export const sendEscPos = async (bytes: Uint8Array, settings: PrinterSettings = loadPrinterSettings()): Promise<void> => {
+  if (settings.connection === 'webusb') return sendUsb(bytes);
+  if (settings.connection === 'serial') return sendSerial(bytes, settings.baudRate);
+  if (settings.connection === 'bridge') return sendBridge(bytes, settings.bridgeUrl);
+  throw localizedError('printer.noRawOutput');
+};
+
+export const downloadBytes = (bytes: Uint8Array, filename: string, type = 'application/octet-stream'): void => {
+  const url = URL.createObjectURL(new Blob([bytes], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
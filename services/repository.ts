@@ -0,0 +1,123 @@
+import { TareMeasurement, TicketStatus, Truck, WeighingTicket } from '../types';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import { createRestRepository } from './restRepository';
+import { migrateLocalStorage } from './storageMigration';
+
+// Keys for localStorage (the storage choice itself cannot live in the repository)
+const STORAGE_SETTINGS_STORAGE_KEY = 'storage_settings';
+
+// Station-only settings that an older version wrote through; a stored copy never replaces the local one
+const LOCAL_ONLY_SETTING_KEYS = ['auth_settings'];
+
+export type StorageBackend = 'indexeddb' | 'rest' | 'local';
+
+export interface StorageSettings {
+  backend: StorageBackend;
+  restUrl: string; // Base URL of the REST server, used when backend is 'rest'
+  restToken: string; // Access token of the REST server, required for writes and settings
+}
+
+export interface TicketQuery {
+  from?: number; // Unix timestamp, inclusive (issueTimestamp)
+  to?: number; // Unix timestamp, inclusive (issueTimestamp)
+  plate?: string;
+  invoiceId?: string;
+  status?: TicketStatus;
+}
+
+/**
+ * Persistence for trucks, tickets, tare history and shared settings. Implementations only
+ * store and query; numbering, auditing and business rules stay in the services above them.
+ */
+export interface DataRepository {
+  readonly backend: StorageBackend;
+  readonly label: string; // Identifies the target, e.g. for migration bookkeeping
+  listTrucks(): Promise<Truck[]>;
+  putTruck(truck: Truck): Promise<void>;
+  queryTickets(query?: TicketQuery): Promise<WeighingTicket[]>;
+  getTicket(ticketId: string): Promise<WeighingTicket | null>;
+  putTicket(ticket: WeighingTicket): Promise<void>;
+  // Highest id of the form <prefix><digits>, used to reconcile the numbering counter
+  highestTicketId(prefix: string): Promise<string | null>;
+  listTareHistory(truckId?: string): Promise<TareMeasurement[]>;
+  putTareMeasurement(measurement: TareMeasurement): Promise<void>;
+  listSettings(): Promise<Record<string, unknown>>;
+  putSetting(key: string, value: unknown): Promise<void>;
+}
+
+export const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+  backend: 'indexeddb',
+  restUrl: 'http://localhost:8787/api',
+  restToken: '',
+};
+
+export const loadStorageSettings = (): StorageSettings => {
+  const stored = localStorage.getItem(STORAGE_SETTINGS_STORAGE_KEY);
+  return stored ? { ...DEFAULT_STORAGE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_STORAGE_SETTINGS;
+};
+
+/**
+ * Takes effect on the next page load, so that a session never mixes two backends.
+ */
+export const saveStorageSettings = (settings: StorageSettings): void => {
+  localStorage.setItem(STORAGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const matchesTicketQuery = (ticket: WeighingTicket, query: TicketQuery): boolean =>
+  (query.from === undefined || ticket.issueTimestamp >= query.from) &&
+  (query.to === undefined || ticket.issueTimestamp <= query.to) &&
+  (query.plate === undefined || ticket.truckPlateNumber === query.plate) &&
+  (query.invoiceId === undefined || ticket.invoiceId === query.invoiceId) &&
+  (query.status === undefined || ticket.ticketStatus === query.status);
+
+export const isSequentialId = (id: string, prefix: string): boolean =>
+  id.startsWith(prefix) && /^\d+$/.test(id.slice(prefix.length));
+
+export const createRepository = (settings: StorageSettings = loadStorageSettings()): DataRepository => {
+  if (settings.backend === 'rest') return createRestRepository(settings.restUrl, settings.restToken);
+  if (settings.backend === 'indexeddb' && typeof indexedDB !== 'undefined') return createIndexedDbRepository();
+  return createLocalStorageRepository();
+};
+
+let ready: Promise<DataRepository> | null = null;
+
+/**
+ * The repository chosen in the storage settings. The first call migrates the legacy
+ * localStorage collections and refreshes the local settings cache.
+ */
+export const getRepository = (): Promise<DataRepository> => {
+  if (!ready) {
+    ready = (async () => {
+      const repository = createRepository();
+      await migrateLocalStorage(repository);
+      // Without access to the shared settings the station keeps working with its local copies
+      const settings = await repository.listSettings().catch(err => {
+        console.error('Failed to load shared settings', err);
+        return {};
+      });
+      Object.entries(settings)
+        .filter(([key]) => !LOCAL_ONLY_SETTING_KEYS.includes(key))
+        .forEach(([key, value]) => localStorage.setItem(key, JSON.stringify(value)));
+      return repository;
+    })();
+    ready.catch(() => { ready = null; }); // Allow a retry, e.g. when the server was offline
+  }
+  return ready;
+};
+
+/**
+ * Settings are read synchronously from the local cache and written through to the repository,
+ * so stations sharing a server also share them.
+ */
+export const readSetting = <T extends object>(key: string, defaults: T): T => {
+  const stored = localStorage.getItem(key);
+  return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+};
+
+export const writeSetting = (key: string, value: unknown): void => {
+  localStorage.setItem(key, JSON.stringify(value));
+  getRepository()
+    .then(repository => repository.putSetting(key, value))
+    .catch(err => console.error(`Failed to store setting ${key}`, err));
+};
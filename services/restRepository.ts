@@ -0,0 +1,69 @@
+import { TareMeasurement, Truck, WeighingTicket } from '../types';
+import { DataRepository, TicketQuery } from './repository';
+import { localizedError } from './i18n';
+
+/**
+ * JSON over HTTP. Endpoints, relative to the base URL:
+ *   GET /trucks                      PUT /trucks/:truckId
+ *   GET /tickets?from&to&plate&invoiceId&status
+ *   GET /tickets/:id                 PUT /tickets/:id
+ *   GET /tickets-highest?prefix=     -> { id: string | null }
+ *   GET /tare-history?truckId=       PUT /tare-history/:id
+ *   GET /settings                    PUT /settings/:key   (Authorization: Bearer <token>)
+ * A record PUT carries the revision it was based on (sync.revision, 0 for a new record); the
+ * server answers 409 when the stored record has another revision, e.g. a ticket number that
+ * another station took first.
+ */
+export const createRestRepository = (baseUrl: string, token = ''): DataRepository => {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  const request = async <T>(path: string, init?: RequestInit, allowNotFound = false): Promise<T> => {
+    const response = await fetch(`${base}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}), ...init?.headers },
+    });
+    if (allowNotFound && response.status === 404) {
+      return null as T;
+    }
+    if (response.status === 409) {
+      throw localizedError('storage.recordConflict', { id: decodeURIComponent(path.split('/').pop() || '') });
+    }
+    if (!response.ok) {
+      throw localizedError('storage.serverError', { status: String(response.status), path });
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  const put = (path: string, body: unknown): Promise<void> =>
+    request<void>(path, { method: 'PUT', body: JSON.stringify(body) });
+
+  const segment = encodeURIComponent;
+
+  return {
+    backend: 'rest',
+    label: `rest:${base}`,
+
+    listTrucks: () => request<Truck[]>('/trucks'),
+    putTruck: truck => put(`/trucks/${segment(truck.truckId)}`, truck),
+
+    queryTickets: (query: TicketQuery = {}) => {
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+      });
+      const search = params.toString();
+      return request<WeighingTicket[]>(`/tickets${search ? `?${search}` : ''}`);
+    },
+    getTicket: ticketId => request<WeighingTicket | null>(`/tickets/${segment(ticketId)}`, undefined, true),
+    putTicket: ticket => put(`/tickets/${segment(ticket.id || '')}`, ticket),
+    highestTicketId: async prefix =>
+      (await request<{ id: string | null }>(`/tickets-highest?prefix=${segment(prefix)}`)).id,
+
+    listTareHistory: truckId =>
+      request<TareMeasurement[]>(`/tare-history${truckId ? `?truckId=${segment(truckId)}` : ''}`),
+    putTareMeasurement: measurement => put(`/tare-history/${segment(measurement.id)}`, measurement),
+
+    listSettings: () => request<Record<string, unknown>>('/settings'),
+    putSetting: (key, value) => put(`/settings/${segment(key)}`, value),
+  };
+};
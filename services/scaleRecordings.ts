@@ -0,0 +1,248 @@
+import type { ScaleProtocol } from './scaleService';
+
+export interface ScaleRecording {
+  id: string;
+  name: string;
+  protocol: ScaleProtocol;
+  loopDelayMs: number; // Pause before the recording starts over
+  frames: { offsetMs: number; data: string }[];
+}
+
+// Sample indicator sessions replayed by the scale simulator (10 kg division, 5 frames/s).
+// Each one covers a truck driving on, settling, and driving off the platform.
+export const SCALE_RECORDINGS: ScaleRecording[] = [
+  {
+    id: 'carreta-carregada',
+    name: 'Carreta carregada',
+    protocol: 'toledo-p03',
+    loopDelayMs: 3000,
+    frames: [
+      { offsetMs: 0, data: '\x02"0 000000000000\r' },
+      { offsetMs: 200, data: '\x02"0 000000000000\r' },
+      { offsetMs: 400, data: '\x02"0 000000000000\r' },
+      { offsetMs: 600, data: '\x02"0 000000000000\r' },
+      { offsetMs: 800, data: '\x02"8 002290000000\r' },
+      { offsetMs: 1000, data: '\x02"8 004540000000\r' },
+      { offsetMs: 1200, data: '\x02"8 006950000000\r' },
+      { offsetMs: 1400, data: '\x02"8 009050000000\r' },
+      { offsetMs: 1600, data: '\x02"8 011520000000\r' },
+      { offsetMs: 1800, data: '\x02"8 013730000000\r' },
+      { offsetMs: 2000, data: '\x02"8 015820000000\r' },
+      { offsetMs: 2200, data: '\x02"8 018420000000\r' },
+      { offsetMs: 2400, data: '\x02"8 020330000000\r' },
+      { offsetMs: 2600, data: '\x02"8 022950000000\r' },
+      { offsetMs: 2800, data: '\x02"8 024880000000\r' },
+      { offsetMs: 3000, data: '\x02"8 027160000000\r' },
+      { offsetMs: 3200, data: '\x02"8 029830000000\r' },
+      { offsetMs: 3400, data: '\x02"8 032640000000\r' },
+      { offsetMs: 3600, data: '\x02"8 034000000000\r' },
+      { offsetMs: 3800, data: '\x02"8 034490000000\r' },
+      { offsetMs: 4000, data: '\x02"8 034540000000\r' },
+      { offsetMs: 4200, data: '\x02"8 034480000000\r' },
+      { offsetMs: 4400, data: '\x02"8 034540000000\r' },
+      { offsetMs: 4600, data: '\x02"8 034540000000\r' },
+      { offsetMs: 4800, data: '\x02"8 034560000000\r' },
+      { offsetMs: 5000, data: '\x02"0 034520000000\r' },
+      { offsetMs: 5200, data: '\x02"0 034520000000\r' },
+      { offsetMs: 5400, data: '\x02"0 034520000000\r' },
+      { offsetMs: 5600, data: '\x02"0 034520000000\r' },
+      { offsetMs: 5800, data: '\x02"0 034520000000\r' },
+      { offsetMs: 6000, data: '\x02"0 034520000000\r' },
+      { offsetMs: 6200, data: '\x02"0 034520000000\r' },
+      { offsetMs: 6400, data: '\x02"0 034510000000\r' },
+      { offsetMs: 6600, data: '\x02"0 034520000000\r' },
+      { offsetMs: 6800, data: '\x02"0 034520000000\r' },
+      { offsetMs: 7000, data: '\x02"0 034520000000\r' },
+      { offsetMs: 7200, data: '\x02"0 034520000000\r' },
+      { offsetMs: 7400, data: '\x02"0 034520000000\r' },
+      { offsetMs: 7600, data: '\x02"0 034520000000\r' },
+      { offsetMs: 7800, data: '\x02"0 034520000000\r' },
+      { offsetMs: 8000, data: '\x02"0 034520000000\r' },
+      { offsetMs: 8200, data: '\x02"0 034520000000\r' },
+      { offsetMs: 8400, data: '\x02"0 034520000000\r' },
+      { offsetMs: 8600, data: '\x02"0 034520000000\r' },
+      { offsetMs: 8800, data: '\x02"0 034520000000\r' },
+      { offsetMs: 9000, data: '\x02"0 034520000000\r' },
+      { offsetMs: 9200, data: '\x02"0 034520000000\r' },
+      { offsetMs: 9400, data: '\x02"0 034520000000\r' },
+      { offsetMs: 9600, data: '\x02"0 034520000000\r' },
+      { offsetMs: 9800, data: '\x02"0 034520000000\r' },
+      { offsetMs: 10000, data: '\x02"8 034520000000\r' },
+      { offsetMs: 10200, data: '\x02"8 032220000000\r' },
+      { offsetMs: 10400, data: '\x02"8 029920000000\r' },
+      { offsetMs: 10600, data: '\x02"8 027620000000\r' },
+      { offsetMs: 10800, data: '\x02"8 025310000000\r' },
+      { offsetMs: 11000, data: '\x02"8 023010000000\r' },
+      { offsetMs: 11200, data: '\x02"8 020710000000\r' },
+      { offsetMs: 11400, data: '\x02"8 018410000000\r' },
+      { offsetMs: 11600, data: '\x02"8 016110000000\r' },
+      { offsetMs: 11800, data: '\x02"8 013810000000\r' },
+      { offsetMs: 12000, data: '\x02"8 011510000000\r' },
+      { offsetMs: 12200, data: '\x02"8 009210000000\r' },
+      { offsetMs: 12400, data: '\x02"8 006900000000\r' },
+      { offsetMs: 12600, data: '\x02"8 004600000000\r' },
+      { offsetMs: 12800, data: '\x02"8 002300000000\r' },
+      { offsetMs: 13000, data: '\x02"8 000000000000\r' },
+      { offsetMs: 13200, data: '\x02"0 000000000000\r' },
+      { offsetMs: 13400, data: '\x02"0 000000000000\r' },
+      { offsetMs: 13600, data: '\x02"0 000000000000\r' },
+      { offsetMs: 13800, data: '\x02"0 000000000000\r' },
+    ],
+  },
+  {
+    id: 'caminhao-vazio',
+    name: 'Caminhão vazio (tara)',
+    protocol: 'toledo-p03',
+    loopDelayMs: 3000,
+    frames: [
+      { offsetMs: 0, data: '\x02"0 000000000000\r' },
+      { offsetMs: 200, data: '\x02"0 000000000000\r' },
+      { offsetMs: 400, data: '\x02"0 000000000000\r' },
+      { offsetMs: 600, data: '\x02"0 000000000000\r' },
+      { offsetMs: 800, data: '\x02"8 000670000000\r' },
+      { offsetMs: 1000, data: '\x02"8 001320000000\r' },
+      { offsetMs: 1200, data: '\x02"8 002030000000\r' },
+      { offsetMs: 1400, data: '\x02"8 002620000000\r' },
+      { offsetMs: 1600, data: '\x02"8 003310000000\r' },
+      { offsetMs: 1800, data: '\x02"8 004020000000\r' },
+      { offsetMs: 2000, data: '\x02"8 004580000000\r' },
+      { offsetMs: 2200, data: '\x02"8 005310000000\r' },
+      { offsetMs: 2400, data: '\x02"8 005870000000\r' },
+      { offsetMs: 2600, data: '\x02"8 006680000000\r' },
+      { offsetMs: 2800, data: '\x02"8 007380000000\r' },
+      { offsetMs: 3000, data: '\x02"8 007990000000\r' },
+      { offsetMs: 3200, data: '\x02"8 008760000000\r' },
+      { offsetMs: 3400, data: '\x02"8 009230000000\r' },
+      { offsetMs: 3600, data: '\x02"8 010040000000\r' },
+      { offsetMs: 3800, data: '\x02"8 009980000000\r' },
+      { offsetMs: 4000, data: '\x02"8 010000000000\r' },
+      { offsetMs: 4200, data: '\x02"8 009980000000\r' },
+      { offsetMs: 4400, data: '\x02"8 010000000000\r' },
+      { offsetMs: 4600, data: '\x02"8 009920000000\r' },
+      { offsetMs: 4800, data: '\x02"8 009920000000\r' },
+      { offsetMs: 5000, data: '\x02"0 009960000000\r' },
+      { offsetMs: 5200, data: '\x02"0 009960000000\r' },
+      { offsetMs: 5400, data: '\x02"0 009960000000\r' },
+      { offsetMs: 5600, data: '\x02"0 009960000000\r' },
+      { offsetMs: 5800, data: '\x02"0 009960000000\r' },
+      { offsetMs: 6000, data: '\x02"0 009960000000\r' },
+      { offsetMs: 6200, data: '\x02"0 009960000000\r' },
+      { offsetMs: 6400, data: '\x02"0 009960000000\r' },
+      { offsetMs: 6600, data: '\x02"0 009960000000\r' },
+      { offsetMs: 6800, data: '\x02"0 009960000000\r' },
+      { offsetMs: 7000, data: '\x02"0 009970000000\r' },
+      { offsetMs: 7200, data: '\x02"0 009960000000\r' },
+      { offsetMs: 7400, data: '\x02"0 009960000000\r' },
+      { offsetMs: 7600, data: '\x02"0 009960000000\r' },
+      { offsetMs: 7800, data: '\x02"0 009960000000\r' },
+      { offsetMs: 8000, data: '\x02"0 009960000000\r' },
+      { offsetMs: 8200, data: '\x02"0 009960000000\r' },
+      { offsetMs: 8400, data: '\x02"0 009960000000\r' },
+      { offsetMs: 8600, data: '\x02"0 009960000000\r' },
+      { offsetMs: 8800, data: '\x02"0 009960000000\r' },
+      { offsetMs: 9000, data: '\x02"0 009960000000\r' },
+      { offsetMs: 9200, data: '\x02"0 009960000000\r' },
+      { offsetMs: 9400, data: '\x02"0 009960000000\r' },
+      { offsetMs: 9600, data: '\x02"0 009970000000\r' },
+      { offsetMs: 9800, data: '\x02"0 009960000000\r' },
+      { offsetMs: 10000, data: '\x02"8 009960000000\r' },
+      { offsetMs: 10200, data: '\x02"8 009300000000\r' },
+      { offsetMs: 10400, data: '\x02"8 008630000000\r' },
+      { offsetMs: 10600, data: '\x02"8 007970000000\r' },
+      { offsetMs: 10800, data: '\x02"8 007300000000\r' },
+      { offsetMs: 11000, data: '\x02"8 006640000000\r' },
+      { offsetMs: 11200, data: '\x02"8 005980000000\r' },
+      { offsetMs: 11400, data: '\x02"8 005310000000\r' },
+      { offsetMs: 11600, data: '\x02"8 004650000000\r' },
+      { offsetMs: 11800, data: '\x02"8 003980000000\r' },
+      { offsetMs: 12000, data: '\x02"8 003320000000\r' },
+      { offsetMs: 12200, data: '\x02"8 002660000000\r' },
+      { offsetMs: 12400, data: '\x02"8 001990000000\r' },
+      { offsetMs: 12600, data: '\x02"8 001330000000\r' },
+      { offsetMs: 12800, data: '\x02"8 000660000000\r' },
+      { offsetMs: 13000, data: '\x02"8 000000000000\r' },
+      { offsetMs: 13200, data: '\x02"0 000000000000\r' },
+      { offsetMs: 13400, data: '\x02"0 000000000000\r' },
+      { offsetMs: 13600, data: '\x02"0 000000000000\r' },
+      { offsetMs: 13800, data: '\x02"0 000000000000\r' },
+    ],
+  },
+  {
+    id: 'truck-ascii',
+    name: 'Truck carregado (ASCII)',
+    protocol: 'ascii-line',
+    loopDelayMs: 3000,
+    frames: [
+      { offsetMs: 0, data: 'ST,GS,+0000000kg\r\n' },
+      { offsetMs: 200, data: 'ST,GS,+0000000kg\r\n' },
+      { offsetMs: 400, data: 'ST,GS,+0000000kg\r\n' },
+      { offsetMs: 600, data: 'ST,GS,+0000000kg\r\n' },
+      { offsetMs: 800, data: 'US,GS,+0001640kg\r\n' },
+      { offsetMs: 1000, data: 'US,GS,+0003310kg\r\n' },
+      { offsetMs: 1200, data: 'US,GS,+0004950kg\r\n' },
+      { offsetMs: 1400, data: 'US,GS,+0006740kg\r\n' },
+      { offsetMs: 1600, data: 'US,GS,+0008450kg\r\n' },
+      { offsetMs: 1800, data: 'US,GS,+0009810kg\r\n' },
+      { offsetMs: 2000, data: 'US,GS,+0011460kg\r\n' },
+      { offsetMs: 2200, data: 'US,GS,+0013130kg\r\n' },
+      { offsetMs: 2400, data: 'US,GS,+0014770kg\r\n' },
+      { offsetMs: 2600, data: 'US,GS,+0016580kg\r\n' },
+      { offsetMs: 2800, data: 'US,GS,+0018310kg\r\n' },
+      { offsetMs: 3000, data: 'US,GS,+0019720kg\r\n' },
+      { offsetMs: 3200, data: 'US,GS,+0021130kg\r\n' },
+      { offsetMs: 3400, data: 'US,GS,+0023150kg\r\n' },
+      { offsetMs: 3600, data: 'US,GS,+0024750kg\r\n' },
+      { offsetMs: 3800, data: 'US,GS,+0024900kg\r\n' },
+      { offsetMs: 4000, data: 'US,GS,+0024910kg\r\n' },
+      { offsetMs: 4200, data: 'US,GS,+0024850kg\r\n' },
+      { offsetMs: 4400, data: 'US,GS,+0024900kg\r\n' },
+      { offsetMs: 4600, data: 'US,GS,+0024900kg\r\n' },
+      { offsetMs: 4800, data: 'US,GS,+0024840kg\r\n' },
+      { offsetMs: 5000, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 5200, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 5400, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 5600, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 5800, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 6000, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 6200, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 6400, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 6600, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 6800, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 7000, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 7200, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 7400, data: 'ST,GS,+0024870kg\r\n' },
+      { offsetMs: 7600, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 7800, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 8000, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 8200, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 8400, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 8600, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 8800, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 9000, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 9200, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 9400, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 9600, data: 'ST,GS,+0024880kg\r\n' },
+      { offsetMs: 9800, data: 'ST,GS,+0024890kg\r\n' },
+      { offsetMs: 10000, data: 'US,GS,+0024880kg\r\n' },
+      { offsetMs: 10200, data: 'US,GS,+0023220kg\r\n' },
+      { offsetMs: 10400, data: 'US,GS,+0021560kg\r\n' },
+      { offsetMs: 10600, data: 'US,GS,+0019900kg\r\n' },
+      { offsetMs: 10800, data: 'US,GS,+0018250kg\r\n' },
+      { offsetMs: 11000, data: 'US,GS,+0016590kg\r\n' },
+      { offsetMs: 11200, data: 'US,GS,+0014930kg\r\n' },
+      { offsetMs: 11400, data: 'US,GS,+0013270kg\r\n' },
+      { offsetMs: 11600, data: 'US,GS,+0011610kg\r\n' },
+      { offsetMs: 11800, data: 'US,GS,+0009950kg\r\n' },
+      { offsetMs: 12000, data: 'US,GS,+0008290kg\r\n' },
+      { offsetMs: 12200, data: 'US,GS,+0006630kg\r\n' },
+      { offsetMs: 12400, data: 'US,GS,+0004980kg\r\n' },
+      { offsetMs: 12600, data: 'US,GS,+0003320kg\r\n' },
+      { offsetMs: 12800, data: 'US,GS,+0001660kg\r\n' },
+      { offsetMs: 13000, data: 'US,GS,+0000000kg\r\n' },
+      { offsetMs: 13200, data: 'ST,GS,+0000000kg\r\n' },
+      { offsetMs: 13400, data: 'ST,GS,+0000000kg\r\n' },
+      { offsetMs: 13600, data: 'ST,GS,+0000000kg\r\n' },
+      { offsetMs: 13800, data: 'ST,GS,+0000000kg\r\n' },
+    ],
+  },
+];
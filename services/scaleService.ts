@@ -0,0 +1,295 @@
+import { ScaleReading, WeighingTicket } from '../types';
+import { SCALE_RECORDINGS, ScaleRecording } from './scaleRecordings';
+import { localizedError } from './i18n';
+
+// Keys for localStorage
+const SCALE_SETTINGS_STORAGE_KEY = 'scale_settings';
+
+const STX = 0x02;
+const CR = 0x0d;
+const LF = 0x0a;
+const LB_TO_KG = 0.45359237;
+
+export type ScaleProtocol = 'toledo-p03' | 'ascii-line';
+export type ScaleSourceType = 'simulator' | 'bridge';
+
+export interface ScaleSettings {
+  sourceType: ScaleSourceType;
+  protocol: ScaleProtocol;
+  bridgeUrl: string; // Event stream exposed by bridge/scale-bridge.mjs
+  recordingId: string; // Simulator recording to replay
+  stabilityWindowMs: number; // Readings must stay within tolerance for this long
+  stabilityToleranceKg: number;
+  minimumWeightKg: number; // Below this the platform is considered empty
+}
+
+export const DEFAULT_SCALE_SETTINGS: ScaleSettings = {
+  sourceType: 'bridge',
+  protocol: 'toledo-p03',
+  bridgeUrl: 'http://localhost:8765/stream',
+  recordingId: SCALE_RECORDINGS[0].id,
+  stabilityWindowMs: 1500,
+  stabilityToleranceKg: 20,
+  minimumWeightKg: 200,
+};
+
+/**
+ * A single decoded indicator frame.
+ */
+export interface ScaleFrame {
+  weight: number; // kg (already converted from lb when needed)
+  tare: number | null; // kg, when the protocol reports it
+  mode: 'gross' | 'net';
+  motion: boolean; // Indicator reports the platform is moving
+  overload: boolean;
+  raw: string;
+}
+
+export type ScaleConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export interface ScaleSourceHandlers {
+  onData: (chunk: Uint8Array) => void;
+  onStatus: (status: ScaleConnectionStatus) => void;
+}
+
+/**
+ * A byte source for indicator data. Returns a function that closes the connection.
+ */
+export type ScaleSource = (handlers: ScaleSourceHandlers) => () => void;
+
+export const loadScaleSettings = (): ScaleSettings => {
+  const stored = localStorage.getItem(SCALE_SETTINGS_STORAGE_KEY);
+  return stored ? { ...DEFAULT_SCALE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SCALE_SETTINGS;
+};
+
+export const saveScaleSettings = (settings: ScaleSettings): void => {
+  localStorage.setItem(SCALE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Escapes control characters so a raw frame can be displayed and stored as text.
+ */
+export const escapeFrame = (raw: string): string =>
+  raw.replace(/[\x00-\x1f\x7f]/g, c => `<${c.charCodeAt(0).toString(16).padStart(2, '0').toUpperCase()}>`);
+
+/**
+ * Parses a Toledo P03-style continuous output frame:
+ * STX, status A, status B, status C, 6-digit weight, 6-digit tare, CR.
+ */
+export const parseToledoFrame = (bytes: Uint8Array): ScaleFrame | null => {
+  if (bytes.length < 17 || bytes[0] !== STX) return null;
+
+  const [swa, swb, swc] = [bytes[1], bytes[2], bytes[3]];
+  // Bit 5 is always set on every status word; anything else is line noise
+  if (!(swa & 0x20) || !(swb & 0x20) || !(swc & 0x20)) return null;
+
+  const text = String.fromCharCode(...bytes.subarray(4, 16));
+  if (!/^[0-9 ]{12}$/.test(text)) return null;
+
+  // Status A bits 0-2: decimal point position (2 = no decimals, lower values = trailing zeros)
+  const multiplier = Math.pow(10, 2 - (swa & 0x07));
+  const unitFactor = swb & 0x10 ? 1 : LB_TO_KG; // Status B bit 4: 1 = kg, 0 = lb
+  const sign = swb & 0x02 ? -1 : 1;
+
+  const weight = parseInt(text.slice(0, 6).trim() || '0', 10) * multiplier * unitFactor * sign;
+  const tare = parseInt(text.slice(6, 12).trim() || '0', 10) * multiplier * unitFactor;
+
+  return {
+    weight: Math.round(weight * 1000) / 1000,
+    tare: Math.round(tare * 1000) / 1000,
+    mode: swb & 0x01 ? 'net' : 'gross',
+    motion: !!(swb & 0x08),
+    overload: !!(swb & 0x04),
+    raw: String.fromCharCode(...bytes.subarray(0, 17)),
+  };
+};
+
+/**
+ * Parses a generic ASCII line such as "ST,GS,+0034520kg" (A&D and most local indicators).
+ */
+export const parseAsciiLine = (line: string): ScaleFrame | null => {
+  const match = line.trim().match(/^(ST|US|OL),(GS|NT|TR),\s*([+-]?\d+(?:[.,]\d+)?)\s*(kg|t|lb)?$/i);
+  if (!match) return null;
+
+  const [, header, mode, value, unit = 'kg'] = match;
+  let weight = parseFloat(value.replace(',', '.'));
+  if (unit.toLowerCase() === 't') weight *= 1000;
+  if (unit.toLowerCase() === 'lb') weight *= LB_TO_KG;
+
+  return {
+    weight: Math.round(weight * 1000) / 1000,
+    tare: null,
+    mode: mode.toUpperCase() === 'NT' ? 'net' : 'gross',
+    motion: header.toUpperCase() === 'US',
+    overload: header.toUpperCase() === 'OL',
+    raw: line,
+  };
+};
+
+/**
+ * Creates a stateful decoder that splits a raw byte stream into frames.
+ * Partial frames are kept until the next chunk arrives.
+ */
+export const createFrameDecoder = (protocol: ScaleProtocol) => {
+  let buffer: number[] = [];
+
+  return (chunk: Uint8Array): ScaleFrame[] => {
+    buffer.push(...chunk);
+    const frames: ScaleFrame[] = [];
+
+    if (protocol === 'toledo-p03') {
+      let start = buffer.indexOf(STX);
+      while (start !== -1 && buffer.length - start >= 17) {
+        const candidate = Uint8Array.from(buffer.slice(start, start + 17));
+        const frame = candidate[16] === CR ? parseToledoFrame(candidate) : null;
+        if (frame) {
+          frames.push(frame);
+          buffer = buffer.slice(start + 17);
+        } else {
+          // Resynchronise on the next STX
+          buffer = buffer.slice(start + 1);
+        }
+        start = buffer.indexOf(STX);
+      }
+      if (start === -1) buffer = [];
+    } else {
+      let end = buffer.findIndex(b => b === CR || b === LF);
+      while (end !== -1) {
+        const line = String.fromCharCode(...buffer.slice(0, end));
+        buffer = buffer.slice(end + 1);
+        const frame = line.trim() ? parseAsciiLine(line) : null;
+        if (frame) frames.push(frame);
+        end = buffer.findIndex(b => b === CR || b === LF);
+      }
+    }
+
+    // Guard against unbounded growth when the line carries garbage
+    if (buffer.length > 256) buffer = buffer.slice(-64);
+    return frames;
+  };
+};
+
+/**
+ * Creates a stability detector. The weight is considered stable when the indicator
+ * reports no motion and every sample within the window stays inside the tolerance.
+ */
+export const createStabilityDetector = (settings: Pick<ScaleSettings, 'stabilityWindowMs' | 'stabilityToleranceKg' | 'minimumWeightKg'>) => {
+  let samples: { weight: number; at: number }[] = [];
+
+  return (frame: ScaleFrame, at: number = Date.now()): boolean => {
+    if (frame.motion || frame.overload) {
+      samples = [];
+      return false;
+    }
+
+    samples.push({ weight: frame.weight, at });
+    samples = samples.filter(s => at - s.at <= settings.stabilityWindowMs);
+
+    const coveredMs = at - samples[0].at;
+    // Allow a small margin so frames arriving at the window edge still count
+    if (coveredMs < settings.stabilityWindowMs * 0.9) return false;
+    if (frame.weight < settings.minimumWeightKg) return false;
+
+    const weights = samples.map(s => s.weight);
+    return Math.max(...weights) - Math.min(...weights) <= settings.stabilityToleranceKg;
+  };
+};
+
+/**
+ * Connects to the local scale bridge (bridge/scale-bridge.mjs), which relays the raw
+ * serial or TCP stream of the indicator as base64-encoded server-sent events.
+ */
+export const createBridgeSource = (url: string): ScaleSource => ({ onData, onStatus }) => {
+  onStatus('connecting');
+  const events = new EventSource(url);
+
+  events.onopen = () => onStatus('connected');
+  events.onerror = () => onStatus('error'); // EventSource keeps reconnecting on its own
+  events.onmessage = (e: MessageEvent<string>) => {
+    const binary = atob(e.data);
+    onData(Uint8Array.from(binary, c => c.charCodeAt(0)));
+  };
+
+  return () => {
+    events.close();
+    onStatus('disconnected');
+  };
+};
+
+/**
+ * Replays a recorded indicator session in a loop, honouring the original frame timing.
+ */
+export const createSimulatorSource = (recording: ScaleRecording): ScaleSource => ({ onData, onStatus }) => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const emitNext = () => {
+    const frame = recording.frames[index];
+    onData(encoder.encode(frame.data));
+
+    index = (index + 1) % recording.frames.length;
+    const next = recording.frames[index];
+    const delay = index === 0 ? recording.loopDelayMs : next.offsetMs - frame.offsetMs;
+    timer = setTimeout(emitNext, Math.max(delay, 0));
+  };
+
+  onStatus('connected');
+  timer = setTimeout(emitNext, 0);
+
+  return () => {
+    clearTimeout(timer);
+    onStatus('disconnected');
+  };
+};
+
+export const createScaleSource = (settings: ScaleSettings): ScaleSource => {
+  if (settings.sourceType === 'bridge') {
+    return createBridgeSource(settings.bridgeUrl);
+  }
+  const recording = SCALE_RECORDINGS.find(r => r.id === settings.recordingId) || SCALE_RECORDINGS[0];
+  return createSimulatorSource(recording);
+};
+
+/**
+ * Simulator recordings carry their own protocol; the bridge uses the configured one.
+ */
+export const resolveScaleProtocol = (settings: ScaleSettings): ScaleProtocol => {
+  if (settings.sourceType === 'bridge') return settings.protocol;
+  const recording = SCALE_RECORDINGS.find(r => r.id === settings.recordingId) || SCALE_RECORDINGS[0];
+  return recording.protocol;
+};
+
+export const describeScaleSource = (settings: ScaleSettings): string => {
+  if (settings.sourceType === 'bridge') return settings.bridgeUrl;
+  const recording = SCALE_RECORDINGS.find(r => r.id === settings.recordingId) || SCALE_RECORDINGS[0];
+  return `Simulador (${recording.name})`;
+};
+
+/**
+ * Only a stable gross weight can go on a ticket: in net mode the indicator subtracts a tare
+ * that the ticket would not show.
+ */
+export const canCaptureFrame = (frame: ScaleFrame | null, stable: boolean): frame is ScaleFrame =>
+  !!frame && stable && frame.mode === 'gross' && !frame.overload;
+
+/**
+ * Freezes the current indicator frame into a reading that can be stored on a ticket.
+ * Throws for a frame that canCaptureFrame refuses.
+ */
+export const captureReading = (frame: ScaleFrame, stable: boolean, settings: ScaleSettings): ScaleReading => {
+  if (frame.mode === 'net') throw localizedError('scale.netModeRejected');
+  if (!canCaptureFrame(frame, stable)) throw localizedError('scale.notCapturable');
+  return {
+    weight: Math.round(frame.weight),
+    stable,
+    capturedAt: Date.now(),
+    source: describeScaleSource(settings),
+    rawFrame: escapeFrame(frame.raw),
+    ...(settings.sourceType === 'simulator' ? { simulated: true } : {}),
+  };
+};
+
+// Printed on the ticket: a simulated weight has no legal value
+export const hasSimulatedReading = (ticket: Pick<WeighingTicket, 'entryReading' | 'exitReading'>): boolean =>
+  !!(ticket.entryReading?.simulated || ticket.exitReading?.simulated);
@@ -0,0 +1,40 @@
+import { TicketUser, UserAccount, UserSession } from '../types';
+
+// Keys for sessionStorage: a session ends with the browser tab
+const SESSION_STORAGE_KEY = 'auth_session';
+
+export const getSession = (): UserSession | null => {
+  const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const storeSession = (session: UserSession): UserSession => {
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+};
+
+export const startSession = (user: UserAccount, now: number = Date.now()): UserSession =>
+  storeSession({ userId: user.userId, name: user.name, role: user.role, startedAt: now, lastActivityAt: now, locked: false });
+
+export const updateSession = (changes: Partial<Pick<UserSession, 'lastActivityAt' | 'locked'>>): UserSession | null => {
+  const session = getSession();
+  return session ? storeSession({ ...session, ...changes }) : null;
+};
+
+export const endSession = (): void => {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+/**
+ * Whether the session has been idle for longer than the configured limit (0 disables locking).
+ */
+export const isSessionIdle = (session: UserSession, lockAfterMinutes: number, now: number = Date.now()): boolean =>
+  lockAfterMinutes > 0 && now - session.lastActivityAt > lockAfterMinutes * 60 * 1000;
+
+export const getSessionUser = (): TicketUser | null => {
+  const session = getSession();
+  return session ? { userId: session.userId, name: session.name } : null;
+};
+
+// Name recorded in the audit log for actions without an explicit actor
+export const getSessionActor = (): string => getSession()?.name ?? 'Operador';
@@ -0,0 +1,216 @@
+import { WeighingTicket, TicketVerificationResult, SignedTicketFields, TrustedKey } from '../types';
+import { fetchRecentTickets } from './mockFirestore';
+import { getStationValue, putStationValue } from './stationDatabase';
+import { localizedError } from './i18n';
+
+// Keys for localStorage
+const TRUSTED_KEYS_STORAGE_KEY = 'trusted_public_keys';
+// Where earlier versions kept the signing key as an exportable JWK; moved once, then removed
+const LEGACY_SIGNING_KEY_STORAGE_KEY = 'site_signing_key';
+
+// Key of the station database (the private key cannot be exported from it)
+const SIGNING_KEY_DB_KEY = 'signingKey';
+
+const PAYLOAD_PREFIX = 'STP1';
+const PUBLIC_KEY_PREFIX = 'STPK1';
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+interface StoredSigningKey {
+  keyId: string;
+  privateKey: CryptoKey; // Non-extractable
+  publicJwk: JsonWebKey;
+  createdAt: number;
+}
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+/**
+ * Key id = first 16 hex chars of the SHA-256 of the public key coordinates.
+ */
+const computeKeyId = async (publicJwk: JsonWebKey): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${publicJwk.x}.${publicJwk.y}`));
+  return Array.from(new Uint8Array(digest).slice(0, 8), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+// A key kept by an earlier version is imported as non-extractable, so tickets it signed stay valid
+const importLegacySigningKey = async (): Promise<StoredSigningKey | null> => {
+  const stored = localStorage.getItem(LEGACY_SIGNING_KEY_STORAGE_KEY);
+  if (!stored) return null;
+  const legacy: { keyId: string; privateJwk: JsonWebKey; publicJwk: JsonWebKey; createdAt: number } = JSON.parse(stored);
+  const privateKey = await crypto.subtle.importKey('jwk', legacy.privateJwk, ALGORITHM, false, ['sign']);
+  return { keyId: legacy.keyId, privateKey, publicJwk: legacy.publicJwk, createdAt: legacy.createdAt };
+};
+
+const loadOrCreateSigningKey = async (): Promise<StoredSigningKey> => {
+  const stored = await getStationValue<StoredSigningKey>(SIGNING_KEY_DB_KEY);
+  if (stored) return stored;
+
+  let key = await importLegacySigningKey();
+  if (!key) {
+    // The public half of a pair stays exportable whatever the flag says
+    const pair = await crypto.subtle.generateKey(ALGORITHM, false, ['sign', 'verify']);
+    const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+    key = { keyId: await computeKeyId(publicJwk), privateKey: pair.privateKey, publicJwk, createdAt: Date.now() };
+  }
+  await putStationValue(SIGNING_KEY_DB_KEY, key);
+  localStorage.removeItem(LEGACY_SIGNING_KEY_STORAGE_KEY);
+  return key;
+};
+
+let signingKey: Promise<StoredSigningKey> | null = null;
+
+/**
+ * Returns the site signing key, generating it on first use. The private key is kept in the
+ * station database as a CryptoKey that cannot be exported.
+ */
+const getSigningKey = (): Promise<StoredSigningKey> => {
+  signingKey ??= loadOrCreateSigningKey().catch(err => {
+    signingKey = null; // Let the next call try again
+    throw err;
+  });
+  return signingKey;
+};
+
+const toSignedFields = (ticket: WeighingTicket, keyId: string): SignedTicketFields => ({
+  v: 1,
+  k: keyId,
+  id: ticket.id || '',
+  inv: ticket.invoiceId,
+  pl: ticket.truckPlateNumber,
+  g: ticket.grossWeightCalculated,
+  t: ticket.truckTareWeight,
+  n: ticket.netWeightMeasured ?? ticket.grossWeightCalculated - ticket.truckTareWeight,
+  ts: ticket.issueTimestamp,
+});
+
+/**
+ * Signs the key fields of a ticket with the site key.
+ * Result format: STP1.<base64url JSON fields>.<base64url ECDSA P-256 signature>
+ */
+export const signTicket = async (ticket: WeighingTicket): Promise<string> => {
+  const key = await getSigningKey();
+
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(toSignedFields(ticket, key.keyId))));
+  const signature = await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, new TextEncoder().encode(`${PAYLOAD_PREFIX}.${body}`));
+
+  return `${PAYLOAD_PREFIX}.${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Public key of this site in a shareable text form, for receiving parties to import.
+ */
+export const exportSitePublicKey = async (): Promise<string> => {
+  const key = await getSigningKey();
+  const jwk = { kty: key.publicJwk.kty, crv: key.publicJwk.crv, x: key.publicJwk.x, y: key.publicJwk.y };
+  return `${PUBLIC_KEY_PREFIX}.${key.keyId}.${toBase64Url(new TextEncoder().encode(JSON.stringify(jwk)))}`;
+};
+
+export const fetchTrustedKeys = async (): Promise<TrustedKey[]> => {
+  const stored = localStorage.getItem(TRUSTED_KEYS_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+/**
+ * Imports a public key exported by another site (STPK1.<keyId>.<jwk>).
+ */
+export const importTrustedKey = async (exported: string, label: string): Promise<TrustedKey> => {
+  const [prefix, keyId, encodedJwk] = exported.trim().split('.');
+  if (prefix !== PUBLIC_KEY_PREFIX || !keyId || !encodedJwk) {
+    throw localizedError('verify.invalidKeyFormat');
+  }
+
+  const publicJwk: JsonWebKey = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedJwk)));
+  if ((await computeKeyId(publicJwk)) !== keyId) {
+    throw localizedError('verify.keyIdMismatch');
+  }
+
+  const trusted: TrustedKey = { keyId, label, publicJwk, importedAt: Date.now() };
+  const keys = (await fetchTrustedKeys()).filter(k => k.keyId !== keyId);
+  keys.push(trusted);
+  localStorage.setItem(TRUSTED_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  return trusted;
+};
+
+/**
+ * Verifies a scanned or pasted QR payload entirely offline, against the site key
+ * and the imported trusted keys, then cross-checks the local ticket record if present.
+ */
+export const verifyTicketPayload = async (payload: string): Promise<TicketVerificationResult> => {
+  const parts = payload.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== PAYLOAD_PREFIX) {
+    return { status: 'malformed', code: 'not-a-ticket' };
+  }
+
+  let fields: SignedTicketFields;
+  try {
+    fields = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[1])));
+  } catch {
+    return { status: 'malformed', code: 'undecodable' };
+  }
+  // Valid JSON is not enough: "null", a number or an object without a key id are not tickets
+  if (!fields || typeof fields !== 'object' || typeof fields.k !== 'string' || typeof fields.id !== 'string') {
+    return { status: 'malformed', code: 'undecodable' };
+  }
+
+  const siteKey = await getSigningKey();
+  const trustedKeys = await fetchTrustedKeys();
+  const ownKey = fields.k === siteKey.keyId;
+  const keyLabel = ownKey ? undefined : trustedKeys.find(k => k.keyId === fields.k)?.label;
+  const publicJwk = ownKey ? siteKey.publicJwk : trustedKeys.find(k => k.keyId === fields.k)?.publicJwk;
+  if (!publicJwk) {
+    return { status: 'unknown-key', code: 'untrusted-key', params: { key: fields.k }, fields };
+  }
+
+  let signatureValid = false;
+  try {
+    const publicKey = await crypto.subtle.importKey('jwk', publicJwk, ALGORITHM, false, ['verify']);
+    signatureValid = await crypto.subtle.verify(
+      SIGN_PARAMS,
+      publicKey,
+      fromBase64Url(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return { status: 'tampered', code: 'bad-signature', fields, keyLabel, ownKey };
+  }
+
+  // Signature is genuine; compare against the local record when this station has it
+  const localTicket = (await fetchRecentTickets()).find(t => t.id === fields.id);
+  if (localTicket) {
+    const localFields = toSignedFields(localTicket, fields.k);
+    const mismatch = (Object.keys(fields) as (keyof SignedTicketFields)[]).some(key => localFields[key] !== fields[key]);
+    if (mismatch) {
+      return { status: 'tampered', code: 'local-mismatch', fields, keyLabel, ownKey };
+    }
+    if (localTicket.ticketStatus === 'Cancelled' && localTicket.cancellation) {
+      const { reason, replacedByTicketId } = localTicket.cancellation;
+      return {
+        status: 'cancelled',
+        code: replacedByTicketId ? 'cancelled-replaced' : 'cancelled',
+        params: { reason, id: replacedByTicketId ?? '' },
+        fields,
+        keyLabel,
+        ownKey,
+      };
+    }
+  }
+
+  return {
+    status: 'valid',
+    fields,
+    keyLabel,
+    ownKey,
+    code: localTicket ? 'valid-local' : 'valid-remote',
+  };
+};
@@ -0,0 +1,122 @@
+import { SiteSettings } from '../types';
+import { readSetting, writeSetting } from './repository';
+import { LocalizedMessage, localizedError } from './i18n';
+
+// Keys for localStorage. The site list is shared; the active site is chosen per station.
+const SITES_STORAGE_KEY = 'site_settings';
+const ACTIVE_SITE_STORAGE_KEY = 'active_site';
+
+const LOGO_MAX_WIDTH = 300;
+const LOGO_MAX_HEIGHT = 120;
+
+// The header printed on every ticket before sites were configurable; also used for reprints of those tickets
+export const DEFAULT_SITE: SiteSettings = {
+  siteId: 'LAG',
+  legalName: 'Balança Rodoviária Lagoinha',
+  tradeName: 'Balança Rodoviária Lagoinha',
+  cnpj: '',
+  address: 'Rua Antonio Fernandes Figueroa, 1166',
+  city: 'Ribeirão Preto',
+  state: 'SP',
+  logoDataUrl: '',
+  scaleSerial: '',
+  inmetroSeal: '',
+  footerText: '',
+  ticketLayout: 'thermal-80',
+  ticketLocale: 'pt-BR',
+};
+
+export const createEmptySite = (): SiteSettings => ({
+  ...DEFAULT_SITE,
+  siteId: '',
+  legalName: '',
+  tradeName: '',
+  address: '',
+  city: '',
+  state: '',
+});
+
+export const loadSites = (): SiteSettings[] =>
+  readSetting(SITES_STORAGE_KEY, { sites: [DEFAULT_SITE] }).sites.map(site => ({ ticketLayout: DEFAULT_SITE.ticketLayout, ticketLocale: DEFAULT_SITE.ticketLocale, ...site }));
+
+export const saveSites = (sites: SiteSettings[]): void => {
+  writeSetting(SITES_STORAGE_KEY, { sites });
+};
+
+/**
+ * Site this station issues tickets for. Falls back to the first configured site.
+ */
+export const getActiveSite = (): SiteSettings => {
+  const sites = loadSites();
+  const activeId = localStorage.getItem(ACTIVE_SITE_STORAGE_KEY);
+  return sites.find(s => s.siteId === activeId) || sites[0] || DEFAULT_SITE;
+};
+
+export const setActiveSiteId = (siteId: string): void => {
+  localStorage.setItem(ACTIVE_SITE_STORAGE_KEY, siteId);
+};
+
+const onlyDigits = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * CNPJ check digits (mod 11). Repeated-digit numbers such as 11.111.111/1111-11 are invalid.
+ */
+export const isValidCnpj = (value: string): boolean => {
+  const cnpj = onlyDigits(value);
+  if (cnpj.length !== 14 || /^(\d)\1{13}$/.test(cnpj)) return false;
+
+  const checkDigit = (length: number): number => {
+    const sum = cnpj.slice(0, length).split('').reduce((acc, digit, i) => acc + Number(digit) * (((length - 1 - i) % 8) + 2), 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return checkDigit(12) === Number(cnpj[12]) && checkDigit(13) === Number(cnpj[13]);
+};
+
+// e.g. 12.345.678/0001-95
+export const formatCnpj = (value: string): string => {
+  const cnpj = onlyDigits(value);
+  return cnpj.length === 14 ? cnpj.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5') : value;
+};
+
+/**
+ * Lists the problems that prevent a site from being saved.
+ */
+export const validateSite = (site: SiteSettings, sites: SiteSettings[]): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+  if (!/^[A-Z0-9]{2,6}$/.test(site.siteId)) errors.push({ key: 'numbering.invalidSiteCode' });
+  if (!site.legalName.trim()) errors.push({ key: 'sites.error.legalName' });
+  if (site.cnpj && !isValidCnpj(site.cnpj)) errors.push({ key: 'sites.error.cnpj' });
+  if (site.state && !/^[A-Z]{2}$/.test(site.state)) errors.push({ key: 'sites.error.state' });
+  if (sites.filter(s => s.siteId === site.siteId).length > 1) errors.push({ key: 'sites.error.duplicate', params: { siteId: site.siteId } });
+  return errors;
+};
+
+/**
+ * Reads an image file as a data URL, scaled down to fit the ticket header. Every ticket stores
+ * a copy of it in its snapshot, so the size matters.
+ */
+export const readLogoFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(file);
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, LOGO_MAX_WIDTH / image.width, LOGO_MAX_HEIGHT / image.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(localizedError('sites.imageProcessingFailed'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(localizedError('sites.invalidImage'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,40 @@
+import { completion, toPromise } from './indexedDbRepository';
+import { localizedError } from './i18n';
+
+// Records that belong to this station whatever the selected storage backend: they are never synced
+const DATABASE_NAME = 'scaleticket-station';
+const DATABASE_VERSION = 1;
+
+export const AUDIT_LOG_STORE = 'auditLog';
+export const STATION_VALUES_STORE = 'values';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(AUDIT_LOG_STORE, { keyPath: 'sequence' });
+    db.createObjectStore(STATION_VALUES_STORE); // Out-of-line keys: the value name
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(localizedError('storage.databaseBlocked'));
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+export const getStationDatabase = (): Promise<IDBDatabase> => {
+  database ??= openDatabase().catch(err => {
+    database = null; // Let the next call try again
+    throw err;
+  });
+  return database;
+};
+
+export const getStationValue = async <T>(key: string): Promise<T | undefined> =>
+  toPromise((await getStationDatabase()).transaction(STATION_VALUES_STORE).objectStore(STATION_VALUES_STORE).get(key));
+
+export const putStationValue = async (key: string, value: unknown): Promise<void> => {
+  const transaction = (await getStationDatabase()).transaction(STATION_VALUES_STORE, 'readwrite');
+  transaction.objectStore(STATION_VALUES_STORE).put(value, key);
+  return completion(transaction);
+};
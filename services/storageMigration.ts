@@ -0,0 +1,87 @@
+import { DataRepository } from './repository';
+import { localizedError } from './i18n';
+import {
+  createLocalStorageRepository,
+  LEGACY_TARE_HISTORY_STORAGE_KEY,
+  LEGACY_TICKETS_STORAGE_KEY,
+  LEGACY_TRUCKS_STORAGE_KEY,
+} from './localStorageRepository';
+
+// Keys for localStorage
+const MIGRATION_STORAGE_KEY = 'storage_migrations';
+
+// Settings written through to the repository (see writeSetting)
+const SHARED_SETTING_KEYS = ['weight_validation_settings', 'tare_settings', 'ticket_numbering_settings', 'site_settings', 'ticket_export_settings', 'classification_settings'];
+
+export interface MigrationReport {
+  target: string;
+  migratedAt: number; // Unix timestamp
+  tickets: number;
+  trucks: number;
+  tareMeasurements: number;
+  settings: number;
+}
+
+export const fetchMigrationReports = (): MigrationReport[] => {
+  const stored = localStorage.getItem(MIGRATION_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+/**
+ * One-time copy of the localStorage collections into a new backend. Records already present in
+ * the target are left alone, so an interrupted run can simply be repeated. The legacy arrays
+ * are removed only after every ticket was confirmed in the target, freeing the quota.
+ */
+export const migrateLocalStorage = async (target: DataRepository): Promise<MigrationReport | null> => {
+  if (target.backend === 'local') return null;
+  const reports = fetchMigrationReports();
+  if (reports.some(r => r.target === target.label)) return null;
+
+  const legacy = createLocalStorageRepository();
+  const [tickets, trucks, tareHistory, targetSettings] = await Promise.all([
+    legacy.queryTickets(),
+    legacy.listTrucks(),
+    legacy.listTareHistory(),
+    target.listSettings(),
+  ]);
+
+  const report: MigrationReport = { target: target.label, migratedAt: Date.now(), tickets: 0, trucks: 0, tareMeasurements: 0, settings: 0 };
+
+  for (const ticket of tickets) {
+    if (!ticket.id || await target.getTicket(ticket.id)) continue;
+    await target.putTicket(ticket);
+    report.tickets++;
+  }
+
+  const existingTrucks = new Set((await target.listTrucks()).map(t => t.truckId));
+  for (const truck of trucks.filter(t => !existingTrucks.has(t.truckId))) {
+    await target.putTruck(truck);
+    report.trucks++;
+  }
+
+  const existingMeasurements = new Set((await target.listTareHistory()).map(m => m.id));
+  for (const measurement of tareHistory.filter(m => !existingMeasurements.has(m.id))) {
+    await target.putTareMeasurement(measurement);
+    report.tareMeasurements++;
+  }
+
+  for (const key of SHARED_SETTING_KEYS) {
+    const stored = localStorage.getItem(key);
+    if (stored === null || key in targetSettings) continue;
+    await target.putSetting(key, JSON.parse(stored));
+    report.settings++;
+  }
+
+  // Verify before dropping the legacy copy
+  const missing = [];
+  for (const ticket of tickets) {
+    if (ticket.id && !(await target.getTicket(ticket.id))) missing.push(ticket.id);
+  }
+  if (missing.length > 0) {
+    throw localizedError('storage.migrationIncomplete', { count: missing.length });
+  }
+  [LEGACY_TICKETS_STORAGE_KEY, LEGACY_TRUCKS_STORAGE_KEY, LEGACY_TARE_HISTORY_STORAGE_KEY].forEach(key => localStorage.removeItem(key));
+
+  localStorage.setItem(MIGRATION_STORAGE_KEY, JSON.stringify([...reports, report]));
+  return report;
+};
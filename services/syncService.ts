@@ -0,0 +1,508 @@
+import { TareMeasurement, TicketStatus, Truck, WeighingTicket } from '../types';
+import { getRepository, loadStorageSettings } from './repository';
+import { withTicketNumberLock } from './ticketNumbering';
+import { localizedError } from './i18n';
+
+// Keys for localStorage (per station, never shared through the repository)
+const SYNC_SETTINGS_STORAGE_KEY = 'sync_settings';
+const OUTBOX_STORAGE_KEY = 'sync_outbox';
+const SYNC_STATE_STORAGE_KEY = 'sync_state';
+
+const PULL_PAGE_SIZE = 200;
+const MAX_PUSH_ROUNDS = 3;
+const QUEUE_DEBOUNCE_MS = 1000;
+
+export type SyncEntity = 'ticket' | 'truck' | 'tare';
+export type SyncRecord = WeighingTicket | Truck | TareMeasurement;
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string; // Base URL of the central server, e.g. http://10.0.0.5:8787/api
+  stationId: string; // Identifies this scale house; breaks ties between simultaneous edits
+  intervalSeconds: number;
+  token: string; // Access token of the central server, required for pushing changes
+}
+
+export interface OutboxEntry {
+  entity: SyncEntity;
+  recordId: string;
+  baseRevision: number; // Server revision the local change was made on
+  record: SyncRecord;
+  queuedAt: number; // Unix timestamp
+  attempts: number;
+  status: 'pending' | 'failed';
+  lastError?: string;
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  failed: number;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
+
+interface RemoteRecord {
+  entity: SyncEntity;
+  id: string;
+  revision: number;
+  record: SyncRecord;
+}
+
+type PushResult =
+  | { entity: SyncEntity; id: string; status: 'applied'; revision: number }
+  | { entity: SyncEntity; id: string; status: 'conflict'; revision: number; record: SyncRecord }
+  | { entity: SyncEntity; id: string; status: 'rejected'; error: string };
+
+interface StoredSyncState {
+  cursor: number; // Last change sequence pulled from the server
+  lastSyncAt: number | null;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  serverUrl: 'http://localhost:8787/api',
+  stationId: '',
+  intervalSeconds: 30,
+  token: '',
+};
+
+export const loadSyncSettings = (): SyncSettings => {
+  const stored = localStorage.getItem(SYNC_SETTINGS_STORAGE_KEY);
+  const settings: SyncSettings = stored ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_SYNC_SETTINGS };
+  if (!settings.stationId) {
+    // Generated once, so that every browser profile is a distinct station
+    settings.stationId = `EST-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+    localStorage.setItem(SYNC_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+  return settings;
+};
+
+/**
+ * Takes effect on the next start of the sync engine (page load).
+ */
+export const saveSyncSettings = (settings: SyncSettings): void => {
+  localStorage.setItem(SYNC_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// With the REST backend every write already goes to the server, so there is nothing to sync
+export const isSyncActive = (settings: SyncSettings = loadSyncSettings()): boolean =>
+  settings.enabled && !!settings.serverUrl && loadStorageSettings().backend !== 'rest';
+
+export const fetchOutbox = (): OutboxEntry[] => {
+  const stored = localStorage.getItem(OUTBOX_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeOutbox = (outbox: OutboxEntry[]): void => {
+  localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outbox));
+  publish({});
+};
+
+const readSyncState = (): StoredSyncState => {
+  const stored = localStorage.getItem(SYNC_STATE_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : { cursor: 0, lastSyncAt: null };
+};
+
+const writeSyncState = (state: StoredSyncState): void => {
+  localStorage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(state));
+};
+
+const recordIdOf = (entity: SyncEntity, record: SyncRecord): string =>
+  entity === 'truck' ? (record as Truck).truckId : (record as WeighingTicket | TareMeasurement).id || '';
+
+const sameEntry = (entry: OutboxEntry, entity: SyncEntity, recordId: string): boolean =>
+  entry.entity === entity && entry.recordId === recordId;
+
+// --- Status ------------------------------------------------------------------------------
+
+const listeners = new Set<(status: SyncStatus) => void>();
+let currentStatus: Omit<SyncStatus, 'pending' | 'failed'> = {
+  state: 'disabled',
+  lastSyncAt: null,
+  lastError: null,
+};
+
+export const getSyncStatus = (): SyncStatus => {
+  const outbox = fetchOutbox();
+  return {
+    ...currentStatus,
+    pending: outbox.filter(e => e.status === 'pending').length,
+    failed: outbox.filter(e => e.status === 'failed').length,
+  };
+};
+
+const publish = (update: Partial<SyncStatus>): void => {
+  currentStatus = { ...currentStatus, ...update };
+  const status = getSyncStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+/**
+ * Calls the listener now and on every status or outbox change. Returns the unsubscribe function.
+ */
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  listeners.add(listener);
+  listener(getSyncStatus());
+  return () => { listeners.delete(listener); };
+};
+
+// --- Local changes -----------------------------------------------------------------------
+
+/**
+ * Marks a record as changed by this station. The revision is taken from the stored copy when
+ * there is one (the caller's copy may predate a pull): it is the server version the change is based on.
+ */
+export const stampLocalChange = <T extends SyncRecord>(record: T, stored?: SyncRecord | null): T => ({
+  ...record,
+  sync: {
+    revision: stored?.sync?.revision ?? record.sync?.revision ?? 0,
+    updatedAt: Date.now(),
+    stationId: loadSyncSettings().stationId,
+  },
+});
+
+let queueTimer: ReturnType<typeof setTimeout> | null = null;
+let engineRunning = false;
+
+/**
+ * Queues a stored record for upload. A record has at most one outbox entry: a newer change
+ * replaces the queued payload but keeps the revision it was based on.
+ */
+export const queueLocalChange = (entity: SyncEntity, record: SyncRecord): void => {
+  if (!isSyncActive()) return;
+  const recordId = recordIdOf(entity, record);
+  const outbox = fetchOutbox();
+  const existing = outbox.find(e => sameEntry(e, entity, recordId));
+  const entry: OutboxEntry = {
+    entity,
+    recordId,
+    baseRevision: existing ? existing.baseRevision : record.sync?.revision ?? 0,
+    record,
+    queuedAt: Date.now(),
+    attempts: 0,
+    status: 'pending',
+  };
+  writeOutbox(existing ? outbox.map(e => (e === existing ? entry : e)) : [...outbox, entry]);
+
+  if (engineRunning) {
+    if (queueTimer) clearTimeout(queueTimer);
+    queueTimer = setTimeout(() => { syncNow().catch(() => undefined); }, QUEUE_DEBOUNCE_MS);
+  }
+};
+
+/**
+ * Queues every local ticket, vehicle and tare measurement, e.g. when a station joins the
+ * central server with existing data. Returns the number of queued records.
+ */
+export const queueAllLocalRecords = async (): Promise<number> => {
+  const repository = await getRepository();
+  const [tickets, trucks, tareHistory] = await Promise.all([
+    repository.queryTickets(),
+    repository.listTrucks(),
+    repository.listTareHistory(),
+  ]);
+  const records: [SyncEntity, SyncRecord][] = [
+    ...trucks.map((truck): [SyncEntity, SyncRecord] => ['truck', truck]),
+    ...tareHistory.map((measurement): [SyncEntity, SyncRecord] => ['tare', measurement]),
+    ...tickets.filter(ticket => ticket.id).map((ticket): [SyncEntity, SyncRecord] => ['ticket', ticket]),
+  ];
+  for (const [entity, record] of records) {
+    // Records from before synchronisation was enabled have no station yet
+    const stamped = record.sync ? record : stampLocalChange(record);
+    if (stamped !== record) await writeLocalRecord(entity, stamped);
+    queueLocalChange(entity, stamped);
+  }
+  return records.length;
+};
+
+export const retryFailedEntries = (): void => {
+  writeOutbox(fetchOutbox().map(e => (e.status === 'failed' ? { ...e, status: 'pending', attempts: 0, lastError: undefined } : e)));
+};
+
+/**
+ * Drops a failed change from the outbox. The local record stays as it is; the next change to
+ * it is queued again.
+ */
+export const discardOutboxEntry = (entity: SyncEntity, recordId: string): void => {
+  writeOutbox(fetchOutbox().filter(e => !sameEntry(e, entity, recordId)));
+};
+
+// --- Conflict resolution -----------------------------------------------------------------
+
+// A later stage of the ticket life cycle always wins; a cancellation is never undone
+const STATUS_RANK: Record<TicketStatus, number> = {
+  Draft: 0,
+  AwaitingExit: 1,
+  Printed: 2,
+  'Over-Capacity': 2,
+  Cancelled: 3,
+};
+
+// Newest change wins; equal timestamps are broken by the station id, so every station picks the same record
+const newerOf = <T extends SyncRecord>(a: T, b: T): T => {
+  const updatedA = a.sync?.updatedAt ?? 0;
+  const updatedB = b.sync?.updatedAt ?? 0;
+  if (updatedA !== updatedB) return updatedA > updatedB ? a : b;
+  return (a.sync?.stationId ?? '') >= (b.sync?.stationId ?? '') ? a : b;
+};
+
+/**
+ * Merges a local change with the server's version of the same record. The result depends
+ * only on the two records, not on which station runs it:
+ * - tickets: the more advanced status wins (Cancelled > Printed/Over-Capacity > AwaitingExit > Draft),
+ *   then the newest change; the reprint count is the highest of both
+ * - vehicles: the newest change wins
+ * - tare measurements are never edited, so the server's copy is kept
+ */
+export const resolveConflict = (entity: SyncEntity, local: SyncRecord, remote: SyncRecord): SyncRecord => {
+  if (entity === 'tare') return remote;
+  if (entity === 'truck') return newerOf(local as Truck, remote as Truck);
+
+  const localTicket = local as WeighingTicket;
+  const remoteTicket = remote as WeighingTicket;
+  const localRank = STATUS_RANK[localTicket.ticketStatus];
+  const remoteRank = STATUS_RANK[remoteTicket.ticketStatus];
+  const winner = localRank !== remoteRank
+    ? (localRank > remoteRank ? localTicket : remoteTicket)
+    : newerOf(localTicket, remoteTicket);
+  const reprintCount = Math.max(localTicket.reprintCount || 0, remoteTicket.reprintCount || 0);
+  return reprintCount > (winner.reprintCount || 0) ? { ...winner, reprintCount } : winner;
+};
+
+// Two stations of the same site and series numbered different tickets alike while offline
+const isNumberCollision = (entity: SyncEntity, baseRevision: number, local: SyncRecord, remote: SyncRecord): boolean =>
+  entity === 'ticket' &&
+  baseRevision === 0 &&
+  local.sync?.stationId !== remote.sync?.stationId &&
+  (local as WeighingTicket).issueTimestamp !== (remote as WeighingTicket).issueTimestamp;
+
+const withRevision = <T extends SyncRecord>(record: T, revision: number): T => ({
+  ...record,
+  sync: { updatedAt: 0, stationId: '', ...record.sync, revision },
+});
+
+// --- Local store -------------------------------------------------------------------------
+
+const readLocalRecord = async (entity: SyncEntity, recordId: string): Promise<SyncRecord | null> => {
+  const repository = await getRepository();
+  if (entity === 'ticket') return repository.getTicket(recordId);
+  if (entity === 'truck') return (await repository.listTrucks()).find(t => t.truckId === recordId) ?? null;
+  return (await repository.listTareHistory()).find(m => m.id === recordId) ?? null;
+};
+
+// Bypasses the service layer on purpose: remote changes are neither re-queued nor audited again
+const writeLocalRecord = async (entity: SyncEntity, record: SyncRecord): Promise<void> => {
+  const repository = await getRepository();
+  if (entity === 'ticket') {
+    // Same lock as local ticket writes, so a pulled ticket never overwrites one being saved
+    await withTicketNumberLock(() => repository.putTicket(record as WeighingTicket));
+  } else if (entity === 'truck') {
+    await repository.putTruck(record as Truck);
+  } else {
+    await repository.putTareMeasurement(record as TareMeasurement);
+  }
+};
+
+// --- Server ------------------------------------------------------------------------------
+
+const requestServer = async <T>(settings: SyncSettings, path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${settings.serverUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+      ...init?.headers,
+    },
+  });
+  if (!response.ok) {
+    throw localizedError('storage.serverError', { status: String(response.status), path });
+  }
+  return response.json();
+};
+
+const updateEntry = (entity: SyncEntity, recordId: string, update: (entry: OutboxEntry) => OutboxEntry | null): void => {
+  const outbox = fetchOutbox();
+  const next = outbox.flatMap(e => {
+    if (!sameEntry(e, entity, recordId)) return [e];
+    const updated = update(e);
+    return updated ? [updated] : [];
+  });
+  writeOutbox(next);
+};
+
+const applyPushResult = async (pushed: OutboxEntry, result: PushResult): Promise<boolean> => {
+  const { entity, recordId } = pushed;
+
+  if (result.status === 'applied') {
+    // Keep a change queued while the push was in flight, now based on the new revision
+    updateEntry(entity, recordId, e => (e.queuedAt === pushed.queuedAt ? null : { ...e, baseRevision: result.revision }));
+    const local = await readLocalRecord(entity, recordId);
+    if (local) await writeLocalRecord(entity, withRevision(local, result.revision));
+    return false;
+  }
+
+  if (result.status === 'rejected') {
+    updateEntry(entity, recordId, e => ({ ...e, status: 'failed', attempts: e.attempts + 1, lastError: result.error }));
+    return false;
+  }
+
+  if (isNumberCollision(entity, pushed.baseRevision, pushed.record, result.record)) {
+    const error = `O número ${recordId} já foi usado pela estação ${result.record.sync?.stationId ?? '?'}. Use uma série própria para cada estação.`;
+    updateEntry(entity, recordId, e => ({ ...e, status: 'failed', attempts: e.attempts + 1, lastError: error }));
+    return false;
+  }
+
+  const current = fetchOutbox().find(e => sameEntry(e, entity, recordId));
+  const resolved = resolveConflict(entity, current ? current.record : pushed.record, result.record);
+  const merged = withRevision(resolved, result.revision);
+  await writeLocalRecord(entity, merged);
+
+  if (resolved === result.record) {
+    updateEntry(entity, recordId, () => null);
+    return false;
+  }
+  // The merged record goes back up on top of the server's revision
+  updateEntry(entity, recordId, e => ({ ...e, record: merged, baseRevision: result.revision, attempts: e.attempts + 1 }));
+  return true;
+};
+
+const pushOutbox = async (settings: SyncSettings): Promise<void> => {
+  for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+    const pending = fetchOutbox().filter(e => e.status === 'pending');
+    if (pending.length === 0) return;
+
+    const { results } = await requestServer<{ results: PushResult[] }>(settings, '/sync/push', {
+      method: 'POST',
+      body: JSON.stringify({
+        stationId: settings.stationId,
+        changes: pending.map(e => ({ entity: e.entity, id: e.recordId, baseRevision: e.baseRevision, record: e.record })),
+      }),
+    });
+
+    let resend = false;
+    for (const result of results) {
+      const pushed = pending.find(e => sameEntry(e, result.entity, result.id));
+      if (pushed && await applyPushResult(pushed, result)) resend = true;
+    }
+    if (!resend) return;
+  }
+};
+
+const pullChanges = async (settings: SyncSettings, onRemoteChange: (entities: SyncEntity[]) => void): Promise<void> => {
+  const changed = new Set<SyncEntity>();
+  let more = true;
+
+  while (more) {
+    const state = readSyncState();
+    const page = await requestServer<{ changes: RemoteRecord[]; cursor: number; more: boolean }>(
+      settings,
+      `/sync/changes?since=${state.cursor}&limit=${PULL_PAGE_SIZE}`
+    );
+
+    for (const change of page.changes) {
+      const remote = withRevision(change.record, change.revision);
+      const queued = fetchOutbox().find(e => sameEntry(e, change.entity, change.id));
+
+      if (queued) {
+        if (queued.baseRevision >= change.revision) continue;
+        if (isNumberCollision(change.entity, queued.baseRevision, queued.record, remote)) {
+          const error = `O número ${change.id} já foi usado pela estação ${remote.sync?.stationId ?? '?'}. Use uma série própria para cada estação.`;
+          updateEntry(change.entity, change.id, e => ({ ...e, status: 'failed', lastError: error }));
+          continue;
+        }
+        // A local change is still waiting: merge now, the result is pushed on the next run
+        const resolved = resolveConflict(change.entity, queued.record, remote);
+        const merged = withRevision(resolved, change.revision);
+        updateEntry(change.entity, change.id, e => (resolved === remote ? null : { ...e, record: merged, baseRevision: change.revision }));
+        await writeLocalRecord(change.entity, merged);
+      } else {
+        const local = await readLocalRecord(change.entity, change.id);
+        if (local && (local.sync?.revision ?? 0) >= change.revision) continue;
+        await writeLocalRecord(change.entity, remote);
+      }
+      changed.add(change.entity);
+    }
+
+    writeSyncState({ ...state, cursor: page.cursor });
+    more = page.more && page.changes.length > 0;
+  }
+
+  if (changed.size > 0) onRemoteChange([...changed]);
+};
+
+// --- Engine ------------------------------------------------------------------------------
+
+let running: Promise<void> | null = null;
+let remoteChangeHandler: (entities: SyncEntity[]) => void = () => undefined;
+
+const runSync = async (): Promise<void> => {
+  const settings = loadSyncSettings();
+  if (!isSyncActive(settings)) {
+    publish({ state: 'disabled' });
+    return;
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    publish({ state: 'offline' });
+    return;
+  }
+
+  publish({ state: 'syncing' });
+  try {
+    await pushOutbox(settings);
+    await pullChanges(settings, remoteChangeHandler);
+    const lastSyncAt = Date.now();
+    writeSyncState({ ...readSyncState(), lastSyncAt });
+    publish({ state: 'idle', lastSyncAt, lastError: null });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // fetch rejects with a TypeError when the server cannot be reached at all
+    const unreachable = err instanceof TypeError;
+    writeOutbox(fetchOutbox().map(e => (e.status === 'pending' ? { ...e, attempts: e.attempts + 1, lastError: message } : e)));
+    publish({ state: unreachable ? 'offline' : 'error', lastError: message });
+  }
+};
+
+/**
+ * Pushes the outbox and pulls the changes of other stations. Concurrent calls share one run.
+ */
+export const syncNow = (): Promise<void> => {
+  if (!running) {
+    running = runSync().finally(() => { running = null; });
+  }
+  return running;
+};
+
+/**
+ * Starts periodic synchronisation; also syncs when the browser comes back online.
+ * onRemoteChange is called with the collections that received changes from other stations.
+ * Returns the stop function.
+ */
+export const startSyncEngine = (onRemoteChange: (entities: SyncEntity[]) => void): (() => void) => {
+  const settings = loadSyncSettings();
+  if (!isSyncActive(settings)) {
+    publish({ state: 'disabled' });
+    return () => undefined;
+  }
+
+  remoteChangeHandler = onRemoteChange;
+  engineRunning = true;
+  publish({ lastSyncAt: readSyncState().lastSyncAt });
+  const tick = () => { syncNow().catch(() => undefined); };
+  const goOffline = () => publish({ state: 'offline' });
+  const timer = setInterval(tick, Math.max(5, settings.intervalSeconds) * 1000);
+  window.addEventListener('online', tick);
+  window.addEventListener('offline', goOffline);
+  tick();
+
+  return () => {
+    engineRunning = false;
+    remoteChangeHandler = () => undefined;
+    clearInterval(timer);
+    if (queueTimer) clearTimeout(queueTimer);
+    window.removeEventListener('online', tick);
+    window.removeEventListener('offline', goOffline);
+  };
+};
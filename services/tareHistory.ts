@@ -0,0 +1,90 @@
+import { TareDriftReport, TareMeasurement, TareSettings, TareStatus, Truck } from '../types';
+import { readSetting, writeSetting } from './repository';
+import { isValidPlate } from './plates';
+
+// Keys for localStorage
+const TARE_SETTINGS_STORAGE_KEY = 'tare_settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TARE_SETTINGS: TareSettings = {
+  validityDays: 90,
+  expiredAction: 'warn',
+};
+
+export const loadTareSettings = (): TareSettings => readSetting(TARE_SETTINGS_STORAGE_KEY, DEFAULT_TARE_SETTINGS);
+
+export const saveTareSettings = (settings: TareSettings): void => {
+  writeSetting(TARE_SETTINGS_STORAGE_KEY, settings);
+};
+
+/**
+ * Whether tares are recorded and reused for a fleet entry. Generic entries (weight categories
+ * without a real plate) stand for many vehicles, so one weighing says nothing about the next.
+ */
+export const keepsTareHistory = (truck: Truck): boolean => isValidPlate(truck.plateNumber);
+
+/**
+ * Latest measurement of a truck and whether it is still within the validity period.
+ * A truck without any measurement counts as expired.
+ */
+export const getTareStatus = (
+  history: TareMeasurement[],
+  truckId: string,
+  settings: TareSettings = loadTareSettings(),
+  now: number = Date.now()
+): TareStatus => {
+  const measurement = history
+    .filter(m => m.truckId === truckId)
+    .reduce<TareMeasurement | null>((latest, m) => (!latest || m.measuredAt > latest.measuredAt ? m : latest), null);
+
+  if (!measurement) {
+    return { measurement: null, expired: true, ageDays: null, expiresAt: null };
+  }
+  const expiresAt = measurement.measuredAt + settings.validityDays * DAY_MS;
+  return {
+    measurement,
+    expired: now > expiresAt,
+    ageDays: Math.floor((now - measurement.measuredAt) / DAY_MS),
+    expiresAt,
+  };
+};
+
+/**
+ * A stored tare can close a ticket without an exit weighing unless it expired under the 'block' policy.
+ */
+export const canUseStoredTare = (status: TareStatus, settings: TareSettings = loadTareSettings()): boolean =>
+  !!status.measurement && (!status.expired || settings.expiredAction === 'warn');
+
+/**
+ * Summarises how a truck's tare changed over its history.
+ */
+export const computeTareDrift = (history: TareMeasurement[], truckId: string): TareDriftReport => {
+  const points = history.filter(m => m.truckId === truckId).sort((a, b) => a.measuredAt - b.measuredAt);
+  const first = points[0] || null;
+  const last = points[points.length - 1] || null;
+  const weights = points.map(m => m.weight);
+  const drift = first && last ? last.weight - first.weight : 0;
+
+  // Least-squares slope of weight over time
+  let kgPerMonth = 0;
+  if (points.length > 1) {
+    const meanT = points.reduce((sum, m) => sum + m.measuredAt, 0) / points.length;
+    const meanW = weights.reduce((sum, w) => sum + w, 0) / points.length;
+    const covariance = points.reduce((sum, m) => sum + (m.measuredAt - meanT) * (m.weight - meanW), 0);
+    const variance = points.reduce((sum, m) => sum + (m.measuredAt - meanT) ** 2, 0);
+    kgPerMonth = variance > 0 ? Math.round((covariance / variance) * 30 * DAY_MS) : 0;
+  }
+
+  return {
+    truckId,
+    count: points.length,
+    first,
+    last,
+    min: weights.length ? Math.min(...weights) : 0,
+    max: weights.length ? Math.max(...weights) : 0,
+    drift,
+    driftPercent: first && first.weight > 0 ? Math.round((drift / first.weight) * 1000) / 10 : 0,
+    kgPerMonth,
+  };
+};
@@ -0,0 +1,322 @@
+import { Locale, WeighingTicket } from '../types';
+import { MessageKey } from '../locales/pt-BR';
+import { translate } from './i18n';
+import { readSetting, writeSetting } from './repository';
+import { DEFAULT_SITE } from './siteSettings';
+import { STATUS_LABELS, getTicketNetWeight } from './ticketHistory';
+import { buildZip } from './zipWriter';
+
+// Keys for localStorage
+const EXPORT_SETTINGS_STORAGE_KEY = 'ticket_export_settings';
+
+// Exported files keep the pt-BR headers and status names the accounting import expects,
+// whatever the language of the screen
+const EXPORT_LOCALE: Locale = 'pt-BR';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'erp';
+
+export type ExportColumnKey =
+  | 'id' | 'issueDate' | 'status' | 'plate' | 'invoiceId' | 'invoiceNetWeight' | 'entryDate' | 'exitDate'
+  | 'grossWeight' | 'tareWeight' | 'netWeight' | 'difference' | 'siteId' | 'siteName' | 'siteCnpj'
+  | 'issuedBy' | 'correctsTicketId' | 'cancellationReason' | 'overrideSupervisor' | 'reprintCount';
+
+type ColumnKind = 'text' | 'weight' | 'datetime' | 'count';
+
+interface ExportColumn {
+  key: ExportColumnKey;
+  label: MessageKey;
+  kind: ColumnKind;
+  value: (ticket: WeighingTicket) => string | number | null; // Dates as Unix timestamps
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  columns: ExportColumnKey[]; // In this order; not used by the ERP layout
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, MessageKey> = {
+  csv: 'export.format.csv',
+  xlsx: 'export.format.xlsx',
+  json: 'export.format.json',
+  erp: 'export.format.erp',
+};
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'export.column.id', kind: 'text', value: t => t.id || '' },
+  { key: 'issueDate', label: 'export.column.issueDate', kind: 'datetime', value: t => t.issueTimestamp },
+  { key: 'status', label: 'export.column.status', kind: 'text', value: t => translate(EXPORT_LOCALE, STATUS_LABELS[t.ticketStatus]) },
+  { key: 'plate', label: 'export.column.plate', kind: 'text', value: t => t.truckPlateNumber },
+  { key: 'invoiceId', label: 'export.column.invoiceId', kind: 'text', value: t => t.invoiceId },
+  { key: 'invoiceNetWeight', label: 'export.column.invoiceNetWeight', kind: 'weight', value: t => t.netWeightInvoice },
+  { key: 'entryDate', label: 'export.column.entryDate', kind: 'datetime', value: t => t.entryTimestamp ?? null },
+  { key: 'exitDate', label: 'export.column.exitDate', kind: 'datetime', value: t => t.exitTimestamp ?? null },
+  { key: 'grossWeight', label: 'export.column.grossWeight', kind: 'weight', value: t => t.grossWeightCalculated },
+  { key: 'tareWeight', label: 'export.column.tareWeight', kind: 'weight', value: t => t.truckTareWeight },
+  { key: 'netWeight', label: 'export.column.netWeight', kind: 'weight', value: getTicketNetWeight },
+  { key: 'difference', label: 'export.column.difference', kind: 'weight', value: t => getTicketNetWeight(t) - t.netWeightInvoice },
+  { key: 'siteId', label: 'export.column.siteId', kind: 'text', value: t => (t.site ?? DEFAULT_SITE).siteId },
+  { key: 'siteName', label: 'export.column.siteName', kind: 'text', value: t => (t.site ?? DEFAULT_SITE).legalName },
+  { key: 'siteCnpj', label: 'export.column.siteCnpj', kind: 'text', value: t => (t.site ?? DEFAULT_SITE).cnpj },
+  { key: 'issuedBy', label: 'export.column.issuedBy', kind: 'text', value: t => t.issuedBy?.name ?? '' },
+  { key: 'correctsTicketId', label: 'export.column.correctsTicketId', kind: 'text', value: t => t.correctsTicketId ?? '' },
+  { key: 'cancellationReason', label: 'export.column.cancellationReason', kind: 'text', value: t => t.cancellation?.reason ?? '' },
+  { key: 'overrideSupervisor', label: 'export.column.overrideSupervisor', kind: 'text', value: t => t.override?.supervisorName ?? '' },
+  { key: 'reprintCount', label: 'export.column.reprintCount', kind: 'count', value: t => t.reprintCount ?? 0 },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'csv',
+  columns: ['id', 'issueDate', 'status', 'plate', 'invoiceId', 'grossWeight', 'tareWeight', 'netWeight', 'siteId'],
+};
+
+export const loadExportSettings = (): ExportSettings => readSetting(EXPORT_SETTINGS_STORAGE_KEY, DEFAULT_EXPORT_SETTINGS);
+
+export const saveExportSettings = (settings: ExportSettings): void => {
+  writeSetting(EXPORT_SETTINGS_STORAGE_KEY, settings);
+};
+
+const selectedColumns = (keys: ExportColumnKey[]): ExportColumn[] =>
+  keys.map(key => EXPORT_COLUMNS.find(column => column.key === key)).filter((column): column is ExportColumn => !!column);
+
+// dd/mm/aaaa hh:mm:ss, without the comma of toLocaleString, so Excel reads it as a date
+const formatDateTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString('pt-BR')} ${date.toLocaleTimeString('pt-BR')}`;
+};
+
+// pt-BR text as a spreadsheet in Brazil expects it: decimal comma, no thousands separator
+const formatCell = (column: ExportColumn, value: string | number | null): string => {
+  if (value === null || value === '') return '';
+  if (column.kind === 'datetime') return formatDateTime(value as number);
+  if (typeof value === 'number') return value.toLocaleString('pt-BR', { useGrouping: false, maximumFractionDigits: 3 });
+  return value;
+};
+
+const columnHeader = (column: ExportColumn): string => translate(EXPORT_LOCALE, column.label);
+
+const csvField = (text: string): string => (/[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+/**
+ * Semicolon-separated, CRLF, UTF-8 with BOM: opens with the right columns and accents in a
+ * pt-BR Excel.
+ */
+export const buildCsv = (tickets: WeighingTicket[], keys: ExportColumnKey[]): string => {
+  const columns = selectedColumns(keys);
+  const lines = [
+    columns.map(column => csvField(columnHeader(column))).join(';'),
+    ...tickets.map(ticket => columns.map(column => csvField(formatCell(column, column.value(ticket)))).join(';')),
+  ];
+  return `\ufeff${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Machine-readable export: column keys, numbers in kg and dates in ISO 8601.
+ */
+export const buildJson = (tickets: WeighingTicket[], keys: ExportColumnKey[]): string => {
+  const columns = selectedColumns(keys);
+  const rows = tickets.map(ticket =>
+    Object.fromEntries(columns.map(column => {
+      const value = column.value(ticket);
+      return [column.key, column.kind === 'datetime' && value !== null ? new Date(value as number).toISOString() : value];
+    }))
+  );
+  return JSON.stringify({ exportedAt: new Date().toISOString(), count: rows.length, tickets: rows }, null, 2);
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Spreadsheet column letters: A..Z, AA..
+const columnName = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnName(Math.floor(index / 26) - 1) + columnName(index % 26);
+
+// Days since 1899-12-30 in local time, as Excel stores dates
+const excelDate = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  return (timestamp - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+};
+
+// Cell styles from styles.xml: 0 text, 1 header, 2 date and time, 3 weight, 4 count
+const CELL_STYLES: Record<ColumnKind, number> = { text: 0, datetime: 2, weight: 3, count: 4 };
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+/**
+ * Single-sheet Office Open XML workbook with typed cells: numbers and dates stay numeric, so
+ * sums and filters work, and Excel shows them in the user's locale.
+ */
+export const buildXlsx = (tickets: WeighingTicket[], keys: ExportColumnKey[]): Uint8Array => {
+  const columns = selectedColumns(keys);
+  const textCell = (ref: string, text: string, style = 0) =>
+    `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+
+  const header = `<row r="1">${columns.map((column, i) => textCell(`${columnName(i)}1`, columnHeader(column), 1)).join('')}</row>`;
+  const rows = tickets.map((ticket, rowIndex) => {
+    const row = rowIndex + 2;
+    const cells = columns.map((column, i) => {
+      const ref = `${columnName(i)}${row}`;
+      const value = column.value(ticket);
+      if (value === null || value === '') return '';
+      if (typeof value === 'string') return textCell(ref, value);
+      const number = column.kind === 'datetime' ? excelDate(value) : value;
+      return `<c r="${ref}" s="${CELL_STYLES[column.kind]}"><v>${number}</v></c>`;
+    });
+    return `<row r="${row}">${cells.join('')}</row>`;
+  });
+  const widths = columns.map((column, i) => `<col min="${i + 1}" max="${i + 1}" width="${column.kind === 'datetime' ? 20 : Math.max(12, columnHeader(column).length + 2)}" customWidth="1"/>`);
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths.join('')}</cols>
+<sheetData>${header}${rows.join('')}</sheetData>
+</worksheet>`;
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Tickets" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    'xl/styles.xml': XLSX_STYLES,
+    'xl/worksheets/sheet1.xml': sheet,
+  };
+
+  const encoder = new TextEncoder();
+  return buildZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+};
+
+// Status codes of the ERP layout
+const ERP_STATUS_CODES: Record<WeighingTicket['ticketStatus'], string> = {
+  Draft: 'R',
+  AwaitingExit: 'P',
+  Printed: 'E',
+  'Over-Capacity': 'X',
+  Cancelled: 'C',
+};
+
+// ASCII only, without accents, cut or padded to the field width
+const alpha = (value: string, width: number): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, ' ').toUpperCase().slice(0, width).padEnd(width, ' ');
+
+// Whole kilograms, zero padded; negative values carry a leading minus inside the width
+const numeric = (value: number, width: number): string => {
+  const digits = String(Math.abs(Math.round(value))).padStart(width, '0').slice(-width);
+  return value < 0 ? `-${digits.slice(1)}` : digits;
+};
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+const erpDate = (timestamp?: number): string => {
+  if (!timestamp) return '00000000';
+  const date = new Date(timestamp);
+  return `${pad2(date.getDate())}${pad2(date.getMonth() + 1)}${date.getFullYear()}`;
+};
+const erpTime = (timestamp?: number): string => {
+  if (!timestamp) return '000000';
+  const date = new Date(timestamp);
+  return `${pad2(date.getHours())}${pad2(date.getMinutes())}${pad2(date.getSeconds())}`;
+};
+
+export const ERP_RECORD_LENGTH = 180;
+
+/**
+ * Fixed-width text file for the ERP import, one record per line (CRLF), 180 characters:
+ *
+ * Header  (0): type 1 | generation date DDMMAAAA 8 | time HHMMSS 6 | record count 6 | blank
+ * Detail  (1): type 1 | ticket 20 | issue date 8 | issue time 6 | status 1 (E issued, C cancelled,
+ *              X over capacity, P in the yard, R draft) | plate 8 | invoice 44 | gross kg 10 |
+ *              tare kg 10 | net kg 10 | invoice kg 10 | site CNPJ 14 | site code 10 | replaced
+ *              ticket 20 | reprints 3 | blank 5
+ * Trailer (9): type 1 | detail count 6 | total net kg of non-cancelled tickets 12 | blank
+ *
+ * Text fields are upper case ASCII padded with spaces on the right; numbers are padded with zeros.
+ */
+export const buildErpFile = (tickets: WeighingTicket[], generatedAt = new Date()): string => {
+  const record = (text: string) => text.padEnd(ERP_RECORD_LENGTH, ' ');
+  const now = generatedAt.getTime();
+
+  const details = tickets.map(ticket => {
+    const site = ticket.site ?? DEFAULT_SITE;
+    return record([
+      '1',
+      alpha(ticket.id || '', 20),
+      erpDate(ticket.issueTimestamp),
+      erpTime(ticket.issueTimestamp),
+      ERP_STATUS_CODES[ticket.ticketStatus],
+      alpha(ticket.truckPlateNumber.replace(/[^A-Za-z0-9]/g, ''), 8),
+      alpha(ticket.invoiceId, 44),
+      numeric(ticket.grossWeightCalculated, 10),
+      numeric(ticket.truckTareWeight, 10),
+      numeric(getTicketNetWeight(ticket), 10),
+      numeric(ticket.netWeightInvoice, 10),
+      site.cnpj.replace(/\D/g, '').padStart(14, '0').slice(-14),
+      alpha(site.siteId, 10),
+      alpha(ticket.correctsTicketId ?? '', 20),
+      numeric(ticket.reprintCount ?? 0, 3),
+    ].join(''));
+  });
+
+  const totalNet = tickets
+    .filter(ticket => ticket.ticketStatus !== 'Cancelled')
+    .reduce((sum, ticket) => sum + getTicketNetWeight(ticket), 0);
+
+  return [
+    record(['0', erpDate(now), erpTime(now), numeric(tickets.length, 6)].join('')),
+    ...details,
+    record(['9', numeric(tickets.length, 6), numeric(totalNet, 12)].join('')),
+  ].join('\r\n') + '\r\n';
+};
+
+export interface ExportFile {
+  filename: string;
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * The tickets in the chosen format, ready to download.
+ */
+export const exportTickets = (tickets: WeighingTicket[], settings: ExportSettings, exportedAt = new Date()): ExportFile => {
+  const stamp = `${exportedAt.getFullYear()}${pad2(exportedAt.getMonth() + 1)}${pad2(exportedAt.getDate())}-${pad2(exportedAt.getHours())}${pad2(exportedAt.getMinutes())}`;
+  const encoder = new TextEncoder();
+  switch (settings.format) {
+    case 'xlsx':
+      return { filename: `tickets-${stamp}.xlsx`, type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', data: buildXlsx(tickets, settings.columns) };
+    case 'json':
+      return { filename: `tickets-${stamp}.json`, type: 'application/json', data: encoder.encode(buildJson(tickets, settings.columns)) };
+    case 'erp':
+      return { filename: `tickets-erp-${stamp}.txt`, type: 'text/plain', data: encoder.encode(buildErpFile(tickets, exportedAt)) };
+    default:
+      return { filename: `tickets-${stamp}.csv`, type: 'text/csv', data: encoder.encode(buildCsv(tickets, settings.columns)) };
+  }
+};
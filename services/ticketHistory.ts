@@ -0,0 +1,92 @@
+import { TicketStatus, WeighingTicket } from '../types';
+import { DEFAULT_SITE } from './siteSettings';
+import { TicketQuery } from './repository';
+import { MessageKey } from '../locales/pt-BR';
+
+export type TicketSortKey = 'issueTimestamp' | 'id' | 'truckPlateNumber' | 'invoiceId' | 'netWeight';
+
+export interface TicketHistoryFilters {
+  query: string; // Ticket number, invoice or plate
+  from: string; // yyyy-mm-dd, inclusive, empty for no limit
+  to: string; // yyyy-mm-dd, inclusive, empty for no limit
+  statuses: TicketStatus[]; // Empty for every status
+  siteId: string; // Issuing site, empty for every site
+  sortKey: TicketSortKey;
+  sortDescending: boolean;
+}
+
+export const DEFAULT_HISTORY_FILTERS: TicketHistoryFilters = {
+  query: '',
+  from: '',
+  to: '',
+  statuses: [],
+  siteId: '',
+  sortKey: 'issueTimestamp',
+  sortDescending: true,
+};
+
+export const STATUS_LABELS: Record<TicketStatus, MessageKey> = {
+  Draft: 'status.Draft',
+  AwaitingExit: 'status.AwaitingExit',
+  Printed: 'status.Printed',
+  'Over-Capacity': 'status.Over-Capacity',
+  Cancelled: 'status.Cancelled',
+};
+
+const normalize = (value: string): string => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Net weight as printed on the ticket: measured when closed, otherwise gross minus the reference tare
+export const getTicketNetWeight = (ticket: WeighingTicket): number =>
+  ticket.netWeightMeasured ?? ticket.grossWeightCalculated - ticket.truckTareWeight;
+
+// Tickets issued before sites were configurable belong to the default site
+export const getTicketSiteId = (ticket: WeighingTicket): string => (ticket.site ?? DEFAULT_SITE).siteId;
+
+const sortValue = (ticket: WeighingTicket, key: TicketSortKey): string | number => {
+  switch (key) {
+    case 'netWeight': return getTicketNetWeight(ticket);
+    case 'issueTimestamp': return ticket.issueTimestamp;
+    default: return ticket[key] || '';
+  }
+};
+
+/**
+ * The part of the filters the repository can answer from its indexes: the date range and a
+ * single status. filterTickets still applies the rest (search term, several statuses, site).
+ */
+export const toTicketQuery = (filters: TicketHistoryFilters): TicketQuery => ({
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : undefined,
+  status: filters.statuses.length === 1 ? filters.statuses[0] : undefined,
+});
+
+/**
+ * Applies the history screen filters and sorting. Dates are compared in local time.
+ */
+export const filterTickets = (tickets: WeighingTicket[], filters: TicketHistoryFilters): WeighingTicket[] => {
+  const term = normalize(filters.query);
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+
+  const matches = tickets.filter(ticket =>
+    (!term || [ticket.id || '', ticket.invoiceId, ticket.truckPlateNumber].some(field => normalize(field).includes(term))) &&
+    ticket.issueTimestamp >= from &&
+    ticket.issueTimestamp <= to &&
+    (filters.statuses.length === 0 || filters.statuses.includes(ticket.ticketStatus)) &&
+    (!filters.siteId || getTicketSiteId(ticket) === filters.siteId)
+  );
+
+  const direction = filters.sortDescending ? -1 : 1;
+  return matches.sort((a, b) => {
+    const left = sortValue(a, filters.sortKey);
+    const right = sortValue(b, filters.sortKey);
+    if (left === right) return 0;
+    return (left < right ? -1 : 1) * direction;
+  });
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize: number): { items: T[]; page: number; pageCount: number } => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return { items: items.slice((current - 1) * pageSize, current * pageSize), page: current, pageCount };
+};
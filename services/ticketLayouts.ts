@@ -0,0 +1,63 @@
+import { TicketLayoutId, WeighingTicket } from '../types';
+import { getActiveSite } from './siteSettings';
+import { MessageKey } from '../locales/pt-BR';
+
+export interface TicketLayout {
+  id: TicketLayoutId;
+  label: MessageKey;
+  pageWidthMm: number;
+  pageHeightMm: number;
+  // One entry per copy on the page; a label is printed above the copy when set, in the ticket's language
+  copies: (MessageKey | null)[];
+  paddingMm: number;
+  // The ticket is laid out for an 80 mm roll and scaled up to fill larger paper
+  scale: number;
+}
+
+const THERMAL_WIDTH_MM = 80;
+
+// Thermal tickets grow with their content; the roll is cut after printing
+export const THERMAL_MIN_HEIGHT_MM = 150;
+
+export const TICKET_LAYOUTS: Record<TicketLayoutId, TicketLayout> = {
+  'thermal-80': {
+    id: 'thermal-80',
+    label: 'layout.thermal-80',
+    pageWidthMm: 80,
+    pageHeightMm: 200,
+    copies: [null],
+    paddingMm: 2,
+    scale: 1,
+  },
+  a5: {
+    id: 'a5',
+    label: 'layout.a5',
+    pageWidthMm: 148,
+    pageHeightMm: 210,
+    copies: [null],
+    paddingMm: 10,
+    scale: (148 - 2 * 10) / THERMAL_WIDTH_MM,
+  },
+  'a4-two-copies': {
+    id: 'a4-two-copies',
+    label: 'layout.a4-two-copies',
+    pageWidthMm: 297,
+    pageHeightMm: 210,
+    copies: ['ticket.copySite', 'ticket.copyDriver'],
+    paddingMm: 10,
+    scale: (297 / 2 - 2 * 10) / THERMAL_WIDTH_MM,
+  },
+};
+
+export const TICKET_LAYOUT_IDS = Object.keys(TICKET_LAYOUTS) as TicketLayoutId[];
+
+// Width of the 80 mm content block before scaling, with the page padding removed
+export const getContentWidthMm = (layout: TicketLayout): number =>
+  layout.scale === 1 ? layout.pageWidthMm - 2 * layout.paddingMm : THERMAL_WIDTH_MM;
+
+/**
+ * Layout for a ticket: an explicit choice wins, then the issuing site's default (from the
+ * ticket's snapshot), then the active site's default.
+ */
+export const resolveTicketLayout = (ticket: WeighingTicket | null, layoutId?: TicketLayoutId | null): TicketLayout =>
+  TICKET_LAYOUTS[layoutId || ticket?.site?.ticketLayout || getActiveSite().ticketLayout] ?? TICKET_LAYOUTS['thermal-80'];
@@ -0,0 +1,90 @@
+import { TicketNumberingSettings } from '../types';
+import { readSetting, writeSetting } from './repository';
+import { LocalizedMessage } from './i18n';
+
+// Keys for localStorage
+const NUMBERING_SETTINGS_STORAGE_KEY = 'ticket_numbering_settings';
+const COUNTERS_STORAGE_KEY = 'ticket_number_counters';
+const NUMBERING_LOCK_NAME = 'ticket-numbering';
+
+const SEQUENCE_DIGITS = 6;
+
+export const DEFAULT_NUMBERING_SETTINGS: TicketNumberingSettings = {
+  siteCode: 'LAG',
+  series: '',
+};
+
+export const loadNumberingSettings = (): TicketNumberingSettings =>
+  readSetting(NUMBERING_SETTINGS_STORAGE_KEY, DEFAULT_NUMBERING_SETTINGS);
+
+export const saveNumberingSettings = (settings: TicketNumberingSettings): void => {
+  writeSetting(NUMBERING_SETTINGS_STORAGE_KEY, settings);
+};
+
+export const validateNumberingSettings = (settings: TicketNumberingSettings): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+  if (!/^[A-Z0-9]{2,6}$/.test(settings.siteCode)) errors.push({ key: 'numbering.invalidSiteCode' });
+  if (!/^[A-Z0-9]{0,3}$/.test(settings.series)) errors.push({ key: 'numbering.invalidSeries' });
+  return errors;
+};
+
+// Everything before the sequence digits, e.g. "LAG-" or "LAG-B-"
+export const getTicketNumberPrefix = (settings: TicketNumberingSettings): string =>
+  `${[settings.siteCode, settings.series].filter(Boolean).join('-')}-`;
+
+// e.g. LAG-000123, or LAG-B-000045 for series B
+export const formatTicketNumber = (settings: TicketNumberingSettings, sequence: number): string =>
+  `${getTicketNumberPrefix(settings)}${String(sequence).padStart(SEQUENCE_DIGITS, '0')}`;
+
+/**
+ * Sequence of a ticket number in the given site and series, or null when it belongs to another
+ * series (or is a legacy id).
+ */
+export const parseTicketSequence = (ticketId: string, settings: TicketNumberingSettings): number | null => {
+  const prefix = getTicketNumberPrefix(settings);
+  if (!ticketId.startsWith(prefix)) return null;
+  const rest = ticketId.slice(prefix.length);
+  return /^\d+$/.test(rest) ? Number(rest) : null;
+};
+
+const readCounters = (): Record<string, number> => {
+  const stored = localStorage.getItem(COUNTERS_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : {};
+};
+
+const counterKey = (settings: TicketNumberingSettings): string => `${settings.siteCode}|${settings.series}`;
+
+// Writes to the tickets collection are serialised within the tab; the Web Locks API extends that across tabs
+let writeQueue: Promise<unknown> = Promise.resolve();
+export const withTicketNumberLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = () => (navigator.locks ? navigator.locks.request(NUMBERING_LOCK_NAME, task) : task());
+  const result = writeQueue.then(run, run);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Next number of the series. The stored counter is reconciled with the numbers already in use,
+ * so a lost or stale counter (data migration, restored backup) never produces a duplicate.
+ * Must run inside withTicketNumberLock, in the same task that stores the ticket.
+ */
+export const nextTicketNumber = (existingIds: string[], settings: TicketNumberingSettings = loadNumberingSettings()) => {
+  const highestInUse = existingIds.reduce((max, id) => Math.max(max, parseTicketSequence(id, settings) ?? 0), 0);
+  const sequence = Math.max(readCounters()[counterKey(settings)] ?? 0, highestInUse) + 1;
+
+  return {
+    ticketId: formatTicketNumber(settings, sequence),
+    // Call once the ticket is stored; a failed write leaves the counter untouched, so no gap
+    commit: () => {
+      const counters = readCounters();
+      counters[counterKey(settings)] = Math.max(counters[counterKey(settings)] ?? 0, sequence);
+      localStorage.setItem(COUNTERS_STORAGE_KEY, JSON.stringify(counters));
+    },
+  };
+};
+
+/**
+ * Number the next ticket would get, for display in the settings screen.
+ */
+export const peekTicketNumber = (existingIds: string[], settings: TicketNumberingSettings): string =>
+  nextTicketNumber(existingIds, settings).ticketId;
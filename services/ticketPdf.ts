@@ -0,0 +1,329 @@
+import QRCode from 'qrcode';
+import { SiteSettings, TicketLayoutId, WeighingTicket } from '../types';
+import { PdfAlign, PdfDocumentInfo, PdfImage, PdfPage, buildPdf, createPdfPage, textWidthMm } from './pdfWriter';
+import { buildZip } from './zipWriter';
+import { DEFAULT_SITE, formatCnpj } from './siteSettings';
+import { THERMAL_MIN_HEIGHT_MM, TicketLayout, getContentWidthMm, resolveTicketLayout } from './ticketLayouts';
+import { wrapText } from './escPos';
+import { I18n, createI18n } from './i18n';
+import { MessageKey } from '../locales/pt-BR';
+import { describeViolation } from './weightValidation';
+import { hasSimulatedReading } from './scaleService';
+
+export interface TicketPdfOptions {
+  layoutId?: TicketLayoutId | null; // Defaults to the layout of each ticket's site
+  archival?: boolean;
+}
+
+const MM_PER_PT = 25.4 / 72;
+const LOGO_HEIGHT_MM = 12.7;
+const QR_SIZE_MM = 32;
+
+interface TextStyle {
+  size: number; // pt, before the layout scale
+  bold?: boolean;
+  align?: PdfAlign;
+}
+
+/**
+ * Draws in the coordinates of the 80 mm ticket, top to bottom, scaled onto the page like the
+ * HTML template. Without a page it only measures.
+ */
+interface Pen {
+  y: number;
+  text(text: string, style: TextStyle): void;
+  pair(label: string, value: string, size: number): void;
+  rule(dashed?: boolean, weight?: number): void;
+  box(top: number, weight?: number): void;
+  image(image: PdfImage, heightMm: number): void;
+  qrCode(payload: string, sizeMm: number): void;
+  gap(mm: number): void;
+}
+
+const createPen = (page: PdfPage | null, left: number, top: number, scale: number, width: number): Pen => {
+  const px = (x: number) => left + x * scale;
+  const py = (y: number) => top + y * scale;
+  const lineHeight = (size: number) => size * MM_PER_PT * 1.25;
+  const baseline = (y: number, size: number) => py(y - size * MM_PER_PT * 0.35);
+
+  const pen: Pen = {
+    y: 0,
+    text: (text, { size, bold = false, align = 'left' }) => {
+      const columns = Math.max(1, Math.floor(width / textWidthMm('M', size)));
+      const x = align === 'center' ? width / 2 : align === 'right' ? width : 0;
+      wrapText(text, columns).forEach(line => {
+        pen.y += lineHeight(size);
+        page?.text(px(x), baseline(pen.y, size), line, { font: bold ? 'mono-bold' : 'mono', size: size * scale, align });
+      });
+    },
+    pair: (label, value, size) => {
+      pen.y += lineHeight(size);
+      page?.text(px(0), baseline(pen.y, size), label, { size: size * scale });
+      page?.text(px(width), baseline(pen.y, size), value, { size: size * scale, align: 'right' });
+    },
+    rule: (dashed = false, weight = 0.2) => {
+      page?.line(px(0), py(pen.y), px(width), py(pen.y), weight * scale, dashed);
+    },
+    box: (top, weight = 0.2) => {
+      page?.rect(px(0), py(top), width * scale, (pen.y - top) * scale, 'stroke', weight * scale);
+    },
+    image: (image, heightMm) => {
+      const imageWidth = Math.min(width, (heightMm * image.widthPx) / image.heightPx);
+      const imageHeight = (imageWidth * image.heightPx) / image.widthPx;
+      page?.image(image, px((width - imageWidth) / 2), py(pen.y), imageWidth * scale, imageHeight * scale);
+      pen.y += imageHeight;
+    },
+    // Quiet zone of one module, as in the on-screen code; dark runs of a row become one rectangle
+    qrCode: (payload, sizeMm) => {
+      if (page) {
+        const modules = QRCode.create(payload, { errorCorrectionLevel: 'M' }).modules;
+        const cell = sizeMm / (modules.size + 2);
+        const originX = (width - sizeMm) / 2 + cell;
+        const originY = pen.y + cell;
+        for (let row = 0; row < modules.size; row++) {
+          let col = 0;
+          while (col < modules.size) {
+            if (!modules.get(row, col)) { col++; continue; }
+            const start = col;
+            while (col < modules.size && modules.get(row, col)) col++;
+            page.rect(px(originX + start * cell), py(originY + row * cell), (col - start) * cell * scale, cell * scale);
+          }
+        }
+      }
+      pen.y += sizeMm;
+    },
+    gap: mm => { pen.y += mm; },
+  };
+  return pen;
+};
+
+const formatWeighingTime = (i18n: I18n, timestamp?: number): string =>
+  timestamp ? i18n.formatDateTime(timestamp, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) : '';
+
+// Everything above the footer, in the order of TicketContent
+const drawBody = (pen: Pen, data: WeighingTicket, site: SiteSettings, copyLabel: MessageKey | null, logo: PdfImage | null, i18n: I18n) => {
+  const { t, formatKg } = i18n;
+  const netWeight = data.netWeightMeasured ?? data.grossWeightCalculated - data.truckTareWeight;
+
+  if (copyLabel) {
+    pen.text(t(copyLabel), { size: 6, align: 'right' });
+    pen.gap(1);
+  }
+
+  if (logo) {
+    pen.image(logo, LOGO_HEIGHT_MM);
+    pen.gap(1);
+  }
+  pen.text((site.tradeName || site.legalName).toUpperCase(), { size: 10.5, align: 'center' });
+  if (site.tradeName && site.tradeName !== site.legalName) pen.text(site.legalName, { size: 6.75, align: 'center' });
+  if (site.cnpj) pen.text(`CNPJ ${formatCnpj(site.cnpj)}`, { size: 6.75, align: 'center' });
+  pen.gap(1);
+  pen.text(site.address, { size: 7.5, align: 'center' });
+  pen.text([site.city, site.state, t('ticket.country')].filter(Boolean).join(', '), { size: 7.5, align: 'center' });
+  pen.gap(2);
+  pen.rule();
+  pen.gap(2);
+
+  if (data.ticketStatus === 'Cancelled') {
+    const top = pen.y;
+    pen.gap(1);
+    pen.text(`*** ${t('ticket.cancelled')} ***`, { size: 12, bold: true, align: 'center' });
+    if (data.cancellation) {
+      const c = data.cancellation;
+      pen.text(t('ticket.cancelledBy', { date: i18n.formatDateTime(c.timestamp), name: c.cancelledBy, reason: c.reason }), { size: 6.75, align: 'center' });
+      if (c.replacedByTicketId) pen.text(t('ticket.replacedBy', { id: c.replacedByTicketId }), { size: 6.75, align: 'center' });
+    }
+    pen.gap(1);
+    pen.box(top, 0.5);
+    pen.gap(2);
+  }
+
+  if ((data.reprintCount ?? 0) > 0) {
+    const top = pen.y;
+    pen.text(t('ticket.reprint', { count: data.reprintCount ?? 0 }), { size: 7.5, bold: true, align: 'center' });
+    pen.gap(0.5);
+    pen.box(top);
+    pen.gap(2);
+  }
+
+  if (hasSimulatedReading(data)) {
+    const top = pen.y;
+    pen.text(`*** ${t('ticket.simulated')} ***`, { size: 7.5, bold: true, align: 'center' });
+    pen.gap(0.5);
+    pen.box(top, 0.5);
+    pen.gap(2);
+  }
+
+  pen.pair(t('ticket.number'), data.id || t('ticket.pending'), 7.5);
+  pen.pair(t('ticket.date'), i18n.formatDate(data.issueTimestamp), 7.5);
+  pen.pair(t('ticket.plate'), data.truckPlateNumber, 7.5);
+  pen.pair(t('ticket.time'), i18n.formatTime(data.issueTimestamp), 7.5);
+  pen.pair(t('ticket.invoiceRef'), data.invoiceId, 7.5);
+  if (data.correctsTicketId) pen.pair(t('ticket.replaces'), data.correctsTicketId, 7.5);
+  if (data.issuedBy) pen.pair(t('ticket.operator'), data.issuedBy.name, 7.5);
+  pen.gap(2);
+  pen.rule(true);
+  pen.gap(2);
+
+  pen.text(`${t('ticket.grossEntry')} ${formatWeighingTime(i18n, data.entryTimestamp)}`.trim(), { size: 6.75 });
+  pen.text(formatKg(data.grossWeightCalculated), { size: 6.75, align: 'right' });
+  pen.gap(2);
+  pen.text(data.exitReading ? `${t('ticket.exitTare')} ${formatWeighingTime(i18n, data.exitTimestamp)}` : t('ticket.storedTare'), { size: 6.75 });
+  pen.text(formatKg(data.truckTareWeight), { size: 6.75, align: 'right' });
+  pen.gap(3);
+  pen.text(t('ticket.measuredNet'), { size: 6.75 });
+  pen.text(formatKg(netWeight), { size: 6.75, align: 'right' });
+
+  const violations = data.weightValidation?.violations ?? [];
+  if (violations.length > 0) {
+    pen.gap(2);
+    const top = pen.y;
+    pen.gap(0.5);
+    pen.text(t('ticket.overweight'), { size: 6.75, bold: true, align: 'center' });
+    violations.forEach(v => pen.text(`${describeViolation(i18n, v)}: +${formatKg(v.excess)}`, { size: 6.75 }));
+    if (data.override) {
+      pen.gap(1);
+      pen.text(t('ticket.releasedBy', { name: data.override.supervisorName, reason: data.override.reason }), { size: 6.75 });
+    }
+    pen.gap(0.5);
+    pen.box(top);
+  }
+
+  if (data.signedPayload) {
+    pen.gap(3);
+    pen.qrCode(data.signedPayload, QR_SIZE_MM);
+    pen.gap(1);
+    pen.text(t('ticket.verifyQr'), { size: 6, align: 'center' });
+  }
+};
+
+const drawFooter = (pen: Pen, site: SiteSettings, { t }: I18n) => {
+  pen.gap(4);
+  pen.rule();
+  pen.gap(4);
+  if (site.scaleSerial || site.inmetroSeal) {
+    pen.text(
+      [site.scaleSerial && t('ticket.scaleSerial', { serial: site.scaleSerial }), site.inmetroSeal && t('ticket.inmetroSeal', { seal: site.inmetroSeal })].filter(Boolean).join(' · '),
+      { size: 6, align: 'center' }
+    );
+    pen.gap(2);
+  }
+  if (site.footerText) {
+    pen.text(site.footerText, { size: 6.75, align: 'center' });
+    pen.gap(2);
+  }
+  pen.text(t('ticket.signature'), { size: 6.75, align: 'center' });
+  pen.gap(4);
+  pen.text('__________________________', { size: 6.75, align: 'center' });
+};
+
+/**
+ * Draws one copy; the footer sits at the bottom of the available height, like `mt-auto` in the
+ * template. Returns the height used, in 80 mm units.
+ */
+const drawCopy = (
+  page: PdfPage | null,
+  data: WeighingTicket,
+  layout: TicketLayout,
+  index: number,
+  logo: PdfImage | null,
+  availableHeight = 0
+): number => {
+  // Tickets issued before sites were configurable carry no snapshot and were printed with the default header
+  const site = data.site ?? DEFAULT_SITE;
+  const i18n = createI18n(site.ticketLocale);
+  const width = getContentWidthMm(layout);
+  const copyWidth = layout.pageWidthMm / layout.copies.length;
+  const pen = createPen(page, index * copyWidth + layout.paddingMm, layout.paddingMm, layout.scale, width);
+
+  drawBody(pen, data, site, layout.copies[index], logo, i18n);
+  const footer = createPen(null, 0, 0, 1, width);
+  drawFooter(footer, site, i18n);
+  pen.y = Math.max(pen.y, availableHeight - footer.y);
+  drawFooter(pen, site, i18n);
+  return pen.y;
+};
+
+const renderTicketPage = (data: WeighingTicket, layout: TicketLayout, logo: PdfImage | null): PdfPage => {
+  const isThermal = layout.scale === 1;
+  const pageHeight = isThermal
+    ? Math.max(THERMAL_MIN_HEIGHT_MM, drawCopy(null, data, layout, 0, logo) + 2 * layout.paddingMm)
+    : layout.pageHeightMm;
+  const availableHeight = (pageHeight - 2 * layout.paddingMm) / layout.scale;
+
+  const page = createPdfPage(layout.pageWidthMm, pageHeight);
+  layout.copies.forEach((_, index) => {
+    if (index > 0) {
+      const x = (index * layout.pageWidthMm) / layout.copies.length;
+      page.line(x, 0, x, pageHeight, 0.2, true);
+    }
+    drawCopy(page, data, layout, index, logo, availableHeight);
+  });
+  return page;
+};
+
+const logoCache = new Map<string, Promise<PdfImage | null>>();
+
+// The PNG logo is flattened onto white and re-encoded as JPEG, which PDF embeds as is
+const loadLogo = (dataUrl: string): Promise<PdfImage | null> => {
+  if (!logoCache.has(dataUrl)) {
+    logoCache.set(dataUrl, new Promise(resolve => {
+      if (typeof document === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const image = new Image();
+      image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const context = canvas.getContext('2d');
+        if (!context || !canvas.width || !canvas.height) {
+          resolve(null);
+          return;
+        }
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0);
+        const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+        resolve({ jpeg: Uint8Array.from(atob(base64), c => c.charCodeAt(0)), widthPx: canvas.width, heightPx: canvas.height });
+      };
+      image.onerror = () => resolve(null);
+      image.src = dataUrl;
+    }));
+  }
+  return logoCache.get(dataUrl)!;
+};
+
+const renderTickets = (tickets: WeighingTicket[], layoutId?: TicketLayoutId | null): Promise<PdfPage[]> =>
+  Promise.all(tickets.map(async ticket => {
+    const logoUrl = (ticket.site ?? DEFAULT_SITE).logoDataUrl;
+    return renderTicketPage(ticket, resolveTicketLayout(ticket, layoutId), logoUrl ? await loadLogo(logoUrl) : null);
+  }));
+
+const documentInfo = (tickets: WeighingTicket[], archival: boolean): PdfDocumentInfo => ({
+  title: tickets.length === 1 ? `Ticket de pesagem ${tickets[0].id || 'PENDENTE'}` : `Tickets de pesagem (${tickets.length})`,
+  subject: 'Ticket de pesagem',
+  keywords: tickets.map(ticket => ticket.id).filter(Boolean),
+  archival,
+});
+
+export const ticketPdfFilename = (ticket: WeighingTicket): string => `Ticket-${ticket.id || 'PENDENTE'}.pdf`;
+
+/**
+ * One PDF with a page per ticket, with the same content as the printed template.
+ */
+export const buildTicketsPdf = async (tickets: WeighingTicket[], { layoutId, archival = false }: TicketPdfOptions = {}): Promise<Uint8Array> =>
+  buildPdf(await renderTickets(tickets, layoutId), documentInfo(tickets, archival));
+
+/**
+ * A ZIP with one PDF per ticket, for archiving tickets as separate files.
+ */
+export const buildTicketsZip = async (tickets: WeighingTicket[], { layoutId, archival = false }: TicketPdfOptions = {}): Promise<Uint8Array> => {
+  const pages = await renderTickets(tickets, layoutId);
+  return buildZip(tickets.map((ticket, index) => ({
+    name: ticketPdfFilename(ticket),
+    data: buildPdf([pages[index]], documentInfo([ticket], archival)),
+    modifiedAt: new Date(ticket.issueTimestamp),
+  })));
+};
@@ -0,0 +1,178 @@
+import { ClassificationRule, ClassificationSettings, ClassificationTarget, ParsingResult, Truck } from '../types';
+import { readSetting, writeSetting } from './repository';
+import { formatPlate, isValidPlate, normalizePlate, platesMatch } from './plates';
+import { AXLE_CONFIGURATIONS } from './weightValidation';
+import { I18n, LocalizedMessage } from './i18n';
+
+// Keys for localStorage
+const CLASSIFICATION_SETTINGS_STORAGE_KEY = 'classification_settings';
+
+// The former fixed split: up to 15 t goes to the TRUCK category, above it to the CARRETA category
+export const DEFAULT_CLASSIFICATION_SETTINGS: ClassificationSettings = {
+  rules: [
+    {
+      id: 'default-truck',
+      name: 'Carga até 15 t',
+      priority: 10,
+      enabled: true,
+      minWeightKg: null,
+      maxWeightKg: 15000,
+      shipperCnpj: '',
+      product: '',
+      plate: '',
+      target: { kind: 'vehicle', truckId: 'TRK-STD-01' },
+    },
+    {
+      id: 'default-carreta',
+      name: 'Carga acima de 15 t',
+      priority: 20,
+      enabled: true,
+      minWeightKg: 15000,
+      maxWeightKg: null,
+      shipperCnpj: '',
+      product: '',
+      plate: '',
+      target: { kind: 'vehicle', truckId: 'CRT-HVY-01' },
+    },
+  ],
+};
+
+export const loadClassificationSettings = (): ClassificationSettings =>
+  readSetting(CLASSIFICATION_SETTINGS_STORAGE_KEY, DEFAULT_CLASSIFICATION_SETTINGS);
+
+export const saveClassificationSettings = (settings: ClassificationSettings): void => {
+  writeSetting(CLASSIFICATION_SETTINGS_STORAGE_KEY, settings);
+};
+
+export const createClassificationRule = (priority: number, name: string): ClassificationRule => ({
+  id: `rule-${Date.now()}`,
+  name,
+  priority,
+  enabled: true,
+  minWeightKg: null,
+  maxWeightKg: null,
+  shipperCnpj: '',
+  product: '',
+  plate: '',
+  target: { kind: 'class', axleConfiguration: '3S3' },
+});
+
+/**
+ * Problems that prevent the rule set from being saved.
+ */
+export const validateClassificationRules = (rules: ClassificationRule[]): LocalizedMessage[] => {
+  const errors: LocalizedMessage[] = [];
+  rules.forEach(rule => {
+    const params = { rule: rule.name.trim() || rule.id };
+    if (!rule.name.trim()) errors.push({ key: 'classification.error.name', params });
+    if (rule.minWeightKg !== null && rule.maxWeightKg !== null && rule.minWeightKg >= rule.maxWeightKg) {
+      errors.push({ key: 'classification.error.weightRange', params });
+    }
+    if (rule.shipperCnpj && rule.shipperCnpj.replace(/\D/g, '').length !== 14) errors.push({ key: 'classification.error.cnpj', params });
+    if (rule.plate && !isValidPlate(rule.plate)) errors.push({ key: 'classification.error.plate', params });
+    if (rule.target.kind === 'vehicle' && !rule.target.truckId) errors.push({ key: 'classification.error.target', params });
+  });
+  return errors;
+};
+
+// Document fields the rules look at
+export interface ClassificationInput {
+  netWeight: number | null; // kg
+  shipperCnpj: string | null; // Digits
+  product: string | null;
+  plates: string[]; // Normalized
+}
+
+export const getClassificationInput = (result: ParsingResult): ClassificationInput => {
+  const shipper = result.document?.sender ?? result.document?.issuer ?? null;
+  return {
+    netWeight: result.netWeight,
+    shipperCnpj: shipper?.cnpj ?? null,
+    product: result.document?.predominantProduct ?? null,
+    plates: result.documentPlates?.map(p => p.plate) ?? (result.extractedPlate ? [result.extractedPlate] : []),
+  };
+};
+
+// fired: picked the vehicle; unavailable: conditions met but no active vehicle for the target;
+// not-reached: a rule with higher priority fired first
+export type RuleOutcome = 'fired' | 'no-match' | 'unavailable' | 'not-reached' | 'disabled';
+
+export interface RuleEvaluation {
+  rule: ClassificationRule;
+  outcome: RuleOutcome;
+  failures: LocalizedMessage[]; // Conditions that did not hold
+  truck: Truck | null; // Vehicle picked, when fired
+}
+
+export interface ClassificationResult {
+  rule: ClassificationRule | null;
+  truck: Truck | null;
+  evaluations: RuleEvaluation[]; // In evaluation order
+}
+
+const foldText = (value: string): string => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().trim();
+
+export const describeTarget = ({ t }: I18n, target: ClassificationTarget, trucks: Truck[]): string => {
+  if (target.kind === 'class') return `${target.axleConfiguration} · ${t(AXLE_CONFIGURATIONS[target.axleConfiguration].label)}`;
+  const truck = trucks.find(t => t.truckId === target.truckId);
+  return truck
+    ? t('classification.target.vehicle', { plate: formatPlate(truck.plateNumber) })
+    : t('classification.target.unregistered', { truckId: target.truckId });
+};
+
+const failedConditions = (rule: ClassificationRule, input: ClassificationInput): LocalizedMessage[] => {
+  const failures: LocalizedMessage[] = [];
+  if (rule.minWeightKg !== null || rule.maxWeightKg !== null) {
+    if (input.netWeight === null) failures.push({ key: 'classification.failure.noWeight' });
+    else if (rule.minWeightKg !== null && !(input.netWeight > rule.minWeightKg)) failures.push({ key: 'classification.failure.belowMin', params: { weight: input.netWeight, limit: rule.minWeightKg } });
+    else if (rule.maxWeightKg !== null && input.netWeight > rule.maxWeightKg) failures.push({ key: 'classification.failure.aboveMax', params: { weight: input.netWeight, limit: rule.maxWeightKg } });
+  }
+  const cnpj = rule.shipperCnpj.replace(/\D/g, '');
+  if (cnpj && input.shipperCnpj?.replace(/\D/g, '') !== cnpj) failures.push({ key: 'classification.failure.shipper' });
+  if (rule.product.trim() && !foldText(input.product ?? '').includes(foldText(rule.product))) failures.push({ key: 'classification.failure.product' });
+  if (normalizePlate(rule.plate) && !input.plates.some(plate => platesMatch(plate, rule.plate))) failures.push({ key: 'classification.failure.plate', params: { plate: formatPlate(rule.plate) } });
+  return failures;
+};
+
+// Failure of a rule whose target has no active vehicle
+const unavailableTarget = (target: ClassificationTarget, fleet: Truck[]): LocalizedMessage => {
+  if (target.kind === 'class') return { key: 'classification.failure.noVehicleOfClass', params: { configuration: target.axleConfiguration } };
+  const truck = fleet.find(t => t.truckId === target.truckId);
+  return { key: 'classification.failure.vehicleInactive', params: { vehicle: truck ? formatPlate(truck.plateNumber) : target.truckId } };
+};
+
+// Generic category entries (no real plate) come first for a class target
+const resolveTarget = (target: ClassificationTarget, trucks: Truck[]): Truck | null => {
+  if (target.kind === 'vehicle') return trucks.find(t => t.truckId === target.truckId) ?? null;
+  const ofClass = trucks.filter(t => t.axleConfiguration === target.axleConfiguration);
+  return ofClass.find(t => !isValidPlate(t.plateNumber)) ?? ofClass[0] ?? null;
+};
+
+/**
+ * Runs the rules by priority (ties keep the list order) against a document. The first enabled
+ * rule whose conditions hold and whose target resolves to an active vehicle picks it; every
+ * rule is reported so the operator can see why one fired and the others did not.
+ */
+export const classifyVehicle = (
+  input: ClassificationInput,
+  fleet: Truck[],
+  rules: ClassificationRule[] = loadClassificationSettings().rules
+): ClassificationResult => {
+  const trucks = fleet.filter(t => t.active);
+  const ordered = rules.map((rule, index) => ({ rule, index })).sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index);
+
+  let firedTruck: Truck | null = null;
+  const evaluations = ordered.map(({ rule }): RuleEvaluation => {
+    if (!rule.enabled) return { rule, outcome: 'disabled', failures: [], truck: null };
+    if (firedTruck) return { rule, outcome: 'not-reached', failures: [], truck: null };
+    const failures = failedConditions(rule, input);
+    if (failures.length > 0) return { rule, outcome: 'no-match', failures, truck: null };
+    const truck = resolveTarget(rule.target, trucks);
+    if (!truck) return { rule, outcome: 'unavailable', failures: [unavailableTarget(rule.target, fleet)], truck: null };
+    firedTruck = truck;
+    return { rule, outcome: 'fired', failures: [], truck };
+  });
+
+  const fired = evaluations.find(evaluation => evaluation.outcome === 'fired');
+  return { rule: fired?.rule ?? null, truck: fired?.truck ?? null, evaluations };
+};
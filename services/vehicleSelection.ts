@@ -0,0 +1,45 @@
+import { ParsingResult, Truck, VehicleSelectionCode, VehicleSelectionReason } from '../types';
+import { MessageKey } from '../locales/pt-BR';
+import { formatPlate, matchPlatesToFleet } from './plates';
+import { classifyVehicle, getClassificationInput } from './vehicleClassification';
+import { I18n } from './i18n';
+
+const REASON_LABELS: Record<VehicleSelectionCode, MessageKey> = {
+  'tractor-plate': 'selection.tractor-plate',
+  'trailer-plate': 'selection.trailer-plate',
+  rule: 'selection.rule',
+  'no-rule': 'selection.no-rule',
+};
+
+export interface VehicleSelection {
+  truck: Truck | null;
+  reason: VehicleSelectionReason;
+  ruleId?: string; // Classification rule that picked the vehicle
+}
+
+/**
+ * Picks the vehicle for a parsed document: a fleet truck whose plate appears in the
+ * document first, otherwise the one chosen by the classification rules.
+ */
+export const selectTruckForInvoice = (result: ParsingResult, fleet: Truck[]): VehicleSelection => {
+  // Deactivated vehicles stay in the registry for history but are never picked
+  const trucks = fleet.filter(t => t.active);
+  const plates = result.documentPlates ?? (result.extractedPlate ? [{ plate: result.extractedPlate, role: 'tractor' as const, source: 'vehicle' as const }] : []);
+  const matches = matchPlatesToFleet(plates, trucks).filter(match => match.truck);
+  // A tractor match identifies the vehicle better than a trailer shared between tractors
+  const plateMatch = matches.find(match => match.position === 'tractor') ?? matches[0];
+  if (plateMatch?.truck) {
+    const code = plateMatch.position === 'tractor' ? 'tractor-plate' : 'trailer-plate';
+    return { truck: plateMatch.truck, reason: { code, params: { plate: formatPlate(plateMatch.plate) } } };
+  }
+
+  const classification = classifyVehicle(getClassificationInput(result), trucks);
+  if (classification.rule && classification.truck) {
+    const params = { rule: classification.rule.name, priority: String(classification.rule.priority) };
+    return { truck: classification.truck, reason: { code: 'rule', params }, ruleId: classification.rule.id };
+  }
+  return { truck: null, reason: { code: 'no-rule' } };
+};
+
+export const describeSelectionReason = ({ t }: I18n, reason: VehicleSelectionReason): string =>
+  t(REASON_LABELS[reason.code], reason.params);
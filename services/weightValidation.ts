@@ -0,0 +1,130 @@
+import { AxleConfiguration, Truck, WeighingTicket, WeightValidationResult, WeightValidationSettings, WeightViolation } from '../types';
+import { MessageKey } from '../locales/pt-BR';
+import { readSetting, writeSetting } from './repository';
+import { I18n } from './i18n';
+
+// Keys for localStorage
+const VALIDATION_SETTINGS_STORAGE_KEY = 'weight_validation_settings';
+
+type AxleGroup = 'steer' | 'double-steer' | 'single' | 'tandem' | 'tridem';
+
+// Legal load per axle group (CONTRAN Res. 210/2006), kg
+const AXLE_GROUP_LIMITS: Record<AxleGroup, { limit: number; label: MessageKey }> = {
+  steer: { limit: 6000, label: 'axleGroup.steer' },
+  'double-steer': { limit: 12000, label: 'axleGroup.double-steer' },
+  single: { limit: 10000, label: 'axleGroup.single' },
+  tandem: { limit: 17000, label: 'axleGroup.tandem' },
+  tridem: { limit: 25500, label: 'axleGroup.tridem' },
+};
+
+const VIOLATION_LABELS: Record<WeightViolation['rule'], MessageKey> = {
+  capacity: 'violation.capacity',
+  'legal-gross': 'violation.legal-gross',
+  'legal-axle': 'violation.legal-axle',
+};
+
+// Axle groups from front to back for each configuration; the legal gross weight is their sum
+export const AXLE_CONFIGURATIONS: Record<AxleConfiguration, { label: MessageKey; groups: AxleGroup[] }> = {
+  '2C': { label: 'axle.2C', groups: ['steer', 'single'] },
+  '3C': { label: 'axle.3C', groups: ['steer', 'tandem'] },
+  '4C': { label: 'axle.4C', groups: ['double-steer', 'tandem'] },
+  '2S1': { label: 'axle.2S1', groups: ['steer', 'single', 'single'] },
+  '2S2': { label: 'axle.2S2', groups: ['steer', 'single', 'tandem'] },
+  '2S3': { label: 'axle.2S3', groups: ['steer', 'single', 'tridem'] },
+  '3S2': { label: 'axle.3S2', groups: ['steer', 'tandem', 'tandem'] },
+  '3S3': { label: 'axle.3S3', groups: ['steer', 'tandem', 'tridem'] },
+  '3T4': { label: 'axle.3T4', groups: ['steer', 'tandem', 'tandem', 'tandem'] },
+  '3T6': { label: 'axle.3T6', groups: ['steer', 'tandem', 'tandem', 'tandem', 'tandem'] },
+};
+
+// Tolerances from CONTRAN Res. 882/2021
+export const DEFAULT_VALIDATION_SETTINGS: WeightValidationSettings = {
+  grossTolerancePercent: 5,
+  axleTolerancePercent: 12.5,
+  capacityTolerancePercent: 0,
+  enforcement: 'override',
+};
+
+export const loadValidationSettings = (): WeightValidationSettings => readSetting(VALIDATION_SETTINGS_STORAGE_KEY, DEFAULT_VALIDATION_SETTINGS);
+
+export const saveValidationSettings = (settings: WeightValidationSettings): void => {
+  writeSetting(VALIDATION_SETTINGS_STORAGE_KEY, settings);
+};
+
+export const getLegalGrossLimit = (configuration: AxleConfiguration): number =>
+  AXLE_CONFIGURATIONS[configuration].groups.reduce((sum, group) => sum + AXLE_GROUP_LIMITS[group].limit, 0);
+
+const withTolerance = (limit: number, percent: number): number => Math.floor(limit * (1 + percent / 100));
+
+const check = (
+  rule: WeightViolation['rule'],
+  params: Record<string, string>,
+  limit: number,
+  tolerancePercent: number,
+  measured: number
+): WeightViolation | null => {
+  const allowed = withTolerance(limit, tolerancePercent);
+  return measured > allowed ? { rule, params, limit, allowed, measured, excess: measured - allowed } : null;
+};
+
+/**
+ * Axle groups of a configuration, front to back, with their legal load in kg
+ */
+export const getAxleGroups = (configuration: AxleConfiguration): { label: MessageKey; limit: number }[] =>
+  AXLE_CONFIGURATIONS[configuration].groups.map(group => AXLE_GROUP_LIMITS[group]);
+
+/**
+ * Names the limit a violation exceeded, in the language of the screen or of the ticket
+ */
+export const describeViolation = ({ t }: I18n, violation: WeightViolation): string => {
+  if (!violation.params) return violation.description ?? '';
+  const group = violation.params.group as AxleGroup | undefined;
+  return t(VIOLATION_LABELS[violation.rule], { ...violation.params, ...(group && { group: t(AXLE_GROUP_LIMITS[group].label) }) });
+};
+
+/**
+ * Checks a gross weighing against the vehicle's registered capacity and the legal limits of
+ * its configuration. Axle groups are checked for the weights entered from an axle-by-axle
+ * weighing (front to back, in the same order as AXLE_CONFIGURATIONS; null when not weighed).
+ */
+export const validateWeights = (
+  grossWeight: number,
+  truck: Truck,
+  settings: WeightValidationSettings = loadValidationSettings(),
+  axleGroupWeights?: (number | null)[]
+): WeightValidationResult => {
+  const violations: WeightViolation[] = [];
+  const configuration = truck.axleConfiguration ?? null;
+
+  const capacity = check('capacity', { plate: truck.plateNumber }, truck.maxCapacity, settings.capacityTolerancePercent, grossWeight);
+  if (capacity) violations.push(capacity);
+
+  let legalGrossLimit: number | null = null;
+  if (configuration) {
+    legalGrossLimit = getLegalGrossLimit(configuration);
+    const legal = check('legal-gross', { configuration }, legalGrossLimit, settings.grossTolerancePercent, grossWeight);
+    if (legal) violations.push(legal);
+
+    AXLE_CONFIGURATIONS[configuration].groups.forEach((group, index) => {
+      const measured = axleGroupWeights?.[index];
+      if (measured == null) return;
+      const axle = check('legal-axle', { index: String(index + 1), group }, AXLE_GROUP_LIMITS[group].limit, settings.axleTolerancePercent, measured);
+      if (axle) violations.push(axle);
+    });
+  }
+
+  return { checkedAt: Date.now(), measuredGross: grossWeight, axleConfiguration: configuration, legalGrossLimit, violations };
+};
+
+export const hasWeightViolations = (ticket: WeighingTicket): boolean =>
+  (ticket.weightValidation?.violations.length ?? 0) > 0;
+
+/**
+ * Whether a ticket may be closed and printed under the current enforcement policy.
+ */
+export const isTicketReleasable = (ticket: WeighingTicket, settings: WeightValidationSettings = loadValidationSettings()): boolean => {
+  if (!hasWeightViolations(ticket)) return true;
+  if (settings.enforcement === 'warn') return true;
+  if (settings.enforcement === 'override') return !!ticket.override;
+  return false;
+};
@@ -0,0 +1,90 @@
+// Minimal ZIP reader for carrier portal exports. Only what those archives use is supported:
+// stored (0) and deflated (8) entries, no encryption, no ZIP64. Errors carry the parse messages
+// of the XML import (parse.zip-*).
+
+import { localizedError } from './i18n';
+
+const EOCD_SIGNATURE = 0x06054b50; // End of central directory
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+export interface ZipEntry {
+  name: string; // Full path inside the archive
+  data: Uint8Array;
+}
+
+const inflateRaw = async (compressed: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The EOCD record is 22 bytes plus an optional comment of up to 65535 bytes
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw localizedError('parse.zip-corrupt');
+};
+
+export const isZipFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+
+/**
+ * Reads every file entry of a ZIP archive (directories are skipped).
+ * An optional filter avoids inflating entries that are not needed.
+ */
+export const readZipEntries = async (file: Blob, filter: (name: string) => boolean = () => true): Promise<ZipEntry[]> => {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const utf8 = new TextDecoder('utf-8');
+  const latin1 = new TextDecoder('latin1'); // Close enough to CP437 for file names
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw localizedError('parse.zip-corrupt');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    const name = (flags & FLAG_UTF8 ? utf8 : latin1).decode(nameBytes);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !filter(name)) continue;
+    if (flags & FLAG_ENCRYPTED) throw localizedError('parse.zip-encrypted', { name });
+
+    // Sizes in the local header may be zero (data descriptor), so only its lengths are used
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_SIGNATURE) {
+      throw localizedError('parse.zip-corrupt-entry', { name });
+    }
+    const dataStart = localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ name, data: compressed.slice() });
+    } else if (method === METHOD_DEFLATED) {
+      entries.push({ name, data: await inflateRaw(compressed) });
+    } else {
+      throw localizedError('parse.zip-unsupported-method', { method: String(method), name });
+    }
+  }
+
+  return entries;
+};
@@ -1,30 +1,494 @@
+// Brazilian vehicle configurations (DNIT classification), e.g. 3C = rigid truck with 3 axles,
+// 2S3 = 2-axle tractor with 3-axle semi-trailer
+export type AxleConfiguration = '2C' | '3C' | '4C' | '2S1' | '2S2' | '2S3' | '3S2' | '3S3' | '3T4' | '3T6';
+
+// Bookkeeping for the sync engine: revision is the last one acknowledged by the central server
+export interface SyncMetadata {
+  revision: number;
+  updatedAt: number; // Unix timestamp of the last local change
+  stationId: string; // Station that made the last change
+}
+
+export interface Driver {
+  name: string;
+  cpf: string; // 11 digits
+  cnh: string; // Driver's licence number, 11 digits
+}
+
 export interface Truck {
   truckId: string;
-  plateNumber: string;
+  plateNumber: string; // Tractor / rigid truck plate
+  trailerPlates: string[]; // Front to back
   tareWeight: number; // kg
-  maxCapacity: number; // kg
-  driverName?: string;
+  maxCapacity: number; // kg, manufacturer gross limit
+  axleConfiguration?: AxleConfiguration;
+  carrierName?: string;
+  carrierCnpj?: string;
+  rntrc?: string; // ANTT carrier registration
+  drivers: Driver[];
+  active: boolean; // Deactivated vehicles are kept for history but cannot be selected
+  sync?: SyncMetadata;
+}
+
+// exit-weighing: recorded by the second weighing of a ticket; manual: entered in the fleet registry
+export type TareSource = 'exit-weighing' | 'manual';
+
+export interface TareMeasurement {
+  id: string;
+  truckId: string;
+  plateNumber: string;
+  weight: number; // kg
+  measuredAt: number; // Unix timestamp
+  source: TareSource;
+  ticketId?: string; // Ticket whose exit weighing produced this tare
+  reading?: ScaleReading;
+  sync?: SyncMetadata;
+}
+
+export type TareExpiryAction = 'warn' | 'block';
+
+export interface TareSettings {
+  validityDays: number; // A tare older than this must be weighed again
+  expiredAction: TareExpiryAction; // block: an expired tare cannot close a ticket without an exit weighing
+}
+
+export interface TareStatus {
+  measurement: TareMeasurement | null; // Latest measurement, null when the vehicle was never weighed empty
+  expired: boolean;
+  ageDays: number | null;
+  expiresAt: number | null; // Unix timestamp
 }
 
-export type TicketStatus = 'Draft' | 'Printed' | 'Over-Capacity';
+export interface TareDriftReport {
+  truckId: string;
+  count: number;
+  first: TareMeasurement | null;
+  last: TareMeasurement | null;
+  min: number; // kg
+  max: number; // kg
+  drift: number; // kg, last - first
+  driftPercent: number; // Relative to the first measurement
+  kgPerMonth: number; // Linear trend (least squares), kg per 30 days
+}
+
+export interface ScaleReading {
+  weight: number; // kg, as reported by the indicator
+  stable: boolean;
+  capturedAt: number; // Unix timestamp
+  source: string; // Device / connection label (e.g. "Simulador", "ws://...")
+  rawFrame?: string; // Last frame received, escaped for storage
+  simulated?: boolean; // Replayed by the simulator, not weighed on the scale
+}
+
+// AwaitingExit: first (gross) weighing done, truck is inside the yard waiting for the tare weighing
+// Cancelled: voided by an operator; kept for history, never deleted
+export type TicketStatus = 'Draft' | 'AwaitingExit' | 'Printed' | 'Over-Capacity' | 'Cancelled';
+
+export interface TicketCancellation {
+  reason: string;
+  cancelledBy: string;
+  timestamp: number; // Unix timestamp
+  previousStatus: TicketStatus;
+  replacedByTicketId?: string; // Set when the ticket was cancelled by a correction
+  approvedBy?: string; // Supervisor who approved it with their PIN
+}
 
 export interface WeighingTicket {
   id?: string;
   invoiceId: string;
+  accessKey?: string; // 44-digit key of the fiscal document; identifies it across issuers
   netWeightInvoice: number; // kg
   truckId: string;
   truckPlateNumber: string;
   truckTareWeight: number; // kg
-  grossWeightCalculated: number; // kg
+  grossWeightCalculated: number; // kg (entry weighing)
   issueTimestamp: number; // Unix timestamp
   ticketStatus: TicketStatus;
+  entryReading?: ScaleReading; // First weighing (gross, loaded truck)
+  entryTimestamp?: number; // Unix timestamp
+  exitReading?: ScaleReading; // Second weighing (tare, empty truck)
+  exitTimestamp?: number; // Unix timestamp
+  netWeightMeasured?: number; // kg, entry - exit
+  signedPayload?: string; // Signed QR code content (see signatureService)
+  weightValidation?: WeightValidationResult; // Checked against the entry (gross) weighing
+  axleGroupWeights?: (number | null)[]; // kg per axle group, front to back, from an axle-by-axle weighing
+  override?: SupervisorOverride; // Authorises issuing a ticket with weight violations
+  duplicateOverride?: SupervisorOverride; // Authorises a second active ticket for the same document
+  tareMeasurementId?: string; // Tare history entry used for truckTareWeight (see tareHistory)
+  reprintCount?: number; // Copies printed from the history screen ("2ª via")
+  cancellation?: TicketCancellation; // Present when ticketStatus is 'Cancelled'
+  correctsTicketId?: string; // Original ticket this one replaces (correction)
+  productName?: string; // Predominant product of the fiscal document, for reports
+  carrierName?: string; // Carrier of the vehicle when the ticket was issued, empty for none; for reports
+  issuedBy?: TicketUser; // Operator logged in at the entry weighing, printed on the ticket
+  site?: SiteSettings; // Site data as printed when the ticket was issued
+  sync?: SyncMetadata;
+}
+
+export type TicketLayoutId = 'thermal-80' | 'a5' | 'a4-two-copies';
+
+// Languages with a message catalog (see locales/)
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+// Issuer of the ticket: one record per weighbridge (site)
+export interface SiteSettings {
+  siteId: string; // Short code, e.g. LAG
+  legalName: string; // Razão social
+  tradeName: string; // Name printed on the ticket header
+  cnpj: string; // Digits only
+  address: string; // Street and number
+  city: string;
+  state: string; // UF
+  logoDataUrl: string; // Empty when the site has no logo
+  scaleSerial: string; // Serial number of the weighbridge
+  inmetroSeal: string; // INMETRO seal number
+  footerText: string;
+  ticketLayout: TicketLayoutId; // Default layout for printing and PDF export
+  ticketLocale?: Locale; // Language of the printed ticket; pt-BR when unset
+}
+
+export interface TicketNumberingSettings {
+  siteCode: string; // Prefix of every ticket number, e.g. LAG
+  series: string; // Optional series inside the site; empty for the main series
+}
+
+// Plate read from a fiscal document: vehicle nodes (veic, veicTracao, veicReboque...) or ObsCont text
+export interface DocumentPlate {
+  plate: string; // Normalized (see plates.ts)
+  role: 'tractor' | 'trailer';
+  source: 'vehicle' | 'observation';
 }
 
 export interface ParsingResult {
   invoiceId: string | null;
   netWeight: number | null;
   invoiceDate?: string | null;
-  extractedPlate?: string | null;
+  extractedPlate?: string | null; // Tractor plate, normalized
+  documentPlates?: DocumentPlate[]; // Tractor first, then trailers
   filenameDate?: string | null;
-  error?: string;
-}
\ No newline at end of file
+  errors?: FiscalParseIssue[]; // Set when the document cannot be used for a ticket
+  document?: FiscalDocument | null; // Structured model behind the flat fields
+  issues?: FiscalParseIssue[];
+}
+export type AuditEventType = 'created' | 'printed' | 'reprinted' | 'edited' | 'cancelled' | 'approved';
+
+export interface AuditEntry {
+  sequence: number; // 1-based, contiguous
+  timestamp: number; // Unix timestamp
+  eventType: AuditEventType;
+  ticketId: string;
+  actor: string;
+  summary: string;
+  data?: Record<string, unknown>; // Snapshot or field changes
+  previousHash: string; // SHA-256 of the previous entry (hex)
+  hash: string; // SHA-256 of this entry, excluding this field (hex)
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  entryCount: number;
+  verifiedAt: number; // Unix timestamp
+  headHash: string | null;
+  problems: { sequence: number; code: AuditProblemCode; params?: Record<string, string> }[];
+}
+
+// Translated when displayed (locales: audit.problem.<code>)
+export type AuditProblemCode = 'sequence-gap' | 'chain-broken' | 'content-altered' | 'tail-removed' | 'head-missing';
+
+// Compact ticket fields carried in the signed QR code
+export interface SignedTicketFields {
+  v: number; // Payload version
+  k: string; // Signing key id
+  id: string;
+  inv: string; // invoiceId
+  pl: string; // truckPlateNumber
+  g: number; // Gross weight, kg
+  t: number; // Tare weight, kg
+  n: number; // Net weight, kg
+  ts: number; // issueTimestamp
+}
+
+export interface TrustedKey {
+  keyId: string;
+  label: string; // Site that issued the key
+  publicJwk: JsonWebKey;
+  importedAt: number; // Unix timestamp
+}
+
+export type TicketVerificationStatus = 'valid' | 'tampered' | 'cancelled' | 'unknown-key' | 'malformed';
+
+// Translated when displayed (locales: verify.result.<code>)
+export type TicketVerificationCode =
+  | 'not-a-ticket'
+  | 'undecodable'
+  | 'untrusted-key'
+  | 'bad-signature'
+  | 'local-mismatch'
+  | 'cancelled'
+  | 'cancelled-replaced'
+  | 'valid-local'
+  | 'valid-remote'
+  | 'verification-failed';
+
+export interface TicketVerificationResult {
+  status: TicketVerificationStatus;
+  code: TicketVerificationCode;
+  params?: Record<string, string>;
+  fields?: SignedTicketFields;
+  keyLabel?: string; // Label of the trusted key; absent for this station's own key
+  ownKey?: boolean;
+}
+
+// --- Fiscal documents (NF-e mod 55, CT-e mod 57, MDF-e mod 58) ---
+
+export type FiscalDocumentType = 'NFe' | 'CTe' | 'MDFe';
+
+export interface FiscalAddress {
+  street: string | null; // xLgr
+  number: string | null; // nro
+  complement: string | null; // xCpl
+  district: string | null; // xBairro
+  cityCode: string | null; // cMun (IBGE)
+  city: string | null; // xMun
+  state: string | null; // UF
+  zipCode: string | null; // CEP
+}
+
+export interface FiscalParty {
+  cnpj: string | null;
+  cpf: string | null;
+  name: string | null; // xNome
+  tradeName: string | null; // xFant
+  stateRegistration: string | null; // IE
+  address: FiscalAddress | null;
+}
+
+// CT-e infQ entry
+export interface CargoQuantity {
+  unitCode: string; // cUnid: 00 M3, 01 KG, 02 TON, 03 UNIDADE, 04 LITROS, 05 MMBTU
+  unitLabel: string | null; // null for a code outside the layout table
+  measureType: string; // tpMed, e.g. "PESO REAL"
+  quantity: number; // qCarga, in the unit above
+}
+
+// NF-e transp/vol entry
+export interface TransportedVolume {
+  quantity: number | null; // qVol
+  species: string | null; // esp
+  brand: string | null; // marca
+  numbering: string | null; // nVol
+  netWeight: number | null; // pesoL, kg
+  grossWeight: number | null; // pesoB, kg
+}
+
+export interface DocumentVehicle {
+  role: 'tractor' | 'trailer';
+  plate: string;
+  state: string | null; // UF
+  rntrc: string | null;
+  renavam: string | null;
+  tareWeight: number | null; // kg
+  capacityKg: number | null;
+}
+
+export interface FiscalDocument {
+  type: FiscalDocumentType;
+  model: '55' | '57' | '58';
+  accessKey: string | null; // 44 digits
+  number: string; // nNF / nCT / nMDF
+  series: string;
+  issueDate: string | null; // dhEmi (ISO 8601, as issued)
+  issuer: FiscalParty; // emit
+  sender: FiscalParty | null; // CT-e rem (shipper); null for NF-e / MDF-e
+  recipient: FiscalParty | null; // dest; MDF-e has none
+  quantities: CargoQuantity[];
+  volumes: TransportedVolume[];
+  predominantProduct: string | null;
+  cargoValue: number | null; // R$
+  vehicles: DocumentVehicle[];
+  netWeightKg: number | null; // Weight used for the ticket
+  weightSource: string | null; // Where netWeightKg came from, e.g. "infQ PESO REAL (01-KG)"
+  referencedKeys: string[]; // Access keys of documents carried (CT-e infNFe, MDF-e infDoc)
+}
+
+// Problems found while reading an upload or a fiscal document; the text lives in the message catalogs
+export type ParseIssueCode =
+  | 'file-unreadable'
+  | 'unsupported-file'
+  | 'zip-no-xml'
+  | 'zip-unreadable'
+  | 'zip-corrupt'
+  | 'zip-corrupt-entry'
+  | 'zip-encrypted'
+  | 'zip-unsupported-method'
+  | 'invalid-xml'
+  | 'unknown-document'
+  | 'model-mismatch'
+  | 'issuer-without-id'
+  | 'number-missing'
+  | 'series-missing'
+  | 'issue-date-missing'
+  | 'access-key-missing'
+  | 'access-key-check-digit'
+  | 'access-key-protocol-mismatch'
+  | 'access-key-uf-mismatch'
+  | 'access-key-period-mismatch'
+  | 'access-key-issuer-mismatch'
+  | 'access-key-model-mismatch'
+  | 'access-key-series-mismatch'
+  | 'access-key-number-mismatch'
+  | 'invalid-cargo-weight'
+  | 'invalid-plate'
+  | 'nfe-gross-weight-only'
+  | 'nfe-no-volume-weight'
+  | 'cte-without-cargo'
+  | 'cte-real-weight-missing'
+  | 'cte-no-weight-unit'
+  | 'cte-no-quantities'
+  | 'mdfe-tractor-missing'
+  | 'mdfe-total-weight-missing'
+  | 'mdfe-invalid-unit';
+
+export interface FiscalParseIssue {
+  severity: 'error' | 'warning';
+  documentType: FiscalDocumentType | null; // null when the type could not be detected
+  path: string | null; // Layout path involved, e.g. "infCte/ide/nCT"
+  code: ParseIssueCode;
+  params?: Record<string, string>; // Values interpolated into the message, e.g. { plate }
+}
+
+export interface FiscalParseOutcome {
+  document: FiscalDocument | null;
+  issues: FiscalParseIssue[];
+}
+
+// --- Batch XML import ---
+
+export type ImportItemStatus = 'pending' | 'ready' | 'error' | 'processed';
+
+export type VehicleSelectionCode = 'tractor-plate' | 'trailer-plate' | 'rule' | 'no-rule';
+
+// Why a vehicle was (or was not) picked for a document; translated when displayed
+export interface VehicleSelectionReason {
+  code: VehicleSelectionCode;
+  params?: Record<string, string>;
+}
+
+export interface ImportQueueItem {
+  id: string;
+  fileName: string;
+  archiveName?: string; // ZIP the file was extracted from
+  status: ImportItemStatus;
+  result?: ParsingResult;
+  matchedTruckId?: string | null;
+  matchReason?: VehicleSelectionReason;
+  ticketId?: string; // Ticket opened from this document
+}
+
+// --- Weight limits ---
+
+export type WeightViolationRule = 'capacity' | 'legal-gross' | 'legal-axle';
+
+export interface WeightViolation {
+  rule: WeightViolationRule;
+  params?: Record<string, string>; // Values interpolated into the rule's message, e.g. { plate } or { configuration }
+  description?: string; // Text stored by tickets validated before violations carried params
+  limit: number; // kg, before tolerance
+  allowed: number; // kg, limit + tolerance
+  measured: number; // kg
+  excess: number; // kg above the allowed weight
+}
+
+export interface WeightValidationResult {
+  checkedAt: number; // Unix timestamp
+  measuredGross: number; // kg
+  axleConfiguration: AxleConfiguration | null;
+  legalGrossLimit: number | null; // kg, before tolerance
+  violations: WeightViolation[];
+}
+
+export type WeightEnforcement = 'warn' | 'override' | 'block';
+
+export interface WeightValidationSettings {
+  grossTolerancePercent: number; // Tolerance on the legal gross weight (PBT/PBTC)
+  axleTolerancePercent: number; // Tolerance on each axle group
+  capacityTolerancePercent: number; // Tolerance on the vehicle's registered capacity
+  enforcement: WeightEnforcement; // What happens to tickets with violations
+}
+
+export interface SupervisorOverride {
+  supervisorName: string;
+  supervisorId?: string; // Account that approved with its PIN
+  reason: string;
+  timestamp: number; // Unix timestamp
+}
+
+// --- Vehicle classification ---
+
+// A rule points to a vehicle class (any active vehicle of that axle configuration) or one vehicle
+export type ClassificationTarget =
+  | { kind: 'class'; axleConfiguration: AxleConfiguration }
+  | { kind: 'vehicle'; truckId: string };
+
+// Empty conditions match any document; a rule without conditions is a catch-all
+export interface ClassificationRule {
+  id: string;
+  name: string;
+  priority: number; // Lower runs first; the first matching rule picks the vehicle
+  enabled: boolean;
+  minWeightKg: number | null; // Cargo weight above this (exclusive)
+  maxWeightKg: number | null; // Cargo weight up to this (inclusive)
+  shipperCnpj: string; // Digits; CT-e sender or NF-e issuer
+  product: string; // Part of the predominant product, case and accent insensitive
+  plate: string; // A plate found in the document
+  target: ClassificationTarget;
+}
+
+export interface ClassificationSettings {
+  rules: ClassificationRule[];
+}
+
+// --- Users and approvals ---
+
+export type UserRole = 'operator' | 'supervisor' | 'admin';
+
+export interface UserAccount {
+  userId: string; // Login, lower case
+  name: string; // Printed on tickets and recorded in the audit log
+  role: UserRole;
+  active: boolean;
+  passwordHash: string; // pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>
+  pinHash: string | null; // Approval PIN of supervisors and admins, same scheme
+  createdAt: number; // Unix timestamp
+}
+
+export interface AuthSettings {
+  users: UserAccount[];
+  lockAfterMinutes: number; // Inactivity before the session locks; 0 = never
+}
+
+export interface UserSession {
+  userId: string;
+  name: string;
+  role: UserRole;
+  startedAt: number; // Unix timestamp
+  lastActivityAt: number; // Unix timestamp
+  locked: boolean; // Needs the password again before anything else
+}
+
+export interface TicketUser {
+  userId: string;
+  name: string;
+}
+
+export type ApprovalAction = 'weight-override' | 'ticket-cancel' | 'ticket-correct' | 'tare-edit' | 'settings-change' | 'duplicate-document';
+
+// A supervisor's PIN confirmation of a sensitive action, also written to the audit log
+export interface SupervisorApproval {
+  action: ApprovalAction;
+  supervisorId: string;
+  supervisorName: string;
+  requestedBy: string | null; // userId of the session that asked for it
+  reason: string;
+  timestamp: number; // Unix timestamp
+}